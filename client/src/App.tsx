@@ -1,24 +1,35 @@
 import React, { useEffect } from 'react';
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { Provider } from 'react-redux';
 import { store } from './store';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { ToastProvider } from './contexts/ToastContext';
+import { VaultProvider, useVault } from './contexts/VaultContext';
 import { Login } from './components/pages/Login';
 import { Dashboard } from './components/pages/Dashboard';
 import { SharedView } from './components/pages/SharedView';
+import { Activity } from './components/pages/Activity';
+import { VaultLockScreen } from './components/features/vault';
 import { Loading } from './components/ui/Loading';
 import { initCsrfProtection } from './services/api';
 
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user, loading } = useAuth();
+  const { loading: vaultLoading, isUnlocked: vaultUnlocked } = useVault();
+  const location = useLocation();
 
-  if (loading) {
+  if (loading || (user && vaultLoading)) {
     return <Loading />;
   }
 
   if (!user) {
-    return <Navigate to="/login" replace />;
+    // Come back here after signing in (e.g. a "Shared with me" folder link)
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+  }
+
+  // Every session starts locked, so cards stay hidden until a passphrase is entered
+  if (!vaultUnlocked) {
+    return <VaultLockScreen />;
   }
 
   return <>{children}</>;
@@ -26,6 +37,8 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
 
 const AppContent: React.FC = () => {
   const { user, loading } = useAuth();
+  const location = useLocation();
+  const redirectTo = (location.state as { from?: string } | null)?.from || '/';
 
   return (
     <Routes>
@@ -36,10 +49,30 @@ const AppContent: React.FC = () => {
       <Route 
         path="/login" 
         element={
-          loading ? <Loading /> : user ? <Navigate to="/" replace /> : <Login />
+          loading ? <Loading /> : user ? <Navigate to={redirectTo} replace /> : <Login />
         } 
       />
       
+      {/* Folder shared with the signed-in user's email */}
+      <Route
+        path="/shared-with-me/:folderId"
+        element={
+          <ProtectedRoute>
+            <SharedView mode="recipient" />
+          </ProtectedRoute>
+        }
+      />
+
+      {/* Account activity log */}
+      <Route
+        path="/activity"
+        element={
+          <ProtectedRoute>
+            <Activity />
+          </ProtectedRoute>
+        }
+      />
+
       {/* Protected dashboard route */}
       <Route 
         path="/" 
@@ -67,11 +100,13 @@ function App() {
   return (
     <Provider store={store}>
       <AuthProvider>
-        <ToastProvider>
-          <Router>
-            <AppContent />
-          </Router>
-        </ToastProvider>
+        <VaultProvider>
+          <ToastProvider>
+            <Router>
+              <AppContent />
+            </Router>
+          </ToastProvider>
+        </VaultProvider>
       </AuthProvider>
     </Provider>
   );
@@ -0,0 +1,81 @@
+import { AuthBackend, AuthUser } from './types';
+
+const STORAGE_KEY = 'devAuthUser';
+const GOOGLE_DEV_EMAIL = 'dev@localhost';
+
+interface StoredDevUser {
+  uid: string;
+  email: string;
+  displayName: string | null;
+}
+
+const listeners = new Set<(user: AuthUser | null) => void>();
+
+/**
+ * Builds a user whose ID token is the development token the memory
+ * storage backend accepts ("dev:<uid>:<email>")
+ * Any email signs in and the password is not checked.
+ */
+const toAuthUser = ({ uid, email, displayName }: StoredDevUser): AuthUser => ({
+  uid,
+  email,
+  displayName,
+  photoURL: null,
+  providerData: [],
+  getIdToken: async () => `dev:${uid}:${email}`
+});
+
+const getStoredUser = (): AuthUser | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? toAuthUser(JSON.parse(stored)) : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+const signInAs = (email: string, displayName: string | null = null): AuthUser => {
+  const normalized = email.trim().toLowerCase();
+  if (!/^[^\s:@]+@[^\s:@]+$/.test(normalized)) {
+    throw new Error('Enter a valid email address');
+  }
+
+  // Same email, same uid, so data persists across sign-ins while the server runs
+  const stored: StoredDevUser = {
+    uid: normalized.replace(/[^a-z0-9_-]/g, '_').slice(0, 128),
+    email: normalized,
+    displayName
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+
+  const user = toAuthUser(stored);
+  listeners.forEach((listener) => listener(user));
+  return user;
+};
+
+export const devAuth: AuthBackend = {
+  onAuthChange: (callback) => {
+    listeners.add(callback);
+    callback(getStoredUser());
+    return () => {
+      listeners.delete(callback);
+    };
+  },
+
+  signInWithGoogle: async () => signInAs(GOOGLE_DEV_EMAIL, 'Developer'),
+
+  signInWithEmail: async (email) => signInAs(email),
+
+  signUpWithEmail: async (email, _password, name) => signInAs(email, name || null),
+
+  reauthenticate: async () => {
+    const user = getStoredUser();
+    if (!user) throw new Error('Not signed in');
+    return user;
+  },
+
+  signOut: async () => {
+    localStorage.removeItem(STORAGE_KEY);
+    listeners.forEach((listener) => listener(null));
+  }
+};
@@ -0,0 +1,45 @@
+import {
+  signInWithPopup,
+  signInWithEmailAndPassword,
+  createUserWithEmailAndPassword,
+  signOut as firebaseSignOut,
+  onAuthStateChanged,
+  updateProfile,
+  reauthenticateWithCredential,
+  reauthenticateWithPopup,
+  EmailAuthProvider
+} from 'firebase/auth';
+import { auth, googleProvider } from '../firebase/config';
+import { AuthBackend } from './types';
+
+export const firebaseAuth: AuthBackend = {
+  onAuthChange: (callback) => onAuthStateChanged(auth, callback),
+
+  signInWithGoogle: async () => (await signInWithPopup(auth, googleProvider)).user,
+
+  signInWithEmail: async (email, password) => (await signInWithEmailAndPassword(auth, email, password)).user,
+
+  signUpWithEmail: async (email, password, name) => {
+    const result = await createUserWithEmailAndPassword(auth, email, password);
+
+    // Update profile with display name if provided
+    if (name && result.user) {
+      await updateProfile(result.user, { displayName: name });
+    }
+    return result.user;
+  },
+
+  reauthenticate: async (password) => {
+    const user = auth.currentUser;
+    if (!user) throw new Error('Not signed in');
+
+    if (password !== undefined) {
+      await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email || '', password));
+    } else {
+      await reauthenticateWithPopup(user, googleProvider);
+    }
+    return user;
+  },
+
+  signOut: () => firebaseSignOut(auth)
+};
@@ -0,0 +1,19 @@
+import type { User } from 'firebase/auth';
+
+// The parts of a signed-in user the app reads, provided by either auth backend
+export type AuthUser = Pick<User, 'uid' | 'email' | 'displayName' | 'photoURL' | 'providerData' | 'getIdToken'>;
+
+/**
+ * Sign-in provider behind AuthContext
+ * VITE_AUTH_MODE selects it: 'firebase' (default) or 'dev' (no Firebase
+ * project, for a server running with STORAGE_BACKEND=memory)
+ */
+export interface AuthBackend {
+  onAuthChange: (callback: (user: AuthUser | null) => void) => () => void;
+  signInWithGoogle: () => Promise<AuthUser>;
+  signInWithEmail: (email: string, password: string) => Promise<AuthUser>;
+  signUpWithEmail: (email: string, password: string, name?: string) => Promise<AuthUser>;
+  // Confirms the signed-in user again: with their password, or with Google when omitted
+  reauthenticate: (password?: string) => Promise<AuthUser>;
+  signOut: () => Promise<void>;
+}
@@ -1,17 +1,55 @@
 import React, { useState, useEffect } from 'react';
-import { Card, CardType } from '../../../types/card';
+import { Card, CardImageSide, CardType, CardUpdate, ClientActivityAction, CopyableCardField, Gender } from '../../../types/card';
 import { useAuth } from '../../../contexts/AuthContext';
 import { useToastContext } from '../../../contexts/ToastContext';
-import { cardApi, extractApi } from '../../../services/api';
+import { activityApi, cardApi, extractApi } from '../../../services/api';
 import { Skeleton } from '../../ui/Skeleton';
+import { TagEditor } from './TagEditor';
+import { hasEncryptedFields } from '../../../utils/vaultCrypto';
+import {
+  GENDERS,
+  formatAadhaar,
+  formatDateOfBirth,
+  getCardImages,
+  getExpiryStatus,
+  getExtractedCardFields,
+  maskAadhaar,
+  pickFieldsForType,
+  validateCardField,
+} from '../../../utils/cardUtils';
 import './CardItem.css';
 
 interface CardItemProps {
   card: Card;
   onUpdate: () => void;
+  tagSuggestions?: string[]; // Tags used on the user's other cards
 }
 
-export const CardItem: React.FC<CardItemProps> = ({ card, onUpdate }) => {
+// Editable fields of every card type (unused ones are dropped on save)
+const toEditData = (card: Card): CardUpdate => ({
+  cardName: card.cardName || '',
+  cardNumber: card.cardNumber || '',
+  cardHolderName: card.cardHolderName || '',
+  expiryDate: card.expiryDate || '',
+  cvv: card.cvv || '',
+  bank: card.bank || '',
+  dateOfBirth: card.dateOfBirth || '',
+  gender: card.gender,
+  address: card.address || '',
+  fatherName: card.fatherName || '',
+  tags: card.tags || [],
+  type: card.type,
+});
+
+// Copy buttons' indicator keys mapped to the field reported in the activity log
+const COPY_FIELDS: Record<string, CopyableCardField> = {
+  number: 'cardNumber',
+  name: 'cardHolderName',
+  expiry: 'expiryDate',
+  cvv: 'cvv',
+};
+
+export const CardItem: React.FC<CardItemProps> = ({ card, onUpdate, tagSuggestions = [] }) => {
   const { idToken } = useAuth();
   const toast = useToastContext();
   const [reExtracting, setReExtracting] = useState(false);
@@ -21,48 +59,38 @@ export const CardItem: React.FC<CardItemProps> = ({ card, onUpdate }) => {
   const [isImageExpanded, setIsImageExpanded] = useState(false);
   const [displayImageUrl, setDisplayImageUrl] = useState<string | null>(null);
   const [loadingImage, setLoadingImage] = useState(false);
-  const [editData, setEditData] = useState<Partial<Card>>({
-    cardName: card.cardName || '',
-    cardNumber: card.cardNumber || '',
-    cardHolderName: card.cardHolderName || '',
-    expiryDate: card.expiryDate || '',
-    cvv: card.cvv || '',
-    bank: card.bank || '',
-    type: card.type,
-  });
-
-  // Load card image (handles encrypted images)
+  const [imageSide, setImageSide] = useState<CardImageSide>('front');
+  const cardImages = getCardImages(card);
+  const hasBackImage = cardImages.some((image) => image.side === 'back');
+  const [editData, setEditData] = useState<CardUpdate>(() => toEditData(card));
+  const [showFullNumber, setShowFullNumber] = useState(false);
+  const [showCvv, setShowCvv] = useState(false);
+
+  // Load card image for the selected side (handles encrypted images)
   useEffect(() => {
     const loadImage = async () => {
       if (!card.imageUrl || !idToken || !card.id) return;
       
       try {
         setLoadingImage(true);
-        const imageUrl = await cardApi.getCardImage(idToken, card.id);
+        const imageUrl = await cardApi.getCardImage(idToken, card.id, imageSide);
         setDisplayImageUrl(imageUrl);
       } catch (error) {
         // Fallback to direct URL if decryption fails
-        setDisplayImageUrl(card.imageUrl);
+        const image = getCardImages(card).find((candidate) => candidate.side === imageSide);
+        setDisplayImageUrl(image?.url || card.imageUrl);
       } finally {
         setLoadingImage(false);
       }
     };
     
     loadImage();
-  }, [card.imageUrl, card.id, idToken]);
+  }, [card.imageUrl, card.images, card.id, idToken, imageSide]);
 
   // Update editData when card prop changes
   useEffect(() => {
     if (!isEditing) {
-      setEditData({
-        cardName: card.cardName || '',
-        cardNumber: card.cardNumber || '',
-        cardHolderName: card.cardHolderName || '',
-        expiryDate: card.expiryDate || '',
-        cvv: card.cvv || '',
-        bank: card.bank || '',
-        type: card.type,
-      });
+      setEditData(toEditData(card));
     }
   }, [card, isEditing]);
 
@@ -86,10 +114,29 @@ export const CardItem: React.FC<CardItemProps> = ({ card, onUpdate }) => {
     };
   }, [isImageExpanded]);
 
+  // Reveals and copies happen on already-loaded data, so the browser reports them
+  const recordActivity = (action: ClientActivityAction, field?: CopyableCardField) => {
+    if (!idToken || !card.id) return;
+    activityApi.record(idToken, action, card.id, field).catch((error) => {
+      console.error('Failed to record activity:', error);
+    });
+  };
+
   const copyToClipboard = (text: string, type: string) => {
     navigator.clipboard.writeText(text);
     setCopied(type);
     setTimeout(() => setCopied(null), 2000);
+    recordActivity('card.copy', COPY_FIELDS[type]);
+  };
+
+  const toggleCvv = () => {
+    if (!showCvv) recordActivity('card.reveal_cvv');
+    setShowCvv((prev) => !prev);
+  };
+
+  const toggleFullNumber = () => {
+    if (!showFullNumber) recordActivity('card.reveal_number');
+    setShowFullNumber((prev) => !prev);
   };
 
   const formatCardNumber = (cardNumber: string): string => {
@@ -108,9 +155,9 @@ export const CardItem: React.FC<CardItemProps> = ({ card, onUpdate }) => {
 
     try {
       setReExtracting(true);
-      const extractedData = await extractApi.extract(idToken, card.imageUrl, card.id);
+      const extractedData = await extractApi.extract(idToken, hasBackImage ? cardImages : card.imageUrl);
       await cardApi.update(idToken, card.id, {
-        ...extractedData,
+        ...getExtractedCardFields(extractedData),
         extractionStatus: 'completed'
       });
       onUpdate();
@@ -157,29 +204,13 @@ export const CardItem: React.FC<CardItemProps> = ({ card, onUpdate }) => {
   };
 
   const handleEdit = () => {
-    setEditData({
-      cardName: card.cardName || '',
-      cardNumber: card.cardNumber || '',
-      cardHolderName: card.cardHolderName || '',
-      expiryDate: card.expiryDate || '',
-      cvv: card.cvv || '',
-      bank: card.bank || '',
-      type: card.type,
-    });
+    setEditData(toEditData(card));
     setIsEditing(true);
   };
 
   const handleCancel = () => {
     setIsEditing(false);
-    setEditData({
-      cardName: card.cardName || '',
-      cardNumber: card.cardNumber || '',
-      cardHolderName: card.cardHolderName || '',
-      expiryDate: card.expiryDate || '',
-      cvv: card.cvv || '',
-      bank: card.bank || '',
-      type: card.type,
-    });
+    setEditData(toEditData(card));
   };
 
   const handleSave = async () => {
@@ -194,17 +225,30 @@ export const CardItem: React.FC<CardItemProps> = ({ card, onUpdate }) => {
       // Clean CVV - remove spaces
       const cleanedCvv = editData.cvv?.replace(/\s/g, '') || '';
       
-      // Prepare update data
-      const updateData: Partial<Card> = {
+      // Aadhaar and PAN numbers are checked before saving
+      const type = editData.type || card.type;
+      const documentNumber = type === 'pan' ? cleanedCardNumber.toUpperCase() : cleanedCardNumber;
+      const numberCheck = validateCardField(type, 'cardNumber', documentNumber);
+      if ((type === 'aadhar' || type === 'pan') && !numberCheck.valid) {
+        toast.error(numberCheck.message || 'Invalid document number');
+        return;
+      }
+
+      // Prepare update data (only the fields of the selected type are kept)
+      const updateData: CardUpdate = pickFieldsForType(type, {
         ...editData,
-        cardNumber: cleanedCardNumber || undefined,
+        cardNumber: documentNumber || undefined,
         cvv: cleanedCvv || undefined,
         // Remove empty strings
         cardName: editData.cardName?.trim() || undefined,
         cardHolderName: editData.cardHolderName?.trim() || undefined,
         expiryDate: editData.expiryDate?.trim() || undefined,
         bank: editData.bank?.trim() || undefined,
-      };
+        dateOfBirth: editData.dateOfBirth || undefined,
+        gender: editData.gender || undefined,
+        address: editData.address?.trim() || undefined,
+        fatherName: editData.fatherName?.trim() || undefined,
+      });
 
       await cardApi.update(idToken, card.id, updateData);
       setIsEditing(false);
@@ -218,13 +262,16 @@ export const CardItem: React.FC<CardItemProps> = ({ card, onUpdate }) => {
     }
   };
 
-  const handleInputChange = (field: keyof Card, value: string | CardType) => {
+  const handleInputChange = (field: keyof CardUpdate, value: string | CardType | Gender) => {
     setEditData(prev => ({
       ...prev,
       [field]: value,
     }));
   };
 
+  // Sensitive fields still hold vault ciphertext (vault locked or wrong key)
+  const fieldsLocked = hasEncryptedFields(card);
+
   const isExtracting = card.extractionStatus === 'processing' || 
                        card.extractionStatus === 'pending' ||
                        reExtracting;
@@ -305,6 +352,16 @@ export const CardItem: React.FC<CardItemProps> = ({ card, onUpdate }) => {
               />
             </div>
 
+            <div className="form-group">
+              <label htmlFor="edit-tags">Tags:</label>
+              <TagEditor
+                tags={editData.tags || []}
+                onChange={(tags) => setEditData(prev => ({ ...prev, tags }))}
+                suggestions={tagSuggestions}
+                disabled={isSaving}
+              />
+            </div>
+
             {(editData.type === 'credit' || editData.type === 'debit') && (
               <>
                 <div className="form-group">
@@ -361,32 +418,90 @@ export const CardItem: React.FC<CardItemProps> = ({ card, onUpdate }) => {
             )}
 
             {(editData.type === 'aadhar' || editData.type === 'pan') && (
-              <div className="form-group">
-                <label htmlFor="edit-cardHolderName">Name:</label>
-                <input
-                  id="edit-cardHolderName"
-                  type="text"
-                  value={editData.cardHolderName}
-                  onChange={(e) => handleInputChange('cardHolderName', e.target.value)}
-                  className="form-input"
-                  placeholder="Full name"
-                />
-              </div>
-            )}
+              <>
+                <div className="form-group">
+                  <label htmlFor="edit-cardNumber">{editData.type === 'aadhar' ? 'Aadhaar Number:' : 'PAN Number:'}</label>
+                  <input
+                    id="edit-cardNumber"
+                    type="text"
+                    value={editData.cardNumber}
+                    onChange={(e) => handleInputChange('cardNumber', e.target.value)}
+                    className="form-input"
+                    placeholder={editData.type === 'aadhar' ? '12 digits' : 'ABCDE1234F'}
+                    maxLength={editData.type === 'aadhar' ? 14 : 10}
+                  />
+                </div>
 
-            {editData.type === 'pan' && (
-              <div className="form-group">
-                <label htmlFor="edit-cardNumber">PAN Number:</label>
-                <input
-                  id="edit-cardNumber"
-                  type="text"
-                  value={editData.cardNumber}
-                  onChange={(e) => handleInputChange('cardNumber', e.target.value)}
-                  className="form-input"
-                  placeholder="PAN number"
-                  maxLength={10}
-                />
-              </div>
+                <div className="form-group">
+                  <label htmlFor="edit-cardHolderName">Name:</label>
+                  <input
+                    id="edit-cardHolderName"
+                    type="text"
+                    value={editData.cardHolderName}
+                    onChange={(e) => handleInputChange('cardHolderName', e.target.value)}
+                    className="form-input"
+                    placeholder="Full name"
+                  />
+                </div>
+
+                {editData.type === 'pan' && (
+                  <div className="form-group">
+                    <label htmlFor="edit-fatherName">Father's Name:</label>
+                    <input
+                      id="edit-fatherName"
+                      type="text"
+                      value={editData.fatherName}
+                      onChange={(e) => handleInputChange('fatherName', e.target.value)}
+                      className="form-input"
+                      placeholder="As printed on the card"
+                    />
+                  </div>
+                )}
+
+                <div className="form-group">
+                  <label htmlFor="edit-dateOfBirth">Date of Birth:</label>
+                  <input
+                    id="edit-dateOfBirth"
+                    type="date"
+                    value={editData.dateOfBirth}
+                    onChange={(e) => handleInputChange('dateOfBirth', e.target.value)}
+                    className="form-input"
+                  />
+                </div>
+
+                {editData.type === 'aadhar' && (
+                  <>
+                    <div className="form-group">
+                      <label htmlFor="edit-gender">Gender:</label>
+                      <select
+                        id="edit-gender"
+                        value={editData.gender || ''}
+                        onChange={(e) => handleInputChange('gender', e.target.value)}
+                        className="form-input"
+                      >
+                        <option value="">Not specified</option>
+                        {GENDERS.map((gender) => (
+                          <option key={gender} value={gender}>
+                            {gender.charAt(0).toUpperCase() + gender.slice(1)}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div className="form-group">
+                      <label htmlFor="edit-address">Address:</label>
+                      <textarea
+                        id="edit-address"
+                        rows={3}
+                        value={editData.address}
+                        onChange={(e) => handleInputChange('address', e.target.value)}
+                        className="form-input"
+                        placeholder="Address as printed on the card"
+                      />
+                    </div>
+                  </>
+                )}
+              </>
             )}
 
             <div className="form-actions">
@@ -411,6 +526,8 @@ export const CardItem: React.FC<CardItemProps> = ({ card, onUpdate }) => {
     );
   }
 
+  const expiryStatus = getExpiryStatus(card);
+
   return (
     <>
       <div className="card-item">
@@ -420,7 +537,7 @@ export const CardItem: React.FC<CardItemProps> = ({ card, onUpdate }) => {
               <div className="skeleton-loader" style={{ width: '100%', height: '200px', borderRadius: '8px', background: 'linear-gradient(90deg, #f0f0f0 25%, #e0e0e0 50%, #f0f0f0 75%)', backgroundSize: '200% 100%', animation: 'loading 1.5s ease-in-out infinite' }} />
             ) : displayImageUrl ? (
               <>
-                <img src={displayImageUrl} alt={card.cardName || card.type} />
+                <img src={displayImageUrl} alt={`${card.cardName || card.type} (${imageSide})`} />
                 <button 
                   className="expand-image-btn" 
                   onClick={() => setIsImageExpanded(true)}
@@ -430,16 +547,46 @@ export const CardItem: React.FC<CardItemProps> = ({ card, onUpdate }) => {
                 </button>
               </>
             ) : null}
+            {hasBackImage && (
+              <div className="image-side-toggle">
+                {(['front', 'back'] as CardImageSide[]).map((side) => (
+                  <button
+                    key={side}
+                    className={imageSide === side ? 'active' : ''}
+                    onClick={() => setImageSide(side)}
+                  >
+                    {side === 'front' ? 'Front' : 'Back'}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         )}
         
         <div className="card-details">
         <div className="card-header">
           <h3>{card.cardName || card.type.toUpperCase()}</h3>
+          {expiryStatus === 'expired' && <span className="expiry-badge expired">Expired</span>}
+          {expiryStatus === 'expiring' && <span className="expiry-badge expiring">Expiring soon</span>}
           {card.bank && <span className="bank-badge">{card.bank}</span>}
         </div>
 
-        {(card.type === 'credit' || card.type === 'debit') && (
+        {card.tags && card.tags.length > 0 && (
+          <div className="card-tags">
+            {card.tags.map((tag) => (
+              <span key={tag} className="card-tag">{tag}</span>
+            ))}
+          </div>
+        )}
+
+        {fieldsLocked && (
+          <div className="locked-fields-notice">
+            <span className="material-symbols-outlined">lock</span>
+            <span>Card details are encrypted. Unlock your vault to view them.</span>
+          </div>
+        )}
+
+        {(card.type === 'credit' || card.type === 'debit') && !fieldsLocked && (
           <>
             {card.cardNumber && (
               <div className="detail-row">
@@ -496,7 +643,14 @@ export const CardItem: React.FC<CardItemProps> = ({ card, onUpdate }) => {
               <div className="detail-row">
                 <span className="label">CVV:</span>
                 <div className="value-with-copy">
-                  <span>{card.cvv}</span>
+                  <span>{showCvv ? card.cvv : '•'.repeat(card.cvv.length)}</span>
+                  <button
+                    onClick={toggleCvv}
+                    className="copy-btn"
+                    title={showCvv ? 'Hide CVV' : 'Show CVV'}
+                  >
+                    <span className="material-symbols-outlined">{showCvv ? 'visibility_off' : 'visibility'}</span>
+                  </button>
                   <button
                     onClick={() => copyToClipboard(card.cvv!, 'cvv')}
                     className="copy-btn"
@@ -519,18 +673,74 @@ export const CardItem: React.FC<CardItemProps> = ({ card, onUpdate }) => {
           </>
         )}
 
-        {card.type === 'aadhar' && card.cardHolderName && (
-          <div className="detail-row">
-            <span className="label">Name:</span>
-            <span>{card.cardHolderName}</span>
-          </div>
-        )}
+        {(card.type === 'aadhar' || card.type === 'pan') && (
+          <>
+            {card.cardNumber && !fieldsLocked && (
+              <div className="detail-row">
+                <span className="label">{card.type === 'aadhar' ? 'Aadhaar Number:' : 'PAN Number:'}</span>
+                <div className="value-with-copy">
+                  {/* Aadhaar numbers stay masked to the last 4 digits unless revealed */}
+                  <span>
+                    {card.type === 'aadhar'
+                      ? (showFullNumber ? formatAadhaar(card.cardNumber) : maskAadhaar(card.cardNumber))
+                      : card.cardNumber}
+                  </span>
+                  {card.type === 'aadhar' && (
+                    <button
+                      onClick={toggleFullNumber}
+                      className="copy-btn"
+                      title={showFullNumber ? 'Hide number' : 'Show full number'}
+                    >
+                      <span className="material-symbols-outlined">{showFullNumber ? 'visibility_off' : 'visibility'}</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => copyToClipboard(card.cardNumber!, 'number')}
+                    className="copy-btn"
+                    title="Copy"
+                  >
+                    <span className="material-symbols-outlined">content_copy</span>
+                    {copied === 'number' && <span className="copied-indicator">Copied!</span>}
+                  </button>
+                </div>
+              </div>
+            )}
 
-        {card.type === 'pan' && card.cardNumber && (
-          <div className="detail-row">
-            <span className="label">PAN Number:</span>
-            <span>{card.cardNumber}</span>
-          </div>
+            {card.cardHolderName && (
+              <div className="detail-row">
+                <span className="label">Name:</span>
+                <span>{card.cardHolderName}</span>
+              </div>
+            )}
+
+            {card.type === 'pan' && card.fatherName && !fieldsLocked && (
+              <div className="detail-row">
+                <span className="label">Father's Name:</span>
+                <span>{card.fatherName}</span>
+              </div>
+            )}
+
+            {card.dateOfBirth && !fieldsLocked && (
+              <div className="detail-row">
+                <span className="label">Date of Birth:</span>
+                <span>{formatDateOfBirth(card.dateOfBirth)}</span>
+              </div>
+            )}
+
+            {card.type === 'aadhar' && card.gender && (
+              <div className="detail-row">
+                <span className="label">Gender:</span>
+                <span className="document-gender">{card.gender}</span>
+              </div>
+            )}
+
+            {card.type === 'aadhar' && card.address && !fieldsLocked && (
+              <div className="detail-row">
+                <span className="label">Address:</span>
+                <span className="document-address">{card.address}</span>
+              </div>
+            )}
+          </>
         )}
 
         {card.imageUrl && card.extractionStatus === 'completed' && (
@@ -553,7 +763,12 @@ export const CardItem: React.FC<CardItemProps> = ({ card, onUpdate }) => {
         )}
 
         <div className="card-actions">
-          <button onClick={handleEdit} className="edit-btn" title="Edit card">
+          <button
+            onClick={handleEdit}
+            className="edit-btn"
+            title={fieldsLocked ? 'Unlock your vault to edit' : 'Edit card'}
+            disabled={fieldsLocked}
+          >
             <span className="material-symbols-outlined">edit</span> Edit
           </button>
           <button onClick={handleDelete} className="delete-btn" title="Delete card">
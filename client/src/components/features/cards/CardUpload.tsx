@@ -1,67 +1,90 @@
 import React, { useState, useRef } from 'react';
 import { useAuth } from '../../../contexts/AuthContext';
 import { useToastContext } from '../../../contexts/ToastContext';
-import { uploadImage } from '../../../utils/storage';
-import { cardApi, extractApi, isRateLimitError } from '../../../services/api';
-import { Card } from '../../../types/card';
+import { uploadImage, deleteImage } from '../../../utils/storage';
+import { pickFieldsForType } from '../../../utils/cardUtils';
+import { cardApi, extractApi, getDuplicateCard, isRateLimitError } from '../../../services/api';
+import { Card, CardImage, CardUpdate, DuplicateCard, ExtractionResult } from '../../../types/card';
 import { ProgressBar } from '../../ui/ProgressBar';
 import { ManualEntryModal, ManualEntryData } from './ManualEntryModal';
+import { CsvImportModal } from './CsvImportModal';
+import { ExtractionReviewModal } from './ExtractionReviewModal';
+import { DuplicateCardModal, DuplicateResolution } from './DuplicateCardModal';
 import './CardUpload.css';
 
 interface CardUploadProps {
   onUploadComplete: (card: Card) => void;
+  onImportComplete?: (importedCount: number) => void;
 }
 
-export const CardUpload: React.FC<CardUploadProps> = ({ onUploadComplete }) => {
+export const CardUpload: React.FC<CardUploadProps> = ({ onUploadComplete, onImportComplete }) => {
   const { user, idToken } = useAuth();
   const toast = useToastContext();
-  const [showOptions, setShowOptions] = useState(true);
   const [uploading, setUploading] = useState(false);
   const [extracting, setExtracting] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [extractProgress, setExtractProgress] = useState(0);
-  const [currentCard, setCurrentCard] = useState<Card | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [review, setReview] = useState<{ result: ExtractionResult; images: CardImage[] } | null>(null);
+  const [savingReview, setSavingReview] = useState(false);
   const [showManualModal, setShowManualModal] = useState(false);
+  const [showCsvModal, setShowCsvModal] = useState(false);
+  // A save rejected because the number is already in the vault, waiting for the user's choice
+  const [duplicate, setDuplicate] = useState<{ existing: DuplicateCard; card: CardUpdate; source: 'review' | 'manual' } | null>(null);
+  const [resolvingDuplicate, setResolvingDuplicate] = useState<DuplicateResolution | null>(null);
+  const [frontFile, setFrontFile] = useState<File | null>(null);
+  const [frontPreview, setFrontPreview] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFileSelect = async (file: File) => {
+  const resetCapture = () => {
+    if (frontPreview) {
+      URL.revokeObjectURL(frontPreview);
+    }
+    setFrontFile(null);
+    setFrontPreview(null);
+  };
+
+  const resetUpload = () => {
+    setUploading(false);
+    setExtracting(false);
+    setUploadProgress(0);
+    setExtractProgress(0);
+    setPreviewUrl(null);
+  };
+
+  const handleFileSelect = async (file: File, backFile?: File) => {
     if (!user || !idToken) return;
 
     try {
       setUploading(true);
       setExtracting(false);
-      setShowOptions(false);
       setUploadProgress(0);
       setExtractProgress(0);
-      setCurrentCard(null);
+      setPreviewUrl(null);
 
-      // Upload image to Firebase Storage with compression
+      // Upload front (and back) images to Firebase Storage with compression
       // Progress callback updates the UI in real-time
-      const imageUrl = await uploadImage(file, user.uid, {
-        compress: true, // Enable compression (~25% reduction, maintains OCR quality)
-        onProgress: (stage, progress) => {
-          if (stage === 'compressing') {
-            // Compression takes 0-50% of progress bar
-            setUploadProgress(Math.floor(progress * 0.5));
-          } else if (stage === 'uploading') {
-            // Upload takes 50-100% of progress bar
-            setUploadProgress(50 + Math.floor(progress * 0.5));
+      const files = backFile ? [file, backFile] : [file];
+      const images: CardImage[] = [];
+      for (let i = 0; i < files.length; i++) {
+        const share = 100 / files.length;
+        const url = await uploadImage(files[i], idToken, {
+          compress: true, // Enable compression (~25% reduction, maintains OCR quality)
+          onProgress: (stage, progress) => {
+            if (stage === 'compressing') {
+              // Compression takes the first half of this image's share
+              setUploadProgress(Math.floor(i * share + progress * share * 0.5));
+            } else if (stage === 'uploading') {
+              // Upload takes the second half
+              setUploadProgress(Math.floor(i * share + share * 0.5 + progress * share * 0.5));
+            }
           }
-        }
-      });
+        });
+        images.push({ side: i === 0 ? 'front' : 'back', url });
+      }
       setUploadProgress(100);
-
-      // Create card entry immediately
-      const card = await cardApi.create(idToken, {
-        userId: user.uid,
-        type: 'other', // Will be updated after extraction
-        imageUrl,
-        extractionStatus: 'processing'
-      });
-
-      setCurrentCard(card);
-      onUploadComplete(card); // Show card immediately
+      setPreviewUrl(images[0].url);
 
       // Start extraction
       setUploading(false);
@@ -80,18 +103,13 @@ export const CardUpload: React.FC<CardUploadProps> = ({ onUploadComplete }) => {
       }, 300);
 
       try {
-        const extractedData = await extractApi.extract(idToken, imageUrl, card.id);
+        // Fields from both sides are merged into one result. Nothing is saved
+        // until the user has reviewed it.
+        const result = await extractApi.extract(idToken, images);
         setExtractProgress(100);
         clearInterval(extractInterval);
-        
-        // Update card with extracted data
-        const updatedCard = await cardApi.update(idToken, card.id!, {
-          ...extractedData,
-          extractionStatus: 'completed'
-        });
-        
-        setCurrentCard(updatedCard);
-        onUploadComplete(updatedCard);
+        setExtracting(false);
+        setReview({ result, images });
       } catch (error: any) {
         clearInterval(extractInterval);
         setExtractProgress(0);
@@ -99,27 +117,20 @@ export const CardUpload: React.FC<CardUploadProps> = ({ onUploadComplete }) => {
         // Check if it's a rate limit error
         if (isRateLimitError(error)) {
           toast.error(error.message || 'Rate limit exceeded. You have reached the maximum number of extractions (10 per hour). Please try again later.');
-          await cardApi.update(idToken, card.id!, {
-            extractionStatus: 'failed'
-          });
         } else {
           toast.error('Extraction failed. Please try re-extracting or editing the card manually.');
-          await cardApi.update(idToken, card.id!, {
-            extractionStatus: 'failed'
-          });
         }
-        
-        const failedCard = await cardApi.getById(idToken, card.id!);
-        setCurrentCard(failedCard);
+
+        // Keep the images so the card can be re-extracted later
+        const failedCard = await cardApi.create(idToken, {
+          userId: user.uid,
+          type: 'other',
+          imageUrl: images[0].url,
+          images,
+          extractionStatus: 'failed'
+        });
         onUploadComplete(failedCard);
-      } finally {
-        setExtracting(false);
-        setTimeout(() => {
-          setShowOptions(true);
-          setUploadProgress(0);
-          setExtractProgress(0);
-          setCurrentCard(null);
-        }, 2000);
+        resetUpload();
       }
     } catch (error: any) {
       // Show appropriate error message
@@ -129,11 +140,78 @@ export const CardUpload: React.FC<CardUploadProps> = ({ onUploadComplete }) => {
         toast.error('Failed to upload card. Please try again.');
       }
       
-      setShowOptions(true);
-      setUploading(false);
-      setExtracting(false);
-      setUploadProgress(0);
-      setExtractProgress(0);
+      resetUpload();
+    }
+  };
+
+  // Finish saving a reviewed card once it has been created or merged
+  const completeReviewSave = async (saved: Card, message: string) => {
+    let card = saved;
+
+    // Images are encrypted once the card exists (the server skips this
+    // when encryption is disabled)
+    if (card.images?.some((image) => !image.encrypted)) {
+      try {
+        await cardApi.encryptImage(idToken, card.id!);
+        card = await cardApi.getById(idToken, card.id!);
+      } catch (error) {
+        toast.warning('Card saved, but its images could not be encrypted.');
+      }
+    }
+
+    toast.success(message);
+    onUploadComplete(card);
+    setReview(null);
+    resetUpload();
+  };
+
+  const completeManualSave = (card: Card, message: string) => {
+    setShowManualModal(false);
+    toast.success(message);
+    onUploadComplete(card);
+  };
+
+  const handleReviewSave = async (fields: CardUpdate) => {
+    if (!user || !idToken || !review) return;
+
+    const cardData: CardUpdate = {
+      ...fields,
+      userId: user.uid,
+      type: fields.type || 'other',
+      imageUrl: review.images[0].url,
+      images: review.images,
+      extractionStatus: 'completed',
+      extractionProvider: review.result.extractionProvider
+    };
+
+    try {
+      setSavingReview(true);
+      const card = await cardApi.create(idToken, cardData);
+      await completeReviewSave(card, 'Card saved');
+    } catch (error: any) {
+      const existing = getDuplicateCard(error);
+      if (existing) {
+        setDuplicate({ existing, card: cardData, source: 'review' });
+      } else if (isRateLimitError(error)) {
+        toast.error(error.message || 'Rate limit exceeded. Please try again later.');
+      } else {
+        toast.error('Failed to save card. Please try again.');
+      }
+    } finally {
+      setSavingReview(false);
+    }
+  };
+
+  const handleReviewDiscard = async () => {
+    if (!review) return;
+
+    const { images } = review;
+    setReview(null);
+    resetUpload();
+
+    const deleted = await Promise.allSettled(images.map((image) => deleteImage(idToken, image.url)));
+    if (deleted.some((outcome) => outcome.status === 'rejected')) {
+      toast.warning('Card discarded, but some uploaded images could not be deleted.');
     }
   };
 
@@ -145,13 +223,29 @@ export const CardUpload: React.FC<CardUploadProps> = ({ onUploadComplete }) => {
     cameraInputRef.current?.click();
   };
 
+  // The first photo is the front; then the user can add the back or skip
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      handleFileSelect(file);
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    if (!frontFile) {
+      setFrontFile(file);
+      setFrontPreview(URL.createObjectURL(file));
+    } else {
+      const front = frontFile;
+      resetCapture();
+      handleFileSelect(front, file);
     }
   };
 
+  const handleSkipBack = () => {
+    if (!frontFile) return;
+    const front = frontFile;
+    resetCapture();
+    handleFileSelect(front);
+  };
+
   const handleManualEntry = () => {
     setShowManualModal(true);
   };
@@ -159,11 +253,11 @@ export const CardUpload: React.FC<CardUploadProps> = ({ onUploadComplete }) => {
   const handleManualSubmit = async (data: ManualEntryData) => {
     if (!user || !idToken) return;
 
-    try {
-      let cardData: any = {
-        userId: user.uid,
-      };
+    let cardData: any = {
+      userId: user.uid,
+    };
 
+    try {
       if (data.entryType === 'card') {
         // Card entry
         cardData = {
@@ -177,26 +271,73 @@ export const CardUpload: React.FC<CardUploadProps> = ({ onUploadComplete }) => {
           extractionStatus: 'completed',
         };
       } else {
-        // Document entry
-        cardData = {
+        // Document entry - Aadhaar and PAN keep their document fields
+        const type = data.documentType === 'aadhar' ? 'aadhar' : data.documentType === 'pan' ? 'pan' : 'other';
+        cardData = pickFieldsForType(type, {
           ...cardData,
-          type: data.documentType === 'aadhar' ? 'aadhar' : data.documentType === 'pan' ? 'pan' : 'other',
+          type,
           cardName: data.documentName,
-          cardNumber: data.idNumber,
-          cardHolderName: data.notes,
+          cardNumber: type === 'pan' ? data.idNumber?.toUpperCase() : data.idNumber?.replace(/\s/g, ''),
+          cardHolderName: type === 'other' ? data.notes : data.holderName,
+          dateOfBirth: data.dateOfBirth || undefined,
+          gender: data.gender || undefined,
+          address: data.address?.trim() || undefined,
+          fatherName: data.fatherName?.trim() || undefined,
           extractionStatus: 'completed',
-        };
+        });
       }
 
       const card = await cardApi.create(idToken, cardData);
-      setShowManualModal(false);
-      toast.success('Entry created successfully');
-      onUploadComplete(card);
+      completeManualSave(card, 'Entry created successfully');
     } catch (error) {
-      toast.error('Failed to create entry. Please try again.');
+      const existing = getDuplicateCard(error);
+      if (existing) {
+        setDuplicate({ existing, card: cardData, source: 'manual' });
+      } else {
+        toast.error('Failed to create entry. Please try again.');
+      }
+    }
+  };
+
+  // Cancelling returns to the review or manual entry form with nothing saved
+  const handleDuplicateResolve = async (resolution: DuplicateResolution) => {
+    if (!idToken || !duplicate) return;
+
+    const { existing, card, source } = duplicate;
+    try {
+      setResolvingDuplicate(resolution);
+      const saved = resolution === 'merge'
+        ? await cardApi.merge(idToken, existing.id, card)
+        : await cardApi.create(idToken, card, { allowDuplicate: true });
+      setDuplicate(null);
+
+      const message = resolution === 'merge' ? 'Merged into the existing card' : source === 'review' ? 'Card saved' : 'Entry created successfully';
+      if (source === 'review') {
+        await completeReviewSave(saved, message);
+      } else {
+        completeManualSave(saved, message);
+      }
+    } catch (error: any) {
+      if (isRateLimitError(error)) {
+        toast.error(error.message || 'Rate limit exceeded. Please try again later.');
+      } else {
+        toast.error(resolution === 'merge' ? 'Failed to merge cards. Please try again.' : 'Failed to save card. Please try again.');
+      }
+    } finally {
+      setResolvingDuplicate(null);
     }
   };
 
+  const duplicateModal = duplicate && (
+    <DuplicateCardModal
+      isOpen={true}
+      duplicate={duplicate.existing}
+      busy={resolvingDuplicate}
+      onResolve={handleDuplicateResolve}
+      onCancel={() => setDuplicate(null)}
+    />
+  );
+
   if (uploading || extracting) {
     return (
       <div className="card-upload">
@@ -213,17 +354,103 @@ export const CardUpload: React.FC<CardUploadProps> = ({ onUploadComplete }) => {
             label="Extracting card details with AI..."
           />
         )}
-        {currentCard && currentCard.imageUrl && (
+        {previewUrl && (
           <div className="uploaded-card-preview">
-            <img src={currentCard.imageUrl} alt="Uploaded card" />
+            <img src={previewUrl} alt="Uploaded card" />
           </div>
         )}
       </div>
     );
   }
 
-  if (!showOptions && currentCard) {
-    return null; // Card is being displayed in main area
+  // Step 3: review the extracted fields before the card is saved
+  if (review) {
+    return (
+      <>
+        <ExtractionReviewModal
+          isOpen={true}
+          result={review.result}
+          images={review.images}
+          saving={savingReview}
+          onSave={handleReviewSave}
+          onDiscard={handleReviewDiscard}
+        />
+        {duplicateModal}
+      </>
+    );
+  }
+
+  const hiddenInputs = (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        onChange={handleFileChange}
+        style={{ display: 'none' }}
+      />
+      <input
+        ref={cameraInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        onChange={handleFileChange}
+        style={{ display: 'none' }}
+      />
+    </>
+  );
+
+  // Step 2: optional back side
+  if (frontFile) {
+    return (
+      <div className="space-y-4">
+        <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl p-6 shadow-sm">
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-1">Add the back of the card</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            The back usually holds the CVV and signature strip. Details from both sides are merged into one card.
+          </p>
+          {frontPreview && (
+            <div className="uploaded-card-preview">
+              <img src={frontPreview} alt="Front of card" />
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <button
+            onClick={handleGalleryUpload}
+            className="bg-white dark:bg-slate-900 hover:bg-slate-50 dark:hover:bg-slate-800 border border-slate-200 dark:border-slate-800 rounded-2xl p-4 transition-colors shadow-sm flex flex-col items-center gap-2"
+          >
+            <span className="material-symbols-outlined text-blue-600 text-2xl">folder_open</span>
+            <span className="text-sm font-medium text-slate-900 dark:text-white">Back from Gallery</span>
+          </button>
+          <button
+            onClick={handleCameraCapture}
+            className="bg-white dark:bg-slate-900 hover:bg-slate-50 dark:hover:bg-slate-800 border border-slate-200 dark:border-slate-800 rounded-2xl p-4 transition-colors shadow-sm flex flex-col items-center gap-2"
+          >
+            <span className="material-symbols-outlined text-blue-600 text-2xl">photo_camera</span>
+            <span className="text-sm font-medium text-slate-900 dark:text-white">Photo of Back</span>
+          </button>
+        </div>
+
+        <div className="flex gap-4">
+          <button
+            onClick={resetCapture}
+            className="flex-1 py-3 rounded-xl border border-slate-200 dark:border-slate-800 text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSkipBack}
+            className="flex-1 py-3 rounded-xl bg-blue-600 hover:bg-blue-700 text-white font-medium transition-colors"
+          >
+            Skip, front only
+          </button>
+        </div>
+
+        {hiddenInputs}
+      </div>
+    );
   }
 
   return (
@@ -239,7 +466,7 @@ export const CardUpload: React.FC<CardUploadProps> = ({ onUploadComplete }) => {
           </div>
           <div className="flex-1 text-left">
             <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-1">Upload from Gallery</h3>
-            <p className="text-sm text-slate-500 dark:text-slate-400">Select an existing photo of your card.</p>
+            <p className="text-sm text-slate-500 dark:text-slate-400">Select photos of the front and back of your card.</p>
           </div>
           <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
@@ -258,7 +485,7 @@ export const CardUpload: React.FC<CardUploadProps> = ({ onUploadComplete }) => {
           </div>
           <div className="flex-1 text-left">
             <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-1">Take Photo</h3>
-            <p className="text-sm text-slate-500 dark:text-slate-400">Use your camera to scan your card instantly.</p>
+            <p className="text-sm text-slate-500 dark:text-slate-400">Scan the front, then optionally the back.</p>
           </div>
           <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
@@ -285,27 +512,32 @@ export const CardUpload: React.FC<CardUploadProps> = ({ onUploadComplete }) => {
         </div>
         </button>
 
+      {/* Import from CSV */}
+      <button
+        onClick={() => setShowCsvModal(true)}
+        className="w-full bg-white dark:bg-slate-900 hover:bg-slate-50 dark:hover:bg-slate-800 border border-slate-200 dark:border-slate-800 rounded-2xl p-6 transition-colors shadow-sm"
+      >
+        <div className="flex items-center gap-4">
+          <div className="p-4 bg-blue-600 rounded-xl">
+            <span className="material-symbols-outlined text-white text-2xl">table_view</span>
+          </div>
+          <div className="flex-1 text-left">
+            <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-1">Import from CSV</h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400">Bring cards over from Bitwarden, 1Password or a spreadsheet.</p>
+          </div>
+          <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </div>
+        </button>
+
       {/* Security Message */}
       <div className="text-center pt-4">
         <p className="text-sm text-slate-500 dark:text-slate-600">Your data is encrypted and stored securely.</p>
       </div>
 
       {/* Hidden File Inputs */}
-      <input
-        ref={fileInputRef}
-        type="file"
-        accept="image/*"
-        onChange={handleFileChange}
-        style={{ display: 'none' }}
-      />
-      <input
-        ref={cameraInputRef}
-        type="file"
-        accept="image/*"
-        capture="environment"
-        onChange={handleFileChange}
-        style={{ display: 'none' }}
-      />
+      {hiddenInputs}
 
       {/* Manual Entry Modal */}
       {showManualModal && (
@@ -314,6 +546,21 @@ export const CardUpload: React.FC<CardUploadProps> = ({ onUploadComplete }) => {
           onSubmit={handleManualSubmit}
         />
       )}
+
+      {/* Duplicate Card Modal */}
+      {duplicateModal}
+
+      {/* CSV Import Modal */}
+      {showCsvModal && (
+        <CsvImportModal
+          isOpen={showCsvModal}
+          onClose={() => setShowCsvModal(false)}
+          onImportComplete={(importedCount) => {
+            toast.success(`Imported ${importedCount} card${importedCount === 1 ? '' : 's'}`);
+            onImportComplete?.(importedCount);
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,319 @@
+import React, { useMemo, useState } from 'react';
+import { Modal } from '../../ui/Modal';
+import { useAuth } from '../../../contexts/AuthContext';
+import { cardApi } from '../../../services/api';
+import { CardType } from '../../../types/card';
+import { getCardTypeDisplayName, maskCardNumber } from '../../../utils/cardUtils';
+import {
+  CSV_FIELD_LABELS,
+  CsvColumnMapping,
+  CsvField,
+  CsvRowResult,
+  guessColumnMapping,
+  mapCsvRows,
+  parseCsv,
+} from '../../../utils/csvImport';
+import './CsvImportModal.css';
+
+interface CsvImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImportComplete: (importedCount: number) => void;
+}
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'done';
+
+// Rows sent per /cards/batch request
+const IMPORT_BATCH_SIZE = 50;
+
+export const CsvImportModal: React.FC<CsvImportModalProps> = ({
+  isOpen,
+  onClose,
+  onImportComplete,
+}) => {
+  const { idToken } = useAuth();
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [defaultType, setDefaultType] = useState<CardType>('credit');
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [failedRows, setFailedRows] = useState<{ rowNumber: number; error: string }[]>([]);
+  const [importedCount, setImportedCount] = useState(0);
+  const [error, setError] = useState('');
+
+  const results: CsvRowResult[] = useMemo(
+    () => (step === 'preview' ? mapCsvRows(dataRows, mapping, defaultType) : []),
+    [step, dataRows, mapping, defaultType]
+  );
+  const validRows = results.filter((row) => row.errors.length === 0);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setError('');
+      const rows = parseCsv(await file.text());
+      if (rows.length < 2) {
+        setError('The file needs a header row and at least one data row');
+        return;
+      }
+
+      setHeaders(rows[0]);
+      setDataRows(rows.slice(1));
+      setMapping(guessColumnMapping(rows[0]));
+      setStep('map');
+    } catch (err: any) {
+      setError(err.message || 'Failed to read CSV file');
+    }
+  };
+
+  const handleMappingChange = (index: number, field: CsvField) => {
+    setMapping((prev) => ({ ...prev, [index]: field }));
+  };
+
+  const handleImport = async () => {
+    if (!idToken || validRows.length === 0) return;
+
+    setIsImporting(true);
+    setProgress(0);
+    const failures: { rowNumber: number; error: string }[] = [];
+    let created = 0;
+
+    for (let i = 0; i < validRows.length; i += IMPORT_BATCH_SIZE) {
+      const batch = validRows.slice(i, i + IMPORT_BATCH_SIZE);
+      try {
+        const response = await cardApi.batch(idToken, 'create', batch.map((row) => row.card));
+        response.results.forEach((result) => {
+          if (result.success) {
+            created++;
+          } else {
+            const error = result.duplicateOf ? 'Already in your vault' : result.error || 'Failed to create card';
+            failures.push({ rowNumber: batch[result.index].rowNumber, error });
+          }
+        });
+      } catch (err: any) {
+        const message = err.response?.data?.error || err.message || 'Failed to create cards';
+        batch.forEach((row) => failures.push({ rowNumber: row.rowNumber, error: message }));
+      }
+      setProgress(Math.min(i + IMPORT_BATCH_SIZE, validRows.length));
+    }
+
+    setFailedRows(failures);
+    setImportedCount(created);
+    setIsImporting(false);
+    setStep('done');
+    if (created > 0) {
+      onImportComplete(created);
+    }
+  };
+
+  const handleClose = () => {
+    if (isImporting) return;
+    setStep('upload');
+    setHeaders([]);
+    setDataRows([]);
+    setMapping({});
+    setFailedRows([]);
+    setError('');
+    onClose();
+  };
+
+  const hasNumberColumn = Object.values(mapping).includes('cardNumber');
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Import from CSV" maxWidth="760px">
+      <div className="csv-import">
+        {error && (
+          <div className="error-message">
+            <span className="material-symbols-outlined">error</span>
+            <span>{error}</span>
+          </div>
+        )}
+
+        {/* Step 1: Choose file */}
+        {step === 'upload' && (
+          <>
+            <p className="csv-import-hint">
+              Import cards from a Bitwarden, 1Password or spreadsheet CSV export. The first row
+              must contain column headers.
+            </p>
+            <div className="form-group">
+              <label htmlFor="csv-file">CSV File</label>
+              <input
+                id="csv-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileChange}
+                className="form-input"
+              />
+            </div>
+          </>
+        )}
+
+        {/* Step 2: Map columns */}
+        {step === 'map' && (
+          <>
+            <p className="csv-import-hint">
+              Choose which card field each column contains. {dataRows.length} row
+              {dataRows.length === 1 ? '' : 's'} found.
+            </p>
+            <div className="csv-mapping-list">
+              {headers.map((header, index) => (
+                <div key={index} className="csv-mapping-row">
+                  <div className="csv-mapping-column">
+                    <span className="csv-mapping-header">{header || `Column ${index + 1}`}</span>
+                    <span className="csv-mapping-sample">{dataRows[0]?.[index] ? 'e.g. ' + dataRows[0][index].slice(0, 24) : ''}</span>
+                  </div>
+                  <select
+                    value={mapping[index] || 'ignore'}
+                    onChange={(e) => handleMappingChange(index, e.target.value as CsvField)}
+                    className="form-input"
+                  >
+                    {(Object.keys(CSV_FIELD_LABELS) as CsvField[]).map((field) => (
+                      <option key={field} value={field}>
+                        {CSV_FIELD_LABELS[field]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="csv-default-type">Card type for rows without a type</label>
+              <select
+                id="csv-default-type"
+                value={defaultType}
+                onChange={(e) => setDefaultType(e.target.value as CardType)}
+                className="form-input"
+              >
+                {(['credit', 'debit', 'aadhar', 'pan', 'other'] as CardType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {getCardTypeDisplayName(type)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-actions">
+              <button onClick={() => setStep('upload')} className="cancel-btn">
+                Back
+              </button>
+              <button onClick={() => setStep('preview')} className="create-btn" disabled={!hasNumberColumn}>
+                <span className="material-symbols-outlined">preview</span>
+                Preview
+              </button>
+            </div>
+          </>
+        )}
+
+        {/* Step 3: Preview with per-row errors */}
+        {step === 'preview' && (
+          <>
+            <p className="csv-import-hint">
+              {validRows.length} of {results.length} rows ready to import.
+              {validRows.length < results.length && ' Rows with errors will be skipped.'}
+            </p>
+            <div className="csv-preview-table-wrapper">
+              <table className="csv-preview-table">
+                <thead>
+                  <tr>
+                    <th>Row</th>
+                    <th>Type</th>
+                    <th>Name</th>
+                    <th>Number</th>
+                    <th>Expiry</th>
+                    <th>Bank</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.map((row) => (
+                    <tr key={row.rowNumber} className={row.errors.length > 0 ? 'has-errors' : ''}>
+                      <td>{row.rowNumber}</td>
+                      <td>{getCardTypeDisplayName(row.card.type || 'other')}</td>
+                      <td>{row.card.cardName || row.card.cardHolderName || '-'}</td>
+                      <td>
+                        {row.card.cardNumber
+                          ? (row.card.type === 'credit' || row.card.type === 'debit')
+                            ? maskCardNumber(row.card.cardNumber)
+                            : `••••${row.card.cardNumber.slice(-4)}`
+                          : '-'}
+                      </td>
+                      <td>{row.card.expiryDate || '-'}</td>
+                      <td>{row.card.bank || '-'}</td>
+                      <td>
+                        {row.errors.length > 0 ? (
+                          <span className="csv-row-errors">{row.errors.join(', ')}</span>
+                        ) : (
+                          <span className="csv-row-ok">
+                            <span className="material-symbols-outlined">check_circle</span>
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {isImporting && (
+              <p className="csv-import-hint">
+                Importing... {progress} / {validRows.length}
+              </p>
+            )}
+
+            <div className="form-actions">
+              <button onClick={() => setStep('map')} className="cancel-btn" disabled={isImporting}>
+                Back
+              </button>
+              <button
+                onClick={handleImport}
+                className="create-btn"
+                disabled={isImporting || validRows.length === 0}
+              >
+                {isImporting ? (
+                  <>
+                    <span className="spinner-small"></span>
+                    Importing...
+                  </>
+                ) : (
+                  <>
+                    <span className="material-symbols-outlined">upload</span>
+                    Import {validRows.length} Card{validRows.length === 1 ? '' : 's'}
+                  </>
+                )}
+              </button>
+            </div>
+          </>
+        )}
+
+        {/* Step 4: Summary */}
+        {step === 'done' && (
+          <>
+            <p className="csv-import-hint">
+              Imported {importedCount} card{importedCount === 1 ? '' : 's'}.
+            </p>
+            {failedRows.length > 0 && (
+              <ul className="csv-failed-rows">
+                {failedRows.map((row) => (
+                  <li key={row.rowNumber}>
+                    Row {row.rowNumber}: {row.error}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="form-actions">
+              <button onClick={handleClose} className="create-btn">
+                Done
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
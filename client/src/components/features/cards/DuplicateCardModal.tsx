@@ -0,0 +1,70 @@
+import React from 'react';
+import { Modal } from '../../ui/Modal';
+import { DuplicateCard } from '../../../types/card';
+import { getCardTypeDisplayName } from '../../../utils/cardUtils';
+import './DuplicateCardModal.css';
+
+export type DuplicateResolution = 'merge' | 'keep-both';
+
+interface DuplicateCardModalProps {
+  isOpen: boolean;
+  duplicate: DuplicateCard;
+  busy: DuplicateResolution | null; // Resolution in progress
+  onResolve: (resolution: DuplicateResolution) => void;
+  onCancel: () => void;
+}
+
+export const DuplicateCardModal: React.FC<DuplicateCardModalProps> = ({
+  isOpen,
+  duplicate,
+  busy,
+  onResolve,
+  onCancel,
+}) => {
+  const handleClose = () => {
+    if (!busy) onCancel();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Already in your vault" maxWidth="480px">
+      <div className="duplicate-card">
+        <p className="duplicate-card-hint">
+          A card with this number is already saved. Merge fills in the saved card's empty fields
+          from this one and keeps the sharper image of each side.
+        </p>
+
+        <div className="duplicate-card-summary">
+          <span className="material-symbols-outlined">credit_card</span>
+          <div>
+            <div className="duplicate-card-name">{duplicate.cardName || duplicate.bank || getCardTypeDisplayName(duplicate.type)}</div>
+            <div className="duplicate-card-meta">
+              {[getCardTypeDisplayName(duplicate.type), duplicate.bank, duplicate.cardHolderName].filter(Boolean).join(' · ')}
+            </div>
+          </div>
+        </div>
+
+        <div className="form-actions">
+          <button onClick={handleClose} className="cancel-btn" disabled={!!busy}>
+            Cancel
+          </button>
+          <button onClick={() => onResolve('keep-both')} className="cancel-btn" disabled={!!busy}>
+            {busy === 'keep-both' ? 'Saving...' : 'Keep Both'}
+          </button>
+          <button onClick={() => onResolve('merge')} className="create-btn" disabled={!!busy}>
+            {busy === 'merge' ? (
+              <>
+                <span className="spinner-small"></span>
+                Merging...
+              </>
+            ) : (
+              <>
+                <span className="material-symbols-outlined">merge</span>
+                Merge into Existing
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
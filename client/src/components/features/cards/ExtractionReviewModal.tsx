@@ -0,0 +1,245 @@
+import React, { useMemo, useState } from 'react';
+import { Modal } from '../../ui/Modal';
+import { CardImage, CardType, CardUpdate, ExtractedField, ExtractionResult } from '../../../types/card';
+import { GENDERS, getCardTypeDisplayName, getExtractedCardFields, validateCardField } from '../../../utils/cardUtils';
+import './ExtractionReviewModal.css';
+
+interface ExtractionReviewModalProps {
+  isOpen: boolean;
+  result: ExtractionResult;
+  images: CardImage[];
+  saving: boolean;
+  onSave: (fields: CardUpdate) => void;
+  onDiscard: () => void;
+}
+
+// Fields below this confidence must be confirmed or corrected before saving
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+const FIELD_LABELS: Record<ExtractedField, string> = {
+  cardNumber: 'Card Number',
+  cardHolderName: 'Cardholder Name',
+  expiryDate: 'Expiry (MM/YY)',
+  cvv: 'CVV',
+  bank: 'Bank / Issuer',
+  cardName: 'Card Name',
+  dateOfBirth: 'Date of Birth',
+  gender: 'Gender',
+  address: 'Address',
+  fatherName: "Father's Name",
+};
+
+const FIELDS_BY_TYPE: Record<CardType, ExtractedField[]> = {
+  credit: ['cardNumber', 'cardHolderName', 'expiryDate', 'cvv', 'bank', 'cardName'],
+  debit: ['cardNumber', 'cardHolderName', 'expiryDate', 'cvv', 'bank', 'cardName'],
+  aadhar: ['cardNumber', 'cardHolderName', 'dateOfBirth', 'gender', 'address', 'cardName'],
+  pan: ['cardNumber', 'cardHolderName', 'fatherName', 'dateOfBirth', 'cardName'],
+  other: ['cardName', 'cardNumber', 'cardHolderName', 'expiryDate', 'bank'],
+};
+
+export const ExtractionReviewModal: React.FC<ExtractionReviewModalProps> = ({
+  isOpen,
+  result,
+  images,
+  saving,
+  onSave,
+  onDiscard,
+}) => {
+  const [type, setType] = useState<CardType>(result.type || 'other');
+  const [values, setValues] = useState<Partial<Record<ExtractedField, string>>>(() => {
+    const { type: _type, ...fields } = getExtractedCardFields(result);
+    return fields as Partial<Record<ExtractedField, string>>;
+  });
+  const [edited, setEdited] = useState<Set<ExtractedField>>(new Set());
+  const [confirmed, setConfirmed] = useState<Set<ExtractedField>>(new Set());
+
+  const fields = FIELDS_BY_TYPE[type];
+
+  // Low confidence or failed validation on the extracted value
+  const isFlagged = (field: ExtractedField) => {
+    if (!result[field]) return false;
+    const confidence = result.fieldConfidence?.[field];
+    return (confidence !== undefined && confidence < LOW_CONFIDENCE_THRESHOLD) ||
+      result.validation?.[field]?.valid === false;
+  };
+
+  // Validation re-runs on the current (possibly edited) values
+  const validation = useMemo(
+    () => Object.fromEntries(fields.map((field) => [field, validateCardField(type, field, values[field] || '')])),
+    [fields, type, values]
+  );
+
+  const needsReview = (field: ExtractedField) => {
+    if (confirmed.has(field)) return false;
+    if (!validation[field].valid) return true;
+    return isFlagged(field) && !edited.has(field);
+  };
+
+  const pendingCount = fields.filter(needsReview).length;
+
+  const handleChange = (field: ExtractedField, value: string) => {
+    setValues((prev) => ({ ...prev, [field]: value }));
+    setEdited((prev) => new Set(prev).add(field));
+    setConfirmed((prev) => {
+      const next = new Set(prev);
+      next.delete(field);
+      return next;
+    });
+  };
+
+  const handleToggleConfirm = (field: ExtractedField) => {
+    setConfirmed((prev) => {
+      const next = new Set(prev);
+      if (next.has(field)) {
+        next.delete(field);
+      } else {
+        next.add(field);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    const card: CardUpdate = { type };
+    fields.forEach((field) => {
+      const value = values[field]?.trim();
+      if (value) {
+        (card as Record<string, string>)[field] = field === 'cardNumber' ? value.replace(/\s/g, '') : value;
+      }
+    });
+    onSave(card);
+  };
+
+  const handleClose = () => {
+    if (saving) return;
+    if (window.confirm('Discard this card? The uploaded images will be deleted.')) {
+      onDiscard();
+    }
+  };
+
+  const preview = images.find((image) => image.side === 'front') || images[0];
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Review Extracted Details" maxWidth="560px">
+      <div className="extraction-review">
+        {preview && (
+          <div className="extraction-review-preview">
+            <img src={preview.url} alt="Uploaded card" />
+          </div>
+        )}
+
+        <p className="extraction-review-hint">
+          {pendingCount > 0
+            ? `Check the ${pendingCount} highlighted field${pendingCount === 1 ? '' : 's'}: correct the value or confirm it is right.`
+            : 'All fields look good. Save to add the card to your vault.'}
+        </p>
+
+        <div className="form-group">
+          <label htmlFor="review-type">Card Type</label>
+          <select
+            id="review-type"
+            value={type}
+            onChange={(e) => setType(e.target.value as CardType)}
+            className="form-input"
+            disabled={saving}
+          >
+            {(Object.keys(FIELDS_BY_TYPE) as CardType[]).map((cardType) => (
+              <option key={cardType} value={cardType}>
+                {getCardTypeDisplayName(cardType)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {fields.map((field) => {
+          const confidence = result.fieldConfidence?.[field];
+          const fieldValidation = validation[field];
+          const review = needsReview(field);
+
+          return (
+            <div key={field} className={`form-group review-field ${review ? 'needs-review' : ''}`}>
+              <div className="review-field-header">
+                <label htmlFor={`review-${field}`}>{FIELD_LABELS[field]}</label>
+                {confidence !== undefined && !edited.has(field) && (
+                  <span className={`confidence-pill ${confidence < LOW_CONFIDENCE_THRESHOLD ? 'low' : 'high'}`}>
+                    {Math.round(confidence * 100)}% sure
+                  </span>
+                )}
+              </div>
+              {field === 'gender' ? (
+                <select
+                  id={`review-${field}`}
+                  value={values[field] || ''}
+                  onChange={(e) => handleChange(field, e.target.value)}
+                  className="form-input"
+                  disabled={saving}
+                >
+                  <option value="">Not specified</option>
+                  {GENDERS.map((gender) => (
+                    <option key={gender} value={gender}>
+                      {gender.charAt(0).toUpperCase() + gender.slice(1)}
+                    </option>
+                  ))}
+                </select>
+              ) : field === 'address' ? (
+                <textarea
+                  id={`review-${field}`}
+                  rows={2}
+                  value={values[field] || ''}
+                  onChange={(e) => handleChange(field, e.target.value)}
+                  className="form-input"
+                  disabled={saving}
+                />
+              ) : (
+                <input
+                  id={`review-${field}`}
+                  type={field === 'dateOfBirth' ? 'date' : 'text'}
+                  value={values[field] || ''}
+                  onChange={(e) => handleChange(field, e.target.value)}
+                  className="form-input"
+                  autoComplete="off"
+                  disabled={saving}
+                />
+              )}
+              {fieldValidation.message && (
+                <span className={fieldValidation.valid ? 'review-field-note' : 'error-message'}>
+                  {fieldValidation.message}
+                </span>
+              )}
+              {(review || confirmed.has(field)) && (
+                <label className="review-confirm">
+                  <input
+                    type="checkbox"
+                    checked={confirmed.has(field)}
+                    onChange={() => handleToggleConfirm(field)}
+                    disabled={saving}
+                  />
+                  This value is correct
+                </label>
+              )}
+            </div>
+          );
+        })}
+
+        <div className="form-actions">
+          <button onClick={handleClose} className="cancel-btn" disabled={saving}>
+            Discard
+          </button>
+          <button onClick={handleSave} className="create-btn" disabled={saving || pendingCount > 0}>
+            {saving ? (
+              <>
+                <span className="spinner-small"></span>
+                Saving...
+              </>
+            ) : (
+              <>
+                <span className="material-symbols-outlined">check</span>
+                Save Card
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
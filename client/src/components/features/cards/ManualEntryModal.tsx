@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
 import { X } from 'lucide-react';
+import { Gender } from '../../../types/card';
+import { GENDERS, validateCardField } from '../../../utils/cardUtils';
 
 interface ManualEntryModalProps {
   onClose: () => void;
@@ -20,6 +22,12 @@ export interface ManualEntryData {
   idNumber?: string;
   documentType?: string;
   notes?: string;
+  // Aadhaar / PAN fields
+  holderName?: string;
+  dateOfBirth?: string;
+  gender?: Gender;
+  address?: string;
+  fatherName?: string;
 }
 
 export const ManualEntryModal: React.FC<ManualEntryModalProps> = ({ onClose, onSubmit }) => {
@@ -27,6 +35,7 @@ export const ManualEntryModal: React.FC<ManualEntryModalProps> = ({ onClose, onS
   const [formData, setFormData] = useState<ManualEntryData>({
     entryType: 'card',
   });
+  const [error, setError] = useState('');
 
   const handleSelectType = (type: 'card' | 'document') => {
     setFormData({ ...formData, entryType: type });
@@ -35,13 +44,27 @@ export const ManualEntryModal: React.FC<ManualEntryModalProps> = ({ onClose, onS
 
   const handleInputChange = (field: keyof ManualEntryData, value: string) => {
     setFormData({ ...formData, [field]: value });
+    setError('');
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+
+    // Aadhaar (Verhoeff checksum) and PAN (format) numbers are checked up front
+    const { documentType, idNumber } = formData;
+    if (formData.entryType === 'document' && (documentType === 'aadhar' || documentType === 'pan')) {
+      const result = validateCardField(documentType, 'cardNumber', idNumber || '');
+      if (!result.valid) {
+        setError(result.message || 'Invalid ID number');
+        return;
+      }
+    }
+
     onSubmit(formData);
   };
 
+  const isIdentityDocument = formData.documentType === 'aadhar' || formData.documentType === 'pan';
+
   const handleBack = () => {
     if (step === 'card' || step === 'document') {
       setStep('select');
@@ -308,8 +331,92 @@ export const ManualEntryModal: React.FC<ManualEntryModalProps> = ({ onClose, onS
                   onChange={(e) => handleInputChange('idNumber', e.target.value)}
                   className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 dark:text-white font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
+                {error && (
+                  <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>
+                )}
               </div>
 
+              {isIdentityDocument && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                      Name on Document
+                    </label>
+                    <input
+                      type="text"
+                      placeholder="Full name"
+                      value={formData.holderName || ''}
+                      onChange={(e) => handleInputChange('holderName', e.target.value)}
+                      className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+
+                  {formData.documentType === 'pan' && (
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                        Father's Name
+                      </label>
+                      <input
+                        type="text"
+                        placeholder="As printed on the card"
+                        value={formData.fatherName || ''}
+                        onChange={(e) => handleInputChange('fatherName', e.target.value)}
+                        className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                        Date of Birth
+                      </label>
+                      <input
+                        type="date"
+                        value={formData.dateOfBirth || ''}
+                        onChange={(e) => handleInputChange('dateOfBirth', e.target.value)}
+                        className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+
+                    {formData.documentType === 'aadhar' && (
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                          Gender
+                        </label>
+                        <select
+                          value={formData.gender || ''}
+                          onChange={(e) => handleInputChange('gender', e.target.value)}
+                          className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">Not specified</option>
+                          {GENDERS.map((gender) => (
+                            <option key={gender} value={gender}>
+                              {gender.charAt(0).toUpperCase() + gender.slice(1)}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                  </div>
+
+                  {formData.documentType === 'aadhar' && (
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                        Address
+                      </label>
+                      <textarea
+                        rows={3}
+                        placeholder="Address as printed on the card"
+                        value={formData.address || ''}
+                        onChange={(e) => handleInputChange('address', e.target.value)}
+                        className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                      />
+                    </div>
+                  )}
+                </>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
                   Notes (Optional)
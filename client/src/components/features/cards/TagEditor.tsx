@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { MAX_CARD_TAGS, normalizeTag } from '../../../utils/cardUtils';
+import './TagEditor.css';
+
+interface TagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[]; // Tags already used on other cards
+  disabled?: boolean;
+}
+
+export const TagEditor: React.FC<TagEditorProps> = ({ tags, onChange, suggestions = [], disabled = false }) => {
+  const [input, setInput] = useState('');
+  const [error, setError] = useState('');
+  const available = suggestions.filter((tag) => !tags.includes(tag));
+
+  const addTag = (value: string) => {
+    if (!value.trim()) return;
+
+    const tag = normalizeTag(value);
+    if (!tag) {
+      setError('Tags can use letters, digits, spaces, - and _ (up to 30 characters)');
+      return;
+    }
+    if (!tags.includes(tag)) {
+      if (tags.length >= MAX_CARD_TAGS) {
+        setError(`A card can have up to ${MAX_CARD_TAGS} tags`);
+        return;
+      }
+      onChange([...tags, tag]);
+    }
+    setInput('');
+    setError('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(input);
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="tag-editor">
+      <div className="tag-editor-field">
+        {tags.map((tag) => (
+          <span key={tag} className="card-tag">
+            {tag}
+            <button
+              type="button"
+              onClick={() => onChange(tags.filter((t) => t !== tag))}
+              aria-label={`Remove tag ${tag}`}
+              disabled={disabled}
+            >
+              <span className="material-symbols-outlined">close</span>
+            </button>
+          </span>
+        ))}
+        <input
+          id="edit-tags"
+          type="text"
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setError('');
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => addTag(input)}
+          list="tag-editor-suggestions"
+          placeholder={tags.length === 0 ? 'e.g., travel, office' : 'Add tag'}
+          disabled={disabled}
+          autoComplete="off"
+        />
+        <datalist id="tag-editor-suggestions">
+          {available.map((tag) => (
+            <option key={tag} value={tag} />
+          ))}
+        </datalist>
+      </div>
+      {error && <span className="tag-editor-error">{error}</span>}
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import jsQR from 'jsqr';
+import { Modal } from '../../ui/Modal';
+import { parseShareQr } from '../../../utils/shareQr';
+import './QrScannerModal.css';
+
+interface QrScannerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Frames are downscaled before decoding to keep the scan loop cheap on phones
+const MAX_SCAN_WIDTH = 640;
+
+export const QrScannerModal: React.FC<QrScannerModalProps> = ({ isOpen, onClose }) => {
+  const navigate = useNavigate();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [starting, setStarting] = useState(false);
+
+  const stopCamera = useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+  }, []);
+
+  const handleClose = useCallback(() => {
+    stopCamera();
+    setError('');
+    setNotice('');
+    onClose();
+  }, [stopCamera, onClose]);
+
+  const handleDecoded = useCallback((text: string): boolean => {
+    const link = parseShareQr(text);
+    if (!link) {
+      setNotice('This QR code is not a Secure AI Vault share link');
+      return false;
+    }
+    if (link.expiresAt && link.expiresAt.getTime() < Date.now()) {
+      setNotice(`This share link expired on ${link.expiresAt.toLocaleString()}`);
+      return false;
+    }
+
+    handleClose();
+    navigate(`/shared/${link.token}`);
+    return true;
+  }, [handleClose, navigate]);
+
+  // The scan loop outlives renders, so it reads the latest handler from a ref
+  const handleDecodedRef = useRef(handleDecoded);
+  handleDecodedRef.current = handleDecoded;
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('Camera access is not available in this browser. Open the app over HTTPS or type the link instead.');
+      return;
+    }
+
+    let cancelled = false;
+    setStarting(true);
+
+    const scanFrame = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (cancelled || !video || !canvas) return;
+
+      if (video.readyState === video.HAVE_ENOUGH_DATA && video.videoWidth > 0) {
+        const scale = Math.min(1, MAX_SCAN_WIDTH / video.videoWidth);
+        canvas.width = Math.round(video.videoWidth * scale);
+        canvas.height = Math.round(video.videoHeight * scale);
+
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = context.getImageData(0, 0, canvas.width, canvas.height);
+          const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+          if (code?.data && handleDecodedRef.current(code.data)) return;
+        }
+      }
+
+      frameRef.current = requestAnimationFrame(scanFrame);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+      .then(async (stream) => {
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        const video = videoRef.current;
+        if (video) {
+          video.srcObject = stream;
+          await video.play();
+        }
+        frameRef.current = requestAnimationFrame(scanFrame);
+      })
+      .catch((err: DOMException) => {
+        if (cancelled) return;
+        setError(err.name === 'NotAllowedError'
+          ? 'Camera permission was denied. Allow camera access to scan a QR code.'
+          : 'Could not start the camera.');
+      })
+      .finally(() => {
+        if (!cancelled) setStarting(false);
+      });
+
+    return () => {
+      cancelled = true;
+      stopCamera();
+    };
+  }, [isOpen, stopCamera]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Scan Share QR Code">
+      <div className="qr-scanner-content">
+        {error ? (
+          <div className="error-message">
+            <span className="material-symbols-outlined">error</span>
+            <span>{error}</span>
+          </div>
+        ) : (
+          <>
+            <div className="qr-scanner-viewport">
+              <video ref={videoRef} className="qr-scanner-video" muted playsInline />
+              <div className="qr-scanner-frame" />
+              {starting && (
+                <div className="qr-scanner-status">
+                  <span className="material-symbols-outlined">photo_camera</span>
+                  Starting camera...
+                </div>
+              )}
+            </div>
+            <canvas ref={canvasRef} hidden />
+            <p className="qr-scanner-hint">
+              {notice || 'Point your camera at a share link QR code.'}
+            </p>
+          </>
+        )}
+
+        <div className="form-actions">
+          <button onClick={handleClose} className="cancel-btn">
+            Cancel
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -1,12 +1,44 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Modal } from '../../ui/Modal';
-import { Card, ShareFolder, ShareHistoryEntry } from '../../../types/card';
+import {
+  Card,
+  FolderMember,
+  FolderRole,
+  ShareAccessEvent,
+  ShareAccessType,
+  ShareFolder,
+  ShareHistoryEntry,
+} from '../../../types/card';
 import { shareFolderApi, cardApi } from '../../../services/api';
 import { useAuth } from '../../../contexts/AuthContext';
 import { NetworkLogo } from '../../ui/NetworkLogo';
 import { getCardNetwork } from '../../../utils/cardUtils';
+import { isVaultCiphertext } from '../../../utils/vaultCrypto';
+import { describeRedaction } from '../../../utils/shareRedaction';
 import './ShareFolderDetailsModal.css';
 
+const ACCESS_EVENT_LABELS: Record<ShareAccessType, { icon: string; label: string }> = {
+  view: { icon: 'visibility', label: 'Opened link' },
+  image: { icon: 'image', label: 'Viewed image' },
+  unlock: { icon: 'lock_open', label: 'Entered passcode' },
+  unlock_failed: { icon: 'lock', label: 'Wrong passcode' },
+};
+
+const ROLE_LABELS: Record<FolderRole, string> = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+  owner: 'Owner',
+};
+
+const AVATAR_COLORS = ['#667eea', '#f59e0b', '#10b981', '#ef4444', '#8b5cf6', '#0ea5e9', '#ec4899'];
+
+// Same email, same color, so members are recognisable across folders
+const getAvatarColor = (email: string): string => {
+  const hash = Array.from(email).reduce((total, char) => total + char.charCodeAt(0), 0);
+  return AVATAR_COLORS[hash % AVATAR_COLORS.length];
+};
+
 interface ShareFolderDetailsModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -22,13 +54,29 @@ export const ShareFolderDetailsModal: React.FC<ShareFolderDetailsModalProps> = (
   onUpdate,
   onShare,
 }) => {
-  const { idToken } = useAuth();
+  const { idToken, user } = useAuth();
+  const navigate = useNavigate();
+  // Folders loaded before roles existed are the user's own
+  const role: FolderRole = folder.role || 'owner';
+  const isOwner = role === 'owner';
+  const isCreator = folder.userId === user?.uid;
+  // Only the creator can make or manage owners
+  const assignableRoles = (Object.keys(ROLE_LABELS) as FolderRole[]).filter((option) => isCreator || option !== 'owner');
   const [cards, setCards] = useState<Card[]>([]);
+  const [cardIds, setCardIds] = useState<string[]>(folder.cardIds || []);
   const [loading, setLoading] = useState(true);
   const [removing, setRemoving] = useState<string | null>(null);
   const [showHistory, setShowHistory] = useState(false);
   const [shareHistory, setShareHistory] = useState<ShareHistoryEntry[]>([]);
   const [historyLoading, setHistoryLoading] = useState(false);
+  const [showAccessLog, setShowAccessLog] = useState(false);
+  const [accessEvents, setAccessEvents] = useState<ShareAccessEvent[]>([]);
+  const [accessLoading, setAccessLoading] = useState(false);
+  const [members, setMembers] = useState<FolderMember[]>(folder.members || []);
+  const [memberEmail, setMemberEmail] = useState('');
+  const [memberRole, setMemberRole] = useState<FolderRole>('viewer');
+  const [memberError, setMemberError] = useState('');
+  const [savingMember, setSavingMember] = useState<string | null>(null);
   const [revoking, setRevoking] = useState(false);
 
   useEffect(() => {
@@ -42,7 +90,7 @@ export const ShareFolderDetailsModal: React.FC<ShareFolderDetailsModalProps> = (
       try {
         setLoading(true);
         // Fetch all user's cards
-        const allCards = await cardApi.getAll(idToken);
+        const allCards = await cardApi.getAllPages(idToken);
         
         // Filter to only cards in this folder
         const folderCards = allCards.filter((card: Card) => 
@@ -77,6 +125,7 @@ export const ShareFolderDetailsModal: React.FC<ShareFolderDetailsModalProps> = (
       
       // Update local state
       setCards(prev => prev.filter(card => card.id !== cardId));
+      setCardIds(prev => prev.filter(id => id !== cardId));
     } catch (error: any) {
       console.error('Remove card error:', error);
       alert('Failed to remove card. Please try again.');
@@ -86,7 +135,7 @@ export const ShareFolderDetailsModal: React.FC<ShareFolderDetailsModalProps> = (
   };
 
   const handleShareFolder = () => {
-    if (cards.length === 0) {
+    if (cardIds.length === 0) {
       alert('Add at least one card to the folder before sharing.');
       return;
     }
@@ -115,6 +164,91 @@ export const ShareFolderDetailsModal: React.FC<ShareFolderDetailsModalProps> = (
     }
   };
 
+  const handleAddMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!idToken || !folder.id) return;
+
+    const email = memberEmail.trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      setMemberError('Enter a valid email address');
+      return;
+    }
+
+    try {
+      setSavingMember(email);
+      setMemberError('');
+      const response = await shareFolderApi.addMember(idToken, folder.id, email, memberRole);
+      setMembers(response.members);
+      setMemberEmail('');
+      setMemberRole('viewer');
+      onUpdate();
+    } catch (error: any) {
+      console.error('Add member error:', error);
+      setMemberError(error.response?.data?.error || 'Failed to add member. Please try again.');
+    } finally {
+      setSavingMember(null);
+    }
+  };
+
+  const handleChangeRole = async (email: string, newRole: FolderRole) => {
+    if (!idToken || !folder.id) return;
+
+    try {
+      setSavingMember(email);
+      const response = await shareFolderApi.updateMemberRole(idToken, folder.id, email, newRole);
+      setMembers(response.members);
+      onUpdate();
+    } catch (error: any) {
+      console.error('Change member role error:', error);
+      alert('Failed to change role. Please try again.');
+    } finally {
+      setSavingMember(null);
+    }
+  };
+
+  const handleRemoveMember = async (email: string) => {
+    if (!idToken || !folder.id) return;
+
+    const confirmed = window.confirm(
+      `Remove ${email} from this folder?\n\nAny cards they added will be taken out of the folder.`
+    );
+    if (!confirmed) return;
+
+    try {
+      setSavingMember(email);
+      const response = await shareFolderApi.removeMember(idToken, folder.id, email);
+      setMembers(response.members);
+      setCards(prev => prev.filter(card => !response.removedCardIds.includes(card.id!)));
+      setCardIds(prev => prev.filter(id => !response.removedCardIds.includes(id)));
+      onUpdate();
+    } catch (error: any) {
+      console.error('Remove member error:', error);
+      alert('Failed to remove member. Please try again.');
+    } finally {
+      setSavingMember(null);
+    }
+  };
+
+  const handleLeaveFolder = async () => {
+    if (!idToken || !folder.id || !user?.email) return;
+
+    const confirmed = window.confirm(
+      'Leave this folder?\n\nCards you added will be taken out of it, and you will lose access until an owner adds you again.'
+    );
+    if (!confirmed) return;
+
+    try {
+      setSavingMember(user.email.toLowerCase());
+      await shareFolderApi.removeMember(idToken, folder.id, user.email.toLowerCase());
+      onUpdate();
+      onClose();
+    } catch (error: any) {
+      console.error('Leave folder error:', error);
+      alert('Failed to leave the folder. Please try again.');
+      setSavingMember(null);
+    }
+  };
+
   const handleViewHistory = async () => {
     if (!idToken || !folder.id) return;
 
@@ -132,6 +266,44 @@ export const ShareFolderDetailsModal: React.FC<ShareFolderDetailsModalProps> = (
     }
   };
 
+  const handleViewAccessLog = async () => {
+    if (!idToken || !folder.id) return;
+
+    try {
+      setAccessLoading(true);
+      setShowAccessLog(true);
+      const response = await shareFolderApi.getAccessLog(idToken, folder.id);
+      setAccessEvents(response.events || []);
+    } catch (error: any) {
+      console.error('Fetch access log error:', error);
+      alert('Failed to load access log. Please try again.');
+      setShowAccessLog(false);
+    } finally {
+      setAccessLoading(false);
+    }
+  };
+
+  // Editors can only take out the cards they added; older cards belong to the creator
+  const canRemoveCard = (cardId: string): boolean => {
+    if (isOwner) return true;
+    if (role !== 'editor') return false;
+    return (folder.cardOwners?.[cardId]?.uid || folder.userId) === user?.uid;
+  };
+
+  // Cards other members added are not in the user's own card list
+  const memberCardIds = loading
+    ? []
+    : cardIds.filter((cardId) => !cards.some((card) => card.id === cardId));
+
+  const getAccessedCardNames = (event: ShareAccessEvent): string => {
+    if (event.cardIds.length === 0) return '';
+    if (event.type === 'view') {
+      return `${event.cardIds.length} ${event.cardIds.length === 1 ? 'card' : 'cards'}`;
+    }
+    const card = cards.find((item) => item.id === event.cardIds[0]);
+    return card ? getCardTitle(card) : 'Removed card';
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     alert('Link copied to clipboard!');
@@ -158,17 +330,64 @@ export const ShareFolderDetailsModal: React.FC<ShareFolderDetailsModalProps> = (
   };
 
   const getNetworkForCard = (card: Card): string => {
-    if ((card.type === 'credit' || card.type === 'debit') && card.cardNumber) {
+    if ((card.type === 'credit' || card.type === 'debit') && card.cardNumber && !isVaultCiphertext(card.cardNumber)) {
       return getCardNetwork(card.cardNumber);
     }
     return card.type;
   };
 
   const formatCardNumber = (cardNumber: string): string => {
+    if (isVaultCiphertext(cardNumber)) {
+      return '•••• ••••';
+    }
     const last4 = cardNumber.slice(-4);
     return `•••• ${last4}`;
   };
 
+  const renderMember = (email: string, memberRole: FolderRole, isFolderCreator: boolean) => {
+    const isSelf = email === user?.email?.toLowerCase();
+    return (
+      <div key={email} className="member-item">
+        <span className="member-avatar" style={{ background: getAvatarColor(email) }}>
+          {email.charAt(0)}
+        </span>
+        <span className="member-email" title={email}>
+          {email}
+          {isSelf && <span className="member-you"> (you)</span>}
+        </span>
+        {isOwner && !isFolderCreator && !isSelf && (isCreator || memberRole !== 'owner') ? (
+          <>
+            <select
+              value={memberRole}
+              onChange={(e) => handleChangeRole(email, e.target.value as FolderRole)}
+              className="member-role-select"
+              disabled={savingMember === email}
+              aria-label={`Role for ${email}`}
+            >
+              {assignableRoles.map((option) => (
+                <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => handleRemoveMember(email)}
+              className="remove-card-btn"
+              disabled={savingMember === email}
+              title="Remove from folder"
+            >
+              {savingMember === email ? (
+                <span className="spinner-small"></span>
+              ) : (
+                <span className="material-symbols-outlined">close</span>
+              )}
+            </button>
+          </>
+        ) : (
+          <span className="member-role-badge">{ROLE_LABELS[memberRole]}</span>
+        )}
+      </div>
+    );
+  };
+
   return (
     <Modal 
       isOpen={isOpen} 
@@ -188,8 +407,20 @@ export const ShareFolderDetailsModal: React.FC<ShareFolderDetailsModalProps> = (
         <div className="folder-stats">
           <div className="stat-item">
             <span className="material-symbols-outlined">credit_card</span>
-            <span>{cards.length} {cards.length === 1 ? 'card' : 'cards'}</span>
+            <span>{cardIds.length} {cardIds.length === 1 ? 'card' : 'cards'}</span>
           </div>
+          {members.length > 0 && (
+            <div className="stat-item">
+              <span className="material-symbols-outlined">group</span>
+              <span>{members.length + 1} members</span>
+            </div>
+          )}
+          {!isCreator && (
+            <div className="stat-item">
+              <span className="material-symbols-outlined">badge</span>
+              <span>You are {role === 'viewer' ? 'a' : 'an'} {ROLE_LABELS[role].toLowerCase()}</span>
+            </div>
+          )}
         </div>
 
         {/* Cards List */}
@@ -203,7 +434,7 @@ export const ShareFolderDetailsModal: React.FC<ShareFolderDetailsModalProps> = (
               <div className="spinner"></div>
               <p>Loading cards...</p>
             </div>
-          ) : cards.length === 0 ? (
+          ) : cards.length === 0 && memberCardIds.length === 0 ? (
             <div className="empty-state">
               <span className="material-symbols-outlined">folder_off</span>
               <p>No cards in this folder</p>
@@ -223,18 +454,47 @@ export const ShareFolderDetailsModal: React.FC<ShareFolderDetailsModalProps> = (
                       )}
                     </div>
                   </div>
-                  <button
-                    onClick={() => handleRemoveCard(card.id!)}
-                    className="remove-card-btn"
-                    disabled={removing === card.id}
-                    title="Remove from folder"
-                  >
-                    {removing === card.id ? (
-                      <span className="spinner-small"></span>
-                    ) : (
-                      <span className="material-symbols-outlined">close</span>
-                    )}
-                  </button>
+                  {canRemoveCard(card.id!) && (
+                    <button
+                      onClick={() => handleRemoveCard(card.id!)}
+                      className="remove-card-btn"
+                      disabled={removing === card.id}
+                      title="Remove from folder"
+                    >
+                      {removing === card.id ? (
+                        <span className="spinner-small"></span>
+                      ) : (
+                        <span className="material-symbols-outlined">close</span>
+                      )}
+                    </button>
+                  )}
+                </div>
+              ))}
+              {memberCardIds.map((cardId) => (
+                <div key={cardId} className="card-item-compact">
+                  <div className="card-item-left">
+                    <NetworkLogo network="other" />
+                    <div className="card-info">
+                      <h4>Shared card</h4>
+                      <p className="card-added-by">
+                        Added by {folder.cardOwners?.[cardId]?.email || folder.ownerEmail || 'the folder owner'}
+                      </p>
+                    </div>
+                  </div>
+                  {canRemoveCard(cardId) && (
+                    <button
+                      onClick={() => handleRemoveCard(cardId)}
+                      className="remove-card-btn"
+                      disabled={removing === cardId}
+                      title="Remove from folder"
+                    >
+                      {removing === cardId ? (
+                        <span className="spinner-small"></span>
+                      ) : (
+                        <span className="material-symbols-outlined">close</span>
+                      )}
+                    </button>
+                  )}
                 </div>
               ))}
             </div>
@@ -242,13 +502,20 @@ export const ShareFolderDetailsModal: React.FC<ShareFolderDetailsModalProps> = (
         </div>
 
         {/* Share Status & Actions */}
-        {folder.isPublic && folder.shareToken && (
+        {isOwner && folder.isPublic && folder.shareToken && (
           <div className="share-status-section">
             <div className="share-status-header">
               <span className="material-symbols-outlined status-icon active">link</span>
               <div className="status-info">
                 <h4>Active Share Link</h4>
-                <p className="status-text">This folder is currently shared</p>
+                <p className="status-text">
+                  {folder.passcodeLocked
+                    ? 'Locked after too many wrong passcodes. Generate a new link to share again.'
+                    : folder.passcodeProtected
+                      ? 'This folder is currently shared with a passcode'
+                      : 'This folder is currently shared'}
+                  {folder.maxViews ? ` · opened ${folder.viewCount || 0} of ${folder.maxViews} times` : ''}
+                </p>
               </div>
             </div>
             <div className="share-actions">
@@ -279,8 +546,57 @@ export const ShareFolderDetailsModal: React.FC<ShareFolderDetailsModalProps> = (
           </div>
         )}
 
+        {/* Members */}
+        <div className="members-section">
+          <div className="section-header">
+            <h3>Members</h3>
+          </div>
+          {isOwner && (
+            <>
+              <p className="members-hint">
+                Members sign in with this email to see the folder. Editors can add and remove their own cards;
+                owners also manage members and share links.
+              </p>
+              <form className="member-form" onSubmit={handleAddMember}>
+                <input
+                  type="email"
+                  value={memberEmail}
+                  onChange={(e) => setMemberEmail(e.target.value)}
+                  placeholder="name@example.com"
+                  className="member-input"
+                  disabled={savingMember !== null}
+                />
+                <select
+                  value={memberRole}
+                  onChange={(e) => setMemberRole(e.target.value as FolderRole)}
+                  className="member-role-select"
+                  disabled={savingMember !== null}
+                  aria-label="Role"
+                >
+                  {assignableRoles.map((option) => (
+                    <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                  ))}
+                </select>
+                <button
+                  type="submit"
+                  className="add-member-btn"
+                  disabled={savingMember !== null || !memberEmail.trim()}
+                >
+                  <span className="material-symbols-outlined">person_add</span>
+                  Add
+                </button>
+              </form>
+              {memberError && <span className="member-error">{memberError}</span>}
+            </>
+          )}
+          <div className="members-list">
+            {renderMember(folder.ownerEmail || (isCreator ? user?.email : null) || 'Folder creator', 'owner', true)}
+            {members.map((member) => renderMember(member.email, member.role, false))}
+          </div>
+        </div>
+
         {/* Share History */}
-        {!showHistory ? (
+        {!isOwner ? null : !showHistory ? (
           <div className="history-toggle-section">
             <button
               onClick={handleViewHistory}
@@ -322,8 +638,13 @@ export const ShareFolderDetailsModal: React.FC<ShareFolderDetailsModalProps> = (
                         {entry.isActive ? 'check_circle' : 'cancel'}
                       </span>
                       <span className="history-status">
-                        {entry.isActive ? 'Active' : 'Revoked'}
+                        {entry.isActive ? 'Active' : entry.revokedReason === 'view_limit' ? 'View limit reached' : 'Revoked'}
                       </span>
+                      {entry.passcodeProtected && (
+                        <span className="material-symbols-outlined history-lock" title="Passcode protected">
+                          lock
+                        </span>
+                      )}
                     </div>
                     <div className="history-item-details">
                       <div className="history-detail">
@@ -342,6 +663,30 @@ export const ShareFolderDetailsModal: React.FC<ShareFolderDetailsModalProps> = (
                           <span className="detail-value">{formatDate(entry.revokedAt)}</span>
                         </div>
                       )}
+                      {entry.maxViews && (
+                        <div className="history-detail">
+                          <span className="detail-label">View limit:</span>
+                          <span className="detail-value">{entry.maxViews === 1 ? 'One-time' : `${entry.maxViews} opens`}</span>
+                        </div>
+                      )}
+                      <div className="history-detail">
+                        <span className="detail-label">Views:</span>
+                        <span className="detail-value">
+                          {entry.views || 0} opens · {entry.imageViews || 0} images
+                        </span>
+                      </div>
+                      {entry.lastAccessedAt && (
+                        <div className="history-detail">
+                          <span className="detail-label">Last opened:</span>
+                          <span className="detail-value">{formatDate(entry.lastAccessedAt)}</span>
+                        </div>
+                      )}
+                      {entry.redaction && describeRedaction(entry.redaction) && (
+                        <div className="history-detail">
+                          <span className="detail-label">Redaction:</span>
+                          <span className="detail-value">{describeRedaction(entry.redaction)}</span>
+                        </div>
+                      )}
                     </div>
                     {entry.isActive && (
                       <button
@@ -360,16 +705,112 @@ export const ShareFolderDetailsModal: React.FC<ShareFolderDetailsModalProps> = (
           </div>
         )}
 
+        {/* Access Log */}
+        {!isOwner ? null : !showAccessLog ? (
+          <div className="history-toggle-section">
+            <button
+              onClick={handleViewAccessLog}
+              className="view-history-btn"
+              disabled={accessLoading}
+            >
+              {accessLoading ? (
+                <span className="spinner-small"></span>
+              ) : (
+                <>
+                  <span className="material-symbols-outlined">monitoring</span>
+                  View Access Log
+                </>
+              )}
+            </button>
+          </div>
+        ) : (
+          <div className="share-history-section">
+            <div className="section-header">
+              <h3>Access Log</h3>
+              <button
+                onClick={() => setShowAccessLog(false)}
+                className="close-history-btn"
+              >
+                <span className="material-symbols-outlined">close</span>
+              </button>
+            </div>
+            {accessLoading ? (
+              <div className="loading-state">
+                <div className="spinner"></div>
+                <p>Loading access log...</p>
+              </div>
+            ) : accessEvents.length === 0 ? (
+              <div className="empty-state">
+                <span className="material-symbols-outlined">visibility_off</span>
+                <p>No one has opened this folder's share links yet</p>
+              </div>
+            ) : (
+              <>
+                <div className="access-summary">
+                  <span>{accessEvents.filter((event) => event.type === 'view').length} views</span>
+                  <span>{accessEvents.filter((event) => event.type === 'image').length} image fetches</span>
+                  <span>
+                    {new Set(accessEvents.map((event) => event.ipHash).filter(Boolean)).size} unique visitors
+                  </span>
+                </div>
+                <div className="access-timeline">
+                  {accessEvents.map((event) => (
+                    <div key={event.id} className={`access-event ${event.type}`}>
+                      <span className="material-symbols-outlined access-event-icon">
+                        {ACCESS_EVENT_LABELS[event.type]?.icon || 'help'}
+                      </span>
+                      <div className="access-event-info">
+                        <span className="access-event-title">
+                          {ACCESS_EVENT_LABELS[event.type]?.label || event.type}
+                          {getAccessedCardNames(event) && ` · ${getAccessedCardNames(event)}`}
+                        </span>
+                        <span className="access-event-meta">
+                          {event.userAgent}
+                          {event.ipHash && ` · visitor ${event.ipHash.slice(0, 6)}`}
+                          {` · link …${event.shareToken.slice(-6)}`}
+                        </span>
+                      </div>
+                      <span className="access-event-time">{formatDate(event.accessedAt)}</span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Actions */}
         <div className="folder-actions-section">
-          <button
-            onClick={handleShareFolder}
-            className="share-folder-action-btn"
-            disabled={cards.length === 0}
-          >
-            <span className="material-symbols-outlined">share</span>
-            {folder.isPublic ? 'Generate New Link' : 'Generate Share Link'}
-          </button>
+          {isOwner ? (
+            <button
+              onClick={handleShareFolder}
+              className="share-folder-action-btn"
+              disabled={cardIds.length === 0}
+            >
+              <span className="material-symbols-outlined">share</span>
+              {folder.isPublic ? 'Generate New Link' : 'Generate Share Link'}
+            </button>
+          ) : (
+            <button
+              onClick={() => {
+                onClose();
+                navigate(`/shared-with-me/${folder.id}`);
+              }}
+              className="share-folder-action-btn"
+            >
+              <span className="material-symbols-outlined">folder_open</span>
+              Open Folder
+            </button>
+          )}
+          {!isCreator && (
+            <button
+              onClick={handleLeaveFolder}
+              className="close-action-btn"
+              disabled={savingMember !== null}
+            >
+              Leave Folder
+            </button>
+          )}
           <button
             onClick={onClose}
             className="close-action-btn"
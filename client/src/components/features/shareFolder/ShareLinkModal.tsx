@@ -1,13 +1,23 @@
 import React, { useState } from 'react';
 import { Modal } from '../../ui/Modal';
+import { ShareLinkOptions, ShareRedaction } from '../../../types/card';
+import { DEFAULT_SHARE_REDACTION, REDACTION_FIELDS, RedactedField, describeRedaction } from '../../../utils/shareRedaction';
+import { ShareQrCode } from './ShareQrCode';
 import './ShareLinkModal.css';
 
+// Must match the limits enforced by POST /api/sharefolders/:id/share
+const MIN_PASSCODE_LENGTH = 4;
+const MAX_PASSCODE_LENGTH = 64;
+
 interface ShareLinkModalProps {
   isOpen: boolean;
   onClose: () => void;
   folderId: string;
   folderName: string;
-  onGenerate: (folderId: string, expiresIn: string) => Promise<{ shareUrl: string; expiresAt: string | null }>;
+  onGenerate: (
+    folderId: string,
+    options: ShareLinkOptions
+  ) => Promise<{ shareUrl: string; expiresAt: string | null; passcodeProtected?: boolean; maxViews?: number | null }>;
 }
 
 export const ShareLinkModal: React.FC<ShareLinkModalProps> = ({
@@ -18,6 +28,11 @@ export const ShareLinkModal: React.FC<ShareLinkModalProps> = ({
   onGenerate,
 }) => {
   const [expiresIn, setExpiresIn] = useState<string>('24h');
+  const [passcode, setPasscode] = useState('');
+  const [passcodeProtected, setPasscodeProtected] = useState(false);
+  const [redaction, setRedaction] = useState<ShareRedaction>(DEFAULT_SHARE_REDACTION);
+  const [maxViews, setMaxViews] = useState<string>('unlimited');
+  const [viewLimit, setViewLimit] = useState<number | null>(null);
   const [shareUrl, setShareUrl] = useState<string>('');
   const [expiresAt, setExpiresAt] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -25,12 +40,26 @@ export const ShareLinkModal: React.FC<ShareLinkModalProps> = ({
   const [copied, setCopied] = useState(false);
 
   const handleGenerate = async () => {
+    const trimmedPasscode = passcode.trim();
+    if (trimmedPasscode && (trimmedPasscode.length < MIN_PASSCODE_LENGTH || trimmedPasscode.length > MAX_PASSCODE_LENGTH)) {
+      setError(`Passcode must be ${MIN_PASSCODE_LENGTH}-${MAX_PASSCODE_LENGTH} characters`);
+      return;
+    }
+
     try {
       setIsGenerating(true);
       setError('');
-      const result = await onGenerate(folderId, expiresIn);
+      const result = await onGenerate(folderId, {
+        expiresIn,
+        passcode: trimmedPasscode || undefined,
+        redaction,
+        maxViews: maxViews === 'unlimited' ? null : Number(maxViews),
+      });
       setShareUrl(result.shareUrl);
       setExpiresAt(result.expiresAt);
+      setPasscodeProtected(!!result.passcodeProtected);
+      setViewLimit(result.maxViews ?? null);
+      setPasscode('');
     } catch (err: any) {
       setError(err.message || 'Failed to generate share link');
     } finally {
@@ -47,11 +76,20 @@ export const ShareLinkModal: React.FC<ShareLinkModalProps> = ({
   const handleClose = () => {
     setShareUrl('');
     setExpiresAt(null);
+    setPasscode('');
+    setPasscodeProtected(false);
+    setRedaction(DEFAULT_SHARE_REDACTION);
+    setMaxViews('unlimited');
+    setViewLimit(null);
     setError('');
     setCopied(false);
     onClose();
   };
 
+  const handleRedactionChange = (field: RedactedField, mode: string) => {
+    setRedaction((prev) => ({ ...prev, [field]: mode }));
+  };
+
   const formatExpiry = (date: string | null): string => {
     if (!date) return 'Never';
     return new Date(date).toLocaleString();
@@ -72,8 +110,8 @@ export const ShareLinkModal: React.FC<ShareLinkModalProps> = ({
             <div className="info-box">
               <span className="material-symbols-outlined">info</span>
               <p>
-                Anyone with this link will be able to view all cards in this folder,
-                including sensitive information like CVV numbers.
+                Anyone with this link will be able to view all cards in this folder.
+                Choose below which details they can see.
               </p>
             </div>
 
@@ -94,6 +132,77 @@ export const ShareLinkModal: React.FC<ShareLinkModalProps> = ({
               </select>
             </div>
 
+            <div className="form-group">
+              <label htmlFor="max-views-select">Link can be opened:</label>
+              <select
+                id="max-views-select"
+                value={maxViews}
+                onChange={(e) => setMaxViews(e.target.value)}
+                className="form-select"
+                disabled={isGenerating}
+              >
+                <option value="unlimited">Any number of times</option>
+                <option value="1">Once (one-time link)</option>
+                <option value="3">3 times</option>
+                <option value="5">5 times</option>
+                <option value="10">10 times</option>
+              </select>
+              {maxViews !== 'unlimited' && (
+                <span className="form-hint">
+                  The link revokes itself after the last view. Opening it yourself counts as a view.
+                </span>
+              )}
+            </div>
+
+            <div className="form-group">
+              <label>Recipients can see:</label>
+              <div className="redaction-grid">
+                {REDACTION_FIELDS.map(({ field, label, canMask }) => (
+                  <React.Fragment key={field}>
+                    <label htmlFor={`redaction-${field}`} className="redaction-label">{label}</label>
+                    <select
+                      id={`redaction-${field}`}
+                      value={redaction[field]}
+                      onChange={(e) => handleRedactionChange(field, e.target.value)}
+                      className="form-select"
+                      disabled={isGenerating}
+                    >
+                      <option value="reveal">Show</option>
+                      {canMask && <option value="mask">Mask</option>}
+                      <option value="omit">Hide</option>
+                    </select>
+                  </React.Fragment>
+                ))}
+              </div>
+              <label className="redaction-checkbox">
+                <input
+                  type="checkbox"
+                  checked={redaction.images}
+                  onChange={(e) => setRedaction((prev) => ({ ...prev, images: e.target.checked }))}
+                  disabled={isGenerating}
+                />
+                Include card images
+              </label>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="share-passcode">Passcode (optional):</label>
+              <input
+                id="share-passcode"
+                type="password"
+                value={passcode}
+                onChange={(e) => setPasscode(e.target.value)}
+                className="passcode-input"
+                placeholder="PIN or password"
+                autoComplete="new-password"
+                maxLength={MAX_PASSCODE_LENGTH}
+                disabled={isGenerating}
+              />
+              <span className="form-hint">
+                Viewers must enter this before any card data loads. Send it separately from the link.
+              </span>
+            </div>
+
             <div className="form-actions">
               <button
                 onClick={handleClose}
@@ -158,12 +267,37 @@ export const ShareLinkModal: React.FC<ShareLinkModalProps> = ({
                 <span className="material-symbols-outlined">schedule</span>
                 Expires: {formatExpiry(expiresAt)}
               </div>
+              {viewLimit && (
+                <div className="link-info">
+                  <span className="material-symbols-outlined">visibility</span>
+                  {viewLimit === 1
+                    ? 'Stops working after it is opened once'
+                    : `Stops working after ${viewLimit} opens`}
+                </div>
+              )}
+              {passcodeProtected && (
+                <div className="link-info">
+                  <span className="material-symbols-outlined">lock</span>
+                  Passcode required to open
+                </div>
+              )}
+              {describeRedaction(redaction) && (
+                <div className="link-info">
+                  <span className="material-symbols-outlined">visibility_off</span>
+                  {describeRedaction(redaction)}
+                </div>
+              )}
             </div>
 
+            <ShareQrCode shareUrl={shareUrl} expiresAt={expiresAt} folderName={folderName} />
+
             <div className="warning-box">
               <span className="material-symbols-outlined">warning</span>
               <p>
-                <strong>Security Note:</strong> Anyone with this link can view all card details.
+                <strong>Security Note:</strong>{' '}
+                {passcodeProtected
+                  ? 'Anyone with this link and the passcode can view the card details you chose to share.'
+                  : 'Anyone with this link can view the card details you chose to share.'}{' '}
                 You can revoke this link anytime from the folder settings.
               </p>
             </div>
@@ -0,0 +1,130 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { buildShareQrUrl, renderQrPng, renderQrSvg } from '../../../utils/shareQr';
+import './ShareQrCode.css';
+
+interface ShareQrCodeProps {
+  shareUrl: string;
+  expiresAt: string | null;
+  folderName: string;
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+export const ShareQrCode: React.FC<ShareQrCodeProps> = ({ shareUrl, expiresAt, folderName }) => {
+  const [svg, setSvg] = useState('');
+  const [error, setError] = useState('');
+
+  const qrUrl = useMemo(() => buildShareQrUrl(shareUrl, expiresAt), [shareUrl, expiresAt]);
+  const caption = expiresAt
+    ? `Valid until ${new Date(expiresAt).toLocaleString()}`
+    : 'No expiry date';
+  const fileName = `share-${folderName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'folder'}-qr`;
+
+  useEffect(() => {
+    let cancelled = false;
+    renderQrSvg(qrUrl)
+      .then((markup) => {
+        if (!cancelled) setSvg(markup);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not create a QR code for this link');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [qrUrl]);
+
+  const triggerDownload = (href: string, name: string) => {
+    const link = document.createElement('a');
+    link.href = href;
+    link.download = name;
+    link.click();
+  };
+
+  const handleDownloadSvg = () => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    triggerDownload(url, `${fileName}.svg`);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadPng = async () => {
+    try {
+      triggerDownload(await renderQrPng(qrUrl), `${fileName}.png`);
+    } catch {
+      setError('Could not create the PNG image');
+    }
+  };
+
+  // Printed from a hidden frame so pop-up blockers don't get in the way
+  const handlePrint = () => {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    document.body.appendChild(frame);
+
+    const doc = frame.contentDocument;
+    const win = frame.contentWindow;
+    if (!doc || !win) {
+      frame.remove();
+      return;
+    }
+
+    doc.open();
+    doc.write(`<!DOCTYPE html><html><head><title>${escapeHtml(folderName)}</title>
+      <style>
+        body { font-family: sans-serif; text-align: center; padding: 2rem; }
+        svg { width: 18rem; height: 18rem; }
+        p { margin: 0.5rem 0; color: #334155; }
+      </style></head><body>
+      <h2>${escapeHtml(folderName)}</h2>
+      ${svg}
+      <p>Scan to open the shared folder</p>
+      <p>${escapeHtml(caption)}</p>
+    </body></html>`);
+    doc.close();
+
+    win.focus();
+    win.print();
+    setTimeout(() => frame.remove(), 1000);
+  };
+
+  if (error) {
+    return (
+      <div className="share-qr-error">
+        <span className="material-symbols-outlined">error</span>
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="share-qr">
+      {svg ? (
+        // Generated locally from the share URL by the qrcode package
+        <div className="share-qr-image" dangerouslySetInnerHTML={{ __html: svg }} />
+      ) : (
+        <div className="share-qr-image share-qr-placeholder">
+          <span className="spinner-small"></span>
+        </div>
+      )}
+      <p className="share-qr-caption">{caption}</p>
+      <div className="share-qr-actions">
+        <button type="button" onClick={handleDownloadSvg} disabled={!svg} className="share-qr-btn">
+          <span className="material-symbols-outlined">download</span>
+          SVG
+        </button>
+        <button type="button" onClick={handleDownloadPng} disabled={!svg} className="share-qr-btn">
+          <span className="material-symbols-outlined">download</span>
+          PNG
+        </button>
+        <button type="button" onClick={handlePrint} disabled={!svg} className="share-qr-btn">
+          <span className="material-symbols-outlined">print</span>
+          Print
+        </button>
+      </div>
+    </div>
+  );
+};
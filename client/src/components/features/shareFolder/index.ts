@@ -2,4 +2,5 @@ export { CreateShareFolderModal } from './CreateShareFolderModal';
 export { SelectShareFolderModal } from './SelectShareFolderModal';
 export { ShareLinkModal } from './ShareLinkModal';
 export { ShareFolderDetailsModal } from './ShareFolderDetailsModal';
-
+export { ShareQrCode } from './ShareQrCode';
+export { QrScannerModal } from './QrScannerModal';
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Modal } from '../../ui/Modal';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useVault } from '../../../contexts/VaultContext';
+import { cardApi, shareFolderApi } from '../../../services/api';
+import { buildBackup, encryptBackup } from '../../../utils/vaultBackup';
+import './VaultModals.css';
+
+interface ExportBackupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 10;
+
+export const ExportBackupModal: React.FC<ExportBackupModalProps> = ({
+  isOpen,
+  onClose,
+}) => {
+  const { idToken } = useAuth();
+  const { decryptCards } = useVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState('');
+
+  const handleExport = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    try {
+      setIsExporting(true);
+      setError('');
+
+      const cards = await decryptCards(await cardApi.getAllPages(idToken));
+      const folders = await shareFolderApi.getAll(idToken);
+      const backup = await buildBackup(idToken, cards, folders, (done, total) => setProgress({ done, total }));
+      const blob = await encryptBackup(backup, passphrase);
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `secure-ai-vault-backup-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      setPassphrase('');
+      setConfirmPassphrase('');
+      onClose();
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to export backup');
+    } finally {
+      setIsExporting(false);
+      setProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    if (isExporting) return;
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setError('');
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Export Encrypted Backup">
+      <div className="vault-form">
+        {error && (
+          <div className="error-message">
+            <span className="material-symbols-outlined">error</span>
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="vault-info-box">
+          <span className="material-symbols-outlined">download</span>
+          <p>
+            All cards, their images and share folder membership will be saved into a single
+            file encrypted with this passphrase.
+          </p>
+        </div>
+
+        <div className="vault-warning-box">
+          <span className="material-symbols-outlined">warning</span>
+          <p>
+            The backup contains full card numbers and CVVs. Keep the passphrase safe - the
+            file cannot be restored without it.
+          </p>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="backup-passphrase">Backup Passphrase *</label>
+          <input
+            id="backup-passphrase"
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+            className="form-input"
+            autoComplete="new-password"
+            disabled={isExporting}
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="backup-passphrase-confirm">Confirm Passphrase *</label>
+          <input
+            id="backup-passphrase-confirm"
+            type="password"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            className="form-input"
+            autoComplete="new-password"
+            disabled={isExporting}
+          />
+        </div>
+
+        {progress && (
+          <p className="vault-progress">
+            Collecting cards... {progress.done} / {progress.total}
+          </p>
+        )}
+
+        <div className="form-actions">
+          <button onClick={handleClose} className="cancel-btn" disabled={isExporting}>
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            className="vault-primary-btn"
+            disabled={isExporting || !passphrase || !confirmPassphrase}
+          >
+            {isExporting ? (
+              <>
+                <span className="spinner-small"></span>
+                Exporting...
+              </>
+            ) : (
+              <>
+                <span className="material-symbols-outlined">download</span>
+                Export Backup
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { Modal } from '../../ui/Modal';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useVault } from '../../../contexts/VaultContext';
+import { cardApi, shareFolderApi } from '../../../services/api';
+import { RestoreSummary, decryptBackup, restoreBackup } from '../../../utils/vaultBackup';
+import './VaultModals.css';
+
+interface ImportBackupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported?: () => void;
+}
+
+export const ImportBackupModal: React.FC<ImportBackupModalProps> = ({
+  isOpen,
+  onClose,
+  onImported,
+}) => {
+  const { user, idToken } = useAuth();
+  const { decryptCards } = useVault();
+  const [file, setFile] = useState<File | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [summary, setSummary] = useState<RestoreSummary | null>(null);
+  const [error, setError] = useState('');
+
+  const handleImport = async () => {
+    if (!file || !user) return;
+
+    try {
+      setIsImporting(true);
+      setError('');
+
+      const backup = await decryptBackup(file, passphrase);
+      const existingCards = await decryptCards(await cardApi.getAllPages(idToken));
+      const existingFolders = await shareFolderApi.getAll(idToken);
+
+      const result = await restoreBackup(
+        idToken,
+        backup,
+        existingCards,
+        existingFolders,
+        (done, total) => setProgress({ done, total })
+      );
+
+      setSummary(result);
+      setPassphrase('');
+      onImported?.();
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to import backup');
+    } finally {
+      setIsImporting(false);
+      setProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    if (isImporting) return;
+    setFile(null);
+    setPassphrase('');
+    setSummary(null);
+    setError('');
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Import Backup">
+      <div className="vault-form">
+        {error && (
+          <div className="error-message">
+            <span className="material-symbols-outlined">error</span>
+            <span>{error}</span>
+          </div>
+        )}
+
+        {summary ? (
+          <>
+            <div className="vault-info-box">
+              <span className="material-symbols-outlined">task_alt</span>
+              <p>
+                Imported {summary.imported} card{summary.imported === 1 ? '' : 's'}
+                {summary.skipped > 0 && `, skipped ${summary.skipped} already in your vault`}
+                {summary.failed > 0 && `, ${summary.failed} failed`}
+                {summary.foldersCreated > 0 && `. Created ${summary.foldersCreated} share folder${summary.foldersCreated === 1 ? '' : 's'}`}
+                .
+              </p>
+            </div>
+
+            <div className="form-actions">
+              <button onClick={handleClose} className="vault-primary-btn">
+                Done
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="vault-info-box">
+              <span className="material-symbols-outlined">upload</span>
+              <p>
+                Cards whose number already exists in your vault are skipped. Share folders are
+                matched by name and created if missing.
+              </p>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="backup-file">Backup File *</label>
+              <input
+                id="backup-file"
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="form-input"
+                disabled={isImporting}
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="backup-import-passphrase">Backup Passphrase *</label>
+              <input
+                id="backup-import-passphrase"
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                className="form-input"
+                autoComplete="off"
+                disabled={isImporting}
+              />
+            </div>
+
+            {progress && (
+              <p className="vault-progress">
+                Restoring cards... {progress.done} / {progress.total}
+              </p>
+            )}
+
+            <div className="form-actions">
+              <button onClick={handleClose} className="cancel-btn" disabled={isImporting}>
+                Cancel
+              </button>
+              <button
+                onClick={handleImport}
+                className="vault-primary-btn"
+                disabled={isImporting || !file || !passphrase}
+              >
+                {isImporting ? (
+                  <>
+                    <span className="spinner-small"></span>
+                    Importing...
+                  </>
+                ) : (
+                  <>
+                    <span className="material-symbols-outlined">upload</span>
+                    Import Backup
+                  </>
+                )}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
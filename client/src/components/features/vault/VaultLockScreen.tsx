@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useVault } from '../../../contexts/VaultContext';
+import { Button } from '../../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../ui/card';
+import { Input } from '../../ui/input';
+import { Label } from '../../ui/label';
+import { Spinner } from '../../ui/spinner';
+import { Lock, LockOpen, LogOut } from 'lucide-react';
+
+const MIN_PASSPHRASE_LENGTH = 10;
+
+/**
+ * Covers the app until the session is unlocked
+ * Vault users enter their vault passphrase; everyone else sets a lock
+ * passphrase the first time and enters it afterwards. A forgotten
+ * passphrase is recovered by signing in again.
+ */
+export const VaultLockScreen: React.FC = () => {
+  const { user, signOut, reauthenticate, usesPassword } = useAuth();
+  const { isEnabled: vaultEnabled, hasPassphrase, unlock, setupLock, recoverLock } = useVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [isRecovering, setIsRecovering] = useState(false);
+  const [accountPassword, setAccountPassword] = useState('');
+  const [error, setError] = useState('');
+  const isSetup = !hasPassphrase;
+  const passphraseLabel = vaultEnabled ? 'Vault Passphrase' : 'Lock Passphrase';
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    if (isSetup) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        setError('Passphrases do not match');
+        return;
+      }
+    }
+
+    try {
+      setIsUnlocking(true);
+      setError('');
+      if (isSetup) {
+        await setupLock(passphrase);
+        return;
+      }
+      const success = await unlock(passphrase);
+      if (!success) {
+        setError('Incorrect passphrase. Please try again.');
+        setPassphrase('');
+      }
+    } catch (err: any) {
+      setError(err.message || (isSetup ? 'Failed to set passphrase' : 'Failed to unlock vault'));
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleRecover = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (usesPassword && !accountPassword) return;
+
+    try {
+      setIsUnlocking(true);
+      setError('');
+      await recoverLock(await reauthenticate(usesPassword ? accountPassword : undefined));
+      setIsRecovering(false);
+      setPassphrase('');
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to confirm your account');
+    } finally {
+      setAccountPassword('');
+      setIsUnlocking(false);
+    }
+  };
+
+  const showRecovery = (recovering: boolean) => {
+    setIsRecovering(recovering);
+    setAccountPassword('');
+    setError('');
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      console.error('Sign out error:', error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 dark:from-slate-950 dark:via-blue-950 dark:to-indigo-950 p-4">
+      <Card className="w-full max-w-md shadow-2xl border-slate-200 dark:border-slate-800">
+        <CardHeader className="space-y-3 text-center pb-6">
+          <div className="mx-auto p-3 bg-gradient-to-br from-blue-600 to-indigo-600 rounded-2xl shadow-lg">
+            <Lock className="w-8 h-8 text-white" />
+          </div>
+          <CardTitle className="text-2xl font-bold">
+            {isRecovering ? 'Forgot Passphrase' : isSetup ? 'Set a Lock Passphrase' : 'Vault Locked'}
+          </CardTitle>
+          <CardDescription className="text-sm">
+            {isRecovering
+              ? vaultEnabled
+                ? 'Your vault passphrase can\'t be recovered. Sign in again to open the app; vault-encrypted card details stay locked.'
+                : 'Sign in again to remove your lock passphrase, then choose a new one.'
+              : isSetup
+                ? 'Your cards are hidden whenever the app locks. Choose a passphrase to unlock them.'
+                : `Enter your ${vaultEnabled ? 'vault' : 'lock'} passphrase to view your cards`}
+            {user?.email && (
+              <span className="block mt-1 text-slate-500 dark:text-slate-400">{user.email}</span>
+            )}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isRecovering ? (
+            <form onSubmit={handleRecover} className="space-y-4">
+              {usesPassword && (
+                <div className="space-y-2">
+                  <Label htmlFor="vault-lock-account-password">Account Password</Label>
+                  <Input
+                    id="vault-lock-account-password"
+                    type="password"
+                    value={accountPassword}
+                    onChange={(e) => setAccountPassword(e.target.value)}
+                    autoComplete="current-password"
+                    autoFocus
+                    disabled={isUnlocking}
+                  />
+                </div>
+              )}
+
+              {error && (
+                <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+                  <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                disabled={isUnlocking || (usesPassword && !accountPassword)}
+                size="lg"
+                className="w-full text-base h-12 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg"
+              >
+                {isUnlocking ? (
+                  <>
+                    <Spinner className="mr-2" />
+                    Confirming...
+                  </>
+                ) : usesPassword ? 'Confirm' : 'Continue with Google'}
+              </Button>
+
+              <Button type="button" variant="ghost" onClick={() => showRecovery(false)} disabled={isUnlocking} className="w-full">
+                Back
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={handleUnlock} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="vault-lock-passphrase">{passphraseLabel}</Label>
+                <Input
+                  id="vault-lock-passphrase"
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  autoComplete={isSetup ? 'new-password' : 'current-password'}
+                  autoFocus
+                  disabled={isUnlocking}
+                />
+              </div>
+
+              {isSetup && (
+                <div className="space-y-2">
+                  <Label htmlFor="vault-lock-confirm">Confirm Passphrase</Label>
+                  <Input
+                    id="vault-lock-confirm"
+                    type="password"
+                    value={confirmPassphrase}
+                    onChange={(e) => setConfirmPassphrase(e.target.value)}
+                    autoComplete="new-password"
+                    disabled={isUnlocking}
+                  />
+                </div>
+              )}
+
+              {error && (
+                <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+                  <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                disabled={isUnlocking || !passphrase}
+                size="lg"
+                className="w-full text-base h-12 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg"
+              >
+                {isUnlocking ? (
+                  <>
+                    <Spinner className="mr-2" />
+                    {isSetup ? 'Saving...' : 'Unlocking...'}
+                  </>
+                ) : (
+                  <>
+                    <LockOpen className="w-5 h-5 mr-2" />
+                    {isSetup ? 'Set Passphrase' : 'Unlock Vault'}
+                  </>
+                )}
+              </Button>
+
+              {!isSetup && (
+                <Button type="button" variant="link" onClick={() => showRecovery(true)} className="w-full text-sm">
+                  Forgot passphrase?
+                </Button>
+              )}
+            </form>
+          )}
+
+          <Button
+            variant="ghost"
+            onClick={handleSignOut}
+            className="w-full gap-2 text-red-600 hover:text-red-700 hover:bg-red-50 dark:text-red-400 dark:hover:text-red-300 dark:hover:bg-red-950/30"
+          >
+            <LogOut className="w-4 h-4" />
+            Sign Out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Modal } from '../../ui/Modal';
+import { useVault } from '../../../contexts/VaultContext';
+import './VaultModals.css';
+
+interface VaultSetupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onComplete?: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 10;
+
+export const VaultSetupModal: React.FC<VaultSetupModalProps> = ({
+  isOpen,
+  onClose,
+  onComplete,
+}) => {
+  const { setupVault } = useVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState('');
+
+  const handleEnable = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError('');
+      await setupVault(passphrase, (done, total) => setProgress({ done, total }));
+      setPassphrase('');
+      setConfirmPassphrase('');
+      onComplete?.();
+      onClose();
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to enable vault encryption');
+    } finally {
+      setIsSaving(false);
+      setProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    if (isSaving) return;
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setError('');
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Enable Vault Encryption">
+      <div className="vault-form">
+        {error && (
+          <div className="error-message">
+            <span className="material-symbols-outlined">error</span>
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="vault-info-box">
+          <span className="material-symbols-outlined">shield_lock</span>
+          <p>
+            Card numbers, CVVs and expiry dates will be encrypted in your browser with a key
+            derived from this passphrase. The server never sees it.
+          </p>
+        </div>
+
+        <div className="vault-warning-box">
+          <span className="material-symbols-outlined">warning</span>
+          <p>
+            <strong>There is no recovery.</strong> If you forget this passphrase, your encrypted
+            card details cannot be restored by anyone.
+          </p>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="vault-passphrase">Vault Passphrase *</label>
+          <input
+            id="vault-passphrase"
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+            className="form-input"
+            autoComplete="new-password"
+            disabled={isSaving}
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="vault-passphrase-confirm">Confirm Passphrase *</label>
+          <input
+            id="vault-passphrase-confirm"
+            type="password"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            className="form-input"
+            autoComplete="new-password"
+            disabled={isSaving}
+          />
+        </div>
+
+        {progress && (
+          <p className="vault-progress">
+            Encrypting existing cards... {progress.done} / {progress.total}
+          </p>
+        )}
+
+        <div className="form-actions">
+          <button onClick={handleClose} className="cancel-btn" disabled={isSaving}>
+            Cancel
+          </button>
+          <button
+            onClick={handleEnable}
+            className="vault-primary-btn"
+            disabled={isSaving || !passphrase || !confirmPassphrase}
+          >
+            {isSaving ? (
+              <>
+                <span className="spinner-small"></span>
+                Encrypting...
+              </>
+            ) : (
+              <>
+                <span className="material-symbols-outlined">lock</span>
+                Enable Encryption
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
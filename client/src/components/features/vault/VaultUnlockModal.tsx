@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Modal } from '../../ui/Modal';
+import { useVault } from '../../../contexts/VaultContext';
+import './VaultModals.css';
+
+interface VaultUnlockModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onUnlock?: () => void;
+}
+
+export const VaultUnlockModal: React.FC<VaultUnlockModalProps> = ({
+  isOpen,
+  onClose,
+  onUnlock,
+}) => {
+  const { unlock } = useVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    try {
+      setIsUnlocking(true);
+      setError('');
+      const success = await unlock(passphrase);
+      if (!success) {
+        setError('Incorrect passphrase');
+        return;
+      }
+      setPassphrase('');
+      onUnlock?.();
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to unlock vault');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleClose = () => {
+    setPassphrase('');
+    setError('');
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Unlock Vault">
+      <form className="vault-form" onSubmit={handleUnlock}>
+        {error && (
+          <div className="error-message">
+            <span className="material-symbols-outlined">error</span>
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="form-group">
+          <label htmlFor="vault-unlock-passphrase">Vault Passphrase</label>
+          <input
+            id="vault-unlock-passphrase"
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            className="form-input"
+            autoComplete="current-password"
+            autoFocus
+            disabled={isUnlocking}
+          />
+        </div>
+
+        <div className="form-actions">
+          <button type="button" onClick={handleClose} className="cancel-btn" disabled={isUnlocking}>
+            Cancel
+          </button>
+          <button type="submit" className="vault-primary-btn" disabled={isUnlocking || !passphrase}>
+            {isUnlocking ? (
+              <>
+                <span className="spinner-small"></span>
+                Unlocking...
+              </>
+            ) : (
+              <>
+                <span className="material-symbols-outlined">lock_open</span>
+                Unlock
+              </>
+            )}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
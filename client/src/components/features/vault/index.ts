@@ -0,0 +1,5 @@
+export { VaultSetupModal } from './VaultSetupModal';
+export { VaultUnlockModal } from './VaultUnlockModal';
+export { VaultLockScreen } from './VaultLockScreen';
+export { ExportBackupModal } from './ExportBackupModal';
+export { ImportBackupModal } from './ImportBackupModal';
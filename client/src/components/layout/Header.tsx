@@ -1,11 +1,12 @@
 import React from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useVault } from '../../contexts/VaultContext';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Badge } from '../ui/badge';
 import { Separator } from '../ui/separator';
 import { ThemeToggle } from '../ui/ThemeToggle';
-import { Shield, Search, Menu, LogOut, User, Filter } from 'lucide-react';
+import { Shield, Search, Menu, LogOut, User, Filter, Lock } from 'lucide-react';
 
 interface HeaderProps {
   selectedBank?: string;
@@ -27,6 +28,7 @@ export const Header: React.FC<HeaderProps> = ({
   onSearchChange
 }) => {
   const { user, signOut } = useAuth();
+  const { lock: lockVault } = useVault();
 
   const handleSignOut = async () => {
     try {
@@ -104,6 +106,16 @@ export const Header: React.FC<HeaderProps> = ({
           {/* User Menu */}
           <div className="flex items-center gap-2">
             <ThemeToggle />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={lockVault}
+              className="gap-2"
+              title="Lock vault"
+            >
+              <Lock className="w-4 h-4" />
+              <span className="hidden lg:inline">Lock</span>
+            </Button>
             <div className="hidden sm:flex items-center gap-3">
               <Separator orientation="vertical" className="h-6" />
               <div className="flex items-center gap-2 px-3 py-1.5 bg-slate-100 dark:bg-slate-800 rounded-lg">
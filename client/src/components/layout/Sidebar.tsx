@@ -1,8 +1,13 @@
-import React, { useState } from 'react';
-import { Card, ShareFolder } from '../../types/card';
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, ShareFolder, ShareLinkOptions, SharedWithMeFolder } from '../../types/card';
 import { useAuth } from '../../contexts/AuthContext';
+import { useVault } from '../../contexts/VaultContext';
+import { useAppDispatch, useAppSelector } from '../../store/hooks';
+import { AUTO_LOCK_OPTIONS, setAutoLockMinutes, setLockOnHide } from '../../store/slices/vaultSlice';
 import { shareFolderApi } from '../../services/api';
-import { CreateShareFolderModal, ShareLinkModal, ShareFolderDetailsModal } from '../features/shareFolder';
+import { CreateShareFolderModal, ShareLinkModal, ShareFolderDetailsModal, QrScannerModal } from '../features/shareFolder';
+import { VaultSetupModal, ExportBackupModal, ImportBackupModal } from '../features/vault';
 import './Sidebar.css';
 
 interface SidebarProps {
@@ -12,8 +17,12 @@ interface SidebarProps {
   onClose: () => void;
   searchQuery?: string;
   onSearchChange?: (query: string) => void;
+  tags?: string[];
+  selectedTag?: string;
+  onTagSelect?: (tag: string) => void;
   shareFolders?: ShareFolder[];
   onShareFoldersUpdate?: () => void;
+  onCardsUpdate?: () => void;
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({ 
@@ -23,14 +32,37 @@ export const Sidebar: React.FC<SidebarProps> = ({
   onClose,
   searchQuery = '',
   onSearchChange,
+  tags = [],
+  selectedTag = '',
+  onTagSelect,
   shareFolders = [],
-  onShareFoldersUpdate
+  onShareFoldersUpdate,
+  onCardsUpdate
 }) => {
   const { user, signOut, idToken } = useAuth();
+  const { isEnabled: vaultEnabled, lock: lockVault } = useVault();
+  const dispatch = useAppDispatch();
+  const { autoLockMinutes, lockOnHide } = useAppSelector((state) => state.vault);
   const [showCreateFolderModal, setShowCreateFolderModal] = useState(false);
   const [showShareLinkModal, setShowShareLinkModal] = useState(false);
   const [showFolderDetailsModal, setShowFolderDetailsModal] = useState(false);
   const [selectedFolder, setSelectedFolder] = useState<ShareFolder | null>(null);
+  const [showVaultSetupModal, setShowVaultSetupModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showQrScanner, setShowQrScanner] = useState(false);
+  const [sharedWithMe, setSharedWithMe] = useState<SharedWithMeFolder[]>([]);
+  const navigate = useNavigate();
+  // Folders the user can edit are listed with their own share folders
+  const viewOnlyFolders = sharedWithMe.filter((folder) => folder.role === 'viewer');
+
+  useEffect(() => {
+    if (!idToken) return;
+
+    shareFolderApi.getSharedWithMe(idToken)
+      .then(setSharedWithMe)
+      .catch((error) => console.error('Fetch shared with me error:', error));
+  }, [idToken]);
 
   const handleSignOut = async () => {
     try {
@@ -81,14 +113,16 @@ export const Sidebar: React.FC<SidebarProps> = ({
     setShowFolderDetailsModal(false);
   };
 
-  const handleGenerateShareLink = async (folderId: string, expiresIn: string) => {
+  const handleGenerateShareLink = async (folderId: string, options: ShareLinkOptions) => {
     if (!idToken) throw new Error('Not authenticated');
 
     try {
-      const result = await shareFolderApi.generateShareLink(idToken, folderId, expiresIn);
+      const result = await shareFolderApi.generateShareLink(idToken, folderId, options);
       return {
         shareUrl: result.shareUrl,
-        expiresAt: result.expiresAt
+        expiresAt: result.expiresAt,
+        passcodeProtected: result.passcodeProtected,
+        maxViews: result.maxViews
       };
     } catch (error: any) {
       console.error('Generate share link error:', error);
@@ -103,7 +137,8 @@ export const Sidebar: React.FC<SidebarProps> = ({
         const cardName = (card.cardName || '').toLowerCase();
         const bank = (card.bank || '').toLowerCase();
         const type = card.type.toLowerCase();
-        return cardName.includes(query) || bank.includes(query) || type.includes(query);
+        const hasTag = (card.tags || []).some(tag => tag.includes(query));
+        return cardName.includes(query) || bank.includes(query) || type.includes(query) || hasTag;
       })
     : cards;
 
@@ -169,34 +204,71 @@ export const Sidebar: React.FC<SidebarProps> = ({
                     onClick={() => handleFolderClick(folder)}
                     style={{ cursor: 'pointer' }}
                   >
-                    <span className="material-symbols-outlined folder-icon">folder</span>
+                    <span className="material-symbols-outlined folder-icon">
+                      {folder.userId === user?.uid ? 'folder' : 'folder_shared'}
+                    </span>
                     <div className="folder-details">
                       <h4>{folder.name}</h4>
-                      <span className="folder-count">{folder.cardIds?.length || 0} cards</span>
+                      <span className="folder-count">
+                        {folder.cardIds?.length || 0} cards
+                        {folder.userId !== user?.uid && folder.role ? ` · ${folder.role}` : ''}
+                      </span>
                     </div>
                   </div>
                   <div className="folder-actions">
-                    <button
-                      className="share-folder-btn"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleShareFolder(folder);
-                      }}
-                      title="Share folder"
-                      disabled={(folder.cardIds?.length || 0) === 0}
-                    >
-                      <span className="material-symbols-outlined">share</span>
-                    </button>
-                    <button
-                      className="delete-folder-btn"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleDeleteFolder(folder.id!, folder.name);
-                      }}
-                      title="Delete folder"
-                    >
-                      <span className="material-symbols-outlined">delete</span>
-                    </button>
+                    {(folder.role || 'owner') === 'owner' && (
+                      <button
+                        className="share-folder-btn"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleShareFolder(folder);
+                        }}
+                        title="Share folder"
+                        disabled={(folder.cardIds?.length || 0) === 0}
+                      >
+                        <span className="material-symbols-outlined">share</span>
+                      </button>
+                    )}
+                    {folder.userId === user?.uid && (
+                      <button
+                        className="delete-folder-btn"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDeleteFolder(folder.id!, folder.name);
+                        }}
+                        title="Delete folder"
+                      >
+                        <span className="material-symbols-outlined">delete</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Shared With Me Section */}
+        {viewOnlyFolders.length > 0 && (
+          <div className="share-folders-section">
+            <div className="section-header">
+              <h3>Shared with me</h3>
+            </div>
+            <div className="folders-list">
+              {viewOnlyFolders.map((folder) => (
+                <div key={folder.id} className="folder-item">
+                  <div
+                    className="folder-item-content"
+                    onClick={() => navigate(`/shared-with-me/${folder.id}`)}
+                    style={{ cursor: 'pointer' }}
+                  >
+                    <span className="material-symbols-outlined folder-icon">folder_shared</span>
+                    <div className="folder-details">
+                      <h4>{folder.name}</h4>
+                      <span className="folder-count">
+                        {folder.cardCount} cards{folder.ownerEmail ? ` · from ${folder.ownerEmail}` : ''}
+                      </span>
+                    </div>
                   </div>
                 </div>
               ))}
@@ -216,6 +288,20 @@ export const Sidebar: React.FC<SidebarProps> = ({
             </button>
           </div>
         )}
+        {/* Tag Filters */}
+        {onTagSelect && tags.length > 0 && (
+          <div className="sidebar-tags">
+            {tags.map((tag) => (
+              <button
+                key={tag}
+                className={`sidebar-tag ${selectedTag === tag ? 'active' : ''}`}
+                onClick={() => onTagSelect(tag)}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
         {onSearchChange && (
           <div className="sidebar-search">
             <input
@@ -253,6 +339,13 @@ export const Sidebar: React.FC<SidebarProps> = ({
                   <div className="card-item-info">
                     <h4>{card.cardName || card.type.toUpperCase()}</h4>
                     {card.bank && <span className="bank-tag">{card.bank}</span>}
+                    {card.tags && card.tags.length > 0 && (
+                      <div className="card-label-tags">
+                        {card.tags.map((tag) => (
+                          <span key={tag} className="card-label-tag">#{tag}</span>
+                        ))}
+                      </div>
+                    )}
                     {card.extractionStatus === 'processing' && (
                       <span className="status-tag processing">Extracting...</span>
                     )}
@@ -268,6 +361,57 @@ export const Sidebar: React.FC<SidebarProps> = ({
 
         {/* Sign Out Button */}
         <div className="sidebar-footer">
+          <button className="backup-btn activity-btn" onClick={() => navigate('/activity')}>
+            <span className="material-symbols-outlined">history</span>
+            <span>Activity</span>
+          </button>
+          <div className="backup-actions">
+            <button className="backup-btn" onClick={() => setShowExportModal(true)} disabled={cards.length === 0}>
+              <span className="material-symbols-outlined">download</span>
+              <span>Export</span>
+            </button>
+            <button className="backup-btn" onClick={() => setShowImportModal(true)}>
+              <span className="material-symbols-outlined">upload</span>
+              <span>Import</span>
+            </button>
+            <button className="backup-btn" onClick={() => setShowQrScanner(true)} title="Open a share link from its QR code">
+              <span className="material-symbols-outlined">qr_code_scanner</span>
+              <span>Scan QR</span>
+            </button>
+          </div>
+          {!vaultEnabled && (
+            <button className="vault-btn" onClick={() => setShowVaultSetupModal(true)}>
+              <span className="material-symbols-outlined">shield_lock</span>
+              <span>Enable Vault Encryption</span>
+            </button>
+          )}
+          <div className="vault-lock-settings">
+            <label className="vault-lock-setting">
+              <span>Auto-lock</span>
+              <select
+                value={autoLockMinutes}
+                onChange={(e) => dispatch(setAutoLockMinutes(parseInt(e.target.value, 10)))}
+              >
+                {AUTO_LOCK_OPTIONS.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {minutes === 0 ? 'Never' : `After ${minutes} min idle`}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="vault-lock-setting">
+              <span>Lock when tab is hidden</span>
+              <input
+                type="checkbox"
+                checked={lockOnHide}
+                onChange={(e) => dispatch(setLockOnHide(e.target.checked))}
+              />
+            </label>
+          </div>
+          <button className="vault-btn" onClick={lockVault}>
+            <span className="material-symbols-outlined">lock</span>
+            <span>Lock Vault</span>
+          </button>
           <button className="signout-btn" onClick={handleSignOut}>
             <span className="material-symbols-outlined">logout</span>
             <span>Sign Out</span>
@@ -284,6 +428,30 @@ export const Sidebar: React.FC<SidebarProps> = ({
         />
       )}
 
+      {/* Vault Modals */}
+      {showVaultSetupModal && (
+        <VaultSetupModal
+          isOpen={showVaultSetupModal}
+          onClose={() => setShowVaultSetupModal(false)}
+        />
+      )}
+
+      {/* Backup Modals */}
+      {showExportModal && (
+        <ExportBackupModal
+          isOpen={showExportModal}
+          onClose={() => setShowExportModal(false)}
+        />
+      )}
+
+      {showImportModal && (
+        <ImportBackupModal
+          isOpen={showImportModal}
+          onClose={() => setShowImportModal(false)}
+          onImported={onCardsUpdate}
+        />
+      )}
+
       {/* Folder Details Modal */}
       {showFolderDetailsModal && selectedFolder && (
         <ShareFolderDetailsModal
@@ -311,6 +479,14 @@ export const Sidebar: React.FC<SidebarProps> = ({
           onGenerate={handleGenerateShareLink}
         />
       )}
+
+      {/* QR Scanner Modal */}
+      {showQrScanner && (
+        <QrScannerModal
+          isOpen={showQrScanner}
+          onClose={() => setShowQrScanner(false)}
+        />
+      )}
     </div>
   );
 };
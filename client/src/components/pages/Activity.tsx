@@ -0,0 +1,311 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ActivityEntry, ActivityFilters, ActivityVerifyResult, Card } from '../../types/card';
+import { useAuth } from '../../contexts/AuthContext';
+import { activityApi, cardApi } from '../../services/api';
+import { ThemeToggle } from '../ui/ThemeToggle';
+import './Activity.css';
+
+const ACTION_GROUPS: { prefix: string; label: string; actions: Record<string, string> }[] = [
+  {
+    prefix: 'card',
+    label: 'Cards',
+    actions: {
+      'card.create': 'Added card',
+      'card.view': 'Opened card',
+      'card.update': 'Edited card',
+      'card.merge': 'Merged duplicate card',
+      'card.delete': 'Deleted card',
+      'card.cvv_delete': 'Deleted CVV',
+      'card.reveal_cvv': 'Revealed CVV',
+      'card.reveal_number': 'Revealed full number',
+      'card.copy': 'Copied card detail',
+      'card.image_view': 'Viewed card image',
+      'card.image_encrypt': 'Encrypted card image',
+    },
+  },
+  {
+    prefix: 'extraction',
+    label: 'Extraction',
+    actions: {
+      'extraction.run': 'Extracted card details',
+      'extraction.failed': 'Extraction failed',
+    },
+  },
+  {
+    prefix: 'folder',
+    label: 'Share folders',
+    actions: {
+      'folder.create': 'Created folder',
+      'folder.delete': 'Deleted folder',
+      'folder.view': 'Opened shared folder',
+      'folder.card_add': 'Added card to folder',
+      'folder.card_remove': 'Removed card from folder',
+      'folder.member_add': 'Added member',
+      'folder.member_role': 'Changed member role',
+      'folder.member_remove': 'Removed member',
+      'folder.leave': 'Left folder',
+    },
+  },
+  {
+    prefix: 'share',
+    label: 'Share links',
+    actions: {
+      'share.link_create': 'Generated share link',
+      'share.link_revoke': 'Revoked share link',
+    },
+  },
+];
+
+const ACTION_LABELS: Record<string, string> = Object.assign({}, ...ACTION_GROUPS.map((group) => group.actions));
+
+const ACTION_ICONS: Record<string, string> = {
+  card: 'credit_card',
+  extraction: 'document_scanner',
+  folder: 'folder_shared',
+  share: 'link',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  cardNumber: 'card number',
+  cardHolderName: 'cardholder name',
+  expiryDate: 'expiry date',
+  cvv: 'CVV',
+};
+
+const getCardLabel = (card: Card): string =>
+  card.cardName || card.bank || card.cardHolderName || card.type.toUpperCase();
+
+// Short, human-readable summary of an entry's details
+const describeDetails = (entry: ActivityEntry): string => {
+  const details = entry.details;
+  const parts: string[] = [];
+
+  if (typeof details.field === 'string') parts.push(FIELD_LABELS[details.field] || details.field);
+  if (Array.isArray(details.fields)) parts.push(`changed ${details.fields.join(', ')}`);
+  if (typeof details.type === 'string') parts.push(details.type);
+  if (typeof details.side === 'string') parts.push(`${details.side} side`);
+  if (Array.isArray(details.sides)) parts.push(`${details.sides.join(' + ')} via ${details.provider}`);
+  if (typeof details.role === 'string') parts.push(`as ${details.role}`);
+  if (typeof details.removedCards === 'number' && details.removedCards > 0) {
+    parts.push(`${details.removedCards} card${details.removedCards === 1 ? '' : 's'} removed`);
+  }
+  if (typeof details.expiresIn === 'string') parts.push(`expires ${details.expiresIn}`);
+  if (details.passcodeProtected) parts.push('passcode');
+  if (typeof details.maxViews === 'number') parts.push(`${details.maxViews} views`);
+  if (typeof details.cardCount === 'number') parts.push(`${details.cardCount} cards`);
+  if (details.batch) parts.push('batch');
+
+  return parts.join(' · ');
+};
+
+// Date inputs give local calendar days; the API compares full timestamps
+const toRangeStart = (date: string) => (date ? new Date(`${date}T00:00:00`).toISOString() : undefined);
+const toRangeEnd = (date: string) => (date ? new Date(`${date}T23:59:59.999`).toISOString() : undefined);
+
+export const Activity: React.FC = () => {
+  const { idToken } = useAuth();
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cards, setCards] = useState<Card[]>([]);
+  const [action, setAction] = useState('');
+  const [cardId, setCardId] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const [verifyResult, setVerifyResult] = useState<ActivityVerifyResult | null>(null);
+
+  const filters: ActivityFilters = {
+    ...(action && { action }),
+    ...(cardId && { cardId }),
+    ...(fromDate && { from: toRangeStart(fromDate) }),
+    ...(toDate && { to: toRangeEnd(toDate) }),
+  };
+  const filterKey = JSON.stringify(filters);
+
+  const fetchPage = useCallback(async (cursor: number | null) => {
+    if (!idToken) return;
+
+    try {
+      if (cursor) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
+      setError(null);
+      const page = await activityApi.getAll(idToken, JSON.parse(filterKey), cursor);
+      setEntries((prev) => (cursor ? [...prev, ...page.entries] : page.entries));
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Error fetching activity:', err);
+      setError('Failed to load activity. Please try again.');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  }, [idToken, filterKey]);
+
+  useEffect(() => {
+    fetchPage(null);
+  }, [fetchPage]);
+
+  // Cards for the filter and for naming entries; deleted cards show as such
+  useEffect(() => {
+    if (!idToken) return;
+    cardApi.getAllPages(idToken)
+      .then(setCards)
+      .catch((err) => console.error('Error fetching cards:', err));
+  }, [idToken]);
+
+  const handleVerify = async () => {
+    if (!idToken) return;
+
+    try {
+      setVerifying(true);
+      setVerifyResult(await activityApi.verify(idToken));
+    } catch (err) {
+      console.error('Error verifying activity log:', err);
+      setError('Failed to verify the activity log. Please try again.');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const clearFilters = () => {
+    setAction('');
+    setCardId('');
+    setFromDate('');
+    setToDate('');
+  };
+
+  const cardNames = new Map(cards.map((card) => [card.id, getCardLabel(card)]));
+  const hasFilters = !!(action || cardId || fromDate || toDate);
+
+  return (
+    <div className="activity-page">
+      <div className="activity-container">
+        <header className="activity-header">
+          <Link to="/" className="activity-back" title="Back to wallet">
+            <span className="material-symbols-outlined">arrow_back</span>
+          </Link>
+          <div className="activity-title">
+            <h1>Activity</h1>
+            <p>Everything done with your cards, folders and share links</p>
+          </div>
+          <ThemeToggle />
+        </header>
+
+        <div className="activity-verify">
+          <button className="activity-verify-btn" onClick={handleVerify} disabled={verifying}>
+            <span className="material-symbols-outlined">verified_user</span>
+            {verifying ? 'Verifying...' : 'Verify integrity'}
+          </button>
+          {verifyResult && (
+            verifyResult.valid ? (
+              <span className="activity-verify-result valid">
+                <span className="material-symbols-outlined">check_circle</span>
+                All {verifyResult.checked} entries are intact
+              </span>
+            ) : (
+              <span className="activity-verify-result invalid">
+                <span className="material-symbols-outlined">gpp_bad</span>
+                Tampering detected at entry #{verifyResult.brokenAt}: {verifyResult.reason}
+              </span>
+            )
+          )}
+        </div>
+
+        <div className="activity-filters">
+          <label>
+            <span>Action</span>
+            <select value={action} onChange={(e) => setAction(e.target.value)}>
+              <option value="">All activity</option>
+              {ACTION_GROUPS.map((group) => (
+                <optgroup key={group.prefix} label={group.label}>
+                  <option value={group.prefix}>All {group.label.toLowerCase()}</option>
+                  {Object.entries(group.actions).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>Card</span>
+            <select value={cardId} onChange={(e) => setCardId(e.target.value)}>
+              <option value="">All cards</option>
+              {cards.map((card) => (
+                <option key={card.id} value={card.id}>{getCardLabel(card)}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>From</span>
+            <input type="date" value={fromDate} max={toDate || undefined} onChange={(e) => setFromDate(e.target.value)} />
+          </label>
+          <label>
+            <span>To</span>
+            <input type="date" value={toDate} min={fromDate || undefined} onChange={(e) => setToDate(e.target.value)} />
+          </label>
+          {hasFilters && (
+            <button className="activity-clear-btn" onClick={clearFilters}>
+              Clear
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="activity-error">
+            <span className="material-symbols-outlined">error</span>
+            <span>{error}</span>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="activity-empty">Loading activity...</div>
+        ) : entries.length === 0 ? (
+          <div className="activity-empty">
+            <span className="material-symbols-outlined">history</span>
+            <p>{hasFilters ? 'No activity matches these filters.' : 'No activity recorded yet.'}</p>
+          </div>
+        ) : (
+          <ul className="activity-list">
+            {entries.map((entry) => {
+              const category = entry.action.split('.')[0];
+              const details = describeDetails(entry);
+              return (
+                <li key={entry.seq} className="activity-item">
+                  <span className={`activity-icon ${category}`}>
+                    <span className="material-symbols-outlined">{ACTION_ICONS[category] || 'history'}</span>
+                  </span>
+                  <div className="activity-body">
+                    <div className="activity-action">
+                      {ACTION_LABELS[entry.action] || entry.action}
+                      {entry.cardId && (
+                        <span className="activity-card">{cardNames.get(entry.cardId) || 'Deleted card'}</span>
+                      )}
+                    </div>
+                    {details && <div className="activity-details">{details}</div>}
+                    <div className="activity-meta">
+                      {new Date(entry.createdAt).toLocaleString()} · {entry.userAgent}
+                      <span className="activity-seq" title={`Hash ${entry.hash}`}>#{entry.seq}</span>
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {nextCursor && !loading && (
+          <button className="activity-more-btn" onClick={() => fetchPage(nextCursor)} disabled={loadingMore}>
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,30 +1,48 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useToastContext } from '../../contexts/ToastContext';
-import { cardApi, shareFolderApi, isRateLimitError } from '../../services/api';
-import { Card, ShareFolder } from '../../types/card';
+import { useVault } from '../../contexts/VaultContext';
+import { cardApi, extractApi, shareFolderApi, isRateLimitError } from '../../services/api';
+import { Card, CardUpdate, ShareFolder } from '../../types/card';
 import { Loading } from '../ui/Loading';
-import { Menu, Search, Plus, ArrowLeft } from 'lucide-react';
+import { Menu, Search, Plus, ArrowLeft, Lock, CheckSquare, X, Trash2, RefreshCw, FolderPlus } from 'lucide-react';
 import { CardItem } from '../features/cards/CardItem';
 import { CardUpload } from '../features/cards/CardUpload';
 import { ThemeToggle } from '../ui/ThemeToggle';
 import { Sidebar } from '../layout/Sidebar';
-import { maskCardNumber, maskPAN, getCardNetwork } from '../../utils/cardUtils';
+import { maskCardNumber, maskPAN, maskAadhaar, getCardNetwork, getCardImages, getExpiryStatus, getExtractedCardFields } from '../../utils/cardUtils';
 import { NetworkLogo } from '../ui/NetworkLogo';
 import { Dropdown } from '../ui/Dropdown';
 import { SelectShareFolderModal } from '../features/shareFolder';
+import { VaultUnlockModal } from '../features/vault';
+import { isVaultCiphertext } from '../../utils/vaultCrypto';
+import { useExpiryReminders } from '../../hooks/useExpiryReminders';
+import { useInfiniteScroll } from '../../hooks/useInfiniteScroll';
 
 type ViewMode = 'list' | 'details' | 'add';
 
+const PAGE_SIZE = 30;
+// Search runs on the server, so wait for typing to pause
+const SEARCH_DEBOUNCE_MS = 300;
+
 export const Dashboard: React.FC = () => {
   const { idToken } = useAuth();
   const toast = useToastContext();
+  const { isEnabled: vaultEnabled, hasVaultKey, lock: lockVault, decryptCards } = useVault();
   const [cards, setCards] = useState<Card[]>([]);
   const [allCards, setAllCards] = useState<Card[]>([]);
   const [banks, setBanks] = useState<string[]>([]);
   const [selectedBank, setSelectedBank] = useState<string>('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [selectedTag, setSelectedTag] = useState<string>('');
   const [searchQuery, setSearchQuery] = useState<string>('');
+  const [debouncedSearch, setDebouncedSearch] = useState<string>('');
+  const [showExpiringOnly, setShowExpiringOnly] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const latestRequestRef = useRef(0);
   const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [selectedCard, setSelectedCard] = useState<Card | null>(null);
   const [showSearchBar, setShowSearchBar] = useState(false);
@@ -32,24 +50,63 @@ export const Dashboard: React.FC = () => {
   const [shareFolders, setShareFolders] = useState<ShareFolder[]>([]);
   const [showCopyModal, setShowCopyModal] = useState(false);
   const [cardToCopy, setCardToCopy] = useState<Card | null>(null);
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [showBulkCopyModal, setShowBulkCopyModal] = useState(false);
+  const [showUnlockModal, setShowUnlockModal] = useState(false);
+
+  useExpiryReminders();
 
-  const fetchCards = useCallback(async () => {
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Loads the first page, or the page after cursor
+  const fetchCards = useCallback(async (cursor: string | null = null) => {
     if (!idToken) return;
 
+    // Only the latest request may update the list (filters can change mid-flight)
+    const request = ++latestRequestRef.current;
     try {
-      setLoading(true);
-      const fetchedCards = await cardApi.getAll(idToken, selectedBank || undefined);
-      setAllCards(fetchedCards);
+      if (cursor) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
+      const page = await cardApi.getAll(idToken, {
+        ...(selectedBank && { bank: selectedBank }),
+        ...(selectedTag && { tag: selectedTag }),
+        ...(debouncedSearch && { q: debouncedSearch }),
+        limit: PAGE_SIZE,
+      }, cursor);
+      // Decrypt vault-encrypted fields locally
+      const pageCards = await decryptCards(page.cards);
+      if (request !== latestRequestRef.current) return;
+
+      setAllCards((prev) => (cursor ? [...prev, ...pageCards] : pageCards));
+      setNextCursor(page.nextCursor);
     } catch (error: any) {
+      if (request !== latestRequestRef.current) return;
       if (isRateLimitError(error)) {
         toast.error(error.message || 'Rate limit exceeded. Please try again later.');
       } else {
         toast.error('Failed to fetch cards. Please try again.');
       }
     } finally {
-      setLoading(false);
+      if (request === latestRequestRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+        setHasLoaded(true);
+      }
     }
-  }, [idToken, selectedBank]);
+  }, [idToken, selectedBank, selectedTag, debouncedSearch, decryptCards]);
+
+  const loadMoreRef = useInfiniteScroll<HTMLDivElement>(
+    () => fetchCards(nextCursor),
+    !!nextCursor && !loading && !loadingMore
+  );
 
   const fetchBanks = useCallback(async () => {
     if (!idToken) return;
@@ -62,6 +119,19 @@ export const Dashboard: React.FC = () => {
     }
   }, [idToken]);
 
+  const fetchTags = useCallback(async () => {
+    if (!idToken) return;
+
+    try {
+      const fetchedTags = await cardApi.getTags(idToken);
+      setTags(fetchedTags);
+      // Drop the tag filter once no card has that tag any more
+      setSelectedTag((current) => (current && !fetchedTags.includes(current) ? '' : current));
+    } catch (error: any) {
+      // Silently fail for tags list - not critical
+    }
+  }, [idToken]);
+
   const fetchShareFolders = useCallback(async () => {
     if (!idToken) return;
 
@@ -73,41 +143,46 @@ export const Dashboard: React.FC = () => {
     }
   }, [idToken]);
 
-  // Filter cards based on search query
+  // Search, bank and tag filters run on the server. Expiry is filtered here,
+  // since vault cards' expiry is only readable in the browser, so every page
+  // is loaded while the filter is on.
   useEffect(() => {
-    let filtered = allCards;
-
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(card => {
-        const cardName = (card.cardName || '').toLowerCase();
-        const cardNumber = (card.cardNumber || '').toLowerCase();
-        const cardHolderName = (card.cardHolderName || '').toLowerCase();
-        const bank = (card.bank || '').toLowerCase();
-        const type = card.type.toLowerCase();
-        
-        return cardName.includes(query) ||
-               cardNumber.includes(query) ||
-               cardHolderName.includes(query) ||
-               bank.includes(query) ||
-               type.includes(query);
-      });
+    if (showExpiringOnly && nextCursor && !loading && !loadingMore) {
+      fetchCards(nextCursor);
     }
-
-    setCards(filtered);
-  }, [allCards, searchQuery]);
+  }, [showExpiringOnly, nextCursor, loading, loadingMore, fetchCards]);
 
   useEffect(() => {
-    if (idToken) {
-      fetchCards();
-      fetchBanks();
-      fetchShareFolders();
+    if (!showExpiringOnly) {
+      setCards(allCards);
+      return;
     }
-  }, [idToken, selectedBank, fetchCards, fetchBanks, fetchShareFolders]);
+
+    setCards(allCards.filter(card => {
+      const status = getExpiryStatus(card);
+      return status === 'expired' || status === 'expiring';
+    }));
+  }, [allCards, showExpiringOnly]);
+
+  useEffect(() => {
+    fetchCards();
+  }, [fetchCards]);
+
+  useEffect(() => {
+    fetchBanks();
+    fetchTags();
+    fetchShareFolders();
+  }, [fetchBanks, fetchTags, fetchShareFolders]);
 
   const handleCardUpdate = () => {
     fetchCards();
     fetchBanks();
+    fetchTags();
+  };
+
+  // Selecting the active tag again clears the filter
+  const handleTagSelect = (tag: string) => {
+    setSelectedTag((current) => (current === tag ? '' : tag));
   };
 
   const handleCardSelect = (card: Card) => {
@@ -129,6 +204,7 @@ export const Dashboard: React.FC = () => {
   const handleUploadComplete = () => {
     fetchCards();
     fetchBanks();
+    fetchTags();
     setViewMode('list');
   };
 
@@ -142,9 +218,15 @@ export const Dashboard: React.FC = () => {
   };
 
   const getDisplayNumber = (card: Card): string => {
+    if (isVaultCiphertext(card.cardNumber)) {
+      return '•••• •••• •••• ••••';
+    }
     if (card.type === 'pan' && card.cardNumber) {
       return maskPAN(card.cardNumber);
     }
+    if (card.type === 'aadhar' && card.cardNumber) {
+      return maskAadhaar(card.cardNumber);
+    }
     if (card.cardNumber) {
       return maskCardNumber(card.cardNumber);
         }
@@ -168,7 +250,7 @@ export const Dashboard: React.FC = () => {
 
   const getNetworkForCard = (card: Card): string => {
     // For credit/debit cards, detect network from card number
-    if ((card.type === 'credit' || card.type === 'debit') && card.cardNumber) {
+    if ((card.type === 'credit' || card.type === 'debit') && card.cardNumber && !isVaultCiphertext(card.cardNumber)) {
       return getCardNetwork(card.cardNumber);
     }
     // For other card types, use the type itself
@@ -213,7 +295,134 @@ export const Dashboard: React.FC = () => {
     }
   };
 
-  if (loading && cards.length === 0) {
+  const exitSelectMode = () => {
+    setSelectMode(false);
+    setSelectedIds(new Set());
+  };
+
+  const toggleCardSelection = (cardId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(cardId)) {
+        next.delete(cardId);
+      } else {
+        next.add(cardId);
+      }
+      return next;
+    });
+  };
+
+  const getSelectedCards = (): Card[] => {
+    return allCards.filter((card) => card.id && selectedIds.has(card.id));
+  };
+
+  const handleBulkDelete = async () => {
+    if (!idToken || selectedIds.size === 0) return;
+
+    const confirmed = window.confirm(
+      `Are you sure you want to delete ${selectedIds.size} card${selectedIds.size === 1 ? '' : 's'}?\n\nThis action cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    try {
+      setBulkBusy(true);
+      const response = await cardApi.batch(
+        idToken,
+        'delete',
+        Array.from(selectedIds).map((id) => ({ id }))
+      );
+      if (response.failed > 0) {
+        toast.warning(`Deleted ${response.succeeded} cards, ${response.failed} could not be deleted`);
+      } else {
+        toast.success(`Deleted ${response.succeeded} card${response.succeeded === 1 ? '' : 's'}`);
+      }
+      exitSelectMode();
+      fetchCards();
+      fetchBanks();
+      fetchTags();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to delete cards. Please try again.');
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  const handleBulkReExtract = async () => {
+    if (!idToken) return;
+
+    // Encrypted images are stored as paths and cannot be re-sent to the extractor
+    const eligible = getSelectedCards().filter((card) => card.imageUrl && !card.imageEncrypted);
+    if (eligible.length === 0) {
+      toast.warning('None of the selected cards have an image that can be re-extracted');
+      return;
+    }
+
+    try {
+      setBulkBusy(true);
+      await cardApi.batch(
+        idToken,
+        'update',
+        eligible.map((card) => ({ id: card.id, extractionStatus: 'processing' as const }))
+      );
+      exitSelectMode();
+      fetchCards();
+
+      // Extraction is rate limited per request, so run the cards one at a time
+      const updates: CardUpdate[] = [];
+      for (const card of eligible) {
+        try {
+          const images = getCardImages(card);
+          const extractedData = await extractApi.extract(idToken, images.length > 1 ? images : card.imageUrl!);
+          updates.push({ id: card.id, ...getExtractedCardFields(extractedData), extractionStatus: 'completed' });
+        } catch (error: any) {
+          if (isRateLimitError(error)) {
+            toast.error(error.message || 'Rate limit exceeded. Please try again later.');
+            break;
+          }
+        }
+      }
+
+      // Cards that weren't re-extracted would otherwise stay in 'processing'
+      const extracted = new Set(updates.map((update) => update.id));
+      const failedUpdates: CardUpdate[] = eligible
+        .filter((card) => !extracted.has(card.id))
+        .map((card) => ({ id: card.id, extractionStatus: 'failed' as const }));
+      await cardApi.batch(idToken, 'update', [...updates, ...failedUpdates]);
+      const failed = failedUpdates.length;
+      if (failed > 0) {
+        toast.warning(`Re-extracted ${updates.length} cards, ${failed} failed`);
+      } else {
+        toast.success(`Re-extracted ${updates.length} card${updates.length === 1 ? '' : 's'}`);
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to re-extract cards. Please try again.');
+    } finally {
+      setBulkBusy(false);
+      fetchCards();
+      fetchBanks();
+    }
+  };
+
+  const handleBulkCopyToFolder = async (folderId: string) => {
+    if (!idToken || selectedIds.size === 0) return;
+
+    const response = await shareFolderApi.batchCards(idToken, folderId, { add: Array.from(selectedIds) });
+    if (response.succeeded === 0) {
+      throw new Error(response.results[0]?.error || 'Failed to copy cards to folder');
+    }
+
+    await fetchShareFolders();
+    setShowBulkCopyModal(false);
+    exitSelectMode();
+    if (response.failed > 0) {
+      toast.warning(`Copied ${response.succeeded} cards, ${response.failed} skipped`);
+    } else {
+      toast.success(`Copied ${response.succeeded} card${response.succeeded === 1 ? '' : 's'} to share folder`);
+    }
+  };
+
+  // Later loads keep the list (and the search box) on screen
+  if (loading && !hasLoaded) {
     return <Loading />;
   }
 
@@ -231,9 +440,29 @@ export const Dashboard: React.FC = () => {
               >
                 <Menu className="w-6 h-6 text-slate-700 dark:text-white" />
               </button>
-              <h1 className="text-xl font-bold text-slate-900 dark:text-white">My Wallet</h1>
+              <h1 className="text-xl font-bold text-slate-900 dark:text-white">
+                {selectMode ? `${selectedIds.size} selected` : 'My Wallet'}
+              </h1>
               <div className="flex items-center gap-2">
+                <button
+                  onClick={() => (selectMode ? exitSelectMode() : setSelectMode(true))}
+                  className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors"
+                  title={selectMode ? 'Cancel selection' : 'Select cards'}
+                >
+                  {selectMode ? (
+                    <X className="w-6 h-6 text-slate-700 dark:text-white" />
+                  ) : (
+                    <CheckSquare className="w-6 h-6 text-slate-700 dark:text-white" />
+                  )}
+                </button>
                 <ThemeToggle />
+                <button
+                  onClick={lockVault}
+                  className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors"
+                  title="Lock vault"
+                >
+                  <Lock className="w-6 h-6 text-slate-700 dark:text-white" />
+                </button>
                 <button 
                   onClick={() => setShowSearchBar(!showSearchBar)}
                   className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors"
@@ -250,27 +479,60 @@ export const Dashboard: React.FC = () => {
                   <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
                   <input
                     type="text"
-                    placeholder="Search cards..."
+                    placeholder="Search by name, bank or last 4 digits..."
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
                     className="w-full pl-10 pr-4 py-2.5 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
+                {vaultEnabled && (
+                  <p className="mt-1.5 text-xs text-slate-500 dark:text-slate-400">
+                    Search runs on the server, so it can't match fields encrypted by your vault passphrase, such as card numbers.
+                  </p>
+                )}
               </div>
             )}
 
+            {/* Vault Locked Banner - vault enabled elsewhere after this session was unlocked */}
+            {vaultEnabled && !hasVaultKey && (
+              <button
+                onClick={() => setShowUnlockModal(true)}
+                className="w-full mb-4 flex items-center gap-3 px-4 py-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-left"
+              >
+                <span className="material-symbols-outlined text-amber-600 dark:text-amber-400">lock</span>
+                <span className="flex-1 text-sm text-amber-800 dark:text-amber-200">
+                  Vault is locked. Card numbers and CVVs are encrypted.
+                </span>
+                <span className="text-sm font-semibold text-amber-700 dark:text-amber-300">Unlock</span>
+              </button>
+            )}
+
             {/* Filter Chips */}
             <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
               <button
-                onClick={() => setSelectedBank('')}
+                onClick={() => {
+                  setSelectedBank('');
+                  setSelectedTag('');
+                  setShowExpiringOnly(false);
+                }}
                 className={`px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-colors ${
-                  selectedBank === ''
+                  selectedBank === '' && selectedTag === '' && !showExpiringOnly
                     ? 'bg-blue-600 text-white'
                     : 'bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'
                 }`}
               >
                 All
               </button>
+              <button
+                onClick={() => setShowExpiringOnly(!showExpiringOnly)}
+                className={`px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-colors ${
+                  showExpiringOnly
+                    ? 'bg-amber-500 text-white'
+                    : 'bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'
+                }`}
+              >
+                Expiring soon
+              </button>
               {banks.map((bank) => (
                 <button
                   key={bank}
@@ -284,6 +546,19 @@ export const Dashboard: React.FC = () => {
                   {bank}
                 </button>
               ))}
+              {tags.map((tag) => (
+                <button
+                  key={`tag-${tag}`}
+                  onClick={() => handleTagSelect(tag)}
+                  className={`px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-colors ${
+                    selectedTag === tag
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-indigo-50 dark:bg-indigo-950/50 text-indigo-700 dark:text-indigo-300 hover:bg-indigo-100 dark:hover:bg-indigo-900/60'
+                  }`}
+                >
+                  #{tag}
+                </button>
+              ))}
             </div>
           </div>
         </header>
@@ -294,7 +569,7 @@ export const Dashboard: React.FC = () => {
             <div className="text-center py-12">
               <div className="text-slate-400 dark:text-slate-500 mb-4">No cards found</div>
               <p className="text-sm text-slate-500 dark:text-slate-600">
-                {searchQuery || selectedBank
+                {searchQuery || selectedBank || selectedTag || showExpiringOnly
                   ? 'Try adjusting your filters'
                   : 'Add your first card to get started'}
               </p>
@@ -325,11 +600,18 @@ export const Dashboard: React.FC = () => {
                 );
               }
               
+              const isSelected = !!card.id && selectedIds.has(card.id);
+              const expiryStatus = getExpiryStatus(card);
+
               return (
               <div 
                 key={card.id} 
-                onClick={() => handleCardSelect(card)}
-                className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl p-4 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors cursor-pointer shadow-sm"
+                onClick={() => selectMode ? card.id && toggleCardSelection(card.id) : handleCardSelect(card)}
+                className={`w-full bg-white dark:bg-slate-900 border rounded-2xl p-4 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors cursor-pointer shadow-sm ${
+                  isSelected
+                    ? 'border-blue-500 ring-2 ring-blue-500'
+                    : 'border-slate-200 dark:border-slate-800'
+                }`}
               >
                 <div className="flex items-start justify-between mb-3">
                   <div className="flex-1">
@@ -337,9 +619,27 @@ export const Dashboard: React.FC = () => {
                       {getCardTitle(card)}
                     </h3>
                     <p className="text-sm text-slate-500 dark:text-slate-400">{getCardSubtitle(card)}</p>
+                    {expiryStatus === 'expired' && (
+                      <span className="inline-block mt-2 px-2 py-0.5 rounded-md text-xs font-semibold bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300">
+                        Expired
+                      </span>
+                    )}
+                    {expiryStatus === 'expiring' && (
+                      <span className="inline-block mt-2 px-2 py-0.5 rounded-md text-xs font-semibold bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300">
+                        Expiring soon
+                      </span>
+                    )}
                   </div>
                   <div className="flex items-center gap-3">
                     <NetworkLogo network={getNetworkForCard(card)} />
+                    {selectMode ? (
+                      <input
+                        type="checkbox"
+                        checked={isSelected}
+                        readOnly
+                        className="w-5 h-5 accent-blue-600 pointer-events-none"
+                      />
+                    ) : (
                     <Dropdown
                       items={[
                         {
@@ -355,6 +655,7 @@ export const Dashboard: React.FC = () => {
                         },
                       ]}
                     />
+                    )}
                   </div>
                 </div>
 
@@ -369,19 +670,78 @@ export const Dashboard: React.FC = () => {
                     {card.cardHolderName}
                   </div>
                 )}
+
+                {card.tags && card.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5 mt-3">
+                    {card.tags.map((tag) => (
+                      <button
+                        key={tag}
+                        onClick={(e) => {
+                          // In select mode the click selects the card instead
+                          if (selectMode) return;
+                          e.stopPropagation();
+                          handleTagSelect(tag);
+                        }}
+                        className={`px-2 py-0.5 rounded-full text-xs font-medium transition-colors ${
+                          selectedTag === tag
+                            ? 'bg-indigo-600 text-white'
+                            : 'bg-indigo-50 dark:bg-indigo-950/50 text-indigo-700 dark:text-indigo-300 hover:bg-indigo-100 dark:hover:bg-indigo-900/60'
+                        }`}
+                      >
+                        #{tag}
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
               );
             })
           )}
+
+          {/* Next page loads as this scrolls into view */}
+          {nextCursor && (
+            <div ref={loadMoreRef} className="py-4 text-center text-sm text-slate-400 dark:text-slate-500">
+              {loadingMore ? 'Loading more cards...' : ''}
+            </div>
+          )}
         </div>
 
-        {/* FAB */}
-        <button
-          onClick={handleAddCard}
-          className="fixed bottom-6 right-6 w-14 h-14 bg-blue-600 hover:bg-blue-700 rounded-full shadow-lg flex items-center justify-center transition-colors z-50"
-        >
-          <Plus className="w-6 h-6 text-white" />
-        </button>
+        {/* Bulk Actions Bar (select mode) or FAB */}
+        {selectMode ? (
+          <div className="fixed bottom-0 inset-x-0 z-50 bg-white dark:bg-slate-900 border-t border-slate-200 dark:border-slate-800 px-4 py-3 flex items-center justify-around gap-2">
+            <button
+              onClick={() => setShowBulkCopyModal(true)}
+              disabled={bulkBusy || selectedIds.size === 0}
+              className="flex flex-col items-center gap-1 px-3 py-1 text-xs font-medium text-slate-700 dark:text-slate-300 disabled:opacity-40"
+            >
+              <FolderPlus className="w-5 h-5" />
+              Add to Folder
+            </button>
+            <button
+              onClick={handleBulkReExtract}
+              disabled={bulkBusy || selectedIds.size === 0}
+              className="flex flex-col items-center gap-1 px-3 py-1 text-xs font-medium text-slate-700 dark:text-slate-300 disabled:opacity-40"
+            >
+              <RefreshCw className={`w-5 h-5 ${bulkBusy ? 'animate-spin' : ''}`} />
+              Re-extract
+            </button>
+            <button
+              onClick={handleBulkDelete}
+              disabled={bulkBusy || selectedIds.size === 0}
+              className="flex flex-col items-center gap-1 px-3 py-1 text-xs font-medium text-red-600 dark:text-red-400 disabled:opacity-40"
+            >
+              <Trash2 className="w-5 h-5" />
+              Delete
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={handleAddCard}
+            className="fixed bottom-6 right-6 w-14 h-14 bg-blue-600 hover:bg-blue-700 rounded-full shadow-lg flex items-center justify-center transition-colors z-50"
+          >
+            <Plus className="w-6 h-6 text-white" />
+          </button>
+        )}
 
         {/* Bottom Safe Area */}
         <div className="h-20" />
@@ -395,8 +755,23 @@ export const Dashboard: React.FC = () => {
             onClose={() => setShowSidebar(false)}
             searchQuery={searchQuery}
             onSearchChange={setSearchQuery}
+            tags={tags}
+            selectedTag={selectedTag}
+            onTagSelect={handleTagSelect}
             shareFolders={shareFolders}
             onShareFoldersUpdate={fetchShareFolders}
+            onCardsUpdate={() => {
+              handleCardUpdate();
+              fetchShareFolders();
+            }}
+          />
+        )}
+
+        {/* Vault Unlock Modal */}
+        {showUnlockModal && (
+          <VaultUnlockModal
+            isOpen={showUnlockModal}
+            onClose={() => setShowUnlockModal(false)}
           />
         )}
 
@@ -412,6 +787,16 @@ export const Dashboard: React.FC = () => {
             folders={shareFolders}
           />
         )}
+
+        {/* Bulk Copy to Share Folder Modal */}
+        {showBulkCopyModal && (
+          <SelectShareFolderModal
+            isOpen={showBulkCopyModal}
+            onClose={() => setShowBulkCopyModal(false)}
+            onSelect={handleBulkCopyToFolder}
+            folders={shareFolders}
+          />
+        )}
       </div>
     );
   }
@@ -432,7 +817,7 @@ export const Dashboard: React.FC = () => {
           </div>
         </header>
         <div className="p-4">
-          <CardItem card={selectedCard} onUpdate={handleCardUpdate} />
+          <CardItem card={selectedCard} onUpdate={handleCardUpdate} tagSuggestions={tags} />
         </div>
       </div>
     );
@@ -454,7 +839,7 @@ export const Dashboard: React.FC = () => {
           </div>
         </header>
         <div className="p-4">
-          <CardUpload onUploadComplete={handleUploadComplete} />
+          <CardUpload onUploadComplete={handleUploadComplete} onImportComplete={handleCardUpdate} />
         </div>
     </div>
   );
@@ -1,10 +1,15 @@
-import React, { useState, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
 import axios from 'axios';
-import { Card } from '../../types/card';
+import { Card, ShareRedaction } from '../../types/card';
+import { useAuth } from '../../contexts/AuthContext';
+import { shareFolderApi } from '../../services/api';
 import { Loading } from '../ui/Loading';
 import { NetworkLogo } from '../ui/NetworkLogo';
 import { getCardNetwork } from '../../utils/cardUtils';
+import { hasEncryptedFields } from '../../utils/vaultCrypto';
+import { describeRedaction } from '../../utils/shareRedaction';
+import { QR_EXPIRY_PARAM, parseExpiryHint } from '../../utils/shareQr';
 import './SharedView.css';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
@@ -14,45 +19,154 @@ interface SharedFolderData {
     name: string;
     description: string;
     cardCount: number;
+    ownerEmail?: string | null; // Only for folders shared with the signed-in user
   };
   cards: Card[];
+  redaction?: ShareRedaction;
+  viewsRemaining?: number | null; // Set for view-limited links
 }
 
-export const SharedView: React.FC = () => {
-  const { token } = useParams<{ token: string }>();
+interface SharedViewProps {
+  // 'link': public share token in the URL; 'recipient': folder shared with the signed-in user
+  mode?: 'link' | 'recipient';
+}
+
+export const SharedView: React.FC<SharedViewProps> = ({ mode = 'link' }) => {
+  const { token, folderId } = useParams<{ token?: string; folderId?: string }>();
+  const [searchParams] = useSearchParams();
+  const { idToken } = useAuth();
   const [data, setData] = useState<SharedFolderData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [copiedField, setCopiedField] = useState<string | null>(null);
+  const [passcodeRequired, setPasscodeRequired] = useState(false);
+  const [passcode, setPasscode] = useState('');
+  const [passcodeError, setPasscodeError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+  const [viewLimitReached, setViewLimitReached] = useState(false);
+  // Links opened from a QR code carry the expiry date they were generated with
+  const expiryHint = parseExpiryHint(searchParams.get(QR_EXPIRY_PARAM));
+  const expiredMessage = expiryHint
+    ? `This share link expired on ${expiryHint.toLocaleString()}.`
+    : 'This share link has expired.';
+  // Each fetch of a view-limited link uses up a view, so fetch a token only once
+  const fetchedTokenRef = useRef<string | null>(null);
 
-  useEffect(() => {
-    const fetchSharedFolder = async () => {
-      if (!token) {
-        setError('Invalid share link');
-        setLoading(false);
-        return;
+  const fetchSharedFolder = useCallback(async (accessToken?: string) => {
+    if (!token) {
+      setError('Invalid share link');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const response = await axios.get(`${API_URL}/sharefolders/public/${token}`, {
+        headers: accessToken ? { 'X-Share-Access': accessToken } : undefined,
+      });
+      setData(response.data);
+      setPasscodeRequired(false);
+    } catch (err: any) {
+      console.error('Error fetching shared folder:', err);
+      if (err.response?.status === 401 && err.response.data?.passcodeRequired) {
+        setPasscodeRequired(true);
+      } else if (err.response?.status === 410 && err.response.data?.viewLimitReached) {
+        setPasscodeRequired(false);
+        setViewLimitReached(true);
+      } else if (err.response?.status === 404) {
+        setError('This share link is invalid or has been revoked.');
+      } else if (err.response?.status === 410) {
+        setError(expiredMessage);
+      } else if (err.response?.status === 423) {
+        setError('This share link was locked after too many incorrect passcodes.');
+      } else {
+        setError('Failed to load shared folder. Please try again later.');
       }
+    } finally {
+      setLoading(false);
+    }
+  }, [token, expiredMessage]);
+
+  const fetchRecipientFolder = useCallback(async () => {
+    if (!folderId || !idToken) return;
+
+    try {
+      setLoading(true);
+      const folderData: SharedFolderData = await shareFolderApi.getSharedWithMeFolder(idToken, folderId);
 
-      try {
-        setLoading(true);
-        const response = await axios.get(`${API_URL}/sharefolders/public/${token}`);
-        setData(response.data);
-      } catch (err: any) {
-        console.error('Error fetching shared folder:', err);
-        if (err.response?.status === 404) {
-          setError('This share link is invalid or has been revoked.');
-        } else if (err.response?.status === 410) {
-          setError('This share link has expired.');
-        } else {
-          setError('Failed to load shared folder. Please try again later.');
+      // Images served by the server need the auth header, so they are loaded as blob URLs
+      // (images with a download URL come back as that URL)
+      const cards = await Promise.all(folderData.cards.map(async (card) => {
+        if (!card.imageUrl || !card.id) return card;
+        try {
+          return { ...card, imageUrl: await shareFolderApi.getSharedWithMeImage(idToken, folderId, card.id) };
+        } catch {
+          return { ...card, imageUrl: undefined };
         }
-      } finally {
-        setLoading(false);
+      }));
+
+      setData({ ...folderData, cards });
+    } catch (err: any) {
+      console.error('Error fetching folder shared with me:', err);
+      if (err.response?.status === 404) {
+        setError('This folder is no longer shared with you.');
+      } else if (err.response?.status === 403) {
+        setError(err.response.data?.message || 'You do not have access to this folder.');
+      } else {
+        setError('Failed to load shared folder. Please try again later.');
       }
-    };
+    } finally {
+      setLoading(false);
+    }
+  }, [folderId, idToken]);
+
+  useEffect(() => {
+    const key = (mode === 'recipient' ? folderId : token) ?? '';
+    if (mode === 'recipient' && !idToken) return;
+    if (fetchedTokenRef.current === key) return;
+    fetchedTokenRef.current = key;
+
+    if (mode === 'recipient') {
+      fetchRecipientFolder();
+    } else {
+      fetchSharedFolder();
+    }
+  }, [mode, token, folderId, idToken, fetchSharedFolder, fetchRecipientFolder]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passcode.trim()) return;
 
-    fetchSharedFolder();
-  }, [token]);
+    try {
+      setUnlocking(true);
+      setPasscodeError(null);
+      const response = await axios.post(`${API_URL}/sharefolders/public/${token}/unlock`, {
+        passcode: passcode.trim(),
+      });
+      setPasscode('');
+      await fetchSharedFolder(response.data.accessToken);
+    } catch (err: any) {
+      const status = err.response?.status;
+      if (status === 423) {
+        setPasscodeRequired(false);
+        setError('This share link was locked after too many incorrect passcodes.');
+      } else if (status === 401 || status === 429) {
+        setPasscodeError(err.response.data?.message || 'Incorrect passcode.');
+      } else if (status === 410 && err.response.data?.viewLimitReached) {
+        setPasscodeRequired(false);
+        setViewLimitReached(true);
+      } else if (status === 404 || status === 410) {
+        setPasscodeRequired(false);
+        setError(status === 404
+          ? 'This share link is invalid or has been revoked.'
+          : expiredMessage);
+      } else {
+        setPasscodeError('Failed to verify passcode. Please try again.');
+      }
+    } finally {
+      setUnlocking(false);
+    }
+  };
 
   const copyToClipboard = (text: string, fieldId: string) => {
     navigator.clipboard.writeText(text);
@@ -83,7 +197,27 @@ export const SharedView: React.FC = () => {
     return typeMap[card.type] || card.type;
   };
 
+  // Masked numbers arrive with '*' in place of hidden characters
+  const isNumberMasked = (card: Card): boolean =>
+    !!card.cardNumber && card.cardNumber.includes('*');
+
+  const isPaymentCard = (card: Card): boolean =>
+    card.type === 'credit' || card.type === 'debit';
+
+  const renderHiddenRow = (label: string) => (
+    <div className="detail-row redacted-row">
+      <span className="label">{label}</span>
+      <span className="redacted-value">
+        <span className="material-symbols-outlined">visibility_off</span>
+        Hidden by owner
+      </span>
+    </div>
+  );
+
   const getNetworkForCard = (card: Card): string => {
+    if (hasEncryptedFields(card)) {
+      return card.type;
+    }
     if ((card.type === 'credit' || card.type === 'debit') && card.cardNumber) {
       return getCardNetwork(card.cardNumber);
     }
@@ -106,15 +240,68 @@ export const SharedView: React.FC = () => {
           <p className="error-hint">
             If you believe this is a mistake, please contact the person who shared this link.
           </p>
+          {mode === 'recipient' && (
+            <Link to="/" className="back-to-vault">
+              Back to my cards
+            </Link>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (viewLimitReached) {
+    return (
+      <div className="shared-view-error">
+        <div className="error-container">
+          <div className="error-icon viewed-icon">
+            <span className="material-symbols-outlined">visibility_lock</span>
+          </div>
+          <h1>Already Viewed</h1>
+          <p>This link could only be opened a limited number of times, and it has already been used up.</p>
+          <p className="error-hint">
+            Ask the person who shared it to send you a new link if you still need access.
+          </p>
         </div>
       </div>
     );
   }
 
+  if (passcodeRequired) {
+    return (
+      <div className="shared-view-error">
+        <form className="error-container passcode-container" onSubmit={handleUnlock}>
+          <div className="error-icon passcode-icon">
+            <span className="material-symbols-outlined">lock</span>
+          </div>
+          <h1>Passcode Required</h1>
+          <p>This shared folder is protected. Enter the passcode you received from its owner.</p>
+          <input
+            type="password"
+            value={passcode}
+            onChange={(e) => setPasscode(e.target.value)}
+            className="passcode-field"
+            placeholder="Passcode"
+            autoComplete="off"
+            autoFocus
+            disabled={unlocking}
+          />
+          {passcodeError && <p className="passcode-error">{passcodeError}</p>}
+          <button type="submit" className="passcode-submit" disabled={unlocking || !passcode.trim()}>
+            {unlocking ? 'Unlocking...' : 'Unlock'}
+          </button>
+        </form>
+      </div>
+    );
+  }
+
   if (!data) {
     return null;
   }
 
+  const redaction = data.redaction;
+  const redactionSummary = redaction ? describeRedaction(redaction) : '';
+
   return (
     <div className="shared-view">
       <div className="shared-header">
@@ -125,10 +312,29 @@ export const SharedView: React.FC = () => {
           <div className="header-text">
             <h1>{data.folder.name}</h1>
             {data.folder.description && <p>{data.folder.description}</p>}
+            {data.folder.ownerEmail && <p className="shared-by">Shared with you by {data.folder.ownerEmail}</p>}
             <div className="card-count">
               <span className="material-symbols-outlined">credit_card</span>
               {data.folder.cardCount} {data.folder.cardCount === 1 ? 'card' : 'cards'}
             </div>
+            {data.viewsRemaining === 0 && (
+              <div className="redaction-notice view-limit-notice">
+                <span className="material-symbols-outlined">timer_off</span>
+                This was the last allowed view. The link stops working once you leave this page.
+              </div>
+            )}
+            {!!data.viewsRemaining && (
+              <div className="redaction-notice">
+                <span className="material-symbols-outlined">visibility</span>
+                This link can be opened {data.viewsRemaining} more {data.viewsRemaining === 1 ? 'time' : 'times'}.
+              </div>
+            )}
+            {redactionSummary && (
+              <div className="redaction-notice">
+                <span className="material-symbols-outlined">visibility_off</span>
+                Some details were withheld by the owner. {redactionSummary}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -159,7 +365,26 @@ export const SharedView: React.FC = () => {
                   </div>
 
                   <div className="card-details">
-                    {card.cardNumber && (
+                    {hasEncryptedFields(card) && (
+                      <div className="detail-row">
+                        <span className="label">Card Details</span>
+                        <span className="value">Encrypted by the owner's vault</span>
+                      </div>
+                    )}
+
+                    {card.cardNumber && !hasEncryptedFields(card) && isNumberMasked(card) && (
+                      <div className="detail-row">
+                        <span className="label">Card Number</span>
+                        <div className="value-with-copy">
+                          <span className="value">{card.cardNumber.replace(/\*/g, '•')}</span>
+                          <span className="masked-tag">Masked</span>
+                        </div>
+                      </div>
+                    )}
+
+                    {!card.cardNumber && redaction?.cardNumber === 'omit' && renderHiddenRow('Card Number')}
+
+                    {card.cardNumber && !hasEncryptedFields(card) && !isNumberMasked(card) && (
                       <div className="detail-row">
                         <span className="label">Card Number</span>
                         <div className="value-with-copy">
@@ -178,6 +403,8 @@ export const SharedView: React.FC = () => {
                       </div>
                     )}
 
+                    {!card.cardHolderName && redaction?.cardHolderName === 'omit' && renderHiddenRow('Cardholder')}
+
                     {card.cardHolderName && (
                       <div className="detail-row">
                         <span className="label">Cardholder</span>
@@ -197,7 +424,9 @@ export const SharedView: React.FC = () => {
                       </div>
                     )}
 
-                    {card.expiryDate && (
+                    {isPaymentCard(card) && !card.expiryDate && redaction?.expiryDate === 'omit' && renderHiddenRow('Expiry')}
+
+                    {card.expiryDate && !hasEncryptedFields(card) && (
                       <div className="detail-row">
                         <span className="label">Expiry</span>
                         <div className="value-with-copy">
@@ -216,7 +445,9 @@ export const SharedView: React.FC = () => {
                       </div>
                     )}
 
-                    {card.cvv && (
+                    {isPaymentCard(card) && !card.cvv && redaction?.cvv === 'omit' && renderHiddenRow('CVV')}
+
+                    {card.cvv && !hasEncryptedFields(card) && (
                       <div className="detail-row">
                         <span className="label">CVV</span>
                         <div className="value-with-copy">
@@ -242,6 +473,15 @@ export const SharedView: React.FC = () => {
         )}
       </div>
 
+      {mode === 'recipient' && (
+        <div className="shared-back">
+          <Link to="/" className="back-to-vault">
+            <span className="material-symbols-outlined">arrow_back</span>
+            Back to my cards
+          </Link>
+        </div>
+      )}
+
       <div className="shared-footer">
         <p>
           <span className="material-symbols-outlined">lock</span>
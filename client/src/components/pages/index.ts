@@ -1,4 +1,5 @@
 export { Login } from './Login';
 export { Dashboard } from './Dashboard';
 export { SharedView } from './SharedView';
+export { Activity } from './Activity';
 
@@ -1,23 +1,17 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
-import {
-  User,
-  signInWithPopup,
-  signInWithEmailAndPassword,
-  createUserWithEmailAndPassword,
-  signOut as firebaseSignOut,
-  onAuthStateChanged,
-  updateProfile
-} from 'firebase/auth';
-import { auth, googleProvider } from '../firebase/config';
 import axios from 'axios';
+import { AuthBackend, AuthUser } from '../auth/types';
 
 interface AuthContextType {
-  user: User | null;
+  user: AuthUser | null;
   loading: boolean;
   signIn: () => Promise<void>;
   signInWithEmail: (email: string, password: string) => Promise<void>;
   signUpWithEmail: (email: string, password: string, name?: string) => Promise<void>;
   signOut: () => Promise<void>;
+  // Signs in again and returns the fresh ID token (for actions that need a recent sign-in)
+  reauthenticate: (password?: string) => Promise<string>;
+  usesPassword: boolean; // Signed in with email and password rather than Google
   idToken: string | null;
 }
 
@@ -25,36 +19,51 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
+// Imported on demand, so dev mode never initializes Firebase (which needs its config)
+const loadAuthBackend = async (): Promise<AuthBackend> =>
+  import.meta.env.VITE_AUTH_MODE === 'dev'
+    ? (await import('../auth/devAuth')).devAuth
+    : (await import('../auth/firebaseAuth')).firebaseAuth;
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(true);
   const [idToken, setIdToken] = useState<string | null>(null);
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, async (user) => {
-      setUser(user);
-      if (user) {
-        const token = await user.getIdToken();
-        setIdToken(token);
-        // Verify token with backend
-        try {
-          await axios.post(`${API_URL}/auth/verify`, { token });
-        } catch (error) {
-          // Token verification failed - handled silently
+    let unsubscribe = () => {};
+    let cancelled = false;
+
+    loadAuthBackend().then((backend) => {
+      if (cancelled) return;
+      unsubscribe = backend.onAuthChange(async (user) => {
+        setUser(user);
+        if (user) {
+          const token = await user.getIdToken();
+          setIdToken(token);
+          // Verify token with backend
+          try {
+            await axios.post(`${API_URL}/auth/verify`, { token });
+          } catch (error) {
+            // Token verification failed - handled silently
+          }
+        } else {
+          setIdToken(null);
         }
-      } else {
-        setIdToken(null);
-      }
-      setLoading(false);
+        setLoading(false);
+      });
     });
 
-    return () => unsubscribe();
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
   }, []);
 
   const signIn = async () => {
     try {
-      const result = await signInWithPopup(auth, googleProvider);
-      const token = await result.user.getIdToken();
+      const user = await (await loadAuthBackend()).signInWithGoogle();
+      const token = await user.getIdToken();
       setIdToken(token);
       await axios.post(`${API_URL}/auth/verify`, { token });
     } catch (error) {
@@ -64,8 +73,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const signInWithEmail = async (email: string, password: string) => {
     try {
-      const result = await signInWithEmailAndPassword(auth, email, password);
-      const token = await result.user.getIdToken();
+      const user = await (await loadAuthBackend()).signInWithEmail(email, password);
+      const token = await user.getIdToken();
       setIdToken(token);
       await axios.post(`${API_URL}/auth/verify`, { token });
     } catch (error) {
@@ -75,14 +84,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const signUpWithEmail = async (email: string, password: string, name?: string) => {
     try {
-      const result = await createUserWithEmailAndPassword(auth, email, password);
-      
-      // Update profile with display name if provided
-      if (name && result.user) {
-        await updateProfile(result.user, { displayName: name });
-      }
-      
-      const token = await result.user.getIdToken();
+      const user = await (await loadAuthBackend()).signUpWithEmail(email, password, name);
+      const token = await user.getIdToken();
       setIdToken(token);
       await axios.post(`${API_URL}/auth/verify`, { token });
     } catch (error) {
@@ -90,9 +93,20 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const reauthenticate = async (password?: string): Promise<string> => {
+    try {
+      const user = await (await loadAuthBackend()).reauthenticate(password);
+      const token = await user.getIdToken(true);
+      setIdToken(token);
+      return token;
+    } catch (error) {
+      throw error;
+    }
+  };
+
   const signOut = async () => {
     try {
-      await firebaseSignOut(auth);
+      await (await loadAuthBackend()).signOut();
       setIdToken(null);
     } catch (error) {
       throw error;
@@ -100,7 +114,19 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, signIn, signInWithEmail, signUpWithEmail, signOut, idToken }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        loading,
+        signIn,
+        signInWithEmail,
+        signUpWithEmail,
+        signOut,
+        reauthenticate,
+        usesPassword: !!user?.providerData.some((provider) => provider.providerId === 'password'),
+        idToken,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
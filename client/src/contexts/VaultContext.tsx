@@ -0,0 +1,203 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { lockVault, unlockVault } from '../store/slices/vaultSlice';
+import { useAutoLock } from '../hooks/useAutoLock';
+import { cardApi, setVaultKey, vaultApi } from '../services/api';
+import { Card, CardUpdate, LockSettings, VaultSettings } from '../types/card';
+import {
+  DEFAULT_KDF_ITERATIONS,
+  checkVerifier,
+  createVerifier,
+  decryptCardFields,
+  deriveVaultKey,
+  generateSalt,
+  VAULT_SENSITIVE_FIELDS,
+  isVaultCiphertext,
+} from '../utils/vaultCrypto';
+
+interface VaultContextType {
+  settings: VaultSettings | null;
+  loading: boolean;
+  isEnabled: boolean;
+  hasPassphrase: boolean; // Vault or lock passphrase set, so the session can be unlocked
+  isUnlocked: boolean; // Session lock, for every user
+  hasVaultKey: boolean; // Vault-encrypted fields can be decrypted
+  setupVault: (passphrase: string, onProgress?: (done: number, total: number) => void) => Promise<void>;
+  setupLock: (passphrase: string) => Promise<void>;
+  unlock: (passphrase: string) => Promise<boolean>;
+  recoverLock: (freshToken: string) => Promise<void>;
+  lock: () => void;
+  decryptCards: (cards: Card[]) => Promise<Card[]>;
+}
+
+const VaultContext = createContext<VaultContextType | undefined>(undefined);
+
+export const VaultProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, idToken } = useAuth();
+  const [settings, setSettings] = useState<VaultSettings | null>(null);
+  const [lockSettings, setLockSettings] = useState<LockSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [key, setKey] = useState<CryptoKey | null>(null);
+  const dispatch = useAppDispatch();
+  const isLocked = useAppSelector((state) => state.vault.isLocked);
+
+  // Keep the API layer in sync so uploads are encrypted while unlocked
+  useEffect(() => {
+    setVaultKey(key);
+  }, [key]);
+
+  // Drop the key whenever the store is locked (lock button, idle timer, tab hide)
+  useEffect(() => {
+    if (isLocked) {
+      setKey(null);
+    }
+  }, [isLocked]);
+
+  useAutoLock(!!user && !isLocked);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      if (!user || !idToken) {
+        setSettings(null);
+        setLockSettings(null);
+        dispatch(lockVault());
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        const [vaultSettings, lock] = await Promise.all([
+          vaultApi.getSettings(idToken).catch(() => ({ enabled: false })),
+          vaultApi.getLock(idToken).catch(() => ({ configured: false })),
+        ]);
+        // Treat failures as disabled - vault mode is opt-in
+        setSettings(vaultSettings);
+        setLockSettings(lock);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSettings();
+  }, [user, idToken, dispatch]);
+
+  const setupVault = async (passphrase: string, onProgress?: (done: number, total: number) => void) => {
+    if (!idToken) throw new Error('Not authenticated');
+
+    const salt = generateSalt();
+    const iterations = DEFAULT_KDF_ITERATIONS;
+    const vaultKey = await deriveVaultKey(passphrase, salt, iterations);
+    const verifier = await createVerifier(vaultKey);
+
+    const saved = await vaultApi.enable(idToken, { salt, iterations, verifier });
+    setSettings(saved);
+    setKey(vaultKey);
+    setVaultKey(vaultKey);
+    dispatch(unlockVault());
+
+    // Re-save existing cards so their sensitive fields are encrypted client-side
+    const existingCards: Card[] = await cardApi.getAllPages(idToken);
+    const toMigrate = existingCards.filter((card) =>
+      VAULT_SENSITIVE_FIELDS.some((field) => card[field] && !isVaultCiphertext(card[field]))
+    );
+
+    for (let i = 0; i < toMigrate.length; i++) {
+      const card = toMigrate[i];
+      const fields: CardUpdate = {};
+      VAULT_SENSITIVE_FIELDS.forEach((field) => {
+        if (card[field]) fields[field] = card[field];
+      });
+      await cardApi.update(idToken, card.id!, fields);
+      onProgress?.(i + 1, toMigrate.length);
+    }
+  };
+
+  // Users without vault encryption lock their session with a separate passphrase
+  const setupLock = async (passphrase: string) => {
+    if (!idToken) throw new Error('Not authenticated');
+
+    const salt = generateSalt();
+    const iterations = DEFAULT_KDF_ITERATIONS;
+    const verifier = await createVerifier(await deriveVaultKey(passphrase, salt, iterations));
+
+    setLockSettings(await vaultApi.setLock(idToken, { salt, iterations, verifier }));
+    dispatch(unlockVault());
+  };
+
+  // The vault passphrase unlocks the session and the vault key; without a
+  // vault, the lock passphrase only unlocks the session
+  const unlock = async (passphrase: string): Promise<boolean> => {
+    if (settings?.enabled && settings.salt && settings.verifier) {
+      const candidate = await deriveVaultKey(passphrase, settings.salt, settings.iterations);
+      const valid = await checkVerifier(candidate, settings.verifier);
+      if (valid) {
+        setKey(candidate);
+        dispatch(unlockVault());
+      }
+      return valid;
+    }
+
+    if (!lockSettings?.configured || !lockSettings.salt || !lockSettings.verifier) return false;
+
+    const candidate = await deriveVaultKey(passphrase, lockSettings.salt, lockSettings.iterations);
+    const valid = await checkVerifier(candidate, lockSettings.verifier);
+    if (valid) {
+      dispatch(unlockVault());
+    }
+    return valid;
+  };
+
+  // For a forgotten passphrase, once the user has signed in again: the lock
+  // passphrase is removed so a new one can be set. A vault passphrase can't
+  // be recovered, so the session opens with vault fields still encrypted.
+  const recoverLock = async (freshToken: string) => {
+    if (settings?.enabled) {
+      dispatch(unlockVault());
+      return;
+    }
+
+    setLockSettings(await vaultApi.deleteLock(freshToken));
+  };
+
+  const lock = useCallback(() => {
+    setKey(null);
+    dispatch(lockVault());
+  }, [dispatch]);
+
+  const decryptCards = useCallback(async (cards: Card[]): Promise<Card[]> => {
+    if (!key) return cards;
+    return Promise.all(cards.map((card) => decryptCardFields(card, key)));
+  }, [key]);
+
+  return (
+    <VaultContext.Provider
+      value={{
+        settings,
+        // Settings for a freshly signed-in user are not known until the first fetch
+        loading: loading || (!!user && (!settings || !lockSettings)),
+        isEnabled: !!settings?.enabled,
+        hasPassphrase: !!settings?.enabled || !!lockSettings?.configured,
+        isUnlocked: !isLocked,
+        hasVaultKey: !!key && !isLocked,
+        setupVault,
+        setupLock,
+        unlock,
+        recoverLock,
+        lock,
+        decryptCards,
+      }}
+    >
+      {children}
+    </VaultContext.Provider>
+  );
+};
+
+export const useVault = () => {
+  const context = useContext(VaultContext);
+  if (context === undefined) {
+    throw new Error('useVault must be used within a VaultProvider');
+  }
+  return context;
+};
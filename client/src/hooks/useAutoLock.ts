@@ -0,0 +1,49 @@
+import { useEffect } from 'react';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { lockVault } from '../store/slices/vaultSlice';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+
+/**
+ * Locks the vault after the configured idle time, and optionally
+ * as soon as the tab is hidden
+ * @param active - Only watch for inactivity while the vault is unlocked
+ */
+export const useAutoLock = (active: boolean) => {
+  const dispatch = useAppDispatch();
+  const autoLockMinutes = useAppSelector((state) => state.vault.autoLockMinutes);
+  const lockOnHide = useAppSelector((state) => state.vault.lockOnHide);
+
+  // Idle timer - reset on any user activity
+  useEffect(() => {
+    if (!active || autoLockMinutes <= 0) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => dispatch(lockVault()), autoLockMinutes * 60 * 1000);
+    };
+
+    resetTimer();
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, resetTimer, { passive: true }));
+
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, resetTimer));
+    };
+  }, [active, autoLockMinutes, dispatch]);
+
+  // Lock when the tab is hidden or the window is minimised
+  useEffect(() => {
+    if (!active || !lockOnHide) return;
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        dispatch(lockVault());
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [active, lockOnHide, dispatch]);
+};
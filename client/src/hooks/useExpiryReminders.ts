@@ -0,0 +1,117 @@
+import { useEffect, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToastContext } from '../contexts/ToastContext';
+import { useVault } from '../contexts/VaultContext';
+import { cardApi, reminderApi } from '../services/api';
+import { Card, ExpiryReminder } from '../types/card';
+import { getExpiryStatus, parseExpiryDate } from '../utils/cardUtils';
+
+const REMINDER_TOAST_DURATION = 8000;
+
+// Matches the server job: expired cards are reminded about for 30 days
+const EXPIRED_LOOKBACK_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatReminder = (reminder: ExpiryReminder): string => {
+  const name = reminder.cardName || (reminder.bank ? `${reminder.bank} card` : 'A card');
+  const month = new Date(reminder.expiresAt).toLocaleDateString(undefined, {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+  return reminder.kind === 'expired'
+    ? `${name} expired in ${month}`
+    : `${name} expires at the end of ${month}`;
+};
+
+/**
+ * Builds reminders for vault cards, whose expiry the server can't read
+ * IDs follow the server's format (card, kind and expiry month)
+ * @param cards - Cards with their expiryDate decrypted
+ */
+const getVaultReminders = (cards: Card[]): ExpiryReminder[] =>
+  cards.flatMap((card) => {
+    const expiry = card.clientEncrypted && card.id ? parseExpiryDate(card.expiryDate || '') : null;
+    const kind = expiry ? getExpiryStatus({ expiryDate: card.expiryDate }) : null;
+    if (!expiry || (kind !== 'expiring' && kind !== 'expired')) return [];
+    if (expiry.getTime() < Date.now() - EXPIRED_LOOKBACK_DAYS * DAY_MS) return [];
+
+    const expiresAt = expiry.toISOString();
+    return [{
+      id: `${card.id}_${kind}_${expiresAt.slice(0, 7)}`,
+      cardId: card.id!,
+      cardName: card.cardName || null,
+      bank: card.bank || null,
+      kind,
+      expiresAt,
+      createdAt: null,
+    }];
+  });
+
+// Vault reminders already shown, kept in this browser only
+const getSeenVaultReminders = (uid: string): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(`vaultRemindersSeen:${uid}`) || '[]');
+  } catch (error) {
+    return [];
+  }
+};
+
+const setSeenVaultReminders = (uid: string, ids: string[]): void => {
+  localStorage.setItem(`vaultRemindersSeen:${uid}`, JSON.stringify(ids));
+};
+
+/**
+ * Shows pending card expiry reminders as toasts once per session
+ * and dismisses them on the server so they are not shown again.
+ * Vault cards are checked in the browser once the vault is unlocked.
+ */
+export const useExpiryReminders = (): void => {
+  const { user, idToken } = useAuth();
+  const toast = useToastContext();
+  const { hasVaultKey, decryptCards } = useVault();
+  const checkedRef = useRef(false);
+  const checkedVaultRef = useRef(false);
+
+  useEffect(() => {
+    if (!idToken || checkedRef.current) return;
+    checkedRef.current = true;
+
+    const showReminders = async () => {
+      try {
+        const reminders = await reminderApi.getAll(idToken);
+        for (const reminder of reminders) {
+          toast.warning(formatReminder(reminder), REMINDER_TOAST_DURATION);
+          await reminderApi.dismiss(idToken, reminder.id);
+        }
+      } catch (error) {
+        // Reminders are best-effort - the cards are still badged in the list
+      }
+    };
+
+    showReminders();
+  }, [idToken, toast]);
+
+  useEffect(() => {
+    if (!user || !idToken || !hasVaultKey || checkedVaultRef.current) return;
+    checkedVaultRef.current = true;
+
+    const showVaultReminders = async () => {
+      try {
+        const cards = await decryptCards(await cardApi.getAllPages(idToken));
+        const seen = getSeenVaultReminders(user.uid);
+        const reminders = getVaultReminders(cards).filter((reminder) => !seen.includes(reminder.id));
+
+        reminders.forEach((reminder) => toast.warning(formatReminder(reminder), REMINDER_TOAST_DURATION));
+        if (reminders.length > 0) {
+          setSeenVaultReminders(user.uid, [...seen, ...reminders.map((reminder) => reminder.id)]);
+        }
+      } catch (error) {
+        // Best-effort, as above
+      }
+    };
+
+    showVaultReminders();
+  }, [user, idToken, hasVaultKey, decryptCards, toast]);
+};
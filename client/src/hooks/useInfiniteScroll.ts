@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+
+// Start loading a little before the end of the list comes into view
+const PRELOAD_MARGIN = '300px';
+
+/**
+ * Calls onLoadMore whenever the sentinel element is (nearly) in view
+ * @param onLoadMore - Loads the next page
+ * @param enabled - False while a page is loading or when there are no more pages
+ * @returns Ref for a sentinel element placed after the list
+ */
+export const useInfiniteScroll = <T extends Element>(onLoadMore: () => void, enabled: boolean) => {
+  const sentinelRef = useRef<T>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+  }, [onLoadMore]);
+
+  // Re-observing after each page fires again if the sentinel is still visible,
+  // so short (filtered) pages keep loading until the screen is filled
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!enabled || !sentinel) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin: PRELOAD_MARGIN }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  return sentinelRef;
+};
@@ -1,5 +1,31 @@
 import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
-import { Card, ExtractionResult } from '../types/card';
+import {
+  ActivityFilters,
+  ActivityPage,
+  ActivityVerifyResult,
+  Card,
+  CardBatchAction,
+  CardImage,
+  CardImageSide,
+  CardBatchResponse,
+  CardListQuery,
+  CardPage,
+  CardUpdate,
+  ClientActivityAction,
+  CopyableCardField,
+  DuplicateCard,
+  ExpiryReminder,
+  ExtractionResult,
+  FolderBatchResponse,
+  FolderMember,
+  FolderRole,
+  LockSettings,
+  ShareAccessEvent,
+  ShareLinkOptions,
+  SharedWithMeFolder,
+  VaultSettings,
+} from '../types/card';
+import { encryptCardFields } from '../utils/vaultCrypto';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
@@ -37,6 +63,29 @@ export const initCsrfProtection = async (): Promise<void> => {
   }
 };
 
+// Vault key (zero-knowledge mode) - held in memory only, never persisted
+let vaultKey: CryptoKey | null = null;
+
+/**
+ * Set or clear the key used to encrypt card fields before upload
+ * Called by the vault context on unlock / lock
+ */
+export const setVaultKey = (key: CryptoKey | null): void => {
+  vaultKey = key;
+};
+
+/**
+ * Encrypt sensitive card fields in the browser when vault mode is unlocked
+ */
+const prepareCardPayload = async (card: CardUpdate): Promise<CardUpdate> => {
+  if (!vaultKey) {
+    return card;
+  }
+  // No plaintext expiresAt goes with it: the expiry stays private and the
+  // client reminds about vault cards itself (see useExpiryReminders)
+  return encryptCardFields(card, vaultKey);
+};
+
 const getAuthHeaders = (token: string | null) => {
   return {
     headers: {
@@ -194,11 +243,28 @@ export const shareFolderApi = {
     }
   },
 
-  generateShareLink: async (token: string | null, folderId: string, expiresIn: string = 'never') => {
+  batchCards: async (
+    token: string | null,
+    folderId: string,
+    changes: { add?: string[]; remove?: string[] }
+  ): Promise<FolderBatchResponse> => {
+    try {
+      const response = await axios.post(
+        `${API_URL}/sharefolders/${folderId}/cards/batch`,
+        changes,
+        getAuthHeaders(token)
+      );
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  generateShareLink: async (token: string | null, folderId: string, options: ShareLinkOptions = {}) => {
     try {
       const response = await axios.post(
         `${API_URL}/sharefolders/${folderId}/share`,
-        { expiresIn },
+        { expiresIn: 'never', ...options },
         getAuthHeaders(token)
       );
       return response.data;
@@ -229,17 +295,30 @@ export const shareFolderApi = {
     } catch (error) {
       throw error;
     }
-  }
-};
+  },
 
-export const cardApi = {
-  getAll: async (token: string | null, bank?: string, type?: string) => {
+  getAccessLog: async (token: string | null, folderId: string): Promise<{ events: ShareAccessEvent[] }> => {
     try {
-      const params = new URLSearchParams();
-      if (bank) params.append('bank', bank);
-      if (type) params.append('type', type);
       const response = await axios.get(
-        `${API_URL}/cards?${params.toString()}`,
+        `${API_URL}/sharefolders/${folderId}/access`,
+        getAuthHeaders(token)
+      );
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  addMember: async (
+    token: string | null,
+    folderId: string,
+    email: string,
+    role: FolderRole
+  ): Promise<{ members: FolderMember[] }> => {
+    try {
+      const response = await axios.post(
+        `${API_URL}/sharefolders/${folderId}/members`,
+        { email, role },
         getAuthHeaders(token)
       );
       return response.data;
@@ -248,12 +327,122 @@ export const cardApi = {
     }
   },
 
-  getCardImage: async (token: string | null, cardId: string): Promise<string> => {
+  updateMemberRole: async (
+    token: string | null,
+    folderId: string,
+    email: string,
+    role: FolderRole
+  ): Promise<{ members: FolderMember[] }> => {
+    try {
+      const response = await axios.put(
+        `${API_URL}/sharefolders/${folderId}/members/${encodeURIComponent(email)}`,
+        { role },
+        getAuthHeaders(token)
+      );
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  // Also used by members to leave a folder, with their own email
+  removeMember: async (
+    token: string | null,
+    folderId: string,
+    email: string
+  ): Promise<{ members: FolderMember[]; removedCardIds: string[] }> => {
+    try {
+      const response = await axios.delete(
+        `${API_URL}/sharefolders/${folderId}/members/${encodeURIComponent(email)}`,
+        getAuthHeaders(token)
+      );
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  getSharedWithMe: async (token: string | null): Promise<SharedWithMeFolder[]> => {
+    try {
+      const response = await axios.get(
+        `${API_URL}/sharefolders/shared-with-me`,
+        getAuthHeaders(token)
+      );
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  getSharedWithMeFolder: async (token: string | null, folderId: string) => {
+    try {
+      const response = await axios.get(
+        `${API_URL}/sharefolders/shared-with-me/${folderId}`,
+        getAuthHeaders(token)
+      );
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  getSharedWithMeImage: async (token: string | null, folderId: string, cardId: string): Promise<string> => {
+    try {
+      const response = await axios.get(
+        `${API_URL}/sharefolders/shared-with-me/${folderId}/image/${cardId}`,
+        {
+          ...getAuthHeaders(token),
+          responseType: 'arraybuffer'
+        }
+      );
+
+      // Unencrypted images come back as JSON with their storage URL
+      const contentType = response.headers['content-type'];
+      if (contentType && contentType.includes('application/json')) {
+        return JSON.parse(new TextDecoder().decode(response.data)).imageUrl;
+      }
+
+      const blob = new Blob([response.data], { type: 'image/jpeg' });
+      return URL.createObjectURL(blob);
+    } catch (error) {
+      throw error;
+    }
+  }
+};
+
+export const cardApi = {
+  // One page of cards; pass the previous page's nextCursor to continue
+  getAll: async (token: string | null, query: CardListQuery = {}, cursor?: string | null): Promise<CardPage> => {
+    try {
+      const response = await axios.get(`${API_URL}/cards`, {
+        ...getAuthHeaders(token),
+        params: { ...query, ...(cursor && { cursor }) }
+      });
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  // Every card, page by page (backups, pickers and other whole-vault views)
+  getAllPages: async (token: string | null, query: CardListQuery = {}): Promise<Card[]> => {
+    const cards: Card[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: CardPage = await cardApi.getAll(token, { limit: 100, ...query }, cursor);
+      cards.push(...page.cards);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return cards;
+  },
+
+  getCardImage: async (token: string | null, cardId: string, side: CardImageSide = 'front'): Promise<string> => {
     try {
       const response = await axios.get(
         `${API_URL}/cards/${cardId}/image`,
         {
           ...getAuthHeaders(token),
+          params: { side },
           responseType: 'arraybuffer' // Get binary data
         }
       );
@@ -275,6 +464,19 @@ export const cardApi = {
     }
   },
 
+  encryptImage: async (token: string | null, cardId: string) => {
+    try {
+      const response = await axios.post(
+        `${API_URL}/cards/${cardId}/image/encrypt`,
+        {},
+        getAuthHeaders(token)
+      );
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
   getById: async (token: string | null, id: string) => {
     try {
       const response = await axios.get(
@@ -287,11 +489,32 @@ export const cardApi = {
     }
   },
 
-  create: async (token: string | null, card: Partial<Card>) => {
+  // Rejected with 409 if the number is already in the vault (see getDuplicateCard)
+  // unless allowDuplicate is set
+  create: async (token: string | null, card: CardUpdate, options: { allowDuplicate?: boolean } = {}) => {
     try {
+      const payload = await prepareCardPayload(card);
       const response = await axios.post(
         `${API_URL}/cards`,
-        card,
+        payload,
+        {
+          ...getAuthHeaders(token),
+          ...(options.allowDuplicate && { params: { allowDuplicate: true } })
+        }
+      );
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  // Fill the existing card's empty fields from card and keep the better image per side
+  merge: async (token: string | null, id: string, card: CardUpdate) => {
+    try {
+      const payload = await prepareCardPayload(card);
+      const response = await axios.post(
+        `${API_URL}/cards/${id}/merge`,
+        payload,
         getAuthHeaders(token)
       );
       return response.data;
@@ -300,11 +523,32 @@ export const cardApi = {
     }
   },
 
-  update: async (token: string | null, id: string, card: Partial<Card>) => {
+  update: async (token: string | null, id: string, card: CardUpdate) => {
     try {
+      const payload = await prepareCardPayload(card);
       const response = await axios.put(
         `${API_URL}/cards/${id}`,
-        card,
+        payload,
+        getAuthHeaders(token)
+      );
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  batch: async (
+    token: string | null,
+    action: CardBatchAction,
+    items: CardUpdate[]
+  ): Promise<CardBatchResponse> => {
+    try {
+      const payload = action === 'delete'
+        ? items.map((item) => ({ id: item.id }))
+        : await Promise.all(items.map((item) => prepareCardPayload(item)));
+      const response = await axios.post(
+        `${API_URL}/cards/batch`,
+        { action, items: payload },
         getAuthHeaders(token)
       );
       return response.data;
@@ -347,15 +591,162 @@ export const cardApi = {
     } catch (error) {
       throw error;
     }
+  },
+
+  getTags: async (token: string | null): Promise<string[]> => {
+    try {
+      const response = await axios.get(
+        `${API_URL}/cards/tags/list`,
+        getAuthHeaders(token)
+      );
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  }
+};
+
+export const vaultApi = {
+  getSettings: async (token: string | null): Promise<VaultSettings> => {
+    try {
+      const response = await axios.get(
+        `${API_URL}/vault`,
+        getAuthHeaders(token)
+      );
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  enable: async (
+    token: string | null,
+    settings: { salt: string; iterations: number; verifier: string }
+  ): Promise<VaultSettings> => {
+    try {
+      const response = await axios.put(
+        `${API_URL}/vault`,
+        settings,
+        getAuthHeaders(token)
+      );
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  getLock: async (token: string | null): Promise<LockSettings> => {
+    try {
+      const response = await axios.get(
+        `${API_URL}/vault/lock`,
+        getAuthHeaders(token)
+      );
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  setLock: async (
+    token: string | null,
+    settings: { salt: string; iterations: number; verifier: string }
+  ): Promise<LockSettings> => {
+    try {
+      const response = await axios.put(
+        `${API_URL}/vault/lock`,
+        settings,
+        getAuthHeaders(token)
+      );
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  // Needs a token from a sign-in in the last few minutes (see AuthContext.reauthenticate)
+  deleteLock: async (token: string | null): Promise<LockSettings> => {
+    try {
+      const response = await axios.delete(
+        `${API_URL}/vault/lock`,
+        getAuthHeaders(token)
+      );
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  }
+};
+
+export const reminderApi = {
+  getAll: async (token: string | null): Promise<ExpiryReminder[]> => {
+    try {
+      const response = await axios.get(
+        `${API_URL}/reminders`,
+        getAuthHeaders(token)
+      );
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  dismiss: async (token: string | null, id: string) => {
+    try {
+      const response = await axios.post(
+        `${API_URL}/reminders/${id}/dismiss`,
+        {},
+        getAuthHeaders(token)
+      );
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  }
+};
+
+export const imageApi = {
+  // Uploads a card image through the server; returns the storage path to save as its url
+  upload: async (token: string | null, file: Blob, name: string): Promise<string> => {
+    try {
+      const response = await axios.post(
+        `${API_URL}/images`,
+        file,
+        {
+          headers: {
+            ...getAuthHeaders(token).headers,
+            'Content-Type': file.type || 'image/jpeg'
+          },
+          params: { name }
+        }
+      );
+      return response.data.url;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  delete: async (token: string | null, path: string) => {
+    try {
+      const response = await axios.delete(`${API_URL}/images`, {
+        ...getAuthHeaders(token),
+        params: { path }
+      });
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
   }
 };
 
 export const extractApi = {
-  extract: async (token: string | null, imageUrl: string, cardId?: string): Promise<ExtractionResult> => {
+  // Pass a single image URL, or front/back images to extract and merge both sides
+  extract: async (token: string | null, image: string | CardImage[]): Promise<ExtractionResult> => {
     try {
       const response = await axios.post(
         `${API_URL}/extract`,
-        { imageUrl, cardId },
+        typeof image === 'string'
+          ? { imageUrl: image }
+          : { images: image.map(({ side, url }) => ({ side, url })) },
         getAuthHeaders(token)
       );
       return response.data.data;
@@ -365,11 +756,56 @@ export const extractApi = {
   }
 };
 
+export const activityApi = {
+  // Newest first; pass the previous page's nextCursor to continue
+  getAll: async (token: string | null, filters: ActivityFilters = {}, cursor?: number | null): Promise<ActivityPage> => {
+    try {
+      const response = await axios.get(`${API_URL}/activity`, {
+        ...getAuthHeaders(token),
+        params: { ...filters, ...(cursor && { cursor }) }
+      });
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  verify: async (token: string | null): Promise<ActivityVerifyResult> => {
+    try {
+      const response = await axios.get(
+        `${API_URL}/activity/verify`,
+        getAuthHeaders(token)
+      );
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  },
+
+  record: async (token: string | null, action: ClientActivityAction, cardId: string, field?: CopyableCardField) => {
+    try {
+      const response = await axios.post(
+        `${API_URL}/activity`,
+        { action, cardId, field },
+        getAuthHeaders(token)
+      );
+      return response.data;
+    } catch (error) {
+      throw error;
+    }
+  }
+};
+
 // Export helper function to check if error is rate limit error
 export const isRateLimitError = (error: any): boolean => {
   return error?.isRateLimit === true || error?.status === 429;
 };
 
+// Export helper to get the existing card from a duplicate card error (null for other errors)
+export const getDuplicateCard = (error: any): DuplicateCard | null => {
+  return error?.response?.status === 409 ? error.response.data?.duplicate || null : null;
+};
+
 // Export helper to get retry time from error
 export const getRetryAfter = (error: any): number => {
   return error?.retryAfter || 900; // Default 15 minutes
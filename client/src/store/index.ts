@@ -1,9 +1,11 @@
 import { configureStore } from '@reduxjs/toolkit';
 import themeReducer from './slices/themeSlice';
+import vaultReducer from './slices/vaultSlice';
 
 export const store = configureStore({
   reducer: {
     theme: themeReducer,
+    vault: vaultReducer,
   },
 });
 
@@ -0,0 +1,53 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+interface VaultLockState {
+  isLocked: boolean;
+  autoLockMinutes: number; // 0 disables idle auto-lock
+  lockOnHide: boolean;
+}
+
+export const AUTO_LOCK_OPTIONS = [0, 1, 5, 15, 30, 60];
+
+const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+// Get lock preferences from localStorage
+const getInitialAutoLockMinutes = (): number => {
+  const saved = localStorage.getItem('vaultAutoLockMinutes');
+  const minutes = saved === null ? NaN : parseInt(saved, 10);
+  return AUTO_LOCK_OPTIONS.includes(minutes) ? minutes : DEFAULT_AUTO_LOCK_MINUTES;
+};
+
+const getInitialLockOnHide = (): boolean => {
+  return localStorage.getItem('vaultLockOnHide') === 'true';
+};
+
+// The vault always starts locked - the key only lives in memory
+const initialState: VaultLockState = {
+  isLocked: true,
+  autoLockMinutes: getInitialAutoLockMinutes(),
+  lockOnHide: getInitialLockOnHide(),
+};
+
+const vaultSlice = createSlice({
+  name: 'vault',
+  initialState,
+  reducers: {
+    lockVault: (state) => {
+      state.isLocked = true;
+    },
+    unlockVault: (state) => {
+      state.isLocked = false;
+    },
+    setAutoLockMinutes: (state, action: PayloadAction<number>) => {
+      state.autoLockMinutes = action.payload;
+      localStorage.setItem('vaultAutoLockMinutes', String(action.payload));
+    },
+    setLockOnHide: (state, action: PayloadAction<boolean>) => {
+      state.lockOnHide = action.payload;
+      localStorage.setItem('vaultLockOnHide', String(action.payload));
+    },
+  },
+});
+
+export const { lockVault, unlockVault, setAutoLockMinutes, setLockOnHide } = vaultSlice.actions;
+export default vaultSlice.reducer;
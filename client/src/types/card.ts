@@ -1,24 +1,110 @@
 export type CardType = 'credit' | 'debit' | 'aadhar' | 'pan' | 'other';
 
-export interface Card {
+export type CardImageSide = 'front' | 'back';
+
+export interface CardImage {
+  side: CardImageSide;
+  url: string; // Download URL, or storage path once encrypted
+  encrypted?: boolean;
+}
+
+export type Gender = 'male' | 'female' | 'transgender';
+
+// Fields shared by every card and identity document
+interface CardBase {
   id?: string;
   userId: string;
-  type: CardType;
   cardName?: string;
-  cardNumber?: string;
+  cardNumber?: string; // Card number, or the Aadhaar/PAN number for documents
   cardHolderName?: string;
-  expiryDate?: string;
-  cvv?: string;
-  bank?: string;
-  imageUrl?: string;
+  bank?: string; // Issuing bank, or the issuing authority for documents (UIDAI, Income Tax Dept.)
+  imageUrl?: string; // Front image (kept in sync with images for older cards)
   imageEncrypted?: boolean; // Flag indicating if image is encrypted
+  images?: CardImage[]; // Front and back images
+  clientEncrypted?: boolean; // Sensitive fields encrypted in the browser (vault mode)
+  tags?: string[]; // User-defined labels, stored lowercase (e.g. "travel", "office")
   extractionStatus?: 'pending' | 'processing' | 'completed' | 'failed';
+  extractionProvider?: string; // Provider that produced the last extraction (gemini, tesseract)
   extractedAt?: any;
   createdAt?: any;
   updatedAt?: any;
   shareFolderId?: string; // Reference to share folder if card is in a shared folder
 }
 
+export interface PaymentCardFields {
+  expiryDate?: string;
+  expiresAt?: string | null; // ISO date parsed from expiryDate (end of expiry month)
+  cvv?: string;
+}
+
+export interface AadhaarFields {
+  dateOfBirth?: string; // YYYY-MM-DD
+  gender?: Gender;
+  address?: string;
+}
+
+export interface PanFields {
+  dateOfBirth?: string; // YYYY-MM-DD
+  fatherName?: string;
+}
+
+// Marks fields of other variants as absent so they can still be read on any Card
+type Absent<T> = { [K in keyof T]?: undefined };
+
+export interface PaymentCard extends CardBase, PaymentCardFields, Absent<AadhaarFields & PanFields> {
+  type: 'credit' | 'debit' | 'other';
+}
+
+export interface AadhaarCard extends CardBase, AadhaarFields, Absent<PaymentCardFields & Omit<PanFields, 'dateOfBirth'>> {
+  type: 'aadhar';
+}
+
+export interface PanCard extends CardBase, PanFields, Absent<PaymentCardFields & Omit<AadhaarFields, 'dateOfBirth'>> {
+  type: 'pan';
+}
+
+export type Card = PaymentCard | AadhaarCard | PanCard;
+
+// Flat set of fields sent when creating or updating any kind of card
+export type CardUpdate = Partial<CardBase & PaymentCardFields & AadhaarFields & PanFields & { type: CardType }>;
+
+// Server-side card list options (GET /api/cards)
+export type CardSortField = 'createdAt' | 'updatedAt';
+
+export interface CardListQuery {
+  bank?: string; // Bank name, or 'other' for cards without one
+  type?: CardType;
+  q?: string; // Matches card name, cardholder, bank and type, or the last 4 characters / whole card number
+  last4?: string; // Cards whose number ends with these 4 characters
+  tag?: string; // Cards with this tag
+  sort?: CardSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+}
+
+export interface CardPage {
+  cards: Card[];
+  nextCursor: string | null;
+}
+
+// Existing card returned when a create is rejected as a duplicate (409 from POST /api/cards)
+export interface DuplicateCard {
+  id: string;
+  type: CardType;
+  cardName?: string;
+  cardHolderName?: string;
+  bank?: string;
+}
+
+export type ExtractedField =
+  | 'cardNumber' | 'cardHolderName' | 'expiryDate' | 'cvv' | 'bank' | 'cardName'
+  | 'dateOfBirth' | 'gender' | 'address' | 'fatherName';
+
+export interface FieldValidation {
+  valid: boolean;
+  message?: string;
+}
+
 export interface ExtractionResult {
   type: CardType;
   cardNumber?: string;
@@ -27,7 +113,50 @@ export interface ExtractionResult {
   cvv?: string;
   bank?: string;
   cardName?: string;
+  dateOfBirth?: string;
+  gender?: Gender;
+  address?: string;
+  fatherName?: string;
   isValid: boolean;
+  extractionProvider?: string;
+  fieldConfidence?: Partial<Record<ExtractedField, number>>; // 0-1 per extracted field
+  validation?: Partial<Record<ExtractedField, FieldValidation>>;
+}
+
+// How a public share link exposes each field
+export interface ShareRedaction {
+  cardNumber: 'reveal' | 'mask' | 'omit';
+  cardHolderName: 'reveal' | 'omit';
+  expiryDate: 'reveal' | 'omit';
+  cvv: 'reveal' | 'omit';
+  images: boolean;
+}
+
+// What a share folder member can do; the folder's creator is always an owner
+export type FolderRole = 'viewer' | 'editor' | 'owner';
+
+export interface FolderMember {
+  email: string;
+  role: FolderRole;
+}
+
+// A folder another user shared with the signed-in user's email
+export interface SharedWithMeFolder {
+  id: string;
+  name: string;
+  description: string;
+  cardCount: number;
+  ownerEmail: string | null;
+  role: FolderRole;
+  updatedAt: string | null;
+}
+
+// Options for a new share link
+export interface ShareLinkOptions {
+  expiresIn?: string;
+  passcode?: string;
+  redaction?: ShareRedaction;
+  maxViews?: number | null;
 }
 
 export interface ShareHistoryEntry {
@@ -36,7 +165,27 @@ export interface ShareHistoryEntry {
   createdAt: string;
   expiresAt: string | null;
   revokedAt: string | null;
+  revokedReason?: 'view_limit' | null; // Set when the link revoked itself
   isActive: boolean;
+  maxViews?: number | null; // Opens allowed before the link is revoked
+  passcodeProtected?: boolean;
+  redaction?: ShareRedaction;
+  views?: number;
+  imageViews?: number;
+  lastAccessedAt?: string | null;
+}
+
+export type ShareAccessType = 'view' | 'image' | 'unlock' | 'unlock_failed';
+
+// One public access to a share link (IPs are only stored hashed)
+export interface ShareAccessEvent {
+  id: string;
+  shareToken: string;
+  type: ShareAccessType;
+  cardIds: string[];
+  ipHash: string | null;
+  userAgent: string;
+  accessedAt: string | null;
 }
 
 export interface ShareFolder {
@@ -51,7 +200,108 @@ export interface ShareFolder {
   sharedAt?: any;
   revokedAt?: any;
   shareHistory?: ShareHistoryEntry[];
+  passcodeProtected?: boolean; // Viewers must enter a passcode
+  passcodeLocked?: boolean; // Locked after too many wrong passcodes
+  maxViews?: number | null;
+  viewCount?: number;
+  recipientEmails?: string[]; // Signed-in users the folder is shared with
+  ownerEmail?: string | null;
+  role?: FolderRole; // Signed-in user's role
+  members?: FolderMember[]; // Everyone except the creator
+  cardOwners?: Record<string, { uid?: string; email: string | null }>; // Who added each card; uid only for your own cards unless you own the folder
   createdAt?: any;
   updatedAt?: any;
 }
 
+export interface ExpiryReminder {
+  id: string;
+  cardId: string;
+  cardName: string | null;
+  bank: string | null;
+  kind: 'expiring' | 'expired';
+  expiresAt: string;
+  createdAt: string | null;
+}
+
+// Actions the browser reports itself; everything else is logged by the server
+export type ClientActivityAction = 'card.reveal_cvv' | 'card.reveal_number' | 'card.copy';
+
+export type CopyableCardField = 'cardNumber' | 'cardHolderName' | 'expiryDate' | 'cvv';
+
+export interface ActivityEntry {
+  seq: number;
+  action: string;
+  cardId: string | null;
+  folderId: string | null;
+  details: Record<string, unknown>;
+  ipHash: string | null;
+  userAgent: string;
+  createdAt: string;
+  hash: string;
+}
+
+export interface ActivityFilters {
+  action?: string; // Exact action or a prefix such as 'card' or 'share'
+  cardId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface ActivityPage {
+  entries: ActivityEntry[];
+  nextCursor: number | null;
+}
+
+export interface ActivityVerifyResult {
+  valid: boolean;
+  checked: number;
+  brokenAt: number | null;
+  reason: string | null;
+}
+
+export type CardBatchAction = 'create' | 'update' | 'delete';
+
+export interface CardBatchItemResult {
+  index: number;
+  id: string | null;
+  success: boolean;
+  error?: string;
+  duplicateOf?: string; // Existing card with the same number (create only)
+}
+
+export interface CardBatchResponse {
+  action: CardBatchAction;
+  succeeded: number;
+  failed: number;
+  results: CardBatchItemResult[];
+}
+
+export interface FolderBatchItemResult {
+  cardId: string;
+  action: 'add' | 'remove';
+  success: boolean;
+  error?: string;
+}
+
+export interface FolderBatchResponse {
+  succeeded: number;
+  failed: number;
+  cardIds: string[];
+  results: FolderBatchItemResult[];
+}
+
+export interface VaultSettings {
+  enabled: boolean;
+  salt?: string;
+  iterations?: number;
+  verifier?: string;
+  createdAt?: string | null;
+}
+
+// Lock passphrase for users without vault encryption (same KDF and verifier)
+export interface LockSettings {
+  configured: boolean;
+  salt?: string;
+  iterations?: number;
+  verifier?: string;
+}
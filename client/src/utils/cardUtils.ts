@@ -2,6 +2,8 @@
  * Card utility functions for masking, formatting, and validation
  */
 
+import { Card, CardImage, CardType, CardUpdate, ExtractionResult, FieldValidation, Gender } from '../types/card';
+
 /**
  * Masks a card number showing only the last 4 digits
  * @param cardNumber - The full card number
@@ -38,6 +40,39 @@ export const maskPAN = (panNumber: string): string => {
   return `${first5}${middleDots}${last2}`;
 };
 
+/**
+ * Masks an Aadhaar number showing only the last 4 digits, as UIDAI
+ * recommends for displayed and shared copies
+ * @param aadhaarNumber - The full Aadhaar number
+ * @returns Masked Aadhaar (e.g., "XXXX XXXX 1234")
+ */
+export const maskAadhaar = (aadhaarNumber: string): string => {
+  const digits = aadhaarNumber?.replace(/\D/g, '') || '';
+  if (digits.length < 4) return aadhaarNumber;
+
+  return `XXXX XXXX ${digits.slice(-4)}`;
+};
+
+/**
+ * Formats an Aadhaar number in groups of four (XXXX XXXX XXXX)
+ * @param aadhaarNumber - The Aadhaar number
+ * @returns Formatted Aadhaar number
+ */
+export const formatAadhaar = (aadhaarNumber: string): string => {
+  const digits = aadhaarNumber?.replace(/\D/g, '') || '';
+  return digits.length === 12 ? digits.replace(/(\d{4})(?=\d)/g, '$1 ') : aadhaarNumber;
+};
+
+/**
+ * Formats a stored date of birth (YYYY-MM-DD) as printed on Indian IDs
+ * @param dateOfBirth - The date of birth
+ * @returns Date as DD/MM/YYYY
+ */
+export const formatDateOfBirth = (dateOfBirth: string): string => {
+  const match = dateOfBirth?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : dateOfBirth;
+};
+
 /**
  * Formats a card number with spaces (XXXX XXXX XXXX XXXX)
  * @param cardNumber - The card number
@@ -76,6 +111,67 @@ export const formatExpiryDate = (expiryDate: string): string => {
   return digits;
 };
 
+/**
+ * Gets the front/back images of a card
+ * Cards created before multi-image support only have imageUrl (the front)
+ * @param card - The card
+ * @returns Images with the front first
+ */
+export const getCardImages = (card: Pick<Card, 'images' | 'imageUrl' | 'imageEncrypted'>): CardImage[] => {
+  if (card.images && card.images.length > 0) {
+    return card.images;
+  }
+  if (card.imageUrl) {
+    return [{ side: 'front', url: card.imageUrl, encrypted: card.imageEncrypted }];
+  }
+  return [];
+};
+
+// Days before expiry at which a card is badged as "expiring soon"
+export const EXPIRING_SOON_DAYS = 30;
+
+export type ExpiryStatus = 'expired' | 'expiring' | 'valid';
+
+/**
+ * Parses an MM/YY (or MM/YYYY) expiry into the last moment of that month
+ * @param expiryDate - The expiry date
+ * @returns Expiry as a Date (UTC) or null if it cannot be parsed
+ */
+export const parseExpiryDate = (expiryDate: string): Date | null => {
+  const match = expiryDate?.trim().match(/^(\d{1,2})\s*[/.-]?\s*(\d{2}|\d{4})$/);
+  if (!match) return null;
+
+  const month = parseInt(match[1], 10);
+  let year = parseInt(match[2], 10);
+  if (month < 1 || month > 12) return null;
+  if (year < 100) year += 2000;
+
+  // Day 0 of the next month is the last day of this month
+  return new Date(Date.UTC(year, month, 0, 23, 59, 59));
+};
+
+/**
+ * Gets the expiry status of a card
+ * Uses the stored expiresAt date, falling back to parsing expiryDate
+ * @param card - Card with expiresAt and/or a decrypted expiryDate
+ * @param soonDays - Days before expiry that count as "expiring"
+ * @returns Expiry status or null if the card has no usable expiry
+ */
+export const getExpiryStatus = (
+  card: { expiresAt?: string | null; expiryDate?: string },
+  soonDays: number = EXPIRING_SOON_DAYS
+): ExpiryStatus | null => {
+  const expiry = card.expiresAt
+    ? new Date(card.expiresAt)
+    : parseExpiryDate(card.expiryDate || '');
+  if (!expiry || isNaN(expiry.getTime())) return null;
+
+  const remaining = expiry.getTime() - Date.now();
+  if (remaining < 0) return 'expired';
+  if (remaining <= soonDays * 24 * 60 * 60 * 1000) return 'expiring';
+  return 'valid';
+};
+
 /**
  * Gets the card network from card number
  * @param cardNumber - The card number
@@ -154,6 +250,155 @@ export const validateCardNumber = (cardNumber: string): boolean => {
   return sum % 10 === 0;
 };
 
+/**
+ * Validates a PAN (5 letters, 4 digits, 1 letter)
+ * @param pan - The PAN
+ * @returns True if valid
+ */
+export const validatePAN = (pan: string): boolean => {
+  return /^[A-Z]{5}\d{4}[A-Z]$/.test(pan.replace(/\s/g, '').toUpperCase());
+};
+
+// Verhoeff tables (used by Aadhaar numbers)
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+/**
+ * Validates an Aadhaar number (12 digits, Verhoeff checksum)
+ * @param aadhaar - The Aadhaar number
+ * @returns True if valid
+ */
+export const validateAadhaar = (aadhaar: string): boolean => {
+  const digits = aadhaar.replace(/\s/g, '');
+  if (!/^[2-9]\d{11}$/.test(digits)) {
+    return false;
+  }
+
+  let checksum = 0;
+  const reversed = digits.split('').reverse();
+  for (let i = 0; i < reversed.length; i++) {
+    checksum = VERHOEFF_D[checksum][VERHOEFF_P[i % 8][parseInt(reversed[i])]];
+  }
+  return checksum === 0;
+};
+
+// Expiry dates further out than this are almost certainly misread
+const MAX_EXPIRY_YEARS = 20;
+
+export const GENDERS: Gender[] = ['male', 'female', 'transgender'];
+
+// Fields that only apply to some card types; shared fields (number, name,
+// bank, card name) apply to every type
+const TYPE_SPECIFIC_FIELDS: Record<CardType, (keyof CardUpdate)[]> = {
+  credit: ['expiryDate', 'cvv'],
+  debit: ['expiryDate', 'cvv'],
+  other: ['expiryDate', 'cvv'],
+  aadhar: ['dateOfBirth', 'gender', 'address'],
+  pan: ['dateOfBirth', 'fatherName'],
+};
+const ALL_TYPE_SPECIFIC_FIELDS = Array.from(new Set(Object.values(TYPE_SPECIFIC_FIELDS).flat()));
+
+/**
+ * Checks whether a field belongs to a card type's schema
+ * @param type - The card type
+ * @param field - The field name
+ * @returns True if the field can be stored on that type
+ */
+export const isFieldForType = (type: CardType, field: keyof CardUpdate): boolean => {
+  return !ALL_TYPE_SPECIFIC_FIELDS.includes(field) || TYPE_SPECIFIC_FIELDS[type].includes(field);
+};
+
+/**
+ * Removes fields that do not belong to the card type (e.g. a CVV on a PAN card)
+ * @param type - The card type
+ * @param data - Card fields
+ * @returns Card fields valid for the type
+ */
+export const pickFieldsForType = (type: CardType, data: CardUpdate): CardUpdate => {
+  return Object.fromEntries(
+    Object.entries(data).filter(([field]) => isFieldForType(type, field as keyof CardUpdate))
+  ) as CardUpdate;
+};
+
+/**
+ * Validates an extracted or edited card field
+ * Mirrors the checks the server runs on extraction results
+ * @param type - The card type
+ * @param field - The field name
+ * @param value - The field value
+ * @returns Validation result (expired cards are valid, with a message)
+ */
+export const validateCardField = (type: CardType, field: string, value: string): FieldValidation => {
+  if (!value) {
+    return { valid: true };
+  }
+
+  if (field === 'cardNumber') {
+    if ((type === 'credit' || type === 'debit') && !validateCardNumber(value)) {
+      return { valid: false, message: 'Card number fails the Luhn check' };
+    }
+    if (type === 'pan' && !validatePAN(value)) {
+      return { valid: false, message: 'PAN must be 5 letters, 4 digits and a letter' };
+    }
+    if (type === 'aadhar' && !validateAadhaar(value)) {
+      return { valid: false, message: 'Aadhaar number fails the checksum' };
+    }
+  } else if (field === 'expiryDate') {
+    const expiry = parseExpiryDate(value);
+    if (!expiry) {
+      return { valid: false, message: 'Expiry must be a valid MM/YY date' };
+    }
+    if (expiry.getUTCFullYear() > new Date().getUTCFullYear() + MAX_EXPIRY_YEARS) {
+      return { valid: false, message: 'Expiry date is too far in the future' };
+    }
+    if (expiry.getTime() < Date.now()) {
+      return { valid: true, message: 'Card has expired' };
+    }
+  } else if (field === 'dateOfBirth') {
+    const dob = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00Z`) : null;
+    if (!dob || isNaN(dob.getTime()) || dob.toISOString().slice(0, 10) !== value || dob.getTime() > Date.now()) {
+      return { valid: false, message: 'Date of birth must be a past date (YYYY-MM-DD)' };
+    }
+  } else if (field === 'gender' && !GENDERS.includes(value.toLowerCase() as Gender)) {
+    return { valid: false, message: 'Gender must be male, female or transgender' };
+  } else if (field === 'cvv' && !/^\d{3,4}$/.test(value)) {
+    return { valid: false, message: 'CVV must be 3 or 4 digits' };
+  }
+
+  return { valid: true };
+};
+
+/**
+ * Strips extraction metadata (confidence, validation) and fields that do
+ * not belong to the detected type, so only card fields are saved
+ * @param result - Extraction result
+ * @returns Card fields from the extraction
+ */
+export const getExtractedCardFields = (result: ExtractionResult): CardUpdate => {
+  const { isValid, fieldConfidence, validation, ...fields } = result;
+  return pickFieldsForType(result.type, fields);
+};
+
 /**
  * Gets display name for card type
  * @param type - The card type
@@ -194,3 +439,36 @@ export const getBankColor = (bank: string): string => {
   return bankColors[normalizedBank] || 'from-slate-600 to-slate-700';
 };
 
+
+// Tag limits, mirroring the server (server/utils/cardTags.js)
+export const MAX_CARD_TAGS = 20;
+const MAX_TAG_LENGTH = 30;
+const TAG_PATTERN = /^[\p{L}\p{N}](?:[\p{L}\p{N} _-]*[\p{L}\p{N}])?$/u;
+
+/**
+ * Normalizes a tag the way the server stores it (trimmed, lowercased, single spaces)
+ * @param tag - Tag as typed
+ * @returns The normalized tag, or null if it is not a valid tag
+ */
+export const normalizeTag = (tag: string): string | null => {
+  const normalized = tag.trim().replace(/\s+/g, ' ').toLowerCase();
+  return normalized.length <= MAX_TAG_LENGTH && TAG_PATTERN.test(normalized) ? normalized : null;
+};
+
+/**
+ * Validates and cleans a list of tags the way the server does (normalizeTags in server/utils/cardTags.js)
+ * @param tags - Tags from an untrusted source, e.g. a backup file
+ * @returns Normalized tags without duplicates, or null if any tag is invalid or there are too many
+ */
+export const normalizeTags = (tags: unknown): string[] | null => {
+  if (!Array.isArray(tags)) return null;
+
+  const normalized: string[] = [];
+  for (const tag of tags) {
+    const value = typeof tag === 'string' ? normalizeTag(tag) : null;
+    if (!value) return null;
+    if (!normalized.includes(value)) normalized.push(value);
+  }
+
+  return normalized.length <= MAX_CARD_TAGS ? normalized : null;
+};
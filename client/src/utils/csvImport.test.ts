@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { guessColumnMapping, mapCsvRows, parseCsv } from './csvImport';
+
+describe('parseCsv', () => {
+  it('keeps commas, newlines and escaped quotes inside quoted fields', () => {
+    const rows = parseCsv('\uFEFFname,notes\r\n"Travel, HDFC","He said ""hi""\nthen left"\r\n\r\n');
+
+    expect(rows).toEqual([
+      ['name', 'notes'],
+      ['Travel, HDFC', 'He said "hi"\nthen left'],
+    ]);
+  });
+
+  it('keeps a last row without a trailing newline and skips blank lines', () => {
+    expect(parseCsv('a,b\n\n , \n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('maps header aliases from password manager exports', () => {
+    const mapping = guessColumnMapping(['Name', 'card_cardholderName', 'Card-Number', 'card_expMonth', 'card_expYear', 'Card_Code', 'Notes']);
+
+    expect(mapping).toEqual({
+      0: 'cardName',
+      1: 'cardHolderName',
+      2: 'cardNumber',
+      3: 'expiryMonth',
+      4: 'expiryYear',
+      5: 'cvv',
+      6: 'ignore',
+    });
+  });
+
+  it('maps each field to the first matching column only', () => {
+    expect(guessColumnMapping(['Number', 'Card Number'])).toEqual({ 0: 'cardNumber', 1: 'ignore' });
+  });
+});
+
+describe('mapCsvRows', () => {
+  const mapping = guessColumnMapping(['Type', 'Name', 'Number', 'Expiry', 'CVV']);
+
+  it('builds a card from a valid row', () => {
+    const [result] = mapCsvRows([['Visa Debit', 'Salary', '4111 1111-1111 1111', '2027-3', '123']], mapping, 'credit');
+
+    expect(result.errors).toEqual([]);
+    expect(result.card).toEqual({
+      type: 'debit',
+      extractionStatus: 'completed',
+      cardName: 'Salary',
+      cardNumber: '4111111111111111',
+      expiryDate: '03/27',
+      cvv: '123',
+    });
+  });
+
+  it('reads separate expiry month and year columns', () => {
+    const [result] = mapCsvRows([['4111111111111111', '7', '2029']], guessColumnMapping(['Number', 'Exp Month', 'Exp Year']), 'credit');
+
+    expect(result.card.expiryDate).toBe('07/29');
+  });
+
+  it('rejects rows with an invalid number, expiry or CVV', () => {
+    const [result] = mapCsvRows([['credit', 'Broken', '4111111111111112', '13/27', '12a']], mapping, 'credit');
+
+    expect(result.rowNumber).toBe(1);
+    expect(result.errors).toEqual(['Invalid card number', 'Invalid expiry date', 'CVV must be 3 or 4 digits']);
+    expect(result.card.expiryDate).toBeUndefined();
+    expect(result.card.cvv).toBeUndefined();
+  });
+
+  it('requires a number for payment cards and a number or name for the rest', () => {
+    const results = mapCsvRows([['credit', 'No number', '', '', ''], ['other', '', '', '', '']], mapping, 'credit');
+
+    expect(results[0].errors).toEqual(['Card number is required']);
+    expect(results[1].rowNumber).toBe(2);
+    expect(results[1].errors).toEqual(['Row has no card number or name']);
+  });
+
+  it('keeps letters in ID numbers and falls back to the default type', () => {
+    const [result] = mapCsvRows([['', 'PAN', 'abcde 1234f', '', '']], mapping, 'pan');
+
+    expect(result.errors).toEqual([]);
+    expect(result.card).toMatchObject({ type: 'pan', cardNumber: 'ABCDE1234F' });
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * CSV import helpers
+ *
+ * Parses CSV exports from password managers (Bitwarden, 1Password) and
+ * spreadsheets, maps their columns to Card fields and validates each row.
+ */
+
+import { CardType, CardUpdate } from '../types/card';
+import { formatExpiryDate, validateCardNumber } from './cardUtils';
+
+export type CsvField =
+  | 'ignore'
+  | 'type'
+  | 'cardName'
+  | 'cardNumber'
+  | 'cardHolderName'
+  | 'expiryDate'
+  | 'expiryMonth'
+  | 'expiryYear'
+  | 'cvv'
+  | 'bank';
+
+export type CsvColumnMapping = Record<number, CsvField>;
+
+export interface CsvRowResult {
+  rowNumber: number; // 1-based data row number (header excluded)
+  card: CardUpdate;
+  errors: string[];
+}
+
+export const CSV_FIELD_LABELS: Record<CsvField, string> = {
+  ignore: "Don't import",
+  type: 'Card type',
+  cardName: 'Card name',
+  cardNumber: 'Card / ID number',
+  cardHolderName: 'Cardholder name',
+  expiryDate: 'Expiry (MM/YY)',
+  expiryMonth: 'Expiry month',
+  expiryYear: 'Expiry year',
+  cvv: 'CVV',
+  bank: 'Bank',
+};
+
+// Known column headers from common exports, matched case-insensitively
+const HEADER_ALIASES: Record<Exclude<CsvField, 'ignore'>, string[]> = {
+  type: ['type', 'card type', 'category'],
+  cardName: ['name', 'title', 'card name', 'label'],
+  cardNumber: ['number', 'card number', 'card_number', 'cardnumber', 'card no', 'pan', 'aadhaar', 'id number'],
+  cardHolderName: ['cardholder', 'cardholder name', 'cardholdername', 'card_cardholdername', 'name on card', 'holder'],
+  expiryDate: ['expiry', 'expiry date', 'expiration', 'expiration date', 'exp', 'valid thru', 'valid through'],
+  expiryMonth: ['exp month', 'expmonth', 'card_expmonth', 'expiry month', 'expiration month'],
+  expiryYear: ['exp year', 'expyear', 'card_expyear', 'expiry year', 'expiration year'],
+  cvv: ['cvv', 'cvc', 'code', 'card_code', 'security code', 'verification number'],
+  bank: ['bank', 'bank name', 'issuer', 'issuing bank'],
+};
+
+/**
+ * Parses CSV text into rows of cells
+ * Supports quoted fields, escaped quotes ("") and CRLF line endings
+ * @param text - Raw CSV file contents
+ * @returns Array of rows (empty lines are skipped)
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, ''); // Strip BOM from Excel exports
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+};
+
+/**
+ * Guesses a column mapping from the header row
+ * @param headers - Header cells
+ * @returns Mapping of column index to Card field
+ */
+export const guessColumnMapping = (headers: string[]): CsvColumnMapping => {
+  const mapping: CsvColumnMapping = {};
+  const used = new Set<CsvField>();
+
+  headers.forEach((header, index) => {
+    const normalized = header.trim().toLowerCase().replace(/[_-]+/g, ' ');
+    const match = (Object.keys(HEADER_ALIASES) as Exclude<CsvField, 'ignore'>[]).find(
+      (field) => !used.has(field) && HEADER_ALIASES[field].some(
+        (alias) => alias.replace(/[_-]+/g, ' ') === normalized
+      )
+    );
+
+    mapping[index] = match || 'ignore';
+    if (match) used.add(match);
+  });
+
+  return mapping;
+};
+
+/**
+ * Maps a free-form type value ("Visa Credit", "Debit", "Aadhaar") to a CardType
+ * @param value - Raw type cell
+ * @param fallback - Type used when the value is empty or unknown
+ * @returns Card type
+ */
+const parseCardType = (value: string, fallback: CardType): CardType => {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return fallback;
+  if (normalized.includes('debit')) return 'debit';
+  if (normalized.includes('credit')) return 'credit';
+  if (normalized.includes('aadha')) return 'aadhar';
+  if (normalized === 'pan' || normalized.includes('pan card')) return 'pan';
+  if (normalized === 'other') return 'other';
+  return fallback;
+};
+
+/**
+ * Builds an MM/YY expiry from the different formats found in exports
+ * (MM/YY, MM/YYYY, YYYY-MM, MMYY, or separate month and year columns)
+ * @returns Expiry in MM/YY format, or null if it cannot be parsed
+ */
+const parseExpiry = (expiry: string, month: string, year: string): string | null => {
+  let mm = '';
+  let yy = '';
+
+  if (month.trim() || year.trim()) {
+    mm = month.replace(/\D/g, '');
+    yy = year.replace(/\D/g, '');
+  } else {
+    const value = expiry.trim();
+    const isoMatch = value.match(/^(\d{4})[-/](\d{1,2})$/);
+    const parts = value.split(/[\s/.-]+/).filter(Boolean);
+    if (isoMatch) {
+      [, yy, mm] = isoMatch;
+    } else if (parts.length === 2) {
+      [mm, yy] = parts;
+    } else {
+      const digits = value.replace(/\D/g, '');
+      if (digits.length === 6) {
+        mm = digits.slice(0, 2);
+        yy = digits.slice(2);
+      } else {
+        return formatExpiryDate(digits);
+      }
+    }
+  }
+
+  if (!mm || !yy) return null;
+  return formatExpiryDate(`${mm.padStart(2, '0')}${yy.slice(-2)}`);
+};
+
+/**
+ * Converts and validates the data rows of a CSV file
+ * @param rows - Data rows (without the header row)
+ * @param mapping - Column mapping chosen by the user
+ * @param defaultType - Card type for rows without a type column/value
+ * @returns One result per row with the card payload and any errors
+ */
+export const mapCsvRows = (
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  defaultType: CardType
+): CsvRowResult[] => {
+  return rows.map((cells, rowIndex) => {
+    const values: Partial<Record<CsvField, string>> = {};
+    Object.entries(mapping).forEach(([index, field]) => {
+      if (field !== 'ignore') {
+        values[field] = (cells[Number(index)] || '').trim();
+      }
+    });
+
+    const errors: string[] = [];
+    const type = parseCardType(values.type || '', defaultType);
+    const card: CardUpdate = { type, extractionStatus: 'completed' };
+
+    if (values.cardName) card.cardName = values.cardName;
+    if (values.cardHolderName) card.cardHolderName = values.cardHolderName;
+    if (values.bank) card.bank = values.bank;
+
+    const isPaymentCard = type === 'credit' || type === 'debit';
+    const number = isPaymentCard
+      ? (values.cardNumber || '').replace(/[\s-]/g, '')
+      : (values.cardNumber || '').replace(/\s/g, '').toUpperCase();
+
+    if (number) {
+      card.cardNumber = number;
+      if (isPaymentCard && !validateCardNumber(number)) {
+        errors.push('Invalid card number');
+      }
+    } else if (isPaymentCard) {
+      errors.push('Card number is required');
+    }
+
+    if (values.expiryDate || values.expiryMonth || values.expiryYear) {
+      const expiry = parseExpiry(values.expiryDate || '', values.expiryMonth || '', values.expiryYear || '');
+      const month = expiry ? parseInt(expiry.slice(0, 2), 10) : NaN;
+      if (!expiry || !/^\d{2}\/\d{2}$/.test(expiry) || month < 1 || month > 12) {
+        errors.push('Invalid expiry date');
+      } else {
+        card.expiryDate = expiry;
+      }
+    }
+
+    if (values.cvv) {
+      if (/^\d{3,4}$/.test(values.cvv)) {
+        card.cvv = values.cvv;
+      } else {
+        errors.push('CVV must be 3 or 4 digits');
+      }
+    }
+
+    if (!card.cardNumber && !card.cardName) {
+      errors.push('Row has no card number or name');
+    }
+
+    return { rowNumber: rowIndex + 1, card, errors };
+  });
+};
@@ -0,0 +1,78 @@
+/**
+ * Share link QR code helpers
+ *
+ * QR codes are rendered locally with the qrcode package - the share URL is
+ * never sent to a third-party generator. The encoded URL carries an `exp`
+ * query parameter (Unix seconds) so a scanner can tell an expired code apart
+ * before opening it. The hint is informational only; the server still decides
+ * whether the link is valid.
+ */
+
+import QRCode from 'qrcode';
+
+export const QR_EXPIRY_PARAM = 'exp';
+
+const QR_OPTIONS = { errorCorrectionLevel: 'M' as const, margin: 2 };
+const PNG_WIDTH = 512; // px
+
+// Share tokens are 24 random bytes in base64url
+const SHARE_PATH_PATTERN = /\/shared\/([A-Za-z0-9_-]{32})\/?$/;
+
+/**
+ * Add the expiry hint to a share URL
+ * @param shareUrl - URL returned when the link was generated
+ * @param expiresAt - Link expiry, or null if it never expires
+ * @returns URL to encode in the QR code
+ */
+export const buildShareQrUrl = (shareUrl: string, expiresAt: string | null): string => {
+  if (!expiresAt) return shareUrl;
+
+  const url = new URL(shareUrl);
+  url.searchParams.set(QR_EXPIRY_PARAM, String(Math.floor(new Date(expiresAt).getTime() / 1000)));
+  return url.toString();
+};
+
+/**
+ * Read the expiry hint from a share URL's query string
+ * @param value - Value of the `exp` parameter
+ * @returns Expiry date, or null if absent or malformed
+ */
+export const parseExpiryHint = (value: string | null): Date | null => {
+  const seconds = Number(value);
+  if (!value || !Number.isInteger(seconds) || seconds <= 0) return null;
+  return new Date(seconds * 1000);
+};
+
+/**
+ * Extract a share link from scanned QR text
+ * Accepts any origin, since links may be generated on another deployment.
+ * @param text - Decoded QR payload
+ * @returns Token and expiry hint, or null if the text is not a share link
+ */
+export const parseShareQr = (text: string): { token: string; expiresAt: Date | null } | null => {
+  let url: URL;
+  try {
+    url = new URL(text.trim());
+  } catch {
+    return null;
+  }
+
+  const match = url.pathname.match(SHARE_PATH_PATTERN);
+  if (!match) return null;
+
+  return { token: match[1], expiresAt: parseExpiryHint(url.searchParams.get(QR_EXPIRY_PARAM)) };
+};
+
+/**
+ * Render a QR code as SVG markup
+ * @param text - Content to encode
+ */
+export const renderQrSvg = (text: string): Promise<string> =>
+  QRCode.toString(text, { ...QR_OPTIONS, type: 'svg' });
+
+/**
+ * Render a QR code as a PNG data URL
+ * @param text - Content to encode
+ */
+export const renderQrPng = (text: string): Promise<string> =>
+  QRCode.toDataURL(text, { ...QR_OPTIONS, width: PNG_WIDTH });
@@ -0,0 +1,43 @@
+/**
+ * Share link redaction helpers
+ *
+ * A redaction policy decides which card fields a public share link reveals,
+ * masks or omits, and whether card images are served. The server enforces
+ * the policy; these helpers describe it in the UI.
+ */
+
+import { ShareRedaction } from '../types/card';
+
+export type RedactedField = Exclude<keyof ShareRedaction, 'images'>;
+
+export const REDACTION_FIELDS: { field: RedactedField; label: string; canMask: boolean }[] = [
+  { field: 'cardNumber', label: 'Card number', canMask: true },
+  { field: 'cardHolderName', label: 'Cardholder name', canMask: false },
+  { field: 'expiryDate', label: 'Expiry date', canMask: false },
+  { field: 'cvv', label: 'CVV', canMask: false },
+];
+
+// New links hide the CVV unless the owner opts in
+export const DEFAULT_SHARE_REDACTION: ShareRedaction = {
+  cardNumber: 'reveal',
+  cardHolderName: 'reveal',
+  expiryDate: 'reveal',
+  cvv: 'omit',
+  images: true,
+};
+
+/**
+ * Summarize what a policy hides, e.g. "Masked: Card number · Hidden: CVV, Images"
+ * @param redaction - Policy of a share link
+ * @returns Summary, or an empty string if everything is shared
+ */
+export const describeRedaction = (redaction: ShareRedaction): string => {
+  const masked = REDACTION_FIELDS.filter(({ field }) => redaction[field] === 'mask').map(({ label }) => label);
+  const hidden = REDACTION_FIELDS.filter(({ field }) => redaction[field] === 'omit').map(({ label }) => label);
+  if (!redaction.images) hidden.push('Images');
+
+  const parts: string[] = [];
+  if (masked.length > 0) parts.push(`Masked: ${masked.join(', ')}`);
+  if (hidden.length > 0) parts.push(`Hidden: ${hidden.join(', ')}`);
+  return parts.join(' · ');
+};
@@ -1,5 +1,4 @@
-import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { storage } from '../firebase/config';
+import { imageApi } from '../services/api';
 import { compressCardImage, getCompressionEstimate } from './imageCompression';
 
 export interface UploadOptions {
@@ -8,17 +7,17 @@ export interface UploadOptions {
 }
 
 /**
- * Upload image to Firebase Storage with optional compression
+ * Upload image to the server's storage with optional compression
  * Images are compressed by ~25% while maintaining OCR quality
  * 
  * @param file - Image file to upload
- * @param userId - User ID for file organization
+ * @param token - Auth token (the server files the image under the signed-in user)
  * @param options - Upload options (compression, progress callback)
- * @returns Download URL of uploaded image
+ * @returns Storage path of the uploaded image
  */
 export const uploadImage = async (
   file: File, 
-  userId: string,
+  token: string | null,
   options: UploadOptions = { compress: true }
 ): Promise<string> => {
   try {
@@ -39,26 +38,28 @@ export const uploadImage = async (
       options.onProgress?.('compressing', 100);
     }
     
-    // Step 2: Upload to Firebase Storage
+    // Step 2: Upload through the server
     options.onProgress?.('uploading', 0);
     
-    const timestamp = Date.now();
-    const fileName = `${userId}/${timestamp}_${file.name}`;
-    const storageRef = ref(storage, `cards/${fileName}`);
-    
-    options.onProgress?.('uploading', 30);
-    
-    await uploadBytes(storageRef, fileToUpload);
-    
-    options.onProgress?.('uploading', 80);
-    
-    const downloadURL = await getDownloadURL(storageRef);
+    const path = await imageApi.upload(token, fileToUpload, file.name);
     
     options.onProgress?.('uploading', 100);
     
-    return downloadURL;
+    return path;
   } catch (error) {
     throw error;
   }
 };
 
+/**
+ * Deletes an uploaded card image (e.g. when an extraction is discarded)
+ * @param token - Auth token
+ * @param url - Storage path returned by uploadImage
+ */
+export const deleteImage = async (token: string | null, url: string): Promise<void> => {
+  try {
+    await imageApi.delete(token, url);
+  } catch (error) {
+    throw error;
+  }
+};
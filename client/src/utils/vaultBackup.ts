@@ -0,0 +1,359 @@
+/**
+ * Encrypted vault backup (export / import)
+ *
+ * A backup is a JSON file holding every card, its decrypted images and the
+ * share folders it belongs to. The payload is encrypted with a key derived
+ * from a backup passphrase, so the file can be stored anywhere.
+ */
+
+import { cardApi, getDuplicateCard, shareFolderApi } from '../services/api';
+import { Card, CardImage, CardImageSide, CardType, Gender, ShareFolder } from '../types/card';
+import { deleteImage, uploadImage } from './storage';
+import { getCardImages, normalizeTags } from './cardUtils';
+import {
+  DEFAULT_KDF_ITERATIONS,
+  decryptString,
+  deriveVaultKey,
+  encryptString,
+  generateSalt,
+} from './vaultCrypto';
+
+const BACKUP_FORMAT = 'secure-ai-vault-backup';
+const BACKUP_VERSION = 1;
+
+type BackupCardField = keyof BackupCard & keyof Card;
+
+// Card fields copied into a backup - server-managed fields are left out
+const BACKUP_CARD_FIELDS: BackupCardField[] = [
+  'type',
+  'cardName',
+  'cardNumber',
+  'cardHolderName',
+  'expiryDate',
+  'cvv',
+  'bank',
+  'dateOfBirth',
+  'gender',
+  'address',
+  'fatherName',
+  'tags',
+];
+
+export interface BackupCard {
+  sourceId: string;
+  type: CardType;
+  cardName?: string;
+  cardNumber?: string;
+  cardHolderName?: string;
+  expiryDate?: string;
+  cvv?: string;
+  bank?: string;
+  dateOfBirth?: string;
+  gender?: Gender;
+  address?: string;
+  fatherName?: string;
+  tags?: string[];
+  image?: string; // data: URL of the decrypted front image
+  backImage?: string; // data: URL of the decrypted back image
+}
+
+export interface BackupFolder {
+  name: string;
+  description?: string;
+  cardIds: string[]; // sourceIds of the cards in this folder
+}
+
+export interface VaultBackup {
+  version: number;
+  exportedAt: string;
+  cards: BackupCard[];
+  folders: BackupFolder[];
+}
+
+interface BackupFile {
+  format: string;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; salt: string; iterations: number };
+  data: string;
+}
+
+export interface RestoreSummary {
+  imported: number;
+  skipped: number;
+  failed: number;
+  foldersCreated: number;
+}
+
+export type BackupProgress = (done: number, total: number) => void;
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Downloads one decrypted image of a card as a data URL
+ * @returns Data URL, or undefined if the card has no readable image for that side
+ */
+const fetchCardImage = async (
+  token: string | null,
+  card: Card,
+  side: CardImageSide
+): Promise<string | undefined> => {
+  if (!card.id || !getCardImages(card).some((image) => image.side === side)) return undefined;
+
+  try {
+    const url = await cardApi.getCardImage(token, card.id, side);
+    const response = await fetch(url);
+    const blob = await response.blob();
+    if (url.startsWith('blob:')) {
+      URL.revokeObjectURL(url);
+    }
+    return blobToDataUrl(blob);
+  } catch (error) {
+    console.error('Failed to fetch image for backup:', card.id, error);
+    return undefined;
+  }
+};
+
+/**
+ * Copies one field of a card into its backup entry, skipping empty values
+ */
+const copyCardField = <K extends BackupCardField>(
+  backupCard: Pick<BackupCard, K>,
+  card: Pick<BackupCard, K>,
+  field: K
+): void => {
+  if (card[field]) {
+    backupCard[field] = card[field];
+  }
+};
+
+/**
+ * Normalizes a card number for duplicate detection
+ * @param cardNumber - Card number in any format
+ * @returns Digits/characters only, upper-cased
+ */
+const normalizeCardNumber = (cardNumber?: string): string => {
+  return (cardNumber || '').replace(/[\s-]/g, '').toUpperCase();
+};
+
+/**
+ * Builds a backup from the user's (already decrypted) cards and the share folders they own
+ * @param token - Auth token
+ * @param cards - Cards with plaintext sensitive fields
+ * @param folders - Share folders (folders the user is only a member of are left out)
+ * @param onProgress - Called after each card image is fetched
+ * @returns Unencrypted backup payload
+ */
+export const buildBackup = async (
+  token: string | null,
+  cards: Card[],
+  folders: ShareFolder[],
+  onProgress?: BackupProgress
+): Promise<VaultBackup> => {
+  const backupCards: BackupCard[] = [];
+
+  for (let i = 0; i < cards.length; i++) {
+    const card = cards[i];
+    const backupCard: BackupCard = { sourceId: card.id!, type: card.type };
+    BACKUP_CARD_FIELDS.forEach((field) => copyCardField(backupCard, card, field));
+    backupCard.image = await fetchCardImage(token, card, 'front');
+    backupCard.backImage = await fetchCardImage(token, card, 'back');
+    backupCards.push(backupCard);
+    onProgress?.(i + 1, cards.length);
+  }
+
+  // Other members' cards in a shared folder aren't in the backup
+  const backupCardIds = new Set(backupCards.map((card) => card.sourceId));
+
+  return {
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    cards: backupCards,
+    // Folders shared with the user as an editor or viewer belong to someone else
+    folders: folders
+      .filter((folder) => folder.role === 'owner')
+      .map((folder) => ({
+        name: folder.name,
+        description: folder.description,
+        cardIds: (folder.cardIds || []).filter((cardId) => backupCardIds.has(cardId)),
+      })),
+  };
+};
+
+/**
+ * Encrypts a backup with a passphrase
+ * @param backup - Backup payload
+ * @param passphrase - Backup passphrase
+ * @returns JSON file contents
+ */
+export const encryptBackup = async (backup: VaultBackup, passphrase: string): Promise<Blob> => {
+  const salt = generateSalt();
+  const iterations = DEFAULT_KDF_ITERATIONS;
+  const key = await deriveVaultKey(passphrase, salt, iterations);
+
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    data: await encryptString(key, JSON.stringify(backup)),
+  };
+
+  return new Blob([JSON.stringify(file)], { type: 'application/json' });
+};
+
+/**
+ * Reads and decrypts a backup file
+ * @param file - Backup file selected by the user
+ * @param passphrase - Backup passphrase
+ * @returns Decrypted backup payload
+ */
+export const decryptBackup = async (file: File, passphrase: string): Promise<VaultBackup> => {
+  let parsed: BackupFile;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch (error) {
+    throw new Error('This file is not a valid vault backup');
+  }
+
+  if (parsed.format !== BACKUP_FORMAT || !parsed.kdf?.salt || !parsed.data) {
+    throw new Error('This file is not a valid vault backup');
+  }
+  if (parsed.version > BACKUP_VERSION) {
+    throw new Error('This backup was created by a newer version of the app');
+  }
+
+  const key = await deriveVaultKey(passphrase, parsed.kdf.salt, parsed.kdf.iterations);
+  try {
+    return JSON.parse(await decryptString(key, parsed.data));
+  } catch (error) {
+    throw new Error('Incorrect passphrase or corrupted backup');
+  }
+};
+
+/**
+ * Restores a backup into the current account
+ * Cards whose number already exists are skipped, images are re-uploaded
+ * and folder membership is recreated (folders are matched by name)
+ * @param token - Auth token
+ * @param backup - Decrypted backup payload
+ * @param existingCards - The user's current (decrypted) cards
+ * @param existingFolders - The user's current share folders
+ * @param onProgress - Called after each card is processed
+ * @returns Summary of the restore
+ */
+export const restoreBackup = async (
+  token: string | null,
+  backup: VaultBackup,
+  existingCards: Card[],
+  existingFolders: ShareFolder[],
+  onProgress?: BackupProgress
+): Promise<RestoreSummary> => {
+  const summary: RestoreSummary = { imported: 0, skipped: 0, failed: 0, foldersCreated: 0 };
+
+  const existingByNumber = new Map<string, string>();
+  existingCards.forEach((card) => {
+    const number = normalizeCardNumber(card.cardNumber);
+    if (number && card.id) existingByNumber.set(number, card.id);
+  });
+
+  // sourceId from the backup -> card id in this account
+  const idMap = new Map<string, string>();
+
+  for (let i = 0; i < backup.cards.length; i++) {
+    const { sourceId, image, backImage, tags, ...fields } = backup.cards[i];
+    const number = normalizeCardNumber(fields.cardNumber);
+
+    // The server rejects a card with invalid tags, so restore the card without them
+    const restoredTags = tags !== undefined ? normalizeTags(tags) : undefined;
+    if (restoredTags === null) {
+      console.warn('Skipping invalid tags in backup card:', sourceId);
+    }
+
+    try {
+      const duplicateId = number ? existingByNumber.get(number) : undefined;
+      if (duplicateId) {
+        idMap.set(sourceId, duplicateId);
+        summary.skipped++;
+        continue;
+      }
+
+      const images: CardImage[] = [];
+      for (const [side, dataUrl] of [['front', image], ['back', backImage]] as const) {
+        if (!dataUrl) continue;
+        const blob = await (await fetch(dataUrl)).blob();
+        const extension = blob.type.split('/')[1] || 'jpg';
+        const file = new File([blob], `restored_${sourceId}_${side}.${extension}`, { type: blob.type });
+        images.push({ side, url: await uploadImage(file, token, { compress: false }) });
+      }
+
+      let createdId: string;
+      try {
+        ({ id: createdId } = await cardApi.create(token, {
+          ...fields,
+          ...(restoredTags && restoredTags.length > 0 && { tags: restoredTags }),
+          ...(images.length > 0 && { images, imageUrl: images[0].url }),
+          extractionStatus: 'completed',
+        }));
+      } catch (error) {
+        // The server can spot a duplicate the list above missed (e.g. a card added since it was loaded)
+        const existing = getDuplicateCard(error);
+        if (!existing) throw error;
+        await Promise.allSettled(images.map((image) => deleteImage(token, image.url)));
+        idMap.set(sourceId, existing.id);
+        summary.skipped++;
+        continue;
+      }
+
+      if (images.length > 0) {
+        try {
+          await cardApi.encryptImage(token, createdId);
+        } catch (error) {
+          // The image stays readable via its storage URL
+          console.error('Failed to encrypt restored image:', error);
+        }
+      }
+
+      idMap.set(sourceId, createdId);
+      if (number) existingByNumber.set(number, createdId);
+      summary.imported++;
+    } catch (error) {
+      console.error('Failed to restore card:', sourceId, error);
+      summary.failed++;
+    } finally {
+      onProgress?.(i + 1, backup.cards.length);
+    }
+  }
+
+  for (const backupFolder of backup.folders) {
+    const cardIds = backupFolder.cardIds
+      .map((sourceId) => idMap.get(sourceId))
+      .filter((id): id is string => !!id);
+
+    try {
+      let folder = existingFolders.find((f) => f.name === backupFolder.name);
+      if (!folder) {
+        folder = await shareFolderApi.create(token, {
+          name: backupFolder.name,
+          description: backupFolder.description,
+        });
+        summary.foldersCreated++;
+      }
+
+      for (const cardId of cardIds) {
+        if (!folder!.cardIds?.includes(cardId)) {
+          await shareFolderApi.addCard(token, folder!.id!, cardId);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to restore share folder:', backupFolder.name, error);
+    }
+  }
+
+  return summary;
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkVerifier,
+  createVerifier,
+  decryptCardFields,
+  decryptString,
+  deriveVaultKey,
+  encryptCardFields,
+  encryptString,
+  generateSalt,
+  hasEncryptedFields,
+  isVaultCiphertext,
+} from './vaultCrypto';
+import { CardUpdate } from '../types/card';
+
+// Far below the real iteration count, to keep the tests fast
+const TEST_ITERATIONS = 1000;
+
+describe('vaultCrypto', () => {
+  it('round-trips a string under the derived key', async () => {
+    const key = await deriveVaultKey('correct horse', generateSalt(), TEST_ITERATIONS);
+    const ciphertext = await encryptString(key, '4111 1111 1111 1111');
+
+    expect(isVaultCiphertext(ciphertext)).toBe(true);
+    expect(ciphertext).not.toContain('4111');
+    expect(await decryptString(key, ciphertext)).toBe('4111 1111 1111 1111');
+  });
+
+  it('rejects a wrong passphrase through the verifier', async () => {
+    const salt = generateSalt();
+    const verifier = await createVerifier(await deriveVaultKey('correct horse', salt, TEST_ITERATIONS));
+
+    expect(await checkVerifier(await deriveVaultKey('correct horse', salt, TEST_ITERATIONS), verifier)).toBe(true);
+    expect(await checkVerifier(await deriveVaultKey('wrong horse', salt, TEST_ITERATIONS), verifier)).toBe(false);
+  });
+
+  it('encrypts only the sensitive card fields and marks the card', async () => {
+    const key = await deriveVaultKey('correct horse', generateSalt(), TEST_ITERATIONS);
+    const card: CardUpdate = { cardNumber: '4111111111111111', cvv: '123', bank: 'HDFC', cardName: '' };
+
+    const encrypted = await encryptCardFields(card, key);
+    expect(isVaultCiphertext(encrypted.cardNumber)).toBe(true);
+    expect(isVaultCiphertext(encrypted.cvv)).toBe(true);
+    expect(encrypted.bank).toBe('HDFC');
+    expect(encrypted.clientEncrypted).toBe(true);
+    expect(hasEncryptedFields(encrypted)).toBe(true);
+
+    // Already encrypted fields are not encrypted twice
+    expect((await encryptCardFields(encrypted, key)).cardNumber).toBe(encrypted.cardNumber);
+
+    const decrypted = await decryptCardFields(encrypted, key);
+    expect(decrypted.cardNumber).toBe('4111111111111111');
+    expect(decrypted.cvv).toBe('123');
+  });
+
+  it('leaves fields it cannot decrypt as ciphertext', async () => {
+    const key = await deriveVaultKey('correct horse', generateSalt(), TEST_ITERATIONS);
+    const otherKey = await deriveVaultKey('other', generateSalt(), TEST_ITERATIONS);
+    const encrypted = await encryptCardFields({ cardNumber: '4111111111111111' }, key);
+
+    const decrypted = await decryptCardFields(encrypted, otherKey);
+    expect(decrypted.cardNumber).toBe(encrypted.cardNumber);
+    expect(hasEncryptedFields(decrypted)).toBe(true);
+  });
+});
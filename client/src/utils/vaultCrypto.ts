@@ -0,0 +1,206 @@
+/**
+ * Zero-knowledge vault encryption helpers
+ *
+ * Derives an AES-256-GCM key from the user's passphrase with PBKDF2 (WebCrypto)
+ * and encrypts sensitive card fields in the browser before they are uploaded.
+ * The server only ever stores the resulting ciphertext.
+ */
+
+import { CardUpdate } from '../types/card';
+
+// Ciphertext format: zk1:<iv base64>:<ciphertext base64>
+const VAULT_CIPHERTEXT_PREFIX = 'zk1:';
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+const VERIFIER_PLAINTEXT = 'secure-ai-vault:verifier';
+
+export const DEFAULT_KDF_ITERATIONS = 310000;
+
+// Fields encrypted client-side when vault mode is enabled
+export const VAULT_SENSITIVE_FIELDS = ['cardNumber', 'cvv', 'expiryDate', 'dateOfBirth', 'address', 'fatherName'] as const;
+
+type VaultSensitiveField = typeof VAULT_SENSITIVE_FIELDS[number];
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Checks whether a value is vault ciphertext produced by encryptString
+ * @param value - Field value
+ * @returns True if the value is still encrypted
+ */
+export const isVaultCiphertext = (value: unknown): boolean => {
+  return typeof value === 'string' && value.startsWith(VAULT_CIPHERTEXT_PREFIX);
+};
+
+/**
+ * Checks whether any sensitive field of a card is still encrypted
+ * @param card - The card
+ * @returns True if at least one field could not be decrypted yet
+ */
+export const hasEncryptedFields = (card: CardUpdate): boolean => {
+  return VAULT_SENSITIVE_FIELDS.some((field) => isVaultCiphertext(card[field]));
+};
+
+/**
+ * Generates a random salt for key derivation
+ * @returns Base64 encoded salt
+ */
+export const generateSalt = (): string => {
+  return toBase64(crypto.getRandomValues(new Uint8Array(SALT_LENGTH)));
+};
+
+/**
+ * Derives the vault key from a passphrase
+ * @param passphrase - The user's vault passphrase
+ * @param salt - Base64 encoded salt
+ * @param iterations - PBKDF2 iteration count
+ * @returns Non-extractable AES-GCM key
+ */
+export const deriveVaultKey = async (
+  passphrase: string,
+  salt: string,
+  iterations: number = DEFAULT_KDF_ITERATIONS
+): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    textEncoder.encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Encrypts a string with the vault key
+ * @param key - Vault key
+ * @param plaintext - Value to encrypt
+ * @returns Ciphertext in zk1:iv:ciphertext format
+ */
+export const encryptString = async (key: CryptoKey, plaintext: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    textEncoder.encode(plaintext)
+  );
+  return `${VAULT_CIPHERTEXT_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+};
+
+/**
+ * Decrypts a value produced by encryptString
+ * @param key - Vault key
+ * @param payload - Ciphertext in zk1:iv:ciphertext format
+ * @returns Decrypted plaintext
+ */
+export const decryptString = async (key: CryptoKey, payload: string): Promise<string> => {
+  const parts = payload.slice(VAULT_CIPHERTEXT_PREFIX.length).split(':');
+  if (parts.length !== 2) {
+    throw new Error('Invalid vault ciphertext format');
+  }
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(parts[0]) },
+    key,
+    fromBase64(parts[1])
+  );
+  return textDecoder.decode(plaintext);
+};
+
+/**
+ * Creates the verifier stored alongside the salt so a passphrase can be checked
+ * @param key - Vault key
+ * @returns Encrypted verifier
+ */
+export const createVerifier = (key: CryptoKey): Promise<string> => {
+  return encryptString(key, VERIFIER_PLAINTEXT);
+};
+
+/**
+ * Checks a derived key against the stored verifier
+ * @param key - Candidate vault key
+ * @param verifier - Stored verifier
+ * @returns True if the passphrase was correct
+ */
+export const checkVerifier = async (key: CryptoKey, verifier: string): Promise<boolean> => {
+  try {
+    return (await decryptString(key, verifier)) === VERIFIER_PLAINTEXT;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Encrypts the sensitive fields of a card payload
+ * Fields that are empty or already encrypted are left untouched
+ * @param card - Card payload about to be uploaded
+ * @param key - Vault key
+ * @returns Card payload with encrypted sensitive fields
+ */
+export const encryptCardFields = async <T extends CardUpdate>(card: T, key: CryptoKey): Promise<T> => {
+  const encrypted: T = { ...card };
+  let changed = false;
+
+  for (const field of VAULT_SENSITIVE_FIELDS) {
+    const value = card[field as VaultSensitiveField];
+    if (value && !isVaultCiphertext(value)) {
+      (encrypted as CardUpdate)[field] = await encryptString(key, value);
+      changed = true;
+    }
+  }
+
+  if (changed) {
+    (encrypted as CardUpdate).clientEncrypted = true;
+  }
+
+  return encrypted;
+};
+
+/**
+ * Decrypts the sensitive fields of a card
+ * Fields that fail to decrypt are left as ciphertext
+ * @param card - Card as returned by the API
+ * @param key - Vault key
+ * @returns Card with decrypted sensitive fields
+ */
+export const decryptCardFields = async <T extends CardUpdate>(card: T, key: CryptoKey): Promise<T> => {
+  const decrypted: T = { ...card };
+
+  for (const field of VAULT_SENSITIVE_FIELDS) {
+    const value = card[field as VaultSensitiveField];
+    if (value && isVaultCiphertext(value)) {
+      try {
+        (decrypted as CardUpdate)[field] = await decryptString(key, value);
+      } catch (error) {
+        // Leave the ciphertext in place - the UI treats it as locked
+      }
+    }
+  }
+
+  return decrypted;
+};
@@ -0,0 +1,219 @@
+/**
+ * Card text heuristics
+ * Turns raw OCR text into ExtractionResult fields using regular expressions
+ * for card numbers (Luhn checked), expiry dates, Aadhaar and PAN numbers
+ * and their document fields (date of birth, gender, father's name).
+ */
+
+const { bankNormalizations } = require('../utils/bankNormalizer');
+const { passesLuhn, passesVerhoeff } = require('../utils/cardValidation');
+
+// Bank aliases that are too common as plain words to match in OCR text
+const AMBIGUOUS_BANK_ALIASES = new Set(['sc', 'yes', 'indian', 'central', 'union']);
+
+// Card number lengths, most common first
+const CARD_NUMBER_LENGTHS = [16, 15, 19, 14, 13, 17, 18];
+
+// Printed words that are never the cardholder's name
+const NON_NAME_WORDS = /\b(BANK|CARD|CREDIT|DEBIT|VALID|THRU|FROM|MONTH|YEAR|VISA|MASTERCARD|RUPAY|PLATINUM|GOLD|SIGNATURE|CLASSIC|WORLD|ELECTRONIC|USE|ONLY|INDIA|GOVERNMENT|INCOME|TAX|DEPARTMENT|AUTHORISED|AUTHORIZED|CUSTOMER|CARE|MEMBER|SINCE|INTERNATIONAL|PERMANENT|ACCOUNT|NUMBER|NAME|FATHER|DOB|BIRTH|MALE|FEMALE)\b/;
+
+/**
+ * Find a payment card number (13-19 digits, optionally grouped) that passes Luhn
+ * @param {string} text - OCR text
+ * @returns {string|null} Digits only
+ */
+function findCardNumber(text) {
+  const candidates = text.match(/\b\d(?:[ -]?\d){12,}\b/g) || [];
+  for (const candidate of candidates) {
+    const digits = candidate.replace(/\D/g, '');
+    // OCR often runs the number into the next group (e.g. the expiry), so try
+    // the common card lengths as prefixes
+    const length = CARD_NUMBER_LENGTHS.find((len) => len <= digits.length && passesLuhn(digits.slice(0, len)));
+    if (length) {
+      return digits.slice(0, length);
+    }
+  }
+  return null;
+}
+
+/**
+ * Find an Aadhaar number (12 digits printed as 4-4-4, never starting with 0 or 1)
+ * Numbers passing the Verhoeff checksum are preferred over misreads
+ * @param {string} text - OCR text
+ * @returns {string|null} Digits only
+ */
+function findAadhaarNumber(text) {
+  const candidates = (text.match(/\b[2-9]\d{3}\s\d{4}\s\d{4}\b/g) || []).map((match) => match.replace(/\s/g, ''));
+  return candidates.find(passesVerhoeff) || candidates[0] || null;
+}
+
+/**
+ * Find a PAN (5 letters, 4 digits, 1 letter)
+ * @param {string} text - OCR text (upper-cased)
+ * @returns {string|null}
+ */
+function findPanNumber(text) {
+  const match = text.match(/\b[A-Z]{5}\d{4}[A-Z]\b/);
+  return match ? match[0] : null;
+}
+
+/**
+ * Find the expiry date - cards often print "valid from" and "valid thru",
+ * so the latest MM/YY on the card is used
+ * @param {string} text - OCR text
+ * @returns {string|null} MM/YY
+ */
+function findExpiryDate(text) {
+  const matches = [...text.matchAll(/\b(0[1-9]|1[0-2])\s?\/\s?(\d{4}|\d{2})\b/g)];
+  if (matches.length === 0) return null;
+
+  const dates = matches.map(([, month, year]) => ({ month, year: year.slice(-2) }));
+  dates.sort((a, b) => (a.year + a.month).localeCompare(b.year + b.month));
+  const latest = dates[dates.length - 1];
+  return `${latest.month}/${latest.year}`;
+}
+
+/**
+ * Find a CVV printed next to a CVV/CVC label (back of the card)
+ * @param {string} text - OCR text (upper-cased)
+ * @returns {string|null}
+ */
+function findCvv(text) {
+  const match = text.match(/\b(?:CVV2?|CVC2?|CID|SECURITY CODE)\b\D{0,6}(\d{3,4})\b/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Find the issuing bank by looking for known bank names in the text
+ * @param {string} text - OCR text (lower-cased)
+ * @returns {string|null} Raw bank alias (normalized later)
+ */
+function findBank(text) {
+  const aliases = Object.keys(bankNormalizations)
+    .filter((alias) => !AMBIGUOUS_BANK_ALIASES.has(alias))
+    .sort((a, b) => b.length - a.length);
+
+  for (const alias of aliases) {
+    const pattern = new RegExp(`\\b${alias.replace(/\s+/g, '\\s+')}\\b`);
+    if (pattern.test(text)) {
+      return alias;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find a date of birth printed as DD/MM/YYYY (Aadhaar and PAN)
+ * @param {string} text - OCR text (upper-cased)
+ * @returns {string|null} YYYY-MM-DD
+ */
+function findDateOfBirth(text) {
+  const match = text.match(/\b(0[1-9]|[12]\d|3[01])[/-](0[1-9]|1[0-2])[/-]((?:19|20)\d{2})\b/);
+  return match ? `${match[3]}-${match[2]}-${match[1]}` : null;
+}
+
+/**
+ * Find the gender printed on an Aadhaar card
+ * @param {string} text - OCR text (upper-cased)
+ * @returns {string|null}
+ */
+function findGender(text) {
+  const match = text.match(/\b(FEMALE|MALE|TRANSGENDER)\b/);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Find the father's name - PAN cards print it on the line after the label
+ * @param {string[]} lines - OCR text lines (upper-cased)
+ * @returns {string|null}
+ */
+function findFatherName(lines) {
+  const index = lines.findIndex((line) => /FATHER'?S?\s*NAME/.test(line));
+  const candidate = index >= 0 ? lines[index + 1] : null;
+  return candidate && /^[A-Z][A-Z.' ]+$/.test(candidate) ? candidate : null;
+}
+
+/**
+ * Find the cardholder name - a line of 2-4 alphabetic words that is not
+ * a printed label, bank name or network name
+ * @param {string[]} lines - OCR text lines (upper-cased)
+ * @returns {string|null}
+ */
+function findHolderName(lines) {
+  const candidate = lines.find((line) => (
+    /^[A-Z][A-Z.']*(?:\s+[A-Z][A-Z.']*){1,3}$/.test(line) &&
+    line.length >= 5 &&
+    line.length <= 26 &&
+    !NON_NAME_WORDS.test(line) &&
+    !findBank(line.toLowerCase())
+  ));
+  return candidate || null;
+}
+
+/**
+ * Convert OCR text into extraction fields
+ * @param {string} rawText - Text recognized on one side of the card
+ * @returns {Object} Extracted fields (not yet bank-normalized)
+ */
+function parseCardText(rawText) {
+  const upper = (rawText || '').toUpperCase();
+  const lines = upper.split(/\r?\n/).map((line) => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const result = {};
+
+  const panNumber = findPanNumber(upper);
+  const cardNumber = findCardNumber(upper);
+  const aadhaarNumber = !cardNumber && findAadhaarNumber(upper);
+
+  if (panNumber && /INCOME\s*TAX|PERMANENT\s*ACCOUNT/.test(upper)) {
+    result.type = 'pan';
+    result.cardNumber = panNumber;
+    result.bank = 'Income Tax Dept.';
+  } else if (aadhaarNumber) {
+    result.type = 'aadhar';
+    result.cardNumber = aadhaarNumber;
+    result.bank = 'UIDAI';
+  } else if (cardNumber) {
+    result.type = /\bDEBIT\b/.test(upper) ? 'debit' : 'credit';
+    result.cardNumber = cardNumber;
+  } else if (panNumber) {
+    result.type = 'pan';
+    result.cardNumber = panNumber;
+    result.bank = 'Income Tax Dept.';
+  } else {
+    result.type = 'other';
+  }
+
+  if (result.type === 'credit' || result.type === 'debit' || result.type === 'other') {
+    const expiryDate = findExpiryDate(upper);
+    const cvv = findCvv(upper);
+    const bank = findBank(upper.toLowerCase());
+    if (expiryDate) result.expiryDate = expiryDate;
+    if (cvv) result.cvv = cvv;
+    if (bank) result.bank = bank;
+  }
+
+  const holderName = findHolderName(lines);
+  if (holderName) {
+    result.cardHolderName = holderName;
+  }
+
+  if (result.type === 'aadhar' || result.type === 'pan') {
+    const dateOfBirth = findDateOfBirth(upper);
+    if (dateOfBirth) result.dateOfBirth = dateOfBirth;
+  }
+  if (result.type === 'aadhar') {
+    const gender = findGender(upper);
+    if (gender) result.gender = gender;
+  }
+  if (result.type === 'pan') {
+    const fatherName = findFatherName(lines);
+    if (fatherName) result.fatherName = fatherName;
+  }
+
+  result.isValid = !!result.cardNumber;
+  return result;
+}
+
+module.exports = {
+  parseCardText,
+};
@@ -0,0 +1,149 @@
+/**
+ * Gemini extraction provider
+ * Sends the card image to Google Gemini and parses the JSON it returns.
+ */
+
+const { GoogleGenerativeAI } = require('@google/generative-ai');
+const logger = require('../utils/secureLogger');
+
+// Tried in order until one can be created
+const GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.0-flash-001', 'gemini-flash-latest'];
+
+const genAI = process.env.GEMINI_API_KEY
+  ? new GoogleGenerativeAI(process.env.GEMINI_API_KEY)
+  : null;
+
+/**
+ * Pick the first available Gemini vision model
+ */
+const getModel = () => {
+  const modelName = process.env.GEMINI_MODEL;
+  const candidates = modelName ? [modelName, ...GEMINI_MODELS] : GEMINI_MODELS;
+
+  for (const name of candidates) {
+    try {
+      const model = genAI.getGenerativeModel({ model: name });
+      logger.debug('Using model:', name);
+      return model;
+    } catch (error) {
+      logger.debug('Model unavailable:', name);
+    }
+  }
+  throw new Error('No available Gemini models. Please check your API key and available models.');
+};
+
+const buildPrompt = (side) => `Analyze this card image (the ${side} side of the card) and extract the following information. Return ONLY valid JSON, no markdown, no code blocks, just the JSON object:
+
+{
+  "type": "credit" or "debit" or "aadhar" or "pan" or "other",
+  "cardNumber": "full card number if visible (all digits, no masking, no spaces or dashes)",
+  "cardHolderName": "name on card",
+  "expiryDate": "MM/YY format",
+  "cvv": "CVV code if visible on the card",
+  "bank": "name without 'Bank' word (e.g., HDFC, SBI, ICICI, Axis, etc.)",
+  "cardName": "card name/nickname if visible",
+  "dateOfBirth": "YYYY-MM-DD (Aadhaar/PAN only)",
+  "gender": "male" or "female" or "transgender" (Aadhaar only),
+  "address": "full address (Aadhaar only, usually on the back)",
+  "fatherName": "father's name (PAN only)",
+  "isValid": true,
+  "confidence": { "<field>": number between 0 and 1 for each field you returned }
+}
+
+Rules:
+- If it's a credit/debit card, extract FULL card number (all 16 digits, no masking), name, expiry, CVV, and name (without "Bank" word, e.g., HDFC, SBI, ICICI)
+- Extract CVV if visible on the card (usually 3 digits on the back)
+- If it's Aadhar or PAN, put the Aadhaar/PAN number in "cardNumber" and the person's name in "cardHolderName", and extract date of birth, gender, address and father's name where printed
+- Extract the complete card number without any masking or formatting
+- Identify the name from the card design/logo (use standard names: HDFC, SBI, ICICI, Axis, etc.)
+- Leave out fields that are not visible on this side
+- In "confidence", rate how sure you are that each returned value was read correctly (1 = certain, below 0.5 = partly obscured or guessed)
+- Return only valid JSON object`;
+
+/**
+ * Run extraction on one side of a card
+ * @param {Buffer|ArrayBuffer} imageBuffer - Image data
+ * @param {string} mimeType - Image MIME type
+ * @param {string} side - 'front' or 'back'
+ * @returns {Promise<Object>} Extracted fields (not yet bank-normalized)
+ */
+const extract = async (imageBuffer, mimeType, side) => {
+  const model = getModel();
+
+  // Convert to base64
+  const base64Image = Buffer.from(imageBuffer).toString('base64');
+
+  let result;
+  try {
+    result = await model.generateContent([
+      {
+        inlineData: {
+          data: base64Image,
+          mimeType: mimeType
+        }
+      },
+      buildPrompt(side)
+    ]);
+  } catch (apiError) {
+    logger.error('Gemini API error:', apiError.message);
+    throw new Error(`Gemini API error: ${apiError.message}`);
+  }
+
+  let responseText;
+  try {
+    responseText = result.response.text();
+  } catch (textError) {
+    logger.error('Error getting response text:', textError.message);
+    // Try alternative method
+    const candidates = result.response.candidates;
+    if (candidates && candidates[0] && candidates[0].content) {
+      responseText = candidates[0].content.parts[0].text;
+    } else {
+      throw new Error('Unable to extract response text from Gemini API');
+    }
+  }
+
+  // Parse JSON from response
+  let extractedData;
+  try {
+    // Clean response - remove markdown code blocks if present
+    let cleanedText = responseText.trim();
+    if (cleanedText.startsWith('```')) {
+      cleanedText = cleanedText.replace(/```json\n?/g, '').replace(/```\n?/g, '');
+    }
+
+    // Extract JSON object
+    const jsonMatch = cleanedText.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      extractedData = JSON.parse(jsonMatch[0]);
+    } else {
+      extractedData = JSON.parse(cleanedText);
+    }
+  } catch (parseError) {
+    logger.error('JSON parse error:', parseError.message);
+    // DO NOT log responseText as it may contain sensitive card data
+    throw new Error(`Failed to parse extraction result: ${parseError.message}`);
+  }
+
+  if (!extractedData.confidence || typeof extractedData.confidence !== 'object') {
+    delete extractedData.confidence;
+  }
+
+  // Clean card number - remove spaces, dashes, and keep only digits
+  if (extractedData.cardNumber) {
+    extractedData.cardNumber = extractedData.cardNumber.replace(/[\s-]/g, '');
+  }
+
+  // Clean CVV - remove spaces and keep only digits
+  if (extractedData.cvv) {
+    extractedData.cvv = extractedData.cvv.replace(/\s/g, '');
+  }
+
+  return extractedData;
+};
+
+module.exports = {
+  name: 'gemini',
+  isAvailable: () => !!genAI,
+  extract,
+};
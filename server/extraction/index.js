@@ -0,0 +1,52 @@
+/**
+ * Extraction providers
+ *
+ * A provider turns one card image into ExtractionResult fields:
+ *   {
+ *     name: string,
+ *     isAvailable(): boolean,
+ *     extract(imageBuffer, mimeType, side): Promise<Object>
+ *   }
+ *
+ * The returned fields may include `confidence: { <field>: 0-1 }`, which is
+ * combined with validation checks in utils/cardValidation.
+ *
+ * EXTRACTION_PROVIDER selects the provider: 'gemini', 'tesseract' or
+ * 'auto' (default - Gemini when GEMINI_API_KEY is set, otherwise Tesseract).
+ */
+
+const logger = require('../utils/secureLogger');
+const geminiProvider = require('./geminiProvider');
+const tesseractProvider = require('./tesseractProvider');
+
+const providers = {
+  [geminiProvider.name]: geminiProvider,
+  [tesseractProvider.name]: tesseractProvider,
+};
+
+// Order used by 'auto'
+const AUTO_ORDER = [geminiProvider.name, tesseractProvider.name];
+
+/**
+ * Get the configured extraction provider
+ * @returns {Object|null} Provider, or null if none is available
+ */
+function getExtractionProvider() {
+  const configured = (process.env.EXTRACTION_PROVIDER || 'auto').toLowerCase();
+
+  if (configured !== 'auto') {
+    const provider = providers[configured];
+    if (!provider) {
+      logger.error('Unknown EXTRACTION_PROVIDER:', configured);
+      return null;
+    }
+    return provider.isAvailable() ? provider : null;
+  }
+
+  const name = AUTO_ORDER.find((candidate) => providers[candidate].isAvailable());
+  return name ? providers[name] : null;
+}
+
+module.exports = {
+  getExtractionProvider,
+};
@@ -0,0 +1,125 @@
+/**
+ * Tesseract extraction provider
+ * Runs OCR locally with tesseract.js and applies card regex heuristics,
+ * so extraction works without an API key or network access.
+ *
+ * English language data comes from the @tesseract.js-data/eng package, or
+ * from TESSERACT_LANG_PATH (a directory containing eng.traineddata or
+ * eng.traineddata.gz) when set. It is never downloaded: without local data
+ * the provider reports itself unavailable.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const logger = require('../utils/secureLogger');
+const { parseCardText } = require('./cardHeuristics');
+const { SCORED_FIELDS } = require('../utils/cardValidation');
+
+let workerPromise = null;
+
+/**
+ * tesseract.js is optional - only required when this provider is used
+ */
+const loadTesseract = () => {
+  try {
+    return require('tesseract.js');
+  } catch (error) {
+    return null;
+  }
+};
+
+// Integer LSTM models, the data tesseract.js would otherwise fetch for OEM 1
+const PACKAGED_LANG_DIR = '4.0.0_best_int';
+
+/**
+ * Find local English language data
+ * @returns {{langPath: string, gzip: boolean}|null} Worker options, or null if there is none
+ */
+const resolveLangData = () => {
+  let langPath = process.env.TESSERACT_LANG_PATH;
+  if (!langPath) {
+    try {
+      langPath = path.join(path.dirname(require.resolve('@tesseract.js-data/eng/package.json')), PACKAGED_LANG_DIR);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  if (fs.existsSync(path.join(langPath, 'eng.traineddata'))) {
+    return { langPath, gzip: false };
+  }
+  if (fs.existsSync(path.join(langPath, 'eng.traineddata.gz'))) {
+    return { langPath, gzip: true };
+  }
+  return null;
+};
+
+/**
+ * Lazily create one shared OCR worker
+ */
+const getWorker = () => {
+  if (!workerPromise) {
+    const { createWorker } = loadTesseract();
+    // Read straight from the local data; don't copy it into the working directory
+    const options = { ...resolveLangData(), cacheMethod: 'none' };
+
+    workerPromise = createWorker('eng', 1, options).catch((error) => {
+      // Allow a retry on the next request
+      workerPromise = null;
+      throw error;
+    });
+    logger.info('Tesseract OCR worker starting');
+  }
+  return workerPromise;
+};
+
+/**
+ * Estimate per-field confidence from the OCR confidence of the words
+ * that make up each extracted value
+ * @param {Object} fields - Parsed fields
+ * @param {Object} data - tesseract.js recognize() result data
+ * @returns {Object} Confidence per field (0-1)
+ */
+const getFieldConfidence = (fields, data) => {
+  const normalize = (text) => String(text).toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const words = (data.words || []).map((word) => ({ text: normalize(word.text), confidence: word.confidence }));
+  const confidence = {};
+
+  SCORED_FIELDS.forEach((field) => {
+    if (!fields[field]) return;
+
+    const value = normalize(fields[field]);
+    const matching = words.filter((word) => word.text.length >= 2 && value.includes(word.text));
+    const score = matching.length > 0
+      ? matching.reduce((sum, word) => sum + word.confidence, 0) / matching.length
+      : data.confidence;
+    confidence[field] = score / 100;
+  });
+
+  return confidence;
+};
+
+/**
+ * Run extraction on one side of a card
+ * @param {Buffer|ArrayBuffer} imageBuffer - Image data
+ * @param {string} mimeType - Image MIME type (unused, Tesseract sniffs the format)
+ * @param {string} side - 'front' or 'back'
+ * @returns {Promise<Object>} Extracted fields (not yet bank-normalized)
+ */
+const extract = async (imageBuffer, mimeType, side) => {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(Buffer.from(imageBuffer));
+
+  // DO NOT log the recognized text as it contains card data
+  logger.debug(`Tesseract OCR finished for ${side} side, confidence:`, data.confidence);
+
+  const fields = parseCardText(data.text);
+  fields.confidence = getFieldConfidence(fields, data);
+  return fields;
+};
+
+module.exports = {
+  name: 'tesseract',
+  isAvailable: () => !!loadTesseract() && !!resolveLangData(),
+  extract,
+};
@@ -1,13 +1,14 @@
 const express = require('express');
 const cors = require('cors');
 const dotenv = require('dotenv');
-const admin = require('firebase-admin');
 const path = require('path');
 const helmet = require('helmet');
 const cookieParser = require('cookie-parser');
 const logger = require('./utils/secureLogger');
 const { generalLimiter, authLimiter, extractionLimiter, cardOperationsLimiter } = require('./utils/rateLimiter');
 const { csrfProtection, getCsrfToken } = require('./utils/csrfProtection');
+const { initializeStorage } = require('./storage');
+const { initializeKms } = require('./kms');
 
 dotenv.config();
 
@@ -55,7 +56,7 @@ const corsOptions = {
   credentials: true,
   optionsSuccessStatus: 200,
   methods: ['GET', 'POST', 'PUT', 'DELETE'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-CSRF-Token']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-CSRF-Token', 'X-Share-Access']
 };
 
 // Middleware
@@ -144,34 +145,20 @@ app.use('/api/', csrfProtection);
 
 logger.info('🛡️  CSRF protection enabled for all API routes');
 
-// Initialize Firebase Admin
+// Initialize the storage backend (Firebase, or in-memory for offline development)
 try {
-  // Use environment variables instead of JSON file for security
-  const serviceAccount = {
-    type: process.env.FIREBASE_TYPE,
-    project_id: process.env.FIREBASE_PROJECT_ID,
-    private_key_id: process.env.FIREBASE_PRIVATE_KEY_ID,
-    private_key: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'), // Handle escaped newlines
-    client_email: process.env.FIREBASE_CLIENT_EMAIL,
-    client_id: process.env.FIREBASE_CLIENT_ID,
-    auth_uri: process.env.FIREBASE_AUTH_URI,
-    token_uri: process.env.FIREBASE_TOKEN_URI,
-    auth_provider_x509_cert_url: process.env.FIREBASE_AUTH_PROVIDER_CERT_URL,
-    client_x509_cert_url: process.env.FIREBASE_CLIENT_CERT_URL,
-    universe_domain: 'googleapis.com'
-  };
-
-  admin.initializeApp({
-    credential: admin.credential.cert(serviceAccount),
-    storageBucket: process.env.FIREBASE_STORAGE_BUCKET
-  });
-  
-  logger.system('✅ Firebase Admin initialized successfully');
-  logger.info('Storage bucket configured');
+  initializeStorage();
 } catch (error) {
-  logger.error('Firebase Admin initialization error:', error.message);
-  logger.error('Please ensure all FIREBASE_* environment variables are set in .env file');
-  process.exit(1); // Exit if Firebase fails to initialize
+  logger.error('Storage backend initialization error:', error.message);
+  process.exit(1); // Exit if the storage backend fails to initialize
+}
+
+// A KMS_PROVIDER that can't be used would otherwise leave data without per-user keys
+try {
+  initializeKms();
+} catch (error) {
+  logger.error('KMS initialization error:', error.message);
+  process.exit(1);
 }
 
 // Routes with specific rate limiters
@@ -181,12 +168,24 @@ app.use('/api/auth', authLimiter, require('./routes/auth'));
 // Card routes have moderate rate limiting to prevent spam
 app.use('/api/cards', cardOperationsLimiter, require('./routes/cards'));
 
+// Card image uploads, stored through the configured storage backend
+app.use('/api/images', cardOperationsLimiter, require('./routes/images'));
+
 // Extract routes have strict rate limiting due to expensive AI API calls
 app.use('/api/extract', extractionLimiter, require('./routes/extract'));
 
 // Share folder routes (authenticated + public endpoints)
 app.use('/api/sharefolders', cardOperationsLimiter, require('./routes/sharefolders'));
 
+// Zero-knowledge vault settings (KDF salt + verifier only)
+app.use('/api/vault', cardOperationsLimiter, require('./routes/vault'));
+
+// Card expiry reminders (recorded by the expiry reminder job)
+app.use('/api/reminders', cardOperationsLimiter, require('./routes/reminders'));
+
+// Hash-chained account activity log
+app.use('/api/activity', cardOperationsLimiter, require('./routes/activity'));
+
 // Serve static files from client-build (for production deployment)
 if (process.env.NODE_ENV === 'production') {
   const clientBuildPath = path.join(__dirname, 'client-build');
@@ -202,9 +201,16 @@ if (process.env.NODE_ENV === 'production') {
   logger.system('📦 Serving static frontend from client-build/');
 }
 
-app.listen(PORT, () => {
-  logger.system(`🚀 Server running on port ${PORT}`);
-  logger.system(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
-  logger.system(`🔐 CORS allowed origin: ${process.env.CLIENT_URL || 'http://localhost:3000'}`);
-});
+// Integration tests require this file for the app instead of starting a server
+if (require.main === module) {
+  app.listen(PORT, () => {
+    logger.system(`🚀 Server running on port ${PORT}`);
+    logger.system(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
+    logger.system(`🔐 CORS allowed origin: ${process.env.CLIENT_URL || 'http://localhost:3000'}`);
+  });
+
+  // Background job: record reminders for cards nearing expiry
+  require('./jobs/expiryReminders').startExpiryReminderJob();
+}
 
+module.exports = app;
@@ -0,0 +1,137 @@
+const { getDb, FieldValue } = require('../storage');
+const logger = require('../utils/secureLogger');
+const { EXPIRING_SOON_DAYS } = require('../utils/cardExpiry');
+
+// How often the job runs (default every 12 hours)
+const INTERVAL_HOURS = parseInt(process.env.EXPIRY_REMINDER_INTERVAL_HOURS, 10) || 12;
+
+// Cards that expired longer ago than this are not reminded about again
+const EXPIRED_LOOKBACK_DAYS = 30;
+
+// Client-side vault ciphertext prefix (see client/src/utils/vaultCrypto.ts)
+const VAULT_CIPHERTEXT_PREFIX = 'zk1:';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Firestore allows up to 30 values in an 'in' filter
+const CARD_QUERY_CHUNK = 30;
+
+/**
+ * Reminder document ID - one reminder per card, kind and expiry month,
+ * so re-running the job never creates duplicates
+ */
+const getReminderId = (cardId, kind, expiresAt) => {
+  return `${cardId}_${kind}_${expiresAt.slice(0, 7)}`;
+};
+
+/**
+ * Copy a display field into the reminder unless it is vault ciphertext
+ */
+const plainField = (value) => {
+  if (typeof value !== 'string' || value.startsWith(VAULT_CIPHERTEXT_PREFIX)) {
+    return null;
+  }
+  return value;
+};
+
+/**
+ * Record reminders for cards that expire within EXPIRING_SOON_DAYS or have
+ * recently expired. Reminders are stored in the `reminders` collection and
+ * surfaced in-app by GET /api/reminders.
+ * @returns {Promise<number>} Number of reminders created
+ */
+const runExpiryReminders = async () => {
+  const db = getDb();
+  const now = Date.now();
+  const from = new Date(now - EXPIRED_LOOKBACK_DAYS * DAY_MS).toISOString();
+  const until = new Date(now + EXPIRING_SOON_DAYS * DAY_MS).toISOString();
+
+  const snapshot = await db.collection('cards')
+    .where('expiresAt', '>=', from)
+    .where('expiresAt', '<=', until)
+    .get();
+
+  if (snapshot.empty) {
+    return 0;
+  }
+
+  const candidates = snapshot.docs.map((doc) => {
+    const card = doc.data();
+    const kind = Date.parse(card.expiresAt) < now ? 'expired' : 'expiring';
+    return {
+      ref: db.collection('reminders').doc(getReminderId(doc.id, kind, card.expiresAt)),
+      data: {
+        userId: card.userId,
+        cardId: doc.id,
+        cardName: plainField(card.cardName),
+        bank: plainField(card.bank),
+        kind,
+        expiresAt: card.expiresAt,
+        dismissed: false,
+        createdAt: FieldValue.serverTimestamp(),
+      },
+    };
+  });
+
+  const existing = await db.getAll(...candidates.map((candidate) => candidate.ref));
+  const missing = candidates.filter((_, index) => !existing[index].exists);
+
+  // Firestore batches are limited to 500 writes
+  for (let i = 0; i < missing.length; i += 500) {
+    const batch = db.batch();
+    missing.slice(i, i + 500).forEach(({ ref, data }) => batch.set(ref, data));
+    await batch.commit();
+  }
+
+  return missing.length;
+};
+
+/**
+ * Delete the reminders of cards that are being deleted
+ * @param {string[]} cardIds - IDs of the deleted cards
+ * @returns {Promise<number>} Number of reminders deleted
+ */
+const deleteCardReminders = async (cardIds) => {
+  const db = getDb();
+  let deleted = 0;
+
+  for (let i = 0; i < cardIds.length; i += CARD_QUERY_CHUNK) {
+    const snapshot = await db.collection('reminders')
+      .where('cardId', 'in', cardIds.slice(i, i + CARD_QUERY_CHUNK))
+      .get();
+    if (snapshot.empty) continue;
+
+    const batch = db.batch();
+    snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+    deleted += snapshot.size;
+  }
+
+  return deleted;
+};
+
+/**
+ * Start the periodic expiry reminder job
+ * Runs once shortly after startup and then every INTERVAL_HOURS
+ */
+const startExpiryReminderJob = () => {
+  const run = async () => {
+    try {
+      const created = await runExpiryReminders();
+      logger.info(`Expiry reminder job finished, ${created} reminder(s) created`);
+    } catch (error) {
+      logger.error('Expiry reminder job failed:', error.message);
+    }
+  };
+
+  setTimeout(run, 60 * 1000).unref();
+  setInterval(run, INTERVAL_HOURS * 60 * 60 * 1000).unref();
+
+  logger.system(`⏰ Expiry reminder job scheduled every ${INTERVAL_HOURS}h`);
+};
+
+module.exports = {
+  runExpiryReminders,
+  deleteCardReminders,
+  startExpiryReminderJob,
+};
@@ -0,0 +1,63 @@
+/**
+ * Key management (KMS) providers
+ *
+ * Per-user data encryption keys (DEKs, see utils/dataKeys) are stored only in
+ * wrapped form. A provider wraps and unwraps them with a key-encryption key
+ * (KEK) that never leaves it:
+ *   {
+ *     name: string,
+ *     isAvailable(): boolean,
+ *     wrapKey(plaintextKey: Buffer): Promise<{ kekId: string, wrappedKey: string }>,
+ *     unwrapKey({ kekId, wrappedKey }): Promise<Buffer>
+ *   }
+ *
+ * KMS_PROVIDER selects the provider for new keys: 'local' (a KEK file on this
+ * server, for development and offline use). Leave it unset to keep encrypting
+ * with the process-wide keyring only. A value naming an unknown or unavailable
+ * provider stops the server at startup. Cloud KMS adapters plug in here.
+ */
+
+const logger = require('../utils/secureLogger');
+const localFileKms = require('./localFileKms');
+
+const providers = {
+  [localFileKms.name]: localFileKms,
+};
+
+/**
+ * Get a KMS provider
+ * A provider that is named but unknown or unavailable is an error rather than
+ * null, so a typo in KMS_PROVIDER never quietly turns per-user keys off.
+ * @param {string} [name] - Provider name; defaults to KMS_PROVIDER
+ * @returns {Object|null} Provider, or null if none is configured
+ */
+function getKmsProvider(name = process.env.KMS_PROVIDER) {
+  if (!name) {
+    return null;
+  }
+
+  const provider = providers[name.toLowerCase()];
+  if (!provider) {
+    throw new Error(`Unknown KMS provider "${name}". Use one of: ${Object.keys(providers).join(', ')}`);
+  }
+  if (!provider.isAvailable()) {
+    throw new Error(`KMS provider "${name}" is not available on this server`);
+  }
+  return provider;
+}
+
+/**
+ * Check the KMS_PROVIDER setting at startup
+ * @throws {Error} If KMS_PROVIDER is set but can't be used
+ */
+function initializeKms() {
+  const provider = getKmsProvider();
+  if (provider) {
+    logger.system(`🗝️  Per-user data keys wrapped by the "${provider.name}" KMS`);
+  }
+}
+
+module.exports = {
+  getKmsProvider,
+  initializeKms,
+};
@@ -0,0 +1,125 @@
+/**
+ * Local file KMS provider
+ * A stand-in for a cloud KMS that runs offline: the key-encryption key (KEK)
+ * lives in a JSON file on this server, or in KMS_LOCAL_KEK, and wraps data
+ * keys with AES-256-GCM. Anyone who can read the KEK can unwrap every data
+ * key, so keep the file out of backups of the database and out of git.
+ *
+ *   KMS_LOCAL_KEK      - base64 32-byte KEK (takes precedence over the file)
+ *   KMS_LOCAL_KEY_FILE - KEK file path, created on first use (default .kms/local-kek.json)
+ *
+ * File format: { "activeKeyId": "kek-...", "keys": { "kek-...": "<base64>" } }
+ * Older KEKs stay in the file so keys wrapped with them can still be unwrapped.
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const logger = require('../utils/secureLogger');
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const KEK_LENGTH = 32;
+const ENV_KEK_ID = 'env';
+const DEFAULT_KEY_FILE = path.join('.kms', 'local-kek.json');
+// Binds wrapped keys to their purpose, so a wrapped key can't be passed off as other data
+const WRAP_AAD = Buffer.from('secure-ai-vault:dek');
+
+let cachedKeyring = null;
+
+const getKeyFilePath = () => path.resolve(process.env.KMS_LOCAL_KEY_FILE || DEFAULT_KEY_FILE);
+
+/**
+ * Create a KEK file with one new key (owner read/write only)
+ */
+function createKeyFile(filePath) {
+  const kekId = `kek-${crypto.randomBytes(4).toString('hex')}`;
+  const contents = { activeKeyId: kekId, keys: { [kekId]: crypto.randomBytes(KEK_LENGTH).toString('base64') } };
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  // 'wx' fails if another process created the file first
+  fs.writeFileSync(filePath, JSON.stringify(contents, null, 2), { mode: 0o600, flag: 'wx' });
+  logger.system(`🔑 Created local KMS key file at ${filePath} - back it up separately from the database`);
+}
+
+/**
+ * Load the KEKs, creating the key file on first use
+ * @returns {{activeKeyId: string, keys: Map<string, Buffer>}}
+ */
+function loadKeyring() {
+  if (cachedKeyring) {
+    return cachedKeyring;
+  }
+
+  if (process.env.KMS_LOCAL_KEK) {
+    const kek = Buffer.from(process.env.KMS_LOCAL_KEK, 'base64');
+    if (kek.length !== KEK_LENGTH) {
+      throw new Error('KMS_LOCAL_KEK must be 32 bytes (256 bits), base64 encoded');
+    }
+    cachedKeyring = { activeKeyId: ENV_KEK_ID, keys: new Map([[ENV_KEK_ID, kek]]) };
+    return cachedKeyring;
+  }
+
+  const filePath = getKeyFilePath();
+  if (!fs.existsSync(filePath)) {
+    try {
+      createKeyFile(filePath);
+    } catch (error) {
+      if (error.code !== 'EEXIST') throw error;
+    }
+  }
+
+  const contents = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const keys = new Map(Object.entries(contents.keys || {}).map(([kekId, value]) => [kekId, Buffer.from(value, 'base64')]));
+  if (!keys.has(contents.activeKeyId) || keys.get(contents.activeKeyId).length !== KEK_LENGTH) {
+    throw new Error(`Local KMS key file ${filePath} has no valid active key`);
+  }
+
+  cachedKeyring = { activeKeyId: contents.activeKeyId, keys };
+  return cachedKeyring;
+}
+
+/**
+ * Wrap a data key with the active KEK
+ * @param {Buffer} plaintextKey - Data key to wrap
+ * @returns {Promise<{kekId: string, wrappedKey: string}>} wrappedKey is base64 [IV][Auth Tag][Encrypted Key]
+ */
+async function wrapKey(plaintextKey) {
+  const { activeKeyId, keys } = loadKeyring();
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, keys.get(activeKeyId), iv);
+  cipher.setAAD(WRAP_AAD);
+
+  const encrypted = Buffer.concat([cipher.update(plaintextKey), cipher.final()]);
+  return {
+    kekId: activeKeyId,
+    wrappedKey: Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64')
+  };
+}
+
+/**
+ * Unwrap a data key
+ * @param {{kekId: string, wrappedKey: string}} wrapped - Output of wrapKey
+ * @returns {Promise<Buffer>} Plaintext data key
+ */
+async function unwrapKey({ kekId, wrappedKey }) {
+  const kek = loadKeyring().keys.get(kekId);
+  if (!kek) {
+    throw new Error(`Key-encryption key "${kekId}" is not available to the local KMS`);
+  }
+
+  const buffer = Buffer.from(wrappedKey, 'base64');
+  const decipher = crypto.createDecipheriv(ALGORITHM, kek, buffer.subarray(0, IV_LENGTH));
+  decipher.setAAD(WRAP_AAD);
+  decipher.setAuthTag(buffer.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH));
+
+  return Buffer.concat([decipher.update(buffer.subarray(IV_LENGTH + AUTH_TAG_LENGTH)), decipher.final()]);
+}
+
+module.exports = {
+  name: 'local',
+  isAvailable: () => true,
+  wrapKey,
+  unwrapKey,
+};
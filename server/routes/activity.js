@@ -0,0 +1,174 @@
+const express = require('express');
+const { getDb, verifyIdToken } = require('../storage');
+const { body, query, validationResult } = require('express-validator');
+const logger = require('../utils/secureLogger');
+const {
+  AUDIT_LOG_COLLECTION,
+  ENTRIES_COLLECTION,
+  CLIENT_AUDIT_ACTIONS,
+  recordAudit,
+  verifyAuditChain
+} = require('../utils/auditLog');
+const router = express.Router();
+
+const db = getDb();
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+const SCAN_BATCH_SIZE = 200;
+// Filters are applied while scanning newest-first, so one request reads at most this many entries
+const MAX_SCAN_PER_REQUEST = 2000;
+const COPYABLE_FIELDS = ['cardNumber', 'cardHolderName', 'expiryDate', 'cvv'];
+
+// Middleware to verify authentication
+const verifyAuth = async (req, res, next) => {
+  try {
+    const token = req.headers.authorization?.split('Bearer ')[1];
+    if (!token) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+    const decodedToken = await verifyIdToken(token);
+    req.user = decodedToken;
+    next();
+  } catch (error) {
+    res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+const toActivityEntry = (entry) => ({
+  seq: entry.seq,
+  action: entry.action,
+  cardId: entry.cardId || null,
+  folderId: entry.folderId || null,
+  details: entry.details || {},
+  ipHash: entry.ipHash || null,
+  userAgent: entry.userAgent || 'Unknown',
+  createdAt: entry.createdAt,
+  hash: entry.hash
+});
+
+/**
+ * GET /api/activity
+ * Get the authenticated user's activity log, newest first
+ * Query: action, cardId, from, to (ISO dates), cursor (seq to continue below), limit
+ * Returns: { entries, nextCursor } - nextCursor is null when the log is exhausted
+ */
+router.get('/', [
+  verifyAuth,
+  query('action').optional().isString().isLength({ max: 50 }),
+  query('cardId').optional().isString().isLength({ max: 128 }),
+  query('from').optional().isISO8601().withMessage('from must be an ISO date'),
+  query('to').optional().isISO8601().withMessage('to must be an ISO date'),
+  query('cursor').optional().isInt({ min: 1 }).toInt(),
+  query('limit').optional().isInt({ min: 1, max: MAX_PAGE_SIZE }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { action, cardId, cursor } = req.query;
+    const limit = req.query.limit || DEFAULT_PAGE_SIZE;
+    const from = req.query.from ? new Date(req.query.from).toISOString() : null;
+    const to = req.query.to ? new Date(req.query.to).toISOString() : null;
+
+    const matches = (entry) =>
+      (!action || entry.action === action || entry.action.startsWith(`${action}.`)) &&
+      (!cardId || entry.cardId === cardId) &&
+      (!to || entry.createdAt <= to);
+
+    // Sequence numbers and timestamps grow together, so scanning by seq alone
+    // avoids composite indexes for every filter combination
+    const entriesRef = db.collection(AUDIT_LOG_COLLECTION).doc(req.user.uid).collection(ENTRIES_COLLECTION);
+    const entries = [];
+    let scanned = 0;
+    let lastSeq = cursor || null;
+    let done = false; // Reached the first entry or the start of the date range
+
+    while (!done && entries.length < limit && scanned < MAX_SCAN_PER_REQUEST) {
+      let batchQuery = entriesRef.orderBy('seq', 'desc').limit(SCAN_BATCH_SIZE);
+      if (lastSeq) {
+        batchQuery = batchQuery.where('seq', '<', lastSeq);
+      }
+      const snapshot = await batchQuery.get();
+
+      for (const doc of snapshot.docs) {
+        const entry = doc.data();
+        if (from && entry.createdAt < from) {
+          done = true;
+          break;
+        }
+
+        scanned += 1;
+        lastSeq = entry.seq;
+        if (matches(entry)) {
+          entries.push(toActivityEntry(entry));
+          if (entries.length === limit) break;
+        }
+      }
+
+      if (snapshot.size < SCAN_BATCH_SIZE && entries.length < limit) {
+        done = true;
+      }
+    }
+
+    res.json({
+      entries,
+      nextCursor: done || lastSeq === 1 ? null : lastSeq
+    });
+  } catch (error) {
+    logger.error('Error fetching activity log:', error.message);
+    res.status(500).json({ error: 'Failed to fetch activity log' });
+  }
+});
+
+/**
+ * GET /api/activity/verify
+ * Recompute the authenticated user's hash chain and report the first broken entry
+ */
+router.get('/verify', verifyAuth, async (req, res) => {
+  try {
+    const result = await verifyAuditChain(req.user.uid);
+    if (!result.valid) {
+      logger.warn(`Activity log for user ${req.user.uid} failed verification at entry ${result.brokenAt}`);
+    }
+    res.json(result);
+  } catch (error) {
+    logger.error('Error verifying activity log:', error.message);
+    res.status(500).json({ error: 'Failed to verify activity log' });
+  }
+});
+
+/**
+ * POST /api/activity
+ * Record an action that happens in the browser, such as revealing a CVV
+ * Body: { action, cardId, field? }
+ */
+router.post('/', [
+  verifyAuth,
+  body('action').isIn(CLIENT_AUDIT_ACTIONS).withMessage(`action must be one of: ${CLIENT_AUDIT_ACTIONS.join(', ')}`),
+  body('cardId').isString().notEmpty().withMessage('Card ID is required'),
+  body('field').optional().isIn(COPYABLE_FIELDS).withMessage(`field must be one of: ${COPYABLE_FIELDS.join(', ')}`)
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { action, cardId, field } = req.body;
+
+    const cardDoc = await db.collection('cards').doc(cardId).get();
+    if (!cardDoc.exists || cardDoc.data().userId !== req.user.uid) {
+      return res.status(404).json({ error: 'Card not found' });
+    }
+
+    await recordAudit(req, action, { cardId, details: field ? { field } : {} });
+    res.status(201).json({ success: true });
+  } catch (error) {
+    logger.error('Error recording activity:', error.message);
+    res.status(500).json({ error: 'Failed to record activity' });
+  }
+});
+
+module.exports = router;
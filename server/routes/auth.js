@@ -1,5 +1,5 @@
 const express = require('express');
-const admin = require('firebase-admin');
+const { verifyIdToken } = require('../storage');
 const logger = require('../utils/secureLogger');
 const router = express.Router();
 
@@ -12,7 +12,7 @@ router.post('/verify', async (req, res) => {
       return res.status(400).json({ error: 'Token is required' });
     }
 
-    const decodedToken = await admin.auth().verifyIdToken(token);
+    const decodedToken = await verifyIdToken(token);
     res.json({ 
       uid: decodedToken.uid,
       email: decodedToken.email,
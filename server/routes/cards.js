@@ -1,17 +1,51 @@
 const express = require('express');
-const admin = require('firebase-admin');
-const { body, validationResult } = require('express-validator');
-const { normalizeBankName } = require('../utils/bankNormalizer');
+const { getDb, getBucket, verifyIdToken, FieldValue, FieldPath, Timestamp } = require('../storage');
+const { body, query, validationResult } = require('express-validator');
+const { DOCUMENT_ISSUERS, normalizeBankName } = require('../utils/bankNormalizer');
+const { applyExpiresAt } = require('../utils/cardExpiry');
+const { MAX_TAGS, TAG_RULES_MESSAGE, normalizeTag, normalizeTags } = require('../utils/cardTags');
+const { validateDocumentFields } = require('../utils/cardValidation');
+const { CARD_IMAGE_SIDES, getCardImages, sanitizeCardImages, toImageFields, applyRequestImages, getStoragePath, isStoragePath, isStorageImage, isOwnStoragePath, downloadStoredImage } = require('../utils/cardImages');
 const logger = require('../utils/secureLogger');
 const { encryptCardData, decryptCardData } = require('../utils/encryption');
-const { getDecryptedImageBuffer, isEncryptionEnabled } = require('../utils/imageEncryption');
+const { BLIND_INDEX_FIELDS, normalizeCardNumber, last4Index, fingerprintIndex, computeBlindIndexes, stripBlindIndexes } = require('../utils/blindIndex');
+const { encryptStoredImage, getDecryptedImageBuffer, isEncryptionEnabled } = require('../utils/imageEncryption');
+const { recordAudit, recordAuditEvents } = require('../utils/auditLog');
+const { deleteCardReminders } = require('../jobs/expiryReminders');
 const router = express.Router();
 
-const db = admin.firestore();
+const db = getDb();
 
 // Check if encryption is enabled
 const ENCRYPTION_ENABLED = isEncryptionEnabled();
 
+const CARD_TYPES = ['credit', 'debit', 'aadhar', 'pan', 'other'];
+
+// Batch endpoint limits (Firestore allows up to 500 writes per batch)
+const BATCH_ACTIONS = ['create', 'update', 'delete'];
+const MAX_BATCH_SIZE = 100;
+
+// Card list pagination
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+const SCAN_BATCH_SIZE = 200;
+// Bounds the reads one request can cost when filters match few cards
+const MAX_SCAN_PER_REQUEST = 2000;
+const SORT_FIELDS = ['createdAt', 'updatedAt'];
+const SORT_ORDERS = ['asc', 'desc'];
+// Only fields stored in plaintext can be searched on the server
+const SEARCHABLE_FIELDS = ['cardName', 'cardHolderName', 'bank', 'type'];
+
+// Shown about the existing card when a duplicate is rejected (all stored in plaintext)
+const DUPLICATE_SUMMARY_FIELDS = ['type', 'cardName', 'cardHolderName', 'bank'];
+// Firestore allows up to 30 values in an 'in' filter
+const FINGERPRINT_QUERY_CHUNK = 30;
+// Never copied from the incoming card when merging (managed by the server or merged separately)
+const MERGE_SKIPPED_FIELDS = [
+  'id', 'userId', 'type', 'createdAt', 'updatedAt', 'images', 'imageUrl', 'imageEncrypted',
+  'cvvStoredAt', 'cvvWarningShown', 'expiresAt', 'tags', ...BLIND_INDEX_FIELDS
+];
+
 // Middleware to verify authentication
 const verifyAuth = async (req, res, next) => {
   try {
@@ -19,7 +53,7 @@ const verifyAuth = async (req, res, next) => {
     if (!token) {
       return res.status(401).json({ error: 'No token provided' });
     }
-    const decodedToken = await admin.auth().verifyIdToken(token);
+    const decodedToken = await verifyIdToken(token);
     req.user = decodedToken;
     next();
   } catch (error) {
@@ -27,72 +61,322 @@ const verifyAuth = async (req, res, next) => {
   }
 };
 
-// Get all cards for user
-router.get('/', verifyAuth, async (req, res) => {
+/**
+ * Encode the position after a card as an opaque page cursor
+ * The sort value keeps full timestamp precision, so no card is skipped or repeated.
+ * @param {{sortValue: Object, id: string}} position - Sort field value (Timestamp) and card ID
+ * @returns {string}
+ */
+const encodeCursor = ({ sortValue, id }) =>
+  Buffer.from(JSON.stringify({ s: sortValue.seconds, n: sortValue.nanoseconds, id })).toString('base64url');
+
+/**
+ * Decode a page cursor
+ * @param {string} cursor
+ * @returns {{sortValue: Object, id: string}|null} null if the cursor is malformed
+ */
+const decodeCursor = (cursor) => {
+  try {
+    const { s, n, id } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(s) && Number.isInteger(n) && typeof id === 'string' && id) {
+      return { sortValue: new Timestamp(s, n), id };
+    }
+  } catch (error) {
+    // Malformed cursor
+  }
+  return null;
+};
+
+/**
+ * Get the blind-index fingerprint of a card number sent by a client
+ * @param {string} cardNumber - Plaintext card or document number
+ * @param {string} uid - Card owner
+ * @returns {string|null} null if the number can't be fingerprinted (blind indexes off, too short, vault ciphertext)
+ */
+const getCardFingerprint = (cardNumber, uid) =>
+  computeBlindIndexes(cardNumber, uid)?.cardNumberFingerprint || null;
+
+/**
+ * Find the owner's cards that already have one of these fingerprints
+ * @param {string} uid - Card owner
+ * @param {string[]} fingerprints
+ * @returns {Promise<Map<string, Object>>} fingerprint -> existing card document
+ */
+const findCardsByFingerprint = async (uid, fingerprints) => {
+  const found = new Map();
+  const unique = Array.from(new Set(fingerprints));
+
+  for (let i = 0; i < unique.length; i += FINGERPRINT_QUERY_CHUNK) {
+    const snapshot = await db.collection('cards')
+      .where('userId', '==', uid)
+      .where('cardNumberFingerprint', 'in', unique.slice(i, i + FINGERPRINT_QUERY_CHUNK))
+      .get();
+    snapshot.docs.forEach(doc => {
+      if (!found.has(doc.get('cardNumberFingerprint'))) {
+        found.set(doc.get('cardNumberFingerprint'), doc);
+      }
+    });
+  }
+
+  return found;
+};
+
+/**
+ * Non-sensitive details of an existing card, returned with a duplicate conflict
+ * @param {Object} doc - Card document snapshot
+ * @returns {Object}
+ */
+const toDuplicateSummary = (doc) => {
+  const data = doc.data();
+  const summary = { id: doc.id };
+  DUPLICATE_SUMMARY_FIELDS.forEach(field => {
+    if (data[field] !== undefined) summary[field] = data[field];
+  });
+  return summary;
+};
+
+const isEmptyValue = (value) =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+/**
+ * Get the size of a stored image, used to keep the better of two images when merging
+ * @param {Object} bucket - Storage bucket
+ * @param {string} imageUrl - Download URL or storage path
+ * @returns {Promise<number>} Size in bytes (0 if the image can't be read)
+ */
+const getStoredImageSize = async (bucket, imageUrl) => {
+  try {
+    const [metadata] = await bucket.file(getStoragePath(imageUrl)).getMetadata();
+    return Number(metadata.size) || 0;
+  } catch (error) {
+    logger.warn('Could not read image size:', error.message);
+    return 0;
+  }
+};
+
+/**
+ * Choose one image per side from an existing card's images and incoming ones
+ * When both have a side, the larger file wins (a sharper photo, as both went
+ * through the same upload compression).
+ * @returns {Promise<{images: Array, discarded: Array}>} Images to keep and the ones replaced or not used
+ */
+const mergeCardImages = async (existingImages, incomingImages) => {
+  const bucket = getBucket();
+  const images = [];
+  const discarded = [];
+
+  for (const side of CARD_IMAGE_SIDES) {
+    const current = existingImages.find(image => image.side === side);
+    const incoming = incomingImages.find(image => image.side === side);
+
+    if (current && incoming) {
+      const [currentSize, incomingSize] = await Promise.all([
+        getStoredImageSize(bucket, current.url),
+        getStoredImageSize(bucket, incoming.url)
+      ]);
+      const keepIncoming = incomingSize > currentSize;
+      images.push(keepIncoming ? incoming : current);
+      discarded.push(keepIncoming ? current : incoming);
+    } else if (current || incoming) {
+      images.push(current || incoming);
+    }
+  }
+
+  return { images, discarded };
+};
+
+/**
+ * Delete a card's image (and its encrypted copy) from storage
+ * Only files in the card owner's upload folder are deleted.
+ * Errors are logged, never thrown, so card deletion can continue
+ * @param {string} imageUrl - Download URL or storage path of the image
+ * @param {string} ownerId - Card owner's uid
+ */
+const deleteCardImage = async (imageUrl, ownerId) => {
   try {
-    const { bank, type } = req.query;
-    let query = db.collection('cards').where('userId', '==', req.user.uid);
+    const bucketName = process.env.FIREBASE_STORAGE_BUCKET;
+    const bucket = getBucket(bucketName);
     
-    // Handle bank filter
-    if (bank) {
-      if (bank === 'other') {
-        // For "other", we need to filter cards where type is "other" OR bank is null/empty
-        // Since Firestore doesn't support OR queries easily, fetch all and filter in memory
-        const allCardsSnapshot = await db.collection('cards')
-          .where('userId', '==', req.user.uid)
-          .get();
-        
-        let cards = allCardsSnapshot.docs
-          .map(doc => ({
-            id: doc.id,
-            ...doc.data()
-          }))
-          .filter(card => {
-            // Include if type is "other" OR bank is null/empty/undefined
-            return card.type === 'other' || !card.bank || card.bank.trim() === '';
-          });
-        
-        // Apply type filter if specified
-        if (type) {
-          cards = cards.filter(card => card.type === type);
-        }
+    // Extract file path from imageUrl
+    const filePath = getStoragePath(imageUrl);
+    if (!isOwnStoragePath(filePath, ownerId)) {
+      logger.warn('Not deleting image outside the card owner\'s folder:', filePath);
+      return;
+    }
+    
+    logger.debug('Attempting to delete image:', filePath);
+    
+    const file = bucket.file(filePath);
+    const [exists] = await file.exists();
+    
+    if (exists) {
+      await file.delete();
+      logger.info('Image deleted from storage:', filePath);
+      
+      // Also try to delete encrypted version if it exists
+      const encryptedFile = bucket.file(`${filePath}.encrypted`);
+      const [encryptedExists] = await encryptedFile.exists();
+      if (encryptedExists) {
+        await encryptedFile.delete();
+        logger.info('Encrypted image deleted from storage:', `${filePath}.encrypted`);
+      }
+    } else {
+      logger.warn('Image file not found in storage:', filePath);
+      
+      // Try to find files with similar name pattern for debugging
+      const userFolder = filePath.split('/').slice(0, -1).join('/');
+      logger.debug('Searching in folder:', userFolder);
+      
+      try {
+        const [files] = await bucket.getFiles({ prefix: userFolder });
+        logger.debug('Files found in folder:', files.map(f => f.name));
         
-        // Sort by createdAt
-        cards.sort((a, b) => {
-          const aTime = a.createdAt?.toMillis?.() || 0;
-          const bTime = b.createdAt?.toMillis?.() || 0;
-          return bTime - aTime;
-        });
+        // Try to find and delete the file by pattern matching
+        const fileName = filePath.split('/').pop();
+        const matchingFiles = files.filter(f => f.name.includes(fileName));
         
-        return res.json(cards);
-      } else {
-        // Normalize bank name and filter
-        const normalizedBank = normalizeBankName(bank);
-        if (normalizedBank) {
-          query = query.where('bank', '==', normalizedBank);
+        if (matchingFiles.length > 0) {
+          logger.info('Found matching files by pattern:', matchingFiles.map(f => f.name));
+          for (const matchingFile of matchingFiles) {
+            await matchingFile.delete();
+            logger.info('Deleted matched file:', matchingFile.name);
+          }
         }
+      } catch (listError) {
+        logger.error('Error listing files:', listError.message);
       }
     }
-    
-    if (type) {
-      query = query.where('type', '==', type);
+  } catch (storageError) {
+    logger.error('Failed to delete image from storage:', storageError.message);
+    logger.debug('Storage error details:', storageError.stack);
+    // Card deletion continues even if image deletion fails
+  }
+};
+
+/**
+ * GET /api/cards
+ * Get one page of the authenticated user's cards
+ * Query: bank, type, q (searches name, cardholder, bank, type and - via blind indexes - the
+ *        last 4 characters or whole card number), last4 (cards whose number ends with it), tag,
+ *        sort (createdAt | updatedAt), order (asc | desc, default desc), cursor (from the previous page), limit
+ * Returns: { cards, nextCursor } - nextCursor is null on the last page
+ */
+router.get('/', [
+  verifyAuth,
+  query('bank').optional().isString().isLength({ max: 100 }),
+  query('type').optional().isIn(CARD_TYPES),
+  query('q').optional().isString().trim().isLength({ max: 100 }),
+  query('tag').optional().isString().isLength({ max: 100 }),
+  query('last4').optional().isString().trim().matches(/^[0-9A-Za-z]{4}$/).withMessage('last4 must be 4 letters or digits'),
+  query('sort').optional().isIn(SORT_FIELDS),
+  query('order').optional().isIn(SORT_ORDERS),
+  query('cursor').optional().isString().isLength({ max: 500 }),
+  query('limit').optional().isInt({ min: 1, max: MAX_PAGE_SIZE }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
     }
-    
-    const snapshot = await query.get();
-    let cards = snapshot.docs.map(doc => {
+
+    const { bank, type, last4 } = req.query;
+    const search = (req.query.q || '').toLowerCase();
+    const tag = req.query.tag !== undefined ? normalizeTag(req.query.tag) : null;
+    if (req.query.tag !== undefined && !tag) {
+      return res.status(400).json({ error: 'Invalid tag', message: TAG_RULES_MESSAGE });
+    }
+    const sort = req.query.sort || 'createdAt';
+    const order = req.query.order || 'desc';
+    const limit = req.query.limit || DEFAULT_PAGE_SIZE;
+
+    let last = null;
+    if (req.query.cursor) {
+      last = decodeCursor(req.query.cursor);
+      if (!last) {
+        return res.status(400).json({ error: 'Invalid cursor', message: 'Start again from the first page' });
+      }
+    }
+
+    // "other" covers cards of type other and cards without a bank
+    const normalizedBank = bank && bank !== 'other' ? normalizeBankName(bank) : null;
+
+    // Card numbers are compared through their blind indexes, never decrypted
+    const uid = req.user.uid;
+    const searchNumber = normalizeCardNumber(search);
+    const last4Number = last4 ? normalizeCardNumber(last4) : '';
+    const indexes = {
+      last4: last4Number && last4Index(last4Number, uid),
+      searchLast4: searchNumber.length === 4 ? last4Index(searchNumber, uid) : null,
+      searchFingerprint: searchNumber.length > 4 ? fingerprintIndex(searchNumber, uid) : null
+    };
+    // Cards stored without encryption have no indexes but a readable number
+    const plainNumber = (card) =>
+      typeof card.cardNumber === 'string' && !card.cardNumber_encrypted ? normalizeCardNumber(card.cardNumber) : '';
+    const endsWith = (card, number, index) =>
+      card.cardNumberLast4Index ? card.cardNumberLast4Index === index : plainNumber(card).endsWith(number);
+    const isNumber = (card, number, index) =>
+      card.cardNumberFingerprint ? card.cardNumberFingerprint === index : plainNumber(card) === number;
+    const matchesNumber = (card) =>
+      (searchNumber.length === 4 && endsWith(card, searchNumber, indexes.searchLast4)) ||
+      (searchNumber.length > 4 && isNumber(card, searchNumber, indexes.searchFingerprint));
+
+    const matches = (card) =>
+      (!type || card.type === type) &&
+      (bank !== 'other' || card.type === 'other' || !card.bank || card.bank.trim() === '') &&
+      (!normalizedBank || card.bank === normalizedBank) &&
+      (!last4Number || endsWith(card, last4Number, indexes.last4)) &&
+      (!search || matchesNumber(card) ||
+        SEARCHABLE_FIELDS.some(field => typeof card[field] === 'string' && card[field].toLowerCase().includes(search)));
+
+    // The tag filter runs in Firestore (the tags array is indexed); the other
+    // filters are applied while scanning, so only the sort needs a composite index
+    let cardsQuery = db.collection('cards').where('userId', '==', req.user.uid);
+    if (tag) {
+      cardsQuery = cardsQuery.where('tags', 'array-contains', tag);
+    }
+    cardsQuery = cardsQuery
+      .orderBy(sort, order)
+      .orderBy(FieldPath.documentId(), order);
+    const docs = [];
+    let scanned = 0;
+    let done = false; // Reached the last card
+
+    while (!done && docs.length < limit && scanned < MAX_SCAN_PER_REQUEST) {
+      let batchQuery = cardsQuery.limit(SCAN_BATCH_SIZE);
+      if (last) {
+        batchQuery = batchQuery.startAfter(last.sortValue, last.id);
+      }
+      const snapshot = await batchQuery.get();
+
+      for (const doc of snapshot.docs) {
+        scanned += 1;
+        last = { sortValue: doc.get(sort), id: doc.id };
+        if (matches(doc.data())) {
+          docs.push(doc);
+          if (docs.length === limit) break;
+        }
+      }
+
+      if (snapshot.size < SCAN_BATCH_SIZE && docs.length < limit) {
+        done = true;
+      }
+    }
+
+    // Only the cards on this page are decrypted
+    const cards = await Promise.all(docs.map(async doc => {
       const data = doc.data();
       let cardData = { id: doc.id, ...data };
       
       // Decrypt sensitive fields if encryption is enabled
       if (ENCRYPTION_ENABLED) {
         try {
-          cardData = { id: doc.id, ...decryptCardData(data) };
+          cardData = { id: doc.id, ...await decryptCardData(data) };
         } catch (decryptError) {
           logger.error('Decryption failed for card:', doc.id);
           // Return card without sensitive data if decryption fails
           cardData = { 
             id: doc.id, 
-            ...data,
+            ...stripBlindIndexes(data),
             cardNumber: null,
             cvv: null,
             expiryDate: null,
@@ -102,16 +386,12 @@ router.get('/', verifyAuth, async (req, res) => {
       }
       
       return cardData;
+    }));
+
+    res.json({
+      cards,
+      nextCursor: done ? null : encodeCursor(last)
     });
-    
-    // Sort by createdAt in memory (fallback if index not created)
-    cards.sort((a, b) => {
-      const aTime = a.createdAt?.toMillis?.() || 0;
-      const bTime = b.createdAt?.toMillis?.() || 0;
-      return bTime - aTime; // Descending order
-    });
-    
-    res.json(cards);
   } catch (error) {
     logger.error('Error fetching cards:', error.message);
     res.status(500).json({ error: 'Failed to fetch cards', message: error.message });
@@ -134,14 +414,15 @@ router.get('/:id', verifyAuth, async (req, res) => {
     let cardData = { id: doc.id, ...data };
     if (ENCRYPTION_ENABLED) {
       try {
-        cardData = { id: doc.id, ...decryptCardData(data) };
+        cardData = { id: doc.id, ...await decryptCardData(data) };
       } catch (decryptError) {
         logger.error('Decryption failed for card:', doc.id);
         // Return card without sensitive data if decryption fails
-        cardData = { id: doc.id, ...data, cardNumber: null, cvv: null };
+        cardData = { id: doc.id, ...stripBlindIndexes(data), cardNumber: null, cvv: null };
       }
     }
     
+    await recordAudit(req, 'card.view', { cardId: doc.id });
     res.json(cardData);
   } catch (error) {
     logger.error('Error fetching card:', error.message);
@@ -150,8 +431,12 @@ router.get('/:id', verifyAuth, async (req, res) => {
 });
 
 // Create card
+// Query: allowDuplicate=true to save a card whose number is already in the vault
+// Returns 409 { error, message, duplicate } with the existing card's non-sensitive details otherwise
+// Cards encrypted with a vault passphrase (zk1: numbers) have no fingerprint, so they are
+// never reported as duplicates and never match a new card
 router.post('/', verifyAuth, [
-  body('type').isIn(['credit', 'debit', 'aadhar', 'pan', 'other']),
+  body('type').isIn(CARD_TYPES),
   body('cardName').optional().isString(),
 ], async (req, res) => {
   try {
@@ -160,17 +445,67 @@ router.post('/', verifyAuth, [
       return res.status(400).json({ errors: errors.array() });
     }
 
+    // Aadhaar (Verhoeff checksum) and PAN (format) document fields
+    const documentError = validateDocumentFields(req.body, req.body.type);
+    if (documentError) {
+      return res.status(400).json({ error: 'Invalid document', message: documentError });
+    }
+
+    // The same card or document number is only added twice if the client chose to keep both
+    const fingerprint = getCardFingerprint(req.body.cardNumber, req.user.uid);
+    if (fingerprint && req.query.allowDuplicate !== 'true') {
+      const duplicates = await findCardsByFingerprint(req.user.uid, [fingerprint]);
+      if (duplicates.has(fingerprint)) {
+        return res.status(409).json({
+          error: 'Duplicate card',
+          message: 'A card with this number is already in your vault',
+          duplicate: toDuplicateSummary(duplicates.get(fingerprint))
+        });
+      }
+    }
+
     let cardData = {
       ...req.body,
       userId: req.user.uid,
-      createdAt: admin.firestore.FieldValue.serverTimestamp(),
-      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp()
     };
 
+    // Normalize bank name if provided (manual entry and CSV import send raw names)
+    if (req.body.bank) {
+      const normalizedBank = normalizeBankName(req.body.bank);
+      if (normalizedBank) {
+        cardData.bank = normalizedBank;
+      } else {
+        delete cardData.bank;
+      }
+    }
+
+    // Identity documents are always issued by the same authority
+    if (DOCUMENT_ISSUERS[cardData.type]) {
+      cardData.bank = DOCUMENT_ISSUERS[cardData.type];
+    }
+
+    // Front/back images (imageUrl mirrors the front image)
+    const imageError = applyRequestImages(cardData, req.user.uid);
+    if (imageError) {
+      return res.status(imageError.status).json({ error: imageError.error, message: imageError.message });
+    }
+
+    if (req.body.tags !== undefined) {
+      cardData.tags = normalizeTags(req.body.tags);
+      if (!cardData.tags) {
+        return res.status(400).json({ error: 'Invalid tags', message: TAG_RULES_MESSAGE });
+      }
+    }
+
+    // Store a queryable expiry date (expiryDate itself is encrypted)
+    applyExpiresAt(cardData);
+
     // Encrypt sensitive fields if encryption is enabled
     if (ENCRYPTION_ENABLED) {
       try {
-        cardData = encryptCardData(cardData);
+        cardData = await encryptCardData(cardData, req.user.uid);
         logger.info('Card data encrypted before storage');
       } catch (encryptError) {
         logger.error('Encryption failed:', encryptError.message);
@@ -183,7 +518,7 @@ router.post('/', verifyAuth, [
 
     // Add CVV warning timestamp if CVV is present
     if (req.body.cvv) {
-      cardData.cvvStoredAt = admin.firestore.FieldValue.serverTimestamp();
+      cardData.cvvStoredAt = FieldValue.serverTimestamp();
       cardData.cvvWarningShown = false; // Frontend should show warning
     }
 
@@ -194,12 +529,13 @@ router.post('/', verifyAuth, [
     let responseData = { id: doc.id, ...doc.data() };
     if (ENCRYPTION_ENABLED) {
       try {
-        responseData = { id: doc.id, ...decryptCardData(doc.data()) };
+        responseData = { id: doc.id, ...await decryptCardData(doc.data()) };
       } catch (decryptError) {
         logger.error('Decryption failed for response');
       }
     }
     
+    await recordAudit(req, 'card.create', { cardId: doc.id, details: { type: cardData.type } });
     res.status(201).json(responseData);
   } catch (error) {
     logger.error('Error creating card:', error.message);
@@ -207,6 +543,219 @@ router.post('/', verifyAuth, [
   }
 });
 
+// Batch create, update or delete cards in a single Firestore batched write
+// POST /api/cards/batch
+// Body: { action: 'create' | 'update' | 'delete', items: [...], allowDuplicates?: boolean }
+// Returns per-item results: [{ index, id, success, error, duplicateOf }]
+// Creates with a card number already in the vault (or earlier in the batch) fail
+// with duplicateOf set to the existing card, unless allowDuplicates is true
+// (vault passphrase cards are not checked, as for single creates)
+router.post('/batch', verifyAuth, [
+  body('action').isIn(BATCH_ACTIONS).withMessage(`action must be one of: ${BATCH_ACTIONS.join(', ')}`),
+  body('items').isArray({ min: 1, max: MAX_BATCH_SIZE }).withMessage(`items must contain 1-${MAX_BATCH_SIZE} entries`),
+  body('allowDuplicates').optional().isBoolean()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { action, items } = req.body;
+    const results = items.map((item, index) => ({
+      index,
+      id: (item && typeof item.id === 'string') ? item.id : null,
+      success: false
+    }));
+
+    // Load existing cards for update/delete and check ownership
+    const existing = new Map();
+    if (action !== 'create') {
+      const seen = new Set();
+      const refs = [];
+      results.forEach((result) => {
+        if (!result.id) {
+          result.error = 'Card ID is required';
+        } else if (seen.has(result.id)) {
+          result.error = 'Duplicate card ID';
+        } else {
+          seen.add(result.id);
+          refs.push(db.collection('cards').doc(result.id));
+        }
+      });
+
+      const snapshots = refs.length > 0 ? await db.getAll(...refs) : [];
+      snapshots.forEach((snapshot) => existing.set(snapshot.id, snapshot));
+    }
+
+    // fingerprint -> ID of the card that already has that number
+    const claimedNumbers = new Map();
+    const checkDuplicates = action === 'create' && req.body.allowDuplicates !== true;
+    if (checkDuplicates) {
+      const fingerprints = items
+        .map(item => item && typeof item === 'object' ? getCardFingerprint(item.cardNumber, req.user.uid) : null)
+        .filter(Boolean);
+      const duplicates = fingerprints.length > 0 ? await findCardsByFingerprint(req.user.uid, fingerprints) : new Map();
+      duplicates.forEach((doc, fingerprint) => claimedNumbers.set(fingerprint, doc.id));
+    }
+
+    const batch = db.batch();
+    const written = [];
+    const imagesToDelete = [];
+
+    for (const [index, item] of items.entries()) {
+      const result = results[index];
+      if (result.error) continue;
+
+      if (!item || typeof item !== 'object' || Array.isArray(item)) {
+        result.error = 'Invalid item';
+        continue;
+      }
+
+      const snapshot = existing.get(result.id);
+      if (action !== 'create') {
+        if (!snapshot || !snapshot.exists) {
+          result.error = 'Card not found';
+          continue;
+        }
+        if (snapshot.data().userId !== req.user.uid) {
+          result.error = 'Unauthorized';
+          continue;
+        }
+      }
+
+      if (action === 'delete') {
+        batch.delete(db.collection('cards').doc(result.id));
+        getCardImages(snapshot.data()).forEach((image) => imagesToDelete.push(image.url));
+        written.push(result);
+        continue;
+      }
+
+      // Never let clients overwrite ownership or server timestamps
+      const { id, userId, createdAt, updatedAt, ...fields } = item;
+      let data = { ...fields };
+
+      if (action === 'create' && !CARD_TYPES.includes(data.type)) {
+        result.error = 'Invalid card type';
+        continue;
+      }
+      if (action === 'update' && data.type !== undefined && !CARD_TYPES.includes(data.type)) {
+        result.error = 'Invalid card type';
+        continue;
+      }
+
+      const type = data.type || (snapshot && snapshot.data().type);
+      const documentError = validateDocumentFields(data, type);
+      if (documentError) {
+        result.error = documentError;
+        continue;
+      }
+
+      const fingerprint = checkDuplicates ? getCardFingerprint(data.cardNumber, req.user.uid) : null;
+      if (fingerprint && claimedNumbers.has(fingerprint)) {
+        result.error = 'Duplicate card';
+        result.duplicateOf = claimedNumbers.get(fingerprint);
+        continue;
+      }
+
+      // Normalize bank name if provided
+      if (data.bank) {
+        const normalizedBank = normalizeBankName(data.bank);
+        if (normalizedBank) {
+          data.bank = normalizedBank;
+        } else {
+          delete data.bank;
+        }
+      }
+      if (DOCUMENT_ISSUERS[data.type]) {
+        data.bank = DOCUMENT_ISSUERS[data.type];
+      }
+
+      const imageError = applyRequestImages(data, req.user.uid);
+      if (imageError) {
+        result.error = imageError.error;
+        continue;
+      }
+
+      if (data.tags !== undefined) {
+        data.tags = normalizeTags(data.tags);
+        if (!data.tags) {
+          result.error = 'Invalid tags';
+          continue;
+        }
+      }
+
+      applyExpiresAt(data);
+
+      if (ENCRYPTION_ENABLED) {
+        try {
+          data = await encryptCardData(data, req.user.uid);
+        } catch (encryptError) {
+          logger.error('Encryption failed for batch item:', encryptError.message);
+          result.error = 'Failed to encrypt card data';
+          continue;
+        }
+      }
+
+      if (fields.cvv) {
+        data.cvvStoredAt = FieldValue.serverTimestamp();
+        data.cvvWarningShown = false;
+      }
+
+      if (action === 'create') {
+        const docRef = db.collection('cards').doc();
+        batch.set(docRef, {
+          ...data,
+          userId: req.user.uid,
+          createdAt: FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp()
+        });
+        result.id = docRef.id;
+        if (fingerprint) claimedNumbers.set(fingerprint, docRef.id);
+      } else {
+        batch.update(db.collection('cards').doc(result.id), {
+          ...data,
+          updatedAt: FieldValue.serverTimestamp()
+        });
+      }
+      written.push(result);
+    }
+
+    if (written.length > 0) {
+      await batch.commit();
+      written.forEach((result) => {
+        result.success = true;
+      });
+    }
+
+    // Remove images of deleted cards once the batch has been committed
+    for (const imageUrl of imagesToDelete) {
+      await deleteCardImage(imageUrl, req.user.uid);
+    }
+    if (action === 'delete' && written.length > 0) {
+      await deleteCardReminders(written.map(result => result.id));
+    }
+
+    const succeeded = results.filter(r => r.success).length;
+    logger.info(`User ${req.user.uid} batch ${action}: ${succeeded}/${items.length} succeeded`);
+    await recordAuditEvents(req, results.filter(r => r.success).map(result => ({
+      action: `card.${action}`,
+      cardId: result.id,
+      details: { batch: true }
+    })));
+
+    res.json({
+      action,
+      succeeded,
+      failed: items.length - succeeded,
+      results
+    });
+  } catch (error) {
+    logger.error('Error processing card batch:', error.message);
+    res.status(500).json({ error: 'Failed to process batch', message: error.message });
+  }
+});
+
 // Update card
 router.put('/:id', verifyAuth, async (req, res) => {
   try {
@@ -220,6 +769,13 @@ router.put('/:id', verifyAuth, async (req, res) => {
 
     let updateData = { ...req.body }; // Changed to 'let' for encryption reassignment
 
+    // Partial updates are checked against the stored card type
+    const cardType = updateData.type || doc.data().type;
+    const documentError = validateDocumentFields(updateData, cardType);
+    if (documentError) {
+      return res.status(400).json({ error: 'Invalid document', message: documentError });
+    }
+
     // Normalize bank name if provided
     if (updateData.bank) {
       const normalizedBank = normalizeBankName(updateData.bank);
@@ -231,6 +787,11 @@ router.put('/:id', verifyAuth, async (req, res) => {
       }
     }
 
+    // Identity documents are always issued by the same authority
+    if (DOCUMENT_ISSUERS[cardType]) {
+      updateData.bank = DOCUMENT_ISSUERS[cardType];
+    }
+
     // If no bank found and type is not "other", set type to "other"
     if (!updateData.bank && updateData.type !== 'other') {
       const existingData = doc.data();
@@ -239,10 +800,25 @@ router.put('/:id', verifyAuth, async (req, res) => {
       }
     }
 
+    const imageError = applyRequestImages(updateData, req.user.uid);
+    if (imageError) {
+      return res.status(imageError.status).json({ error: imageError.error, message: imageError.message });
+    }
+
+    if (updateData.tags !== undefined) {
+      updateData.tags = normalizeTags(updateData.tags);
+      if (!updateData.tags) {
+        return res.status(400).json({ error: 'Invalid tags', message: TAG_RULES_MESSAGE });
+      }
+    }
+
+    // Keep the queryable expiry date in sync with expiryDate
+    applyExpiresAt(updateData);
+
     // Encrypt sensitive fields if encryption is enabled
     if (ENCRYPTION_ENABLED) {
       try {
-        updateData = encryptCardData(updateData);
+        updateData = await encryptCardData(updateData, req.user.uid);
       } catch (encryptError) {
         logger.error('Encryption failed:', encryptError.message);
         return res.status(500).json({ 
@@ -254,13 +830,13 @@ router.put('/:id', verifyAuth, async (req, res) => {
 
     // Update CVV timestamp if CVV is being updated
     if (req.body.cvv) {
-      updateData.cvvStoredAt = admin.firestore.FieldValue.serverTimestamp();
+      updateData.cvvStoredAt = FieldValue.serverTimestamp();
       updateData.cvvWarningShown = false;
     }
 
     await db.collection('cards').doc(req.params.id).update({
       ...updateData,
-      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+      updatedAt: FieldValue.serverTimestamp()
     });
 
     const updated = await db.collection('cards').doc(req.params.id).get();
@@ -269,12 +845,14 @@ router.put('/:id', verifyAuth, async (req, res) => {
     let responseData = { id: updated.id, ...updated.data() };
     if (ENCRYPTION_ENABLED) {
       try {
-        responseData = { id: updated.id, ...decryptCardData(updated.data()) };
+        responseData = { id: updated.id, ...await decryptCardData(updated.data()) };
       } catch (decryptError) {
         logger.error('Decryption failed for response:', decryptError.message);
       }
     }
     
+    // Field names only - values never go into the activity log
+    await recordAudit(req, 'card.update', { cardId: updated.id, details: { fields: Object.keys(req.body).sort() } });
     res.json(responseData);
   } catch (error) {
     logger.error('Error updating card:', error.message);
@@ -287,6 +865,133 @@ router.put('/:id', verifyAuth, async (req, res) => {
   }
 });
 
+// Merge a newly captured card into an existing one (used when a create was rejected as a duplicate)
+// POST /api/cards/:id/merge
+// Body: the card as it would have been created. Empty fields of the existing card are filled
+// from it, tags are combined and, per side, the larger of the two images is kept; the other is deleted.
+router.post('/:id/merge', verifyAuth, async (req, res) => {
+  try {
+    const cardRef = db.collection('cards').doc(req.params.id);
+    const doc = await cardRef.get();
+    if (!doc.exists) {
+      return res.status(404).json({ error: 'Card not found' });
+    }
+    const storedData = doc.data();
+    if (storedData.userId !== req.user.uid) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    let existingData = storedData;
+    if (ENCRYPTION_ENABLED) {
+      existingData = await decryptCardData(storedData);
+    }
+
+    // Fields that are empty on the existing card and set on the incoming one
+    const filled = {};
+    Object.entries(req.body).forEach(([field, value]) => {
+      if (MERGE_SKIPPED_FIELDS.includes(field) || field.endsWith('_encrypted')) return;
+      if (isEmptyValue(existingData[field]) && !isEmptyValue(value)) {
+        filled[field] = value;
+      }
+    });
+
+    const documentError = validateDocumentFields(filled, storedData.type);
+    if (documentError) {
+      return res.status(400).json({ error: 'Invalid document', message: documentError });
+    }
+
+    if (filled.bank) {
+      const normalizedBank = normalizeBankName(filled.bank);
+      if (normalizedBank) {
+        filled.bank = normalizedBank;
+      } else {
+        delete filled.bank;
+      }
+    }
+
+    let incomingImages = [];
+    if (req.body.images !== undefined) {
+      incomingImages = sanitizeCardImages(req.body.images);
+      if (!incomingImages) {
+        return res.status(400).json({ error: 'Invalid images', message: `Each image needs a url and a unique side (${CARD_IMAGE_SIDES.join(', ')})` });
+      }
+      // Images that lose are deleted, so they must be the user's own uploads
+      if (incomingImages.some(image => !isOwnStoragePath(getStoragePath(image.url), req.user.uid))) {
+        return res.status(403).json({ error: 'Unauthorized', message: 'Image does not belong to this user.' });
+      }
+    }
+
+    const existingTags = storedData.tags || [];
+    let addedTags = [];
+    if (req.body.tags !== undefined) {
+      const incomingTags = normalizeTags(req.body.tags);
+      if (!incomingTags) {
+        return res.status(400).json({ error: 'Invalid tags', message: TAG_RULES_MESSAGE });
+      }
+      addedTags = incomingTags.filter(tag => !existingTags.includes(tag)).slice(0, Math.max(0, MAX_TAGS - existingTags.length));
+    }
+
+    const { images, discarded } = await mergeCardImages(getCardImages(storedData), incomingImages);
+    const replacedSides = images.filter(image => incomingImages.includes(image)).map(image => image.side);
+
+    let updateData = { ...filled };
+    if (addedTags.length > 0) {
+      updateData.tags = [...existingTags, ...addedTags];
+    }
+    if (replacedSides.length > 0) {
+      Object.assign(updateData, toImageFields(images));
+    }
+
+    applyExpiresAt(updateData);
+
+    if (ENCRYPTION_ENABLED) {
+      try {
+        updateData = await encryptCardData(updateData, req.user.uid);
+      } catch (encryptError) {
+        logger.error('Encryption failed:', encryptError.message);
+        return res.status(500).json({
+          error: 'Failed to encrypt card data',
+          message: 'Encryption is required but failed.'
+        });
+      }
+    }
+
+    if (filled.cvv) {
+      updateData.cvvStoredAt = FieldValue.serverTimestamp();
+      updateData.cvvWarningShown = false;
+    }
+
+    await cardRef.update({
+      ...updateData,
+      updatedAt: FieldValue.serverTimestamp()
+    });
+
+    for (const image of discarded) {
+      await deleteCardImage(image.url, req.user.uid);
+    }
+
+    const updated = await cardRef.get();
+    let responseData = { id: updated.id, ...updated.data() };
+    if (ENCRYPTION_ENABLED) {
+      try {
+        responseData = { id: updated.id, ...await decryptCardData(updated.data()) };
+      } catch (decryptError) {
+        logger.error('Decryption failed for response:', decryptError.message);
+      }
+    }
+
+    // Field names only - values never go into the activity log
+    await recordAudit(req, 'card.merge', {
+      cardId: updated.id,
+      details: { fields: Object.keys(filled).concat(addedTags.length > 0 ? ['tags'] : []).sort(), images: replacedSides }
+    });
+    res.json(responseData);
+  } catch (error) {
+    logger.error('Error merging card:', error.message);
+    res.status(500).json({ error: 'Failed to merge card' });
+  }
+});
+
 // Delete CVV only (recommended for security)
 router.delete('/:id/cvv', verifyAuth, async (req, res) => {
   try {
@@ -300,14 +1005,15 @@ router.delete('/:id/cvv', verifyAuth, async (req, res) => {
 
     // Remove CVV and related fields
     await db.collection('cards').doc(req.params.id).update({
-      cvv: admin.firestore.FieldValue.delete(),
-      cvv_encrypted: admin.firestore.FieldValue.delete(),
-      cvvStoredAt: admin.firestore.FieldValue.delete(),
-      cvvWarningShown: admin.firestore.FieldValue.delete(),
-      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+      cvv: FieldValue.delete(),
+      cvv_encrypted: FieldValue.delete(),
+      cvvStoredAt: FieldValue.delete(),
+      cvvWarningShown: FieldValue.delete(),
+      updatedAt: FieldValue.serverTimestamp()
     });
 
     logger.info('CVV deleted for card:', req.params.id);
+    await recordAudit(req, 'card.cvv_delete', { cardId: req.params.id });
     res.json({ 
       message: 'CVV deleted successfully',
       info: 'You can add it again later if needed'
@@ -330,73 +1036,14 @@ router.delete('/:id', verifyAuth, async (req, res) => {
       return res.status(403).json({ error: 'Unauthorized' });
     }
 
-    // Delete image from Firebase Storage if exists
-    if (cardData.imageUrl) {
-      try {
-        const bucketName = process.env.FIREBASE_STORAGE_BUCKET;
-        const bucket = admin.storage().bucket(bucketName);
-        
-        // Extract file path from imageUrl
-        let filePath = cardData.imageUrl;
-        
-        // If it's a full URL, extract the path
-        if (filePath.includes('firebasestorage.googleapis.com')) {
-          const urlParts = filePath.split('/o/');
-          if (urlParts.length > 1) {
-            filePath = decodeURIComponent(urlParts[1].split('?')[0]);
-          }
-        }
-        
-        logger.debug('Attempting to delete image:', filePath);
-        
-        const file = bucket.file(filePath);
-        const [exists] = await file.exists();
-        
-        if (exists) {
-          await file.delete();
-          logger.info('Image deleted from storage:', filePath);
-          
-          // Also try to delete encrypted version if it exists
-          const encryptedFile = bucket.file(`${filePath}.encrypted`);
-          const [encryptedExists] = await encryptedFile.exists();
-          if (encryptedExists) {
-            await encryptedFile.delete();
-            logger.info('Encrypted image deleted from storage:', `${filePath}.encrypted`);
-          }
-        } else {
-          logger.warn('Image file not found in storage:', filePath);
-          
-          // Try to find files with similar name pattern for debugging
-          const userFolder = filePath.split('/').slice(0, -1).join('/');
-          logger.debug('Searching in folder:', userFolder);
-          
-          try {
-            const [files] = await bucket.getFiles({ prefix: userFolder });
-            logger.debug('Files found in folder:', files.map(f => f.name));
-            
-            // Try to find and delete the file by pattern matching
-            const fileName = filePath.split('/').pop();
-            const matchingFiles = files.filter(f => f.name.includes(fileName));
-            
-            if (matchingFiles.length > 0) {
-              logger.info('Found matching files by pattern:', matchingFiles.map(f => f.name));
-              for (const matchingFile of matchingFiles) {
-                await matchingFile.delete();
-                logger.info('Deleted matched file:', matchingFile.name);
-              }
-            }
-          } catch (listError) {
-            logger.error('Error listing files:', listError.message);
-          }
-        }
-      } catch (storageError) {
-        logger.error('Failed to delete image from storage:', storageError.message);
-        logger.debug('Storage error details:', storageError.stack);
-        // Continue with card deletion even if image deletion fails
-      }
+    // Delete front/back images from Firebase Storage if they exist
+    for (const image of getCardImages(cardData)) {
+      await deleteCardImage(image.url, cardData.userId);
     }
 
     await db.collection('cards').doc(req.params.id).delete();
+    await deleteCardReminders([req.params.id]);
+    await recordAudit(req, 'card.delete', { cardId: req.params.id, details: { type: cardData.type } });
     res.json({ message: 'Card deleted successfully' });
   } catch (error) {
     logger.error('Error deleting card:', error.message);
@@ -441,11 +1088,34 @@ router.get('/banks/list', verifyAuth, async (req, res) => {
   }
 });
 
+// Get the tags used on the user's cards
+router.get('/tags/list', verifyAuth, async (req, res) => {
+  try {
+    const snapshot = await db.collection('cards')
+      .where('userId', '==', req.user.uid)
+      .get();
+
+    const tagSet = new Set();
+    snapshot.docs.forEach(doc => {
+      (doc.data().tags || []).forEach(tag => tagSet.add(tag));
+    });
+
+    res.json(Array.from(tagSet).sort());
+  } catch (error) {
+    logger.error('Error fetching tags:', error.message);
+    res.status(500).json({ error: 'Failed to fetch tags', message: error.message });
+  }
+});
+
 // Serve decrypted card image
-// GET /api/cards/:id/image
+// GET /api/cards/:id/image?side=front|back (defaults to front)
 router.get('/:id/image', verifyAuth, async (req, res) => {
   try {
     const cardId = req.params.id;
+    const side = req.query.side || 'front';
+    if (!CARD_IMAGE_SIDES.includes(side)) {
+      return res.status(400).json({ error: 'Invalid side', message: `Side must be one of: ${CARD_IMAGE_SIDES.join(', ')}` });
+    }
     
     // Get card document
     const doc = await db.collection('cards').doc(cardId).get();
@@ -460,31 +1130,47 @@ router.get('/:id/image', verifyAuth, async (req, res) => {
       return res.status(403).json({ error: 'Unauthorized' });
     }
     
-    // Check if card has an image
-    if (!cardData.imageUrl) {
-      return res.status(404).json({ error: 'Card has no image' });
+    // Check if card has an image for this side
+    const image = getCardImages(cardData).find((candidate) => candidate.side === side);
+    if (!image) {
+      return res.status(404).json({ error: 'Card has no image', message: `Card has no ${side} image` });
     }
     
+    // Images in storage are only served from the card owner's own folder
+    if (isStoragePath(image.url) && !isOwnStoragePath(image.url, cardData.userId)) {
+      return res.status(403).json({ error: 'Unauthorized', message: 'Image does not belong to this card\'s owner.' });
+    }
+
+    // Unencrypted images uploaded through /api/images have no public URL, so stream them
+    if (!image.encrypted && isStoragePath(image.url)) {
+      const { buffer, contentType } = await downloadStoredImage(getBucket(), image.url);
+      await recordAudit(req, 'card.image_view', { cardId, details: { side } });
+      res.set('Content-Type', contentType);
+      res.set('Cache-Control', 'private, max-age=3600');
+      return res.send(buffer);
+    }
+
     // If image is not encrypted, redirect to Firebase Storage URL
-    if (!cardData.imageEncrypted) {
+    if (!image.encrypted) {
       // For unencrypted images, return the URL for client to fetch
-      return res.json({ imageUrl: cardData.imageUrl, encrypted: false });
+      return res.json({ imageUrl: image.url, encrypted: false });
     }
     
     // Decrypt and serve encrypted image
     if (ENCRYPTION_ENABLED) {
       try {
-        logger.info('Decrypting image for card:', cardId);
-        logger.debug('Image path:', cardData.imageUrl);
+        logger.info('Decrypting image for card:', cardId, side);
+        logger.debug('Image path:', image.url);
         
         // Get bucket from storage (use the configured bucket)
         const bucketName = process.env.FIREBASE_STORAGE_BUCKET;
-        const bucket = admin.storage().bucket(bucketName);
+        const bucket = getBucket(bucketName);
         
         // Get decrypted image buffer
-        const decryptedBuffer = await getDecryptedImageBuffer(bucket, cardData.imageUrl);
+        const decryptedBuffer = await getDecryptedImageBuffer(bucket, image.url, cardData.userId);
         
         // Serve as image
+        await recordAudit(req, 'card.image_view', { cardId, details: { side } });
         res.set('Content-Type', 'image/jpeg');
         res.set('Cache-Control', 'private, max-age=3600'); // Cache for 1 hour
         res.send(decryptedBuffer);
@@ -510,5 +1196,69 @@ router.get('/:id/image', verifyAuth, async (req, res) => {
   }
 });
 
+// Encrypt card images that were uploaded without going through extraction
+// (e.g. restored from a backup). Encrypts every side that is still plain.
+// No-op if encryption is disabled.
+// POST /api/cards/:id/image/encrypt
+router.post('/:id/image/encrypt', verifyAuth, async (req, res) => {
+  try {
+    const cardRef = db.collection('cards').doc(req.params.id);
+    const doc = await cardRef.get();
+    if (!doc.exists) {
+      return res.status(404).json({ error: 'Card not found' });
+    }
+
+    const cardData = doc.data();
+    if (cardData.userId !== req.user.uid) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    const images = getCardImages(cardData);
+    if (images.length === 0) {
+      return res.status(404).json({ error: 'Card has no image' });
+    }
+
+    if (!ENCRYPTION_ENABLED || images.every((image) => image.encrypted)) {
+      return res.json({ imageEncrypted: !!cardData.imageEncrypted });
+    }
+
+    const bucket = getBucket();
+    const encryptedImages = [];
+
+    for (const image of images) {
+      if (image.encrypted) {
+        encryptedImages.push(image);
+        continue;
+      }
+
+      if (!isStorageImage(image.url)) {
+        return res.status(400).json({ error: 'Invalid image', message: 'Only images in storage can be encrypted.' });
+      }
+
+      const filePath = getStoragePath(image.url);
+
+      // Only allow encrypting files inside the user's own upload folder
+      if (!isOwnStoragePath(filePath, req.user.uid)) {
+        return res.status(403).json({ error: 'Unauthorized', message: 'Image does not belong to this user.' });
+      }
+
+      const encryptedImagePath = await encryptStoredImage(bucket, filePath, cardData.userId);
+      encryptedImages.push({ side: image.side, url: encryptedImagePath, encrypted: true });
+    }
+
+    await cardRef.update({
+      ...toImageFields(encryptedImages),
+      updatedAt: FieldValue.serverTimestamp()
+    });
+
+    logger.info('Image encrypted for card:', req.params.id);
+    await recordAudit(req, 'card.image_encrypt', { cardId: req.params.id });
+    res.json({ imageEncrypted: true });
+  } catch (error) {
+    logger.error('Error encrypting card image:', error.message);
+    res.status(500).json({ error: 'Failed to encrypt card image' });
+  }
+});
+
 module.exports = router;
 
@@ -1,24 +1,21 @@
 const express = require('express');
-const { GoogleGenerativeAI } = require('@google/generative-ai');
-const admin = require('firebase-admin');
+const { getBucket, verifyIdToken } = require('../storage');
 const fetch = require('node-fetch');
 const { normalizeExtractedData } = require('../utils/bankNormalizer');
+const { sanitizeCardImages, isStoragePath, isOwnStoragePath, downloadStoredImage } = require('../utils/cardImages');
+const { getExtractionProvider } = require('../extraction');
+const { scoreExtraction } = require('../utils/cardValidation');
 const logger = require('../utils/secureLogger');
-const { encryptCardData } = require('../utils/encryption');
-const { encryptStoredImage, isEncryptionEnabled } = require('../utils/imageEncryption');
+const { recordAudit } = require('../utils/auditLog');
 const router = express.Router();
 
-// Check if encryption is enabled
-const ENCRYPTION_ENABLED = isEncryptionEnabled();
-
-if (!process.env.GEMINI_API_KEY) {
-  logger.warn('⚠️  GEMINI_API_KEY not set. Card extraction will not work.');
+const startupProvider = getExtractionProvider();
+if (startupProvider) {
+  logger.info(`Card extraction provider: ${startupProvider.name}`);
+} else {
+  logger.warn('⚠️  No extraction provider available. Set GEMINI_API_KEY, or TESSERACT_LANG_PATH if the bundled Tesseract language data is missing.');
 }
 
-const genAI = process.env.GEMINI_API_KEY 
-  ? new GoogleGenerativeAI(process.env.GEMINI_API_KEY)
-  : null;
-
 // Middleware to verify authentication
 const verifyAuth = async (req, res, next) => {
   try {
@@ -26,7 +23,7 @@ const verifyAuth = async (req, res, next) => {
     if (!token) {
       return res.status(401).json({ error: 'No token provided' });
     }
-    const decodedToken = await admin.auth().verifyIdToken(token);
+    const decodedToken = await verifyIdToken(token);
     req.user = decodedToken;
     next();
   } catch (error) {
@@ -34,72 +31,56 @@ const verifyAuth = async (req, res, next) => {
   }
 };
 
-// Extract card details from image URL
-router.post('/', verifyAuth, async (req, res) => {
-  try {
-    if (!genAI) {
-      return res.status(500).json({ error: 'Gemini API key not configured' });
-    }
-
-    const { imageUrl, cardId } = req.body;
-
-    if (!imageUrl) {
-      return res.status(400).json({ error: 'Image URL is required' });
-    }
-
-    // Fetch image from URL (Firebase Storage URL with token should work)
-    logger.info('Fetching image for card extraction');
-    
-    let imageBuffer;
-    let mimeType = 'image/jpeg';
-    
-    // Check if it's a Firebase Storage URL
-    if (imageUrl.includes('firebasestorage.googleapis.com')) {
-      try {
-        // Try to get the file using Firebase Admin SDK
-        // Extract bucket name from URL: https://firebasestorage.googleapis.com/v0/b/{bucket}/o/...
-        const bucketMatch = imageUrl.match(/\/b\/([^\/]+)\//);
-        if (bucketMatch) {
-          const bucketName = bucketMatch[1];
-          const bucket = admin.storage().bucket(bucketName);
-          
-          // Extract the file path from the URL
-          const urlParts = imageUrl.split('/o/');
-          if (urlParts.length > 1) {
-            const filePath = decodeURIComponent(urlParts[1].split('?')[0]);
-            const file = bucket.file(filePath);
-            const [exists] = await file.exists();
-            if (exists) {
-              const [buffer] = await file.download();
-              imageBuffer = buffer;
-              const [metadata] = await file.getMetadata();
-              mimeType = metadata.contentType || 'image/jpeg';
-              logger.info('Image fetched from Firebase Storage');
-              logger.debug('Image size:', imageBuffer.length, 'bytes. MIME type:', mimeType);
-            } else {
-              throw new Error('File not found in Firebase Storage');
-            }
+/**
+ * Download an image from storage (or any URL) for extraction
+ * @param {string} imageUrl - Storage path, Firebase Storage download URL or other image URL
+ * @returns {Promise<{imageBuffer: Buffer|ArrayBuffer, mimeType: string}>}
+ */
+const fetchImage = async (imageUrl) => {
+  let imageBuffer;
+  let mimeType = 'image/jpeg';
+  
+  // Images uploaded through /api/images are read from the configured bucket
+  if (isStoragePath(imageUrl)) {
+    const { buffer, contentType } = await downloadStoredImage(getBucket(), imageUrl);
+    imageBuffer = buffer;
+    mimeType = contentType;
+    logger.info('Image fetched from storage');
+    logger.debug('Image size:', imageBuffer.length, 'bytes. MIME type:', mimeType);
+  } else if (imageUrl.includes('firebasestorage.googleapis.com')) {
+    try {
+      // Try to get the file using Firebase Admin SDK
+      // Extract bucket name from URL: https://firebasestorage.googleapis.com/v0/b/{bucket}/o/...
+      const bucketMatch = imageUrl.match(/\/b\/([^\/]+)\//);
+      if (bucketMatch) {
+        const bucketName = bucketMatch[1];
+        const bucket = getBucket(bucketName);
+        
+        // Extract the file path from the URL
+        const urlParts = imageUrl.split('/o/');
+        if (urlParts.length > 1) {
+          const filePath = decodeURIComponent(urlParts[1].split('?')[0]);
+          const file = bucket.file(filePath);
+          const [exists] = await file.exists();
+          if (exists) {
+            const [buffer] = await file.download();
+            imageBuffer = buffer;
+            const [metadata] = await file.getMetadata();
+            mimeType = metadata.contentType || 'image/jpeg';
+            logger.info('Image fetched from Firebase Storage');
+            logger.debug('Image size:', imageBuffer.length, 'bytes. MIME type:', mimeType);
           } else {
-            throw new Error('Invalid Firebase Storage URL format');
+            throw new Error('File not found in Firebase Storage');
           }
         } else {
-          throw new Error('Could not extract bucket name from URL');
-        }
-      } catch (firebaseError) {
-        logger.warn('Firebase Admin fetch failed, trying direct URL:', firebaseError.message);
-        // Fallback to direct fetch (download URLs with tokens should work)
-        const imageResponse = await fetch(imageUrl);
-        if (!imageResponse.ok) {
-          throw new Error(`Failed to fetch image: ${imageResponse.status} ${imageResponse.statusText}`);
+          throw new Error('Invalid Firebase Storage URL format');
         }
-        imageBuffer = await imageResponse.arrayBuffer();
-        const contentType = imageResponse.headers.get('content-type') || 'image/jpeg';
-        mimeType = contentType.split(';')[0];
-        logger.info('Image fetched via direct URL');
-        logger.debug('Image size:', imageBuffer.byteLength, 'bytes. MIME type:', mimeType);
+      } else {
+        throw new Error('Could not extract bucket name from URL');
       }
-    } else {
-      // Direct URL fetch for non-Firebase URLs
+    } catch (firebaseError) {
+      logger.warn('Firebase Admin fetch failed, trying direct URL:', firebaseError.message);
+      // Fallback to direct fetch (download URLs with tokens should work)
       const imageResponse = await fetch(imageUrl);
       if (!imageResponse.ok) {
         throw new Error(`Failed to fetch image: ${imageResponse.status} ${imageResponse.statusText}`);
@@ -107,216 +88,116 @@ router.post('/', verifyAuth, async (req, res) => {
       imageBuffer = await imageResponse.arrayBuffer();
       const contentType = imageResponse.headers.get('content-type') || 'image/jpeg';
       mimeType = contentType.split(';')[0];
-      logger.info('Image fetched successfully');
+      logger.info('Image fetched via direct URL');
       logger.debug('Image size:', imageBuffer.byteLength, 'bytes. MIME type:', mimeType);
     }
-    
-    // Convert to base64
-    const base64Image = Buffer.from(imageBuffer).toString('base64');
+  } else {
+    // Direct URL fetch for non-Firebase URLs
+    const imageResponse = await fetch(imageUrl);
+    if (!imageResponse.ok) {
+      throw new Error(`Failed to fetch image: ${imageResponse.status} ${imageResponse.statusText}`);
+    }
+    imageBuffer = await imageResponse.arrayBuffer();
+    const contentType = imageResponse.headers.get('content-type') || 'image/jpeg';
+    mimeType = contentType.split(';')[0];
+    logger.info('Image fetched successfully');
+    logger.debug('Image size:', imageBuffer.byteLength, 'bytes. MIME type:', mimeType);
+  }
 
-    // Use Gemini 2.5 Flash for image analysis (stable, fast, supports images)
-    // Available models: gemini-2.5-flash, gemini-2.5-pro, gemini-2.0-flash-001
-    let model;
-    try {
-      // Try gemini-2.5-flash first (stable, fast, supports images)
-      model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
-      logger.debug('Using model: gemini-2.5-flash');
-    } catch (e) {
-      try {
-        // Fallback to gemini-2.5-pro (more powerful, slower)
-        model = genAI.getGenerativeModel({ model: 'gemini-2.5-pro' });
-        logger.debug('Using model: gemini-2.5-pro');
-      } catch (e2) {
-        try {
-          // Fallback to gemini-2.0-flash-001 (older stable version)
-          model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-001' });
-          logger.debug('Using model: gemini-2.0-flash-001');
-        } catch (e3) {
-          try {
-            // Last resort: gemini-flash-latest
-            model = genAI.getGenerativeModel({ model: 'gemini-flash-latest' });
-            logger.debug('Using model: gemini-flash-latest');
-          } catch (e4) {
-            throw new Error('No available Gemini models. Please check your API key and available models.');
-          }
-        }
+  return { imageBuffer, mimeType };
+};
+
+// Fields where the back of the card is the more reliable source
+const BACK_PREFERRED_FIELDS = ['cvv'];
+
+/**
+ * Merge per-side extraction results into one result
+ * The front wins for printed details, the back wins for the CVV,
+ * and either side fills in fields the other could not read.
+ * Each field keeps the confidence reported for the side it came from.
+ * @param {Array<{side: string, data: Object}>} results - Extraction per side
+ * @returns {Object} Merged extraction result with a `confidence` map
+ */
+const mergeExtractionResults = (results) => {
+  const front = results.find((result) => result.side === 'front')?.data || {};
+  const back = results.find((result) => result.side === 'back')?.data || {};
+  const merged = { confidence: {} };
+
+  const fields = new Set([...Object.keys(front), ...Object.keys(back)]);
+  fields.delete('confidence');
+  fields.forEach((field) => {
+    const [preferred, fallback] = BACK_PREFERRED_FIELDS.includes(field) ? [back, front] : [front, back];
+    const source = preferred[field] ? preferred : fallback;
+    if (source[field]) {
+      merged[field] = source[field];
+      if (source.confidence && source.confidence[field] !== undefined) {
+        merged.confidence[field] = source.confidence[field];
       }
     }
+  });
 
-    const prompt = `Analyze this card image and extract the following information. Return ONLY valid JSON, no markdown, no code blocks, just the JSON object:
+  // A specific card type from either side beats "other"
+  const types = [front.type, back.type].filter((type) => type && type !== 'other');
+  merged.type = types[0] || 'other';
+  merged.isValid = results.some((result) => result.data.isValid !== false);
 
-{
-  "type": "credit" or "debit" or "aadhar" or "pan" or "other",
-  "cardNumber": "full card number if visible (all digits, no masking, no spaces or dashes)",
-  "cardHolderName": "name on card",
-  "expiryDate": "MM/YY format",
-  "cvv": "CVV code if visible on the card",
-  "bank": "name without 'Bank' word (e.g., HDFC, SBI, ICICI, Axis, etc.)",
-  "cardName": "card name/nickname if visible",
-  "isValid": true
-}
-
-Rules:
-- If it's a credit/debit card, extract FULL card number (all 16 digits, no masking), name, expiry, CVV, and name (without "Bank" word, e.g., HDFC, SBI, ICICI)
-- Extract CVV if visible on the card (usually 3 digits on the back)
-- If it's Aadhar or PAN, extract relevant details
-- Extract the complete card number without any masking or formatting
-- Identify the name from the card design/logo (use standard names: HDFC, SBI, ICICI, Axis, etc.)
-- Return only valid JSON object`;
+  return merged;
+};
 
-    let result;
-    try {
-      // Try the new format first (Gemini 1.5)
-      result = await model.generateContent([
-        {
-          inlineData: {
-            data: base64Image,
-            mimeType: mimeType
-          }
-        },
-        prompt
-      ]);
-    } catch (apiError) {
-      logger.error('Gemini API error:', apiError.message);
-      // Fallback to text-only if vision fails
-      throw new Error(`Gemini API error: ${apiError.message}`);
+// Extract card details from one image URL or from front/back images
+// Body: { imageUrl } or { images: [{ side: 'front' | 'back', url }] }
+// Nothing is saved here; the client shows the result for review and saves it through /api/cards
+router.post('/', verifyAuth, async (req, res) => {
+  try {
+    const provider = getExtractionProvider();
+    if (!provider) {
+      return res.status(500).json({
+        error: 'No extraction provider configured',
+        message: 'Set GEMINI_API_KEY or provide Tesseract language data, and check EXTRACTION_PROVIDER.'
+      });
     }
 
-    let responseText;
-    try {
-      responseText = result.response.text();
-    } catch (textError) {
-      logger.error('Error getting response text:', textError.message);
-      // Try alternative method
-      const candidates = result.response.candidates;
-      if (candidates && candidates[0] && candidates[0].content) {
-        responseText = candidates[0].content.parts[0].text;
-      } else {
-        throw new Error('Unable to extract response text from Gemini API');
-      }
+    const { imageUrl } = req.body;
+
+    // Legacy single-image requests are treated as the front side
+    const hasImages = req.body.images !== undefined;
+    const images = hasImages
+      ? sanitizeCardImages(req.body.images)
+      : imageUrl ? [{ side: 'front', url: imageUrl }] : null;
+
+    if (!images || images.length === 0) {
+      return res.status(400).json({ error: 'Image URL is required' });
     }
-    
-    // Parse JSON from response
-    let extractedData;
-    try {
-      // Clean response - remove markdown code blocks if present
-      let cleanedText = responseText.trim();
-      if (cleanedText.startsWith('```')) {
-        cleanedText = cleanedText.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      }
-      
-      // Extract JSON object
-      const jsonMatch = cleanedText.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        extractedData = JSON.parse(jsonMatch[0]);
-      } else {
-        extractedData = JSON.parse(cleanedText);
-      }
-      
-      // Validate extracted data
-      if (!extractedData.type) {
-        extractedData.type = 'other';
-      }
-      
-      // Clean card number - remove spaces, dashes, and keep only digits
-      if (extractedData.cardNumber) {
-        extractedData.cardNumber = extractedData.cardNumber.replace(/[\s-]/g, '');
-      }
-      
-      // Clean CVV - remove spaces and keep only digits
-      if (extractedData.cvv) {
-        extractedData.cvv = extractedData.cvv.replace(/\s/g, '');
-      }
-      
-      // Normalize bank name and set type to "other" if no bank found
-      extractedData = normalizeExtractedData(extractedData);
-    } catch (parseError) {
-      logger.error('JSON parse error:', parseError.message);
-      // DO NOT log responseText as it may contain sensitive card data
-      return res.status(500).json({ 
-        error: 'Failed to parse extraction result',
-        parseError: parseError.message
-      });
+
+    // Stored images are only read from the caller's own upload folder
+    if (images.some((image) => isStoragePath(image.url) && !isOwnStoragePath(image.url, req.user.uid))) {
+      return res.status(403).json({ error: 'Unauthorized', message: 'Image does not belong to this user.' });
     }
 
-    // Update card in database if cardId provided
-    if (cardId) {
-      const db = admin.firestore();
-      
-      let dataToStore = { ...extractedData };
-      let encryptedImagePath = null;
-      
-      // Encrypt sensitive fields if encryption is enabled
-      if (ENCRYPTION_ENABLED) {
-        try {
-          dataToStore = encryptCardData(dataToStore);
-          logger.info('Extracted card data encrypted before storage');
-          
-          // Encrypt the image after OCR extraction
-          if (imageUrl.includes('firebasestorage.googleapis.com')) {
-            logger.info('Encrypting card image after OCR...');
-            
-            try {
-              // Use the configured bucket from environment
-              const bucketName = process.env.FIREBASE_STORAGE_BUCKET;
-              const bucket = admin.storage().bucket(bucketName);
-              
-              // Extract file path from URL
-              const urlParts = imageUrl.split('/o/');
-              if (urlParts.length > 1) {
-                let filePath = decodeURIComponent(urlParts[1].split('?')[0]);
-                logger.debug('Extracted file path:', filePath);
-                
-                // Verify file exists before attempting encryption
-                const file = bucket.file(filePath);
-                const [exists] = await file.exists();
-                
-                if (exists) {
-                  encryptedImagePath = await encryptStoredImage(bucket, filePath);
-                  logger.info('Image encrypted successfully:', encryptedImagePath);
-                  dataToStore.imageEncrypted = true;
-                  dataToStore.imageUrl = encryptedImagePath; // Store encrypted path
-                } else {
-                  logger.warn('Image file not found in storage, skipping encryption:', filePath);
-                  // List files in the directory to help debug
-                  const [files] = await bucket.getFiles({ 
-                    prefix: filePath.split('/').slice(0, -1).join('/') 
-                  });
-                  logger.debug('Available files in directory:', files.map(f => f.name));
-                }
-              } else {
-                logger.warn('Could not extract file path from URL:', imageUrl);
-              }
-            } catch (encryptError) {
-              logger.error('Image encryption failed:', encryptError.message);
-              logger.debug('Error details:', encryptError.stack);
-              // Continue without encrypting image (image stays as-is)
-            }
-          }
-        } catch (encryptError) {
-          logger.error('Encryption failed for extracted data:', encryptError.message);
-          // Don't store if encryption fails
-          return res.status(500).json({ 
-            error: 'Failed to encrypt extracted data',
-            message: 'Encryption is required but failed.'
-          });
-        }
-      }
-      
-      // Add CVV warning if CVV was extracted
-      if (extractedData.cvv) {
-        dataToStore.cvvStoredAt = admin.firestore.FieldValue.serverTimestamp();
-        dataToStore.cvvWarningShown = false;
-      }
-      
-      await db.collection('cards').doc(cardId).update({
-        ...dataToStore,
-        extractedAt: admin.firestore.FieldValue.serverTimestamp(),
-        extractionStatus: 'completed',
-        updatedAt: admin.firestore.FieldValue.serverTimestamp()
-      });
+    const results = [];
+
+    for (const image of images) {
+      // Fetch image from URL (Firebase Storage URL with token should work)
+      logger.info(`Fetching ${image.side} image for card extraction`);
+      const { imageBuffer, mimeType } = await fetchImage(image.url);
+      results.push({ side: image.side, data: await provider.extract(imageBuffer, mimeType, image.side) });
     }
 
+    // Normalize bank name and set type to "other" if no bank found
+    const { confidence, ...merged } = mergeExtractionResults(results);
+    const normalized = normalizeExtractedData(merged);
+
+    // Per-field confidence and validation flags for the client review step
+    const extractedData = {
+      ...normalized,
+      extractionProvider: provider.name,
+      ...scoreExtraction(normalized, confidence)
+    };
+
+    await recordAudit(req, 'extraction.run', {
+      details: { provider: provider.name, sides: images.map(image => image.side) }
+    });
+
     res.json({
       success: true,
       data: extractedData
@@ -325,20 +206,7 @@ Rules:
     logger.error('Extraction error:', error.message);
     logger.debug('Error stack:', error.stack);
     
-    // Update card status to 'failed' if cardId provided
-    if (req.body.cardId) {
-      try {
-        const db = admin.firestore();
-        await db.collection('cards').doc(req.body.cardId).update({
-          extractionStatus: 'failed',
-          extractionError: error.message || 'Unknown error',
-          updatedAt: admin.firestore.FieldValue.serverTimestamp()
-        });
-        logger.info('Card status updated to failed:', req.body.cardId);
-      } catch (updateError) {
-        logger.error('Failed to update card status:', updateError.message);
-      }
-    }
+    await recordAudit(req, 'extraction.failed');
     
     // Provide more detailed error information
     let errorMessage = error.message || 'Unknown error';
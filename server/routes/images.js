@@ -0,0 +1,89 @@
+const express = require('express');
+const { getBucket, verifyIdToken } = require('../storage');
+const { isStoragePath, isOwnStoragePath } = require('../utils/cardImages');
+const logger = require('../utils/secureLogger');
+const router = express.Router();
+
+// Matches the JSON body limit, which is sized for compressed card images
+const MAX_IMAGE_SIZE = '20mb';
+
+// Middleware to verify authentication
+const verifyAuth = async (req, res, next) => {
+  try {
+    const token = req.headers.authorization?.split('Bearer ')[1];
+    if (!token) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+    const decodedToken = await verifyIdToken(token);
+    req.user = decodedToken;
+    next();
+  } catch (error) {
+    res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+/**
+ * Make an uploaded file name safe to use in a storage path
+ * @param {string} name - File name sent by the client
+ * @returns {string}
+ */
+const sanitizeFileName = (name) => {
+  const cleaned = String(name || '').replace(/[^A-Za-z0-9._-]/g, '_').replace(/^\.+/, '').slice(0, 100);
+  return cleaned || 'image';
+};
+
+/**
+ * POST /api/images?name=<file name>
+ * Upload a card image to the storage backend
+ * The body is the raw image, sent with its image/* Content-Type.
+ * Returns the storage path to use as the card image's url.
+ */
+router.post('/', verifyAuth, express.raw({ type: 'image/*', limit: MAX_IMAGE_SIZE }), async (req, res) => {
+  try {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: 'Invalid image', message: 'Send the image as the request body with an image/* Content-Type.' });
+    }
+
+    const filePath = `cards/${req.user.uid}/${Date.now()}_${sanitizeFileName(req.query.name)}`;
+    await getBucket().file(filePath).save(req.body, {
+      metadata: { contentType: req.headers['content-type'].split(';')[0] }
+    });
+
+    logger.info('Card image uploaded:', filePath);
+    res.status(201).json({ url: filePath });
+  } catch (error) {
+    logger.error('Error uploading card image:', error.message);
+    res.status(500).json({ error: 'Failed to upload image' });
+  }
+});
+
+/**
+ * DELETE /api/images?path=<storage path>
+ * Delete an uploaded image that was never saved to a card (e.g. a discarded extraction)
+ */
+router.delete('/', verifyAuth, async (req, res) => {
+  try {
+    const filePath = req.query.path;
+    if (typeof filePath !== 'string' || !isStoragePath(filePath)) {
+      return res.status(400).json({ error: 'Invalid image', message: 'path must be a storage path returned by the upload.' });
+    }
+    if (!isOwnStoragePath(filePath, req.user.uid)) {
+      return res.status(403).json({ error: 'Unauthorized', message: 'Image does not belong to this user.' });
+    }
+
+    const file = getBucket().file(filePath);
+    const [exists] = await file.exists();
+    if (!exists) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+
+    await file.delete();
+    logger.info('Card image deleted:', filePath);
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('Error deleting card image:', error.message);
+    res.status(500).json({ error: 'Failed to delete image' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,82 @@
+const express = require('express');
+const { getDb, verifyIdToken, FieldValue } = require('../storage');
+const logger = require('../utils/secureLogger');
+const router = express.Router();
+
+const db = getDb();
+
+// Middleware to verify authentication
+const verifyAuth = async (req, res, next) => {
+  try {
+    const token = req.headers.authorization?.split('Bearer ')[1];
+    if (!token) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+    const decodedToken = await verifyIdToken(token);
+    req.user = decodedToken;
+    next();
+  } catch (error) {
+    res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+/**
+ * GET /api/reminders
+ * Get undismissed card expiry reminders for the authenticated user
+ */
+router.get('/', verifyAuth, async (req, res) => {
+  try {
+    const snapshot = await db.collection('reminders')
+      .where('userId', '==', req.user.uid)
+      .where('dismissed', '==', false)
+      .get();
+
+    const reminders = snapshot.docs.map((doc) => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        cardId: data.cardId,
+        cardName: data.cardName,
+        bank: data.bank,
+        kind: data.kind,
+        expiresAt: data.expiresAt,
+        createdAt: data.createdAt?.toDate?.()?.toISOString() || null,
+      };
+    });
+
+    res.json(reminders);
+  } catch (error) {
+    logger.error('Error fetching reminders:', error.message);
+    res.status(500).json({ error: 'Failed to fetch reminders' });
+  }
+});
+
+/**
+ * POST /api/reminders/:id/dismiss
+ * Mark a reminder as seen so it is not shown again
+ */
+router.post('/:id/dismiss', verifyAuth, async (req, res) => {
+  try {
+    const reminderRef = db.collection('reminders').doc(req.params.id);
+    const doc = await reminderRef.get();
+
+    if (!doc.exists) {
+      return res.status(404).json({ error: 'Reminder not found' });
+    }
+    if (doc.data().userId !== req.user.uid) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    await reminderRef.update({
+      dismissed: true,
+      dismissedAt: FieldValue.serverTimestamp(),
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('Error dismissing reminder:', error.message);
+    res.status(500).json({ error: 'Failed to dismiss reminder' });
+  }
+});
+
+module.exports = router;
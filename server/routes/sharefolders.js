@@ -1,14 +1,53 @@
 const express = require('express');
-const admin = require('firebase-admin');
+const { getDb, getBucket, verifyIdToken, FieldValue, FieldPath } = require('../storage');
 const { body, validationResult } = require('express-validator');
 const logger = require('../utils/secureLogger');
-const { generateShareToken, calculateExpiry, isExpired } = require('../utils/shareToken');
+const crypto = require('crypto');
+const {
+  generateShareToken,
+  calculateExpiry,
+  parseMaxViews,
+  MAX_VIEWS_LIMIT,
+  isExpired
+} = require('../utils/shareToken');
 const { decryptCardData } = require('../utils/encryption');
+const { stripBlindIndexes } = require('../utils/blindIndex');
 const { isEncryptionEnabled, getDecryptedImageBuffer } = require('../utils/imageEncryption');
+const { isStoragePath, isOwnStoragePath, downloadStoredImage } = require('../utils/cardImages');
+const {
+  MAX_PASSCODE_ATTEMPTS,
+  hashPasscode,
+  verifyPasscode,
+  createAccessToken,
+  verifyAccessToken
+} = require('../utils/sharePasscode');
+const { sharePasscodeLimiter } = require('../utils/rateLimiter');
+const {
+  DEFAULT_REDACTION,
+  isValidRedaction,
+  normalizeRedaction,
+  getShareRedaction,
+  redactField
+} = require('../utils/shareRedaction');
+const { ACCESS_LOG_COLLECTION, recordShareAccess } = require('../utils/shareAccessLog');
+const { recordAudit, recordAuditEvents } = require('../utils/auditLog');
+const {
+  FOLDER_ROLES,
+  getFolderRole,
+  hasFolderRole,
+  getFolderMembers,
+  canManageFolderMember,
+  canRemoveFolderCard
+} = require('../utils/folderRoles');
 const router = express.Router();
 
-const db = admin.firestore();
+const db = getDb();
 const ENCRYPTION_ENABLED = isEncryptionEnabled();
+const MAX_BATCH_SIZE = 100; // Max card IDs per add/remove list in batch requests
+const ACCESS_LOG_LIMIT = 200; // Most recent access events returned to the owner
+const MAX_MEMBERS = 50; // Max people a folder can be shared with
+const CARD_QUERY_CHUNK = 30; // Firestore allows up to 30 values in an 'in' filter
+const VIEW_LIMIT_IMAGE_GRACE_MS = 5 * 60 * 1000; // Images of a link's last allowed view can load for 5 minutes
 const SHARE_BASE_URL = (() => {
   const candidates = [
     process.env.SHARE_BASE_URL,
@@ -45,7 +84,7 @@ const verifyAuth = async (req, res, next) => {
     if (!token) {
       return res.status(401).json({ error: 'No token provided' });
     }
-    const decodedToken = await admin.auth().verifyIdToken(token);
+    const decodedToken = await verifyIdToken(token);
     req.user = decodedToken;
     next();
   } catch (error) {
@@ -56,19 +95,70 @@ const verifyAuth = async (req, res, next) => {
 
 // ==================== PRIVATE ENDPOINTS (Authenticated) ====================
 
+/**
+ * Folder fields every member may see
+ * Anything else (member list internals, share link settings and stats) is
+ * only returned to owners, who manage them.
+ */
+const MEMBER_FOLDER_FIELDS = ['userId', 'name', 'description', 'cardIds', 'ownerEmail', 'createdAt', 'updatedAt'];
+
+/**
+ * Folder fields safe to return to a member (never the passcode hash)
+ * Owners get the share link details; editors get only MEMBER_FOLDER_FIELDS,
+ * and who added each card without the other members' uids.
+ */
+const toMemberFolder = (id, data, role, user) => {
+  const memberFolder = {
+    id,
+    role,
+    members: getFolderMembers(data)
+  };
+
+  if (role !== 'owner') {
+    const cardOwners = data.cardOwners || {};
+    MEMBER_FOLDER_FIELDS.forEach((field) => {
+      if (data[field] !== undefined) memberFolder[field] = data[field];
+    });
+    memberFolder.cardOwners = Object.fromEntries(Object.entries(cardOwners).map(([cardId, owner]) => [
+      cardId,
+      owner?.uid === user.uid ? owner : { email: owner?.email || null }
+    ]));
+    return memberFolder;
+  }
+
+  const { passcodeHash, passcodeFailures, passcodeLockedAt, accessSecret, memberRoles, ...folder } = data;
+  return {
+    ...folder,
+    ...memberFolder,
+    passcodeProtected: !!passcodeHash,
+    passcodeLocked: !!passcodeLockedAt
+  };
+};
+
+/**
+ * Who added a card to a folder, so editors can only remove their own cards
+ */
+const getCardOwner = (user) => ({ uid: user.uid, email: user.email?.toLowerCase() || null });
+
 /**
  * GET /api/sharefolders
- * Get all share folders for authenticated user
+ * Get share folders the authenticated user owns or can edit
  */
 router.get('/', verifyAuth, async (req, res) => {
   try {
-    const snapshot = await db.collection('shareFolders')
-      .where('userId', '==', req.user.uid)
-      .get();
-
-    const folders = snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data(),
+    const email = req.user.email_verified ? req.user.email?.toLowerCase() : null;
+    const [ownedSnapshot, memberSnapshot] = await Promise.all([
+      db.collection('shareFolders').where('userId', '==', req.user.uid).get(),
+      email ? db.collection('shareFolders').where('recipientEmails', 'array-contains', email).get() : null
+    ]);
+
+    // Folders the user can only view are listed by GET /shared-with-me instead
+    const memberDocs = memberSnapshot
+      ? memberSnapshot.docs.filter(doc => hasFolderRole(getFolderRole(doc.data(), req.user), 'editor'))
+      : [];
+
+    const folders = [...ownedSnapshot.docs, ...memberDocs].map(doc => ({
+      ...toMemberFolder(doc.id, doc.data(), getFolderRole(doc.data(), req.user), req.user),
       createdAt: doc.data().createdAt?.toDate(),
       updatedAt: doc.data().updatedAt?.toDate()
     }))
@@ -106,24 +196,30 @@ router.post('/', [
 
     const folderData = {
       userId: req.user.uid,
+      // Shown to members in their folder lists
+      ownerEmail: req.user.email || null,
       name,
       description: description || '',
       cardIds: [],
       isPublic: false,
       shareToken: null,
       expiresAt: null,
-      createdAt: admin.firestore.FieldValue.serverTimestamp(),
-      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp()
     };
 
     const docRef = await db.collection('shareFolders').add(folderData);
     const folder = {
       id: docRef.id,
       ...folderData,
+      role: 'owner',
+      members: [],
       createdAt: new Date(),
       updatedAt: new Date()
     };
 
+    await recordAudit(req, 'folder.create', { folderId: docRef.id });
+
     logger.info(`User ${req.user.uid} created share folder: ${name} (${docRef.id})`);
     res.status(201).json(folder);
   } catch (error) {
@@ -146,12 +242,15 @@ router.delete('/:id', verifyAuth, async (req, res) => {
       return res.status(404).json({ error: 'Share folder not found' });
     }
 
+    // Co-owners manage the folder, but only its creator can delete it
     const folderData = folderDoc.data();
     if (folderData.userId !== req.user.uid) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    await folderRef.delete();
+    // Also removes the folder's access log subcollection
+    await db.recursiveDelete(folderRef);
+    await recordAudit(req, 'folder.delete', { folderId });
 
     logger.info(`User ${req.user.uid} deleted share folder: ${folderId}`);
     res.json({ message: 'Share folder deleted successfully' });
@@ -186,7 +285,7 @@ router.post('/:id/cards', [
     }
 
     const folderData = folderDoc.data();
-    if (folderData.userId !== req.user.uid) {
+    if (!hasFolderRole(getFolderRole(folderData, req.user), 'editor')) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
@@ -210,10 +309,13 @@ router.post('/:id/cards', [
     }
 
     await folderRef.update({
-      cardIds: admin.firestore.FieldValue.arrayUnion(cardId),
-      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+      cardIds: FieldValue.arrayUnion(cardId),
+      [`cardOwners.${cardId}`]: getCardOwner(req.user),
+      updatedAt: FieldValue.serverTimestamp()
     });
 
+    await recordAudit(req, 'folder.card_add', { cardId, folderId });
+
     logger.info(`User ${req.user.uid} added card ${cardId} to folder ${folderId}`);
     res.json({ message: 'Card added to folder successfully' });
   } catch (error) {
@@ -222,6 +324,122 @@ router.post('/:id/cards', [
   }
 });
 
+/**
+ * POST /api/sharefolders/:id/cards/batch
+ * Add and/or remove several cards in one transaction
+ * Body: { add: [cardId], remove: [cardId] }
+ * Returns per-card results: [{ cardId, action, success, error }]
+ */
+router.post('/:id/cards/batch', [
+  verifyAuth,
+  body('add').optional().isArray({ max: MAX_BATCH_SIZE }).withMessage(`add must contain at most ${MAX_BATCH_SIZE} card IDs`),
+  body('remove').optional().isArray({ max: MAX_BATCH_SIZE }).withMessage(`remove must contain at most ${MAX_BATCH_SIZE} card IDs`)
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const folderId = req.params.id;
+    const add = req.body.add || [];
+    const remove = req.body.remove || [];
+
+    if (add.length === 0 && remove.length === 0) {
+      return res.status(400).json({ error: 'Nothing to update', message: 'Provide card IDs to add or remove.' });
+    }
+
+    const folderRef = db.collection('shareFolders').doc(folderId);
+    const addIds = add.filter(cardId => typeof cardId === 'string' && cardId);
+
+    // Read and write the folder in one transaction, so concurrent updates
+    // retry instead of overwriting each other's adds and removes
+    const outcome = await db.runTransaction(async (transaction) => {
+      const folderDoc = await transaction.get(folderRef);
+      if (!folderDoc.exists) {
+        return { status: 404, error: 'Share folder not found' };
+      }
+
+      const folderData = folderDoc.data();
+      if (!hasFolderRole(getFolderRole(folderData, req.user), 'editor')) {
+        return { status: 403, error: 'Access denied' };
+      }
+
+      const cardIds = new Set(folderData.cardIds || []);
+      const cardOwners = { ...(folderData.cardOwners || {}) };
+      const results = [];
+
+      // Verify cards being added exist and belong to the user
+      const cardDocs = addIds.length > 0
+        ? await transaction.getAll(...addIds.map(cardId => db.collection('cards').doc(cardId)))
+        : [];
+      const cardsById = new Map(cardDocs.map(cardDoc => [cardDoc.id, cardDoc]));
+
+      add.forEach((cardId) => {
+        const cardDoc = cardsById.get(cardId);
+        if (!cardDoc || !cardDoc.exists) {
+          results.push({ cardId, action: 'add', success: false, error: 'Card not found' });
+        } else if (cardDoc.data().userId !== req.user.uid) {
+          results.push({ cardId, action: 'add', success: false, error: 'Access denied to card' });
+        } else if (cardIds.has(cardId)) {
+          results.push({ cardId, action: 'add', success: false, error: 'Card already in folder' });
+        } else {
+          cardIds.add(cardId);
+          cardOwners[cardId] = getCardOwner(req.user);
+          results.push({ cardId, action: 'add', success: true });
+        }
+      });
+
+      remove.forEach((cardId) => {
+        if (!cardIds.has(cardId)) {
+          results.push({ cardId, action: 'remove', success: false, error: 'Card not in folder' });
+        } else if (!canRemoveFolderCard(folderData, req.user, cardId)) {
+          results.push({ cardId, action: 'remove', success: false, error: 'You can only remove cards you added' });
+        } else {
+          cardIds.delete(cardId);
+          delete cardOwners[cardId];
+          results.push({ cardId, action: 'remove', success: true });
+        }
+      });
+
+      if (results.some(r => r.success)) {
+        transaction.update(folderRef, {
+          cardIds: Array.from(cardIds),
+          cardOwners,
+          updatedAt: FieldValue.serverTimestamp()
+        });
+      }
+
+      return { results, cardIds: Array.from(cardIds) };
+    });
+
+    if (outcome.error) {
+      return res.status(outcome.status).json({ error: outcome.error });
+    }
+
+    const { results, cardIds } = outcome;
+    const succeeded = results.filter(r => r.success).length;
+
+    await recordAuditEvents(req, results.filter(r => r.success).map(result => ({
+      action: result.action === 'add' ? 'folder.card_add' : 'folder.card_remove',
+      cardId: result.cardId,
+      folderId,
+      details: { batch: true }
+    })));
+
+    logger.info(`User ${req.user.uid} batch updated folder ${folderId}: ${succeeded}/${results.length} succeeded`);
+    res.json({
+      succeeded,
+      failed: results.length - succeeded,
+      cardIds,
+      results
+    });
+  } catch (error) {
+    logger.error('Error batch updating folder cards:', error);
+    res.status(500).json({ error: 'Failed to update folder cards' });
+  }
+});
+
 /**
  * DELETE /api/sharefolders/:id/cards/:cardId
  * Remove a card from share folder
@@ -238,15 +456,25 @@ router.delete('/:id/cards/:cardId', verifyAuth, async (req, res) => {
     }
 
     const folderData = folderDoc.data();
-    if (folderData.userId !== req.user.uid) {
+    if (!hasFolderRole(getFolderRole(folderData, req.user), 'editor')) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
+    if (!canRemoveFolderCard(folderData, req.user, cardId)) {
+      return res.status(403).json({
+        error: 'Access denied',
+        message: 'Editors can only remove cards they added.'
+      });
+    }
+
     await folderRef.update({
-      cardIds: admin.firestore.FieldValue.arrayRemove(cardId),
-      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+      cardIds: FieldValue.arrayRemove(cardId),
+      [`cardOwners.${cardId}`]: FieldValue.delete(),
+      updatedAt: FieldValue.serverTimestamp()
     });
 
+    await recordAudit(req, 'folder.card_remove', { cardId, folderId });
+
     logger.info(`User ${req.user.uid} removed card ${cardId} from folder ${folderId}`);
     res.json({ message: 'Card removed from folder successfully' });
   } catch (error) {
@@ -255,13 +483,243 @@ router.delete('/:id/cards/:cardId', verifyAuth, async (req, res) => {
   }
 });
 
+/**
+ * POST /api/sharefolders/:id/members
+ * Add a member to a folder by email
+ * Body: { email, role: 'viewer' | 'editor' | 'owner' (default 'viewer') }
+ * Only the folder's creator can add owners.
+ */
+router.post('/:id/members', [
+  verifyAuth,
+  body('email').isEmail().withMessage('A valid email address is required'),
+  body('role').optional().isIn(FOLDER_ROLES).withMessage(`role must be one of: ${FOLDER_ROLES.join(', ')}`)
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const folderId = req.params.id;
+    const email = req.body.email.trim().toLowerCase();
+    const role = req.body.role || 'viewer';
+
+    const folderRef = db.collection('shareFolders').doc(folderId);
+
+    // Read and write the member list in one transaction, so concurrent
+    // member changes retry instead of overwriting each other
+    const outcome = await db.runTransaction(async (transaction) => {
+      const folderDoc = await transaction.get(folderRef);
+      if (!folderDoc.exists) {
+        return { status: 404, error: 'Share folder not found' };
+      }
+
+      const folderData = folderDoc.data();
+      if (!hasFolderRole(getFolderRole(folderData, req.user), 'owner')) {
+        return { status: 403, error: 'Access denied' };
+      }
+      if (!canManageFolderMember(folderData, req.user, role)) {
+        return { status: 403, error: 'Only the folder creator can add owners' };
+      }
+
+      if (email === req.user.email?.toLowerCase()) {
+        return { status: 400, error: 'You cannot add yourself to a folder' };
+      }
+      if (email === folderData.ownerEmail?.toLowerCase()) {
+        return { status: 400, error: 'The folder owner is already a member' };
+      }
+
+      const recipientEmails = folderData.recipientEmails || [];
+      if (recipientEmails.includes(email)) {
+        return { status: 409, error: 'Already a member', message: 'Change their role instead.' };
+      }
+      if (recipientEmails.length >= MAX_MEMBERS) {
+        return { status: 400, error: `A folder can be shared with at most ${MAX_MEMBERS} people` };
+      }
+
+      const memberRoles = { ...(folderData.memberRoles || {}), [email]: role };
+      transaction.update(folderRef, {
+        recipientEmails: [...recipientEmails, email],
+        memberRoles,
+        // Folders created before ownerEmail was stored pick it up here
+        ...(folderData.userId === req.user.uid && { ownerEmail: req.user.email || null }),
+        updatedAt: FieldValue.serverTimestamp()
+      });
+
+      return { members: getFolderMembers({ recipientEmails: [...recipientEmails, email], memberRoles }) };
+    });
+
+    if (outcome.error) {
+      return res.status(outcome.status).json({ error: outcome.error, ...(outcome.message && { message: outcome.message }) });
+    }
+
+    await recordAudit(req, 'folder.member_add', { folderId, details: { role } });
+
+    logger.info(`User ${req.user.uid} added a ${role} to folder ${folderId}`);
+    res.json({
+      members: outcome.members,
+      message: 'Member added successfully'
+    });
+  } catch (error) {
+    logger.error('Error adding folder member:', error);
+    res.status(500).json({ error: 'Failed to add member' });
+  }
+});
+
+/**
+ * PUT /api/sharefolders/:id/members/:email
+ * Change a member's role
+ * Body: { role: 'viewer' | 'editor' | 'owner' }
+ * Only the folder's creator can make someone an owner or change an owner's role.
+ */
+router.put('/:id/members/:email', [
+  verifyAuth,
+  body('role').isIn(FOLDER_ROLES).withMessage(`role must be one of: ${FOLDER_ROLES.join(', ')}`)
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const folderId = req.params.id;
+    const email = req.params.email.trim().toLowerCase();
+    const { role } = req.body;
+
+    const folderRef = db.collection('shareFolders').doc(folderId);
+    const outcome = await db.runTransaction(async (transaction) => {
+      const folderDoc = await transaction.get(folderRef);
+      if (!folderDoc.exists) {
+        return { status: 404, error: 'Share folder not found' };
+      }
+
+      const folderData = folderDoc.data();
+      if (!hasFolderRole(getFolderRole(folderData, req.user), 'owner')) {
+        return { status: 403, error: 'Access denied' };
+      }
+
+      const members = getFolderMembers(folderData);
+      const member = members.find(candidate => candidate.email === email);
+      if (!member) {
+        return { status: 404, error: 'Member not found' };
+      }
+      if (!canManageFolderMember(folderData, req.user, member.role) || !canManageFolderMember(folderData, req.user, role)) {
+        return { status: 403, error: 'Only the folder creator can manage owners' };
+      }
+
+      const memberRoles = { ...(folderData.memberRoles || {}), [email]: role };
+      transaction.update(folderRef, {
+        memberRoles,
+        updatedAt: FieldValue.serverTimestamp()
+      });
+
+      return { members: getFolderMembers({ ...folderData, memberRoles }) };
+    });
+
+    if (outcome.error) {
+      return res.status(outcome.status).json({ error: outcome.error });
+    }
+
+    await recordAudit(req, 'folder.member_role', { folderId, details: { role } });
+
+    logger.info(`User ${req.user.uid} changed a member of folder ${folderId} to ${role}`);
+    res.json({
+      members: outcome.members,
+      message: 'Member role updated successfully'
+    });
+  } catch (error) {
+    logger.error('Error updating folder member:', error);
+    res.status(500).json({ error: 'Failed to update member' });
+  }
+});
+
+/**
+ * DELETE /api/sharefolders/:id/members/:email
+ * Remove a member from a folder, or leave it when the email is the caller's own
+ * The cards the member added are taken out of the folder with them. Only the
+ * folder's creator can remove an owner.
+ */
+router.delete('/:id/members/:email', verifyAuth, async (req, res) => {
+  try {
+    const folderId = req.params.id;
+    const email = req.params.email.trim().toLowerCase();
+
+    const folderRef = db.collection('shareFolders').doc(folderId);
+    const outcome = await db.runTransaction(async (transaction) => {
+      const folderDoc = await transaction.get(folderRef);
+      if (!folderDoc.exists) {
+        return { status: 404, error: 'Share folder not found' };
+      }
+
+      const folderData = folderDoc.data();
+      const role = getFolderRole(folderData, req.user);
+      const isLeaving = !!role && email === req.user.email?.toLowerCase();
+      if (!isLeaving && !hasFolderRole(role, 'owner')) {
+        return { status: 403, error: 'Access denied' };
+      }
+
+      const member = getFolderMembers(folderData).find(candidate => candidate.email === email);
+      if (!member) {
+        return { status: 404, error: 'Member not found' };
+      }
+      if (!isLeaving && !canManageFolderMember(folderData, req.user, member.role)) {
+        return { status: 403, error: 'Only the folder creator can remove owners' };
+      }
+
+      const recipientEmails = (folderData.recipientEmails || []).filter(candidate => candidate !== email);
+      const memberRoles = { ...(folderData.memberRoles || {}) };
+      delete memberRoles[email];
+
+      const cardOwners = { ...(folderData.cardOwners || {}) };
+      const memberCardIds = Object.keys(cardOwners).filter(cardId => cardOwners[cardId]?.email === email);
+      memberCardIds.forEach(cardId => delete cardOwners[cardId]);
+
+      transaction.update(folderRef, {
+        recipientEmails,
+        memberRoles,
+        cardOwners,
+        cardIds: (folderData.cardIds || []).filter(cardId => !memberCardIds.includes(cardId)),
+        updatedAt: FieldValue.serverTimestamp()
+      });
+
+      return { isLeaving, memberCardIds, members: getFolderMembers({ recipientEmails, memberRoles }) };
+    });
+
+    if (outcome.error) {
+      return res.status(outcome.status).json({ error: outcome.error });
+    }
+
+    const { isLeaving, memberCardIds } = outcome;
+    await recordAudit(req, isLeaving ? 'folder.leave' : 'folder.member_remove', {
+      folderId,
+      details: { removedCards: memberCardIds.length }
+    });
+
+    logger.info(`User ${req.user.uid} ${isLeaving ? 'left' : 'removed a member from'} folder ${folderId}`);
+    res.json({
+      members: outcome.members,
+      removedCardIds: memberCardIds,
+      message: isLeaving ? 'You left the folder' : 'Member removed successfully'
+    });
+  } catch (error) {
+    logger.error('Error removing folder member:', error);
+    res.status(500).json({ error: 'Failed to remove member' });
+  }
+});
+
 /**
  * POST /api/sharefolders/:id/share
  * Generate public share link for folder
  */
 router.post('/:id/share', [
   verifyAuth,
-  body('expiresIn').optional().isString().withMessage('expiresIn must be string (e.g., "24h", "30d", "never")')
+  body('expiresIn').optional().isString().withMessage('expiresIn must be string (e.g., "24h", "30d", "never")'),
+  body('passcode').optional({ values: 'falsy' }).isString().isLength({ min: 4, max: 64 })
+    .withMessage('Passcode must be 4-64 characters'),
+  body('maxViews').optional({ values: 'null' }).isInt({ min: 1, max: MAX_VIEWS_LIMIT })
+    .withMessage(`maxViews must be between 1 and ${MAX_VIEWS_LIMIT}`),
+  body('redaction').optional().custom(isValidRedaction)
+    .withMessage('redaction must map cardNumber to reveal/mask/omit, cardHolderName/expiryDate/cvv to reveal/omit and images to a boolean')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -270,7 +728,9 @@ router.post('/:id/share', [
     }
 
     const folderId = req.params.id;
-    const { expiresIn = 'never' } = req.body;
+    const { expiresIn = 'never', passcode } = req.body;
+    const redaction = normalizeRedaction(req.body.redaction);
+    const maxViews = parseMaxViews(req.body.maxViews);
 
     const folderRef = db.collection('shareFolders').doc(folderId);
     const folderDoc = await folderRef.get();
@@ -280,7 +740,7 @@ router.post('/:id/share', [
     }
 
     const folderData = folderDoc.data();
-    if (folderData.userId !== req.user.uid) {
+    if (!hasFolderRole(getFolderRole(folderData, req.user), 'owner')) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
@@ -293,7 +753,10 @@ router.post('/:id/share', [
     const shareToken = generateShareToken();
     const expiresAt = calculateExpiry(expiresIn);
     const now = new Date(); // Use regular Date for history entries
-    const timestampNow = admin.firestore.FieldValue.serverTimestamp(); // Use sentinel for Firestore fields
+    const timestampNow = FieldValue.serverTimestamp(); // Use sentinel for Firestore fields
+
+    // Only the hash is stored; failed attempts reset with each new link
+    const passcodeHash = passcode ? await hashPasscode(passcode) : null;
 
     // Create share history entry
     const shareHistoryEntry = {
@@ -301,7 +764,10 @@ router.post('/:id/share', [
       expiresAt: expiresAt || null,
       createdAt: now,
       isActive: true,
-      revokedAt: null
+      revokedAt: null,
+      passcodeProtected: !!passcodeHash,
+      redaction,
+      maxViews
     };
 
     // Get existing share history or initialize
@@ -323,16 +789,32 @@ router.post('/:id/share', [
       expiresAt: expiresAt || null,
       sharedAt: timestampNow,
       updatedAt: timestampNow,
-      shareHistory: updatedHistory
+      shareHistory: updatedHistory,
+      passcodeHash,
+      passcodeFailures: 0,
+      passcodeLockedAt: null,
+      maxViews,
+      viewCount: 0,
+      viewLimitReachedAt: null,
+      // Signs image grants for view-limited links, so the last view's images still load briefly after it revokes the link
+      accessSecret: maxViews ? crypto.randomBytes(32).toString('hex') : null
     });
 
     const shareUrl = `${SHARE_BASE_URL}/shared/${shareToken}`;
 
+    await recordAudit(req, 'share.link_create', {
+      folderId,
+      details: { expiresIn, passcodeProtected: !!passcodeHash, maxViews }
+    });
+
     logger.info(`User ${req.user.uid} generated share link for folder ${folderId}`);
     res.json({
       shareToken,
       shareUrl,
       expiresAt: expiresAt ? expiresAt.toISOString() : null,
+      passcodeProtected: !!passcodeHash,
+      redaction,
+      maxViews,
       message: 'Share link generated successfully'
     });
   } catch (error) {
@@ -357,7 +839,7 @@ router.delete('/:id/share', verifyAuth, async (req, res) => {
     }
 
     const folderData = folderDoc.data();
-    if (folderData.userId !== req.user.uid) {
+    if (!hasFolderRole(getFolderRole(folderData, req.user), 'owner')) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
@@ -366,7 +848,7 @@ router.delete('/:id/share', verifyAuth, async (req, res) => {
     }
 
     const now = new Date(); // Use regular Date for history entries
-    const timestampNow = admin.firestore.FieldValue.serverTimestamp(); // Use sentinel for Firestore fields
+    const timestampNow = FieldValue.serverTimestamp(); // Use sentinel for Firestore fields
     
     // Update share history to mark current link as revoked
     const shareHistory = folderData.shareHistory || [];
@@ -389,6 +871,8 @@ router.delete('/:id/share', verifyAuth, async (req, res) => {
       shareHistory: updatedHistory
     });
 
+    await recordAudit(req, 'share.link_revoke', { folderId });
+
     logger.info(`User ${req.user.uid} revoked share link for folder ${folderId}`);
     res.json({ message: 'Share link revoked successfully. You can create a new one.' });
   } catch (error) {
@@ -413,11 +897,12 @@ router.get('/:id/history', verifyAuth, async (req, res) => {
     }
 
     const folderData = folderDoc.data();
-    if (folderData.userId !== req.user.uid) {
+    if (!hasFolderRole(getFolderRole(folderData, req.user), 'owner')) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
     const shareHistory = folderData.shareHistory || [];
+    const accessStats = folderData.accessStats || {};
     
     // Convert timestamps and format for frontend
     const formattedHistory = shareHistory.map(entry => ({
@@ -426,7 +911,14 @@ router.get('/:id/history', verifyAuth, async (req, res) => {
       createdAt: entry.createdAt?.toDate ? entry.createdAt.toDate().toISOString() : entry.createdAt,
       expiresAt: entry.expiresAt?.toDate ? entry.expiresAt.toDate().toISOString() : entry.expiresAt,
       revokedAt: entry.revokedAt?.toDate ? entry.revokedAt.toDate().toISOString() : entry.revokedAt,
-      isActive: entry.isActive
+      revokedReason: entry.revokedReason || null,
+      isActive: entry.isActive,
+      maxViews: entry.maxViews || null,
+      passcodeProtected: !!entry.passcodeProtected,
+      redaction: normalizeRedaction(entry.redaction),
+      views: accessStats[entry.shareToken]?.views || 0,
+      imageViews: accessStats[entry.shareToken]?.imageViews || 0,
+      lastAccessedAt: accessStats[entry.shareToken]?.lastAccessedAt?.toDate().toISOString() || null
     })).sort((a, b) => {
       // Sort by creation date, newest first
       const dateA = new Date(a.createdAt).getTime();
@@ -442,8 +934,317 @@ router.get('/:id/history', verifyAuth, async (req, res) => {
   }
 });
 
+/**
+ * GET /api/sharefolders/:id/access
+ * Get the most recent public accesses to a folder's share links
+ */
+router.get('/:id/access', verifyAuth, async (req, res) => {
+  try {
+    const folderId = req.params.id;
+
+    const folderRef = db.collection('shareFolders').doc(folderId);
+    const folderDoc = await folderRef.get();
+
+    if (!folderDoc.exists) {
+      return res.status(404).json({ error: 'Share folder not found' });
+    }
+
+    if (!hasFolderRole(getFolderRole(folderDoc.data(), req.user), 'owner')) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const snapshot = await folderRef.collection(ACCESS_LOG_COLLECTION)
+      .orderBy('accessedAt', 'desc')
+      .limit(ACCESS_LOG_LIMIT)
+      .get();
+
+    const events = snapshot.docs.map(doc => {
+      const event = doc.data();
+      return {
+        id: doc.id,
+        shareToken: event.shareToken,
+        type: event.type,
+        cardIds: event.cardIds || [],
+        ipHash: event.ipHash || null,
+        userAgent: event.userAgent || 'Unknown',
+        accessedAt: event.accessedAt?.toDate ? event.accessedAt.toDate().toISOString() : null
+      };
+    });
+
+    logger.info(`User ${req.user.uid} retrieved access log for folder ${folderId}`);
+    res.json({ events });
+  } catch (error) {
+    logger.error('Error fetching share access log:', error);
+    res.status(500).json({ error: 'Failed to fetch access log' });
+  }
+});
+
 // ==================== PUBLIC ENDPOINTS (No Authentication) ====================
 
+/**
+ * Load, decrypt and redact the cards of a shared folder
+ * @param {string[]} cardIds - Cards in the folder
+ * @param {Object} redaction - Complete redaction policy
+ * @param {Function} getServedImageUrl - Builds the URL serving a card's image from storage
+ * @returns {Promise<Object[]>} Cards safe to return to the viewer
+ */
+const loadSharedCards = async (cardIds, redaction, getServedImageUrl) => {
+  // Fetch cards in chunks of the 'in' filter limit (decrypt if encrypted)
+  const cardDocs = [];
+  for (let i = 0; i < cardIds.length; i += CARD_QUERY_CHUNK) {
+    const snapshot = await db.collection('cards')
+      .where(FieldPath.documentId(), 'in', cardIds.slice(i, i + CARD_QUERY_CHUNK))
+      .get();
+    cardDocs.push(...snapshot.docs);
+  }
+
+  const cards = await Promise.all(cardDocs.map(async (doc) => {
+    let cardData = doc.data();
+
+    // Decrypt card data if encryption is enabled
+    // Always try to decrypt if encryption is enabled - decryptCardData checks individual field flags
+    if (ENCRYPTION_ENABLED) {
+      try {
+        // Log before decryption (check if fields are encrypted)
+        const hasEncryptedFields = cardData.cardNumber_encrypted || cardData.cvv_encrypted || cardData.expiryDate_encrypted;
+        if (hasEncryptedFields) {
+          logger.info(`Decrypting card ${doc.id} for share (has encrypted fields)`);
+        }
+
+        cardData = await decryptCardData(cardData);
+
+        // Log after decryption (verify fields are now readable)
+        if (hasEncryptedFields) {
+          logger.info(`Card ${doc.id} decrypted successfully - cardNumber length: ${cardData.cardNumber?.length || 0}`);
+        }
+      } catch (error) {
+        logger.error(`Failed to decrypt card ${doc.id} for share:`, error);
+        // Continue with partially decrypted data rather than skipping the card
+        cardData = stripBlindIndexes(cardData);
+      }
+    } else {
+      logger.warn('ENCRYPTION_ENABLED is false - cards will not be decrypted');
+    }
+
+    // Construct image URL - encrypted images and storage paths are served by the image endpoint
+    let imageUrl = redaction.images ? cardData.imageUrl || null : null;
+    if (imageUrl && (cardData.imageEncrypted || isStoragePath(imageUrl))) {
+      imageUrl = getServedImageUrl(doc.id);
+    }
+
+    // Return card data with the redaction policy applied
+    return {
+      id: doc.id,
+      type: cardData.type,
+      cardName: cardData.cardName || null,
+      cardNumber: redactField('cardNumber', cardData.cardNumber, cardData.type, redaction),
+      cardHolderName: redactField('cardHolderName', cardData.cardHolderName, cardData.type, redaction),
+      expiryDate: redactField('expiryDate', cardData.expiryDate, cardData.type, redaction),
+      cvv: redactField('cvv', cardData.cvv, cardData.type, redaction),
+      bank: cardData.bank || null,
+      imageUrl: imageUrl,
+      imageEncrypted: redaction.images ? cardData.imageEncrypted || false : false,
+      // Don't expose: userId, encrypted flag, timestamps
+    };
+  }));
+
+  // Filter out any null cards (failed decryption)
+  return cards.filter(card => card !== null);
+};
+
+const SHARE_LOCKED_RESPONSE = {
+  error: 'Share link locked',
+  message: 'This share link was locked after too many incorrect passcodes. Ask the owner for a new link.'
+};
+
+const VIEW_LIMIT_RESPONSE = {
+  error: 'Share link already viewed',
+  message: 'This share link has already been opened the maximum number of times.',
+  viewLimitReached: true
+};
+
+/**
+ * Check whether a token belongs to a link revoked by reaching its view limit
+ */
+const isViewLimitRevoked = async (token) => {
+  const snapshot = await db.collection('shareFolders')
+    .where('shareToken', '==', token)
+    .limit(1)
+    .get();
+
+  if (snapshot.empty) return false;
+  const folderData = snapshot.docs[0].data();
+  return !folderData.isPublic && !!folderData.viewLimitReachedAt;
+};
+
+/**
+ * Check whether a link revoked by its view limit is still within the window in
+ * which the last view's images may load. Image access tokens outlive it, so
+ * this is what stops them working after revocation.
+ */
+const isInViewLimitGrace = (folderData) => {
+  const reachedAt = folderData.viewLimitReachedAt;
+  return !!reachedAt && Date.now() - reachedAt.toMillis() <= VIEW_LIMIT_IMAGE_GRACE_MS;
+};
+
+/**
+ * Count one view of a view-limited link, revoking it on the last allowed view
+ * @returns {Promise<number|null>} Views remaining, or null if none were left
+ */
+const consumeShareView = (folderRef, token) => db.runTransaction(async (transaction) => {
+  const current = (await transaction.get(folderRef)).data();
+  if (!current.isPublic || current.shareToken !== token) {
+    return null;
+  }
+
+  const viewCount = (current.viewCount || 0) + 1;
+  if (viewCount > current.maxViews) {
+    return null;
+  }
+
+  const update = { viewCount };
+  if (viewCount >= current.maxViews) {
+    const now = new Date();
+    const timestampNow = FieldValue.serverTimestamp();
+    Object.assign(update, {
+      isPublic: false,
+      revokedAt: timestampNow,
+      viewLimitReachedAt: timestampNow,
+      updatedAt: timestampNow,
+      shareHistory: (current.shareHistory || []).map(entry => (
+        entry.isActive && entry.shareToken === token
+          ? { ...entry, isActive: false, revokedAt: now, revokedReason: 'view_limit' }
+          : entry
+      ))
+    });
+  }
+
+  transaction.update(folderRef, update);
+  return current.maxViews - viewCount;
+});
+
+/**
+ * Reject requests to a passcode-protected share without a valid access token
+ * @returns {boolean} True if a response was sent
+ */
+const rejectLockedOrUnverified = (res, token, folderData, accessToken) => {
+  if (!folderData.passcodeHash) {
+    return false;
+  }
+
+  if (folderData.passcodeLockedAt) {
+    res.status(423).json(SHARE_LOCKED_RESPONSE);
+    return true;
+  }
+
+  if (!verifyAccessToken(accessToken, token, folderData.passcodeHash)) {
+    res.status(401).json({
+      error: 'Passcode required',
+      message: 'Enter the passcode for this share link.',
+      passcodeRequired: true
+    });
+    return true;
+  }
+
+  return false;
+};
+
+/**
+ * POST /api/sharefolders/public/:token/unlock
+ * Exchange a share passcode for a short-lived access token (PUBLIC)
+ */
+router.post('/public/:token/unlock', [
+  sharePasscodeLimiter,
+  body('passcode').isString().notEmpty().withMessage('Passcode is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { token } = req.params;
+
+    const snapshot = await db.collection('shareFolders')
+      .where('shareToken', '==', token)
+      .where('isPublic', '==', true)
+      .limit(1)
+      .get();
+
+    if (snapshot.empty) {
+      if (await isViewLimitRevoked(token)) {
+        return res.status(410).json(VIEW_LIMIT_RESPONSE);
+      }
+      return res.status(404).json({
+        error: 'Share link not found or has been revoked',
+        message: 'This share link may have expired or been disabled by the owner.'
+      });
+    }
+
+    const folderRef = snapshot.docs[0].ref;
+    const folderData = snapshot.docs[0].data();
+
+    if (folderData.expiresAt && isExpired(folderData.expiresAt)) {
+      return res.status(410).json({
+        error: 'Share link has expired',
+        message: 'This share link is no longer valid.'
+      });
+    }
+
+    if (!folderData.passcodeHash) {
+      return res.status(400).json({ error: 'This share link does not require a passcode' });
+    }
+
+    if (folderData.passcodeLockedAt) {
+      return res.status(423).json(SHARE_LOCKED_RESPONSE);
+    }
+
+    if (!(await verifyPasscode(req.body.passcode, folderData.passcodeHash))) {
+      // Count the failure atomically so parallel guesses can't overshoot the limit
+      const failures = await db.runTransaction(async (transaction) => {
+        const current = await transaction.get(folderRef);
+        const count = (current.data().passcodeFailures || 0) + 1;
+        transaction.update(folderRef, {
+          passcodeFailures: count,
+          ...(count >= MAX_PASSCODE_ATTEMPTS && {
+            passcodeLockedAt: FieldValue.serverTimestamp()
+          })
+        });
+        return count;
+      });
+
+      await recordShareAccess(folderRef, token, req, { type: 'unlock_failed' });
+
+      const attemptsRemaining = Math.max(MAX_PASSCODE_ATTEMPTS - failures, 0);
+      logger.warn(`Incorrect passcode for share token ${token} (${failures}/${MAX_PASSCODE_ATTEMPTS})`);
+
+      if (attemptsRemaining === 0) {
+        return res.status(423).json(SHARE_LOCKED_RESPONSE);
+      }
+
+      return res.status(401).json({
+        error: 'Incorrect passcode',
+        message: `Incorrect passcode. ${attemptsRemaining} attempt${attemptsRemaining === 1 ? '' : 's'} remaining.`,
+        attemptsRemaining
+      });
+    }
+
+    if (folderData.passcodeFailures) {
+      await folderRef.update({ passcodeFailures: 0 });
+    }
+
+    await recordShareAccess(folderRef, token, req, { type: 'unlock' });
+
+    const { accessToken, expiresAt } = createAccessToken(token, folderData.passcodeHash);
+
+    logger.info(`Share link unlocked: ${token}`);
+    res.json({ accessToken, expiresAt: expiresAt.toISOString() });
+  } catch (error) {
+    logger.error('Error unlocking share link:', error);
+    res.status(500).json({ error: 'Failed to verify passcode' });
+  }
+});
+
 /**
  * GET /api/sharefolders/public/:token
  * View shared folder by token (PUBLIC - No authentication required)
@@ -460,6 +1261,9 @@ router.get('/public/:token', async (req, res) => {
       .get();
 
     if (snapshot.empty) {
+      if (await isViewLimitRevoked(token)) {
+        return res.status(410).json(VIEW_LIMIT_RESPONSE);
+      }
       logger.warn(`Invalid or revoked share token accessed: ${token}`);
       return res.status(404).json({ 
         error: 'Share link not found or has been revoked',
@@ -479,78 +1283,50 @@ router.get('/public/:token', async (req, res) => {
       });
     }
 
-    // Fetch all cards in the folder
-    const cardIds = folderData.cardIds || [];
-    if (cardIds.length === 0) {
-      return res.json({
-        folder: {
-          name: folderData.name,
-          description: folderData.description,
-          cardCount: 0
-        },
-        cards: []
-      });
+    // Passcode-protected links need the access token from /unlock
+    const accessToken = req.get('X-Share-Access');
+    if (rejectLockedOrUnverified(res, token, folderData, accessToken)) {
+      return;
     }
 
-    // Fetch cards (decrypt if encrypted)
-    const cardsSnapshot = await db.collection('cards')
-      .where(admin.firestore.FieldPath.documentId(), 'in', cardIds)
-      .get();
+    // View-limited links are checked here but counted only once the cards have
+    // loaded, so a failed load doesn't use up a view
+    if (folderData.maxViews && (folderData.viewCount || 0) >= folderData.maxViews) {
+      logger.warn(`View limit reached for share token: ${token}`);
+      return res.status(410).json(VIEW_LIMIT_RESPONSE);
+    }
 
-    const cards = await Promise.all(cardsSnapshot.docs.map(async (doc) => {
-      let cardData = doc.data();
-
-      // Decrypt card data if encryption is enabled
-      // Always try to decrypt if encryption is enabled - decryptCardData checks individual field flags
-      if (ENCRYPTION_ENABLED) {
-        try {
-          // Log before decryption (check if fields are encrypted)
-          const hasEncryptedFields = cardData.cardNumber_encrypted || cardData.cvv_encrypted || cardData.expiryDate_encrypted;
-          if (hasEncryptedFields) {
-            logger.info(`Decrypting card ${doc.id} for public share (has encrypted fields)`);
-          }
-          
-          cardData = decryptCardData(cardData);
-          
-          // Log after decryption (verify fields are now readable)
-          if (hasEncryptedFields) {
-            logger.info(`Card ${doc.id} decrypted successfully - cardNumber length: ${cardData.cardNumber?.length || 0}`);
-          }
-        } catch (error) {
-          logger.error(`Failed to decrypt card ${doc.id} for public share:`, error);
-          // Continue with partially decrypted data rather than skipping the card
-        }
-      } else {
-        logger.warn('ENCRYPTION_ENABLED is false - cards will not be decrypted');
-      }
+    // <img> requests can't send headers, so image URLs carry an access token
+    const imageAccess = folderData.passcodeHash
+      ? accessToken
+      : folderData.maxViews ? createAccessToken(token, folderData.accessSecret).accessToken : null;
 
-      // Construct image URL - use decryption endpoint if image is encrypted
-      let imageUrl = cardData.imageUrl || null;
-      if (imageUrl && cardData.imageEncrypted) {
-        // Use our public decryption endpoint instead of direct storage URL
-        imageUrl = `${API_BASE_URL}/api/sharefolders/public/${token}/image/${doc.id}`;
-      }
+    // Fields are revealed, masked or omitted per the link's policy
+    const redaction = getShareRedaction(folderData, token);
 
-      // Return card data (including CVV as per user requirements)
-      return {
-        id: doc.id,
-        type: cardData.type,
-        cardName: cardData.cardName || null,
-        cardNumber: cardData.cardNumber || null,
-        cardHolderName: cardData.cardHolderName || null,
-        expiryDate: cardData.expiryDate || null,
-        cvv: cardData.cvv || null, // Include CVV as requested
-        bank: cardData.bank || null,
-        imageUrl: imageUrl,
-        imageEncrypted: cardData.imageEncrypted || false,
-        // Don't expose: userId, encrypted flag, timestamps
-      };
-    }));
+    // Fetch all cards in the folder
+    const cardIds = folderData.cardIds || [];
+    const validCards = cardIds.length === 0 ? [] : await loadSharedCards(cardIds, redaction, (cardId) => {
+      // Use our public decryption endpoint instead of direct storage URL
+      const url = `${API_BASE_URL}/api/sharefolders/public/${token}/image/${cardId}`;
+      return imageAccess ? `${url}?access=${encodeURIComponent(imageAccess)}` : url;
+    });
 
-    // Filter out any null cards (failed decryption)
-    const validCards = cards.filter(card => card !== null);
+    // Counted atomically, so parallel viewers can't go over the limit
+    let viewsRemaining = null;
+    if (folderData.maxViews) {
+      viewsRemaining = await consumeShareView(folderDoc.ref, token);
+      if (viewsRemaining === null) {
+        logger.warn(`View limit reached for share token: ${token}`);
+        return res.status(410).json(VIEW_LIMIT_RESPONSE);
+      }
+    }
 
     logger.info(`Public share accessed: ${token} (${validCards.length} cards)`);
+    await recordShareAccess(folderDoc.ref, token, req, {
+      type: 'view',
+      cardIds: validCards.map(card => card.id)
+    });
 
     res.json({
       folder: {
@@ -558,7 +1334,9 @@ router.get('/public/:token', async (req, res) => {
         description: folderData.description,
         cardCount: validCards.length
       },
-      cards: validCards
+      cards: validCards,
+      redaction,
+      viewsRemaining
     });
   } catch (error) {
     logger.error('Error fetching public share:', error);
@@ -577,26 +1355,38 @@ router.get('/public/:token/image/:cardId', async (req, res) => {
   try {
     const { token, cardId } = req.params;
 
-    // Find folder by share token
+    // Find folder by share token (a link revoked by its view limit stays readable
+    // briefly, for images loaded by the view that used it up)
     const snapshot = await db.collection('shareFolders')
       .where('shareToken', '==', token)
-      .where('isPublic', '==', true)
       .limit(1)
       .get();
 
-    if (snapshot.empty) {
+    const folderData = snapshot.empty ? null : snapshot.docs[0].data();
+    if (!folderData || (!folderData.isPublic && !isInViewLimitGrace(folderData))) {
       logger.warn(`Invalid share token for image request: ${token}`);
       return res.status(404).json({ error: 'Share link not found or has been revoked' });
     }
 
-    const folderData = snapshot.docs[0].data();
-
     // Check if share has expired
     if (folderData.expiresAt && isExpired(folderData.expiresAt)) {
       logger.warn(`Expired share token for image request: ${token}`);
       return res.status(410).json({ error: 'Share link has expired' });
     }
 
+    if (rejectLockedOrUnverified(res, token, folderData, req.query.access)) {
+      return;
+    }
+
+    if (folderData.maxViews && !folderData.passcodeHash &&
+        !verifyAccessToken(req.query.access, token, folderData.accessSecret)) {
+      return res.status(403).json({ error: 'Image access has expired. Open the share link again.' });
+    }
+
+    if (!getShareRedaction(folderData, token).images) {
+      return res.status(403).json({ error: 'Images are not shared by this link' });
+    }
+
     // Verify card is in the shared folder
     if (!folderData.cardIds || !folderData.cardIds.includes(cardId)) {
       logger.warn(`Card ${cardId} not in shared folder for token ${token}`);
@@ -616,9 +1406,25 @@ router.get('/public/:token/image/:cardId', async (req, res) => {
       return res.status(404).json({ error: 'Card has no image' });
     }
 
+    // Images in storage are only served from the card owner's own folder
+    if (isStoragePath(cardData.imageUrl) && !isOwnStoragePath(cardData.imageUrl, cardData.userId)) {
+      return res.status(403).json({ error: 'Image does not belong to this card\'s owner' });
+    }
+
+    // Unencrypted images uploaded through /api/images have no public URL, so stream them
+    if (!cardData.imageEncrypted && isStoragePath(cardData.imageUrl)) {
+      const { buffer, contentType } = await downloadStoredImage(getBucket(), cardData.imageUrl);
+      res.set('Content-Type', contentType);
+      res.set('Cache-Control', `${folderData.passcodeHash ? 'private' : 'public'}, max-age=3600`);
+      res.send(buffer);
+      await recordShareAccess(snapshot.docs[0].ref, token, req, { type: 'image', cardIds: [cardId] });
+      return;
+    }
+
     // If image is not encrypted, redirect to Firebase Storage URL
     if (!cardData.imageEncrypted) {
       logger.info(`Serving unencrypted image for shared card ${cardId}`);
+      await recordShareAccess(snapshot.docs[0].ref, token, req, { type: 'image', cardIds: [cardId] });
       return res.redirect(cardData.imageUrl);
     }
 
@@ -629,15 +1435,17 @@ router.get('/public/:token/image/:cardId', async (req, res) => {
         
         // Get bucket from storage
         const bucketName = process.env.FIREBASE_STORAGE_BUCKET;
-        const bucket = admin.storage().bucket(bucketName);
+        const bucket = getBucket(bucketName);
         
         // Get decrypted image buffer
-        const decryptedBuffer = await getDecryptedImageBuffer(bucket, cardData.imageUrl);
+        const decryptedBuffer = await getDecryptedImageBuffer(bucket, cardData.imageUrl, cardData.userId);
         
         // Serve as image with caching
         res.set('Content-Type', 'image/jpeg');
-        res.set('Cache-Control', 'public, max-age=3600'); // Cache for 1 hour (public share)
+        // Cache for 1 hour; passcode-protected shares stay out of shared caches
+        res.set('Cache-Control', `${folderData.passcodeHash ? 'private' : 'public'}, max-age=3600`);
         res.send(decryptedBuffer);
+        await recordShareAccess(snapshot.docs[0].ref, token, req, { type: 'image', cardIds: [cardId] });
         
         logger.info(`Shared image decrypted and served successfully for card ${cardId}`);
       } catch (decryptError) {
@@ -659,5 +1467,159 @@ router.get('/public/:token/image/:cardId', async (req, res) => {
   }
 });
 
+// ==================== SHARED WITH ME (Member access) ====================
+
+/**
+ * Load a folder the signed-in user is a member of
+ * Access is granted by verified email membership, not by share token.
+ * @returns {Promise<Object|null>} Folder doc, or null if a response was sent
+ */
+const getMemberFolder = async (req, res) => {
+  const folderDoc = await db.collection('shareFolders').doc(req.params.id).get();
+  if (folderDoc.exists && getFolderRole(folderDoc.data(), req.user)) {
+    return folderDoc;
+  }
+
+  if (!req.user.email_verified) {
+    res.status(403).json({
+      error: 'Email not verified',
+      message: 'Verify your email address to see folders shared with you.'
+    });
+    return null;
+  }
+
+  // Same response for missing and not-shared folders so IDs can't be probed
+  res.status(404).json({ error: 'Shared folder not found' });
+  return null;
+};
+
+/**
+ * GET /api/sharefolders/shared-with-me
+ * List folders other users have shared with the signed-in user's email
+ */
+router.get('/shared-with-me', verifyAuth, async (req, res) => {
+  try {
+    const email = req.user.email_verified ? req.user.email?.toLowerCase() : null;
+    if (!email) {
+      return res.json([]);
+    }
+
+    const snapshot = await db.collection('shareFolders')
+      .where('recipientEmails', 'array-contains', email)
+      .get();
+
+    const folders = snapshot.docs.map(doc => {
+      const folderData = doc.data();
+      return {
+        id: doc.id,
+        name: folderData.name,
+        description: folderData.description || '',
+        cardCount: (folderData.cardIds || []).length,
+        ownerEmail: folderData.ownerEmail || null,
+        role: getFolderRole(folderData, req.user),
+        updatedAt: folderData.updatedAt?.toDate ? folderData.updatedAt.toDate().toISOString() : null
+      };
+    });
+
+    logger.info(`User ${req.user.uid} retrieved ${folders.length} folders shared with them`);
+    res.json(folders);
+  } catch (error) {
+    logger.error('Error fetching folders shared with user:', error);
+    res.status(500).json({ error: 'Failed to fetch shared folders' });
+  }
+});
+
+/**
+ * GET /api/sharefolders/shared-with-me/:id
+ * View a folder shared with the signed-in user
+ */
+router.get('/shared-with-me/:id', verifyAuth, async (req, res) => {
+  try {
+    const folderDoc = await getMemberFolder(req, res);
+    if (!folderDoc) return;
+
+    const folderData = folderDoc.data();
+    const cardIds = folderData.cardIds || [];
+    const cards = cardIds.length === 0
+      ? []
+      : await loadSharedCards(cardIds, DEFAULT_REDACTION, (cardId) =>
+        `${API_BASE_URL}/api/sharefolders/shared-with-me/${folderDoc.id}/image/${cardId}`
+      );
+
+    await recordAudit(req, 'folder.view', { folderId: folderDoc.id, details: { cardCount: cards.length } });
+
+    logger.info(`User ${req.user.uid} viewed shared folder ${folderDoc.id} (${cards.length} cards)`);
+    res.json({
+      folder: {
+        name: folderData.name,
+        description: folderData.description,
+        cardCount: cards.length,
+        ownerEmail: folderData.ownerEmail || null,
+        role: getFolderRole(folderData, req.user)
+      },
+      cards
+    });
+  } catch (error) {
+    logger.error('Error fetching folder shared with user:', error);
+    res.status(500).json({ error: 'Failed to load shared folder' });
+  }
+});
+
+/**
+ * GET /api/sharefolders/shared-with-me/:id/image/:cardId
+ * Get decrypted image for a card in a folder shared with the signed-in user
+ */
+router.get('/shared-with-me/:id/image/:cardId', verifyAuth, async (req, res) => {
+  try {
+    const folderDoc = await getMemberFolder(req, res);
+    if (!folderDoc) return;
+
+    const { cardId } = req.params;
+    if (!(folderDoc.data().cardIds || []).includes(cardId)) {
+      return res.status(403).json({ error: 'Card not in shared folder' });
+    }
+
+    const cardDoc = await db.collection('cards').doc(cardId).get();
+    if (!cardDoc.exists || !cardDoc.data().imageUrl) {
+      return res.status(404).json({ error: 'Card has no image' });
+    }
+
+    const cardData = cardDoc.data();
+
+    if (isStoragePath(cardData.imageUrl) && !isOwnStoragePath(cardData.imageUrl, cardData.userId)) {
+      return res.status(403).json({ error: 'Image does not belong to this card\'s owner' });
+    }
+
+    // Unencrypted images uploaded through /api/images are streamed, others returned as their download URL
+    if (!cardData.imageEncrypted && isStoragePath(cardData.imageUrl)) {
+      const { buffer, contentType } = await downloadStoredImage(getBucket(), cardData.imageUrl);
+      res.set('Content-Type', contentType);
+      res.set('Cache-Control', 'private, max-age=3600');
+      return res.send(buffer);
+    }
+
+    if (!cardData.imageEncrypted) {
+      return res.json({ imageUrl: cardData.imageUrl });
+    }
+
+    if (!ENCRYPTION_ENABLED) {
+      return res.status(500).json({
+        error: 'Encryption not configured',
+        message: 'Image is encrypted but encryption key is not available.'
+      });
+    }
+
+    const bucket = getBucket();
+    const decryptedBuffer = await getDecryptedImageBuffer(bucket, cardData.imageUrl, cardData.userId);
+
+    res.set('Content-Type', 'image/jpeg');
+    res.set('Cache-Control', 'private, max-age=3600');
+    res.send(decryptedBuffer);
+  } catch (error) {
+    logger.error('Error serving image for folder shared with user:', error.message);
+    res.status(500).json({ error: 'Failed to retrieve image' });
+  }
+});
+
 module.exports = router;
 
@@ -0,0 +1,199 @@
+const express = require('express');
+const { getDb, verifyIdToken, FieldValue } = require('../storage');
+const { body, validationResult } = require('express-validator');
+const logger = require('../utils/secureLogger');
+const router = express.Router();
+
+const db = getDb();
+
+// Client-side vault ciphertext prefix (see client/src/utils/vaultCrypto.ts)
+const VAULT_CIPHERTEXT_PREFIX = 'zk1:';
+
+// How recently the user must have signed in to reset their lock passphrase
+const RECENT_SIGN_IN_SECONDS = 5 * 60;
+
+// Middleware to verify authentication
+const verifyAuth = async (req, res, next) => {
+  try {
+    const token = req.headers.authorization?.split('Bearer ')[1];
+    if (!token) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+    const decodedToken = await verifyIdToken(token);
+    req.user = decodedToken;
+    next();
+  } catch (error) {
+    res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+/**
+ * GET /api/vault
+ * Get the zero-knowledge vault settings for the authenticated user.
+ * The server only ever sees the KDF salt and an encrypted verifier,
+ * never the passphrase or the derived key.
+ */
+router.get('/', verifyAuth, async (req, res) => {
+  try {
+    const doc = await db.collection('vaults').doc(req.user.uid).get();
+    if (!doc.exists) {
+      return res.json({ enabled: false });
+    }
+
+    const data = doc.data();
+    res.json({
+      enabled: true,
+      salt: data.salt,
+      iterations: data.iterations,
+      verifier: data.verifier,
+      createdAt: data.createdAt?.toDate ? data.createdAt.toDate().toISOString() : null
+    });
+  } catch (error) {
+    logger.error('Error fetching vault settings:', error.message);
+    res.status(500).json({ error: 'Failed to fetch vault settings' });
+  }
+});
+
+/**
+ * PUT /api/vault
+ * Enable zero-knowledge vault mode for the authenticated user
+ */
+router.put('/', [
+  verifyAuth,
+  body('salt').isBase64().isLength({ min: 16, max: 64 }).withMessage('salt must be base64'),
+  body('iterations').isInt({ min: 100000, max: 5000000 }).withMessage('iterations must be between 100000 and 5000000'),
+  body('verifier').isString().isLength({ max: 512 }).custom((value) => value.startsWith(VAULT_CIPHERTEXT_PREFIX))
+    .withMessage('verifier must be vault ciphertext')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const vaultRef = db.collection('vaults').doc(req.user.uid);
+    const existing = await vaultRef.get();
+    if (existing.exists) {
+      return res.status(409).json({
+        error: 'Vault already configured',
+        message: 'Vault encryption is already enabled for this account.'
+      });
+    }
+
+    const { salt, iterations, verifier } = req.body;
+    await vaultRef.set({
+      salt,
+      iterations: parseInt(iterations, 10),
+      verifier,
+      createdAt: FieldValue.serverTimestamp()
+    });
+
+    logger.info(`User ${req.user.uid} enabled vault encryption`);
+    res.status(201).json({ enabled: true, salt, iterations: parseInt(iterations, 10), verifier });
+  } catch (error) {
+    logger.error('Error saving vault settings:', error.message);
+    res.status(500).json({ error: 'Failed to save vault settings' });
+  }
+});
+
+/**
+ * GET /api/vault/lock
+ * Get the lock passphrase settings of a user without vault encryption.
+ * Like the vault, only the KDF salt and an encrypted verifier are stored;
+ * the lock screen checks the passphrase in the browser.
+ */
+router.get('/lock', verifyAuth, async (req, res) => {
+  try {
+    const doc = await db.collection('vaultLocks').doc(req.user.uid).get();
+    if (!doc.exists) {
+      return res.json({ configured: false });
+    }
+
+    const data = doc.data();
+    res.json({
+      configured: true,
+      salt: data.salt,
+      iterations: data.iterations,
+      verifier: data.verifier
+    });
+  } catch (error) {
+    logger.error('Error fetching lock settings:', error.message);
+    res.status(500).json({ error: 'Failed to fetch lock settings' });
+  }
+});
+
+/**
+ * PUT /api/vault/lock
+ * Set the lock passphrase for the authenticated user
+ */
+router.put('/lock', [
+  verifyAuth,
+  body('salt').isBase64().isLength({ min: 16, max: 64 }).withMessage('salt must be base64'),
+  body('iterations').isInt({ min: 100000, max: 5000000 }).withMessage('iterations must be between 100000 and 5000000'),
+  body('verifier').isString().isLength({ max: 512 }).custom((value) => value.startsWith(VAULT_CIPHERTEXT_PREFIX))
+    .withMessage('verifier must be vault ciphertext')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const lockRef = db.collection('vaultLocks').doc(req.user.uid);
+    const existing = await lockRef.get();
+    if (existing.exists) {
+      return res.status(409).json({
+        error: 'Lock passphrase already set',
+        message: 'A lock passphrase is already set for this account.'
+      });
+    }
+
+    const { salt, iterations, verifier } = req.body;
+    await lockRef.set({
+      salt,
+      iterations: parseInt(iterations, 10),
+      verifier,
+      createdAt: FieldValue.serverTimestamp()
+    });
+
+    logger.info(`User ${req.user.uid} set a lock passphrase`);
+    res.status(201).json({ configured: true, salt, iterations: parseInt(iterations, 10), verifier });
+  } catch (error) {
+    logger.error('Error saving lock settings:', error.message);
+    res.status(500).json({ error: 'Failed to save lock settings' });
+  }
+});
+
+/**
+ * DELETE /api/vault/lock
+ * Remove a forgotten lock passphrase so a new one can be set
+ * Only accepted with a token from a sign-in in the last few minutes, so a
+ * session left open can't be used to skip the lock screen.
+ */
+router.delete('/lock', verifyAuth, async (req, res) => {
+  try {
+    const signedInAt = Number(req.user.auth_time) || 0;
+    if (Date.now() / 1000 - signedInAt > RECENT_SIGN_IN_SECONDS) {
+      return res.status(401).json({
+        error: 'Recent sign-in required',
+        message: 'Sign in again to reset your lock passphrase.'
+      });
+    }
+
+    const lockRef = db.collection('vaultLocks').doc(req.user.uid);
+    const existing = await lockRef.get();
+    if (!existing.exists) {
+      return res.status(404).json({ error: 'No lock passphrase set' });
+    }
+
+    await lockRef.delete();
+
+    logger.info(`User ${req.user.uid} reset their lock passphrase`);
+    res.json({ configured: false });
+  } catch (error) {
+    logger.error('Error resetting lock settings:', error.message);
+    res.status(500).json({ error: 'Failed to reset lock passphrase' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,141 @@
+/**
+ * Set the queryable expiresAt date on cards stored before it existed
+ *
+ * Usage: npm run backfill-expiry -- [--dry-run] [--batch-size=100]
+ *
+ * Expiry reminders only find cards with expiresAt, which is derived from the
+ * card's expiryDate on every write. This decrypts the expiryDate of each card
+ * on the server and stores the date it describes. Vault (client-encrypted)
+ * cards have their expiresAt cleared instead, since the server can't read
+ * their expiry and the client reminds about them itself.
+ *
+ * Cards are processed in document ID order. Running it again only touches
+ * cards whose expiresAt is missing or out of date. Cards whose expiryDate
+ * can't be decrypted are recorded and skipped. Exits with code 1 if any
+ * card failed.
+ *
+ * Uses the STORAGE_BACKEND the server does; tests require this file and call
+ * backfillCardExpiry() directly.
+ */
+
+require('dotenv').config();
+const { initializeStorage, getDb, FieldValue, FieldPath } = require('../storage');
+
+const { initializeKms } = require('../kms');
+const { resolveExpiresAt } = require('../utils/cardExpiry');
+const { decryptCardData } = require('../utils/encryption');
+
+const DEFAULT_BATCH_SIZE = 100;
+
+const parseArgs = (argv) => {
+  const batchArg = argv.find(arg => arg.startsWith('--batch-size='));
+  const batchSize = batchArg ? parseInt(batchArg.split('=')[1], 10) : DEFAULT_BATCH_SIZE;
+
+  if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > 500) {
+    throw new Error('--batch-size must be between 1 and 500');
+  }
+
+  return {
+    dryRun: argv.includes('--dry-run'),
+    batchSize
+  };
+};
+
+/**
+ * Work out a card's expiresAt from its stored expiryDate
+ * @returns {Promise<string|null>} ISO date, or null if the card has no readable expiry
+ * @throws {Error} If the stored expiryDate can't be decrypted
+ */
+const getCardExpiresAt = async (cardData) => {
+  if (!cardData.expiryDate) {
+    return null;
+  }
+
+  const { expiryDate } = await decryptCardData(cardData);
+  if (expiryDate === null) {
+    throw new Error('expiryDate could not be decrypted');
+  }
+  return resolveExpiresAt({ expiryDate }) || null;
+};
+
+/**
+ * Set or clear expiresAt on every card where it is missing or out of date
+ * @param {{dryRun?: boolean, batchSize?: number}} [options]
+ * @returns {Promise<Object>} Counts of processed, updated, cleared and failed cards
+ */
+const backfillCardExpiry = async ({ dryRun = false, batchSize = DEFAULT_BATCH_SIZE } = {}) => {
+  const db = getDb();
+  const progress = {
+    processedCards: 0,
+    updatedCards: 0,
+    clearedCards: 0,
+    failedCards: 0,
+    failures: []
+  };
+  let cursor = null;
+
+  console.log(`${dryRun ? '[dry run] ' : ''}Backfilling card expiry dates`);
+
+  for (;;) {
+    let query = db.collection('cards').orderBy(FieldPath.documentId()).limit(batchSize);
+    if (cursor) {
+      query = query.startAfter(cursor);
+    }
+    const snapshot = await query.get();
+    if (snapshot.empty) break;
+
+    for (const cardDoc of snapshot.docs) {
+      const cardData = cardDoc.data();
+      try {
+        const expiresAt = await getCardExpiresAt(cardData);
+        const current = cardData.expiresAt || null;
+        if (expiresAt !== current) {
+          if (!dryRun) {
+            // Fails if the card was edited since it was read, rather than overwriting the edit
+            await cardDoc.ref.update({
+              expiresAt: expiresAt || FieldValue.delete()
+            }, { lastUpdateTime: cardDoc.updateTime });
+          }
+          if (expiresAt) {
+            progress.updatedCards += 1;
+          } else {
+            progress.clearedCards += 1;
+          }
+        }
+      } catch (error) {
+        progress.failedCards += 1;
+        progress.failures.push({ cardId: cardDoc.id, error: error.message });
+        console.error(`  ✗ Card ${cardDoc.id}: ${error.message}`);
+      }
+      progress.processedCards += 1;
+      cursor = cardDoc.id;
+    }
+
+    console.log(`  ${progress.processedCards} cards processed · ${progress.updatedCards} dated · ${progress.clearedCards} cleared · ${progress.failedCards} failed`);
+
+    if (snapshot.size < batchSize) break;
+  }
+
+  console.log(`${dryRun ? '[dry run] ' : ''}Done: ${progress.processedCards} cards, ${progress.updatedCards} ${dryRun ? 'to date' : 'dated'}, ${progress.clearedCards} ${dryRun ? 'to clear' : 'cleared'}, ${progress.failedCards} failed`);
+
+  return progress;
+};
+
+if (require.main === module) {
+  Promise.resolve()
+    .then(() => {
+      const options = parseArgs(process.argv.slice(2));
+      initializeStorage();
+      initializeKms();
+      return backfillCardExpiry(options);
+    })
+    .then(progress => process.exit(progress.failedCards > 0 ? 1 : 0))
+    .catch(error => {
+      console.error('❌ Expiry backfill failed:', error.message);
+      process.exit(1);
+    });
+}
+
+module.exports = {
+  backfillCardExpiry
+};
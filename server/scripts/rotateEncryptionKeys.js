@@ -0,0 +1,180 @@
+/**
+ * Re-encrypt stored card fields and images under the active encryption key
+ *
+ * With KMS_PROVIDER set, the target is each card owner's data key instead, so
+ * this also migrates existing data to per-user envelope encryption. Owners
+ * without a data key get one created, even on a dry run.
+ *
+ * With BLIND_INDEX_KEY set, cards stored before blind indexes existed also get
+ * them, so their numbers become searchable. To add them after a completed
+ * rotation, run again with --restart.
+ *
+ * Usage: npm run rotate-keys -- [--dry-run] [--restart] [--batch-size=100]
+ *
+ * Cards are processed in document ID order and progress is saved to
+ * keyRotations/{target} (the active key ID, or "dataKeys") after every batch, so an interrupted run picks up
+ * where it stopped. Cards that fail are recorded and skipped; re-run with
+ * --restart once the cause is fixed (already rotated data is left untouched).
+ * Exits with code 1 if any card failed.
+ *
+ * Uses the STORAGE_BACKEND the server does; tests require this file and call
+ * rotateKeys() directly.
+ */
+
+require('dotenv').config();
+const { initializeStorage, getDb, getBucket, FieldValue, FieldPath } = require('../storage');
+
+const { initializeKms } = require('../kms');
+const { getActiveKey } = require('../utils/keyring');
+const { DATA_KEYS_COLLECTION, isEnvelopeEncryptionEnabled } = require('../utils/dataKeys');
+const { rotateCardData } = require('../utils/encryption');
+const { BLIND_INDEX_FIELDS } = require('../utils/blindIndex');
+const { rotateStoredImage } = require('../utils/imageEncryption');
+const { getCardImages } = require('../utils/cardImages');
+
+const ROTATIONS_COLLECTION = 'keyRotations';
+const DEFAULT_BATCH_SIZE = 100;
+const MAX_RECORDED_FAILURES = 500; // Keeps the progress document well under Firestore's size limit
+
+const parseArgs = (argv) => {
+  const batchArg = argv.find(arg => arg.startsWith('--batch-size='));
+  const batchSize = batchArg ? parseInt(batchArg.split('=')[1], 10) : DEFAULT_BATCH_SIZE;
+
+  if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > 500) {
+    throw new Error('--batch-size must be between 1 and 500');
+  }
+
+  return {
+    dryRun: argv.includes('--dry-run'),
+    restart: argv.includes('--restart'),
+    batchSize
+  };
+};
+
+/**
+ * Rotate one card's fields and encrypted images
+ * @returns {Promise<{fields: number, images: number, indexed: boolean}>} Number of fields and images
+ *          re-encrypted, and whether blind indexes were added
+ */
+const rotateCard = async (cardDoc, bucket, dryRun) => {
+  const cardData = cardDoc.data();
+  const fieldUpdates = await rotateCardData(cardData);
+  const updatedFields = Object.keys(fieldUpdates);
+  const fields = updatedFields.filter(field => !BLIND_INDEX_FIELDS.includes(field)).length;
+  const indexed = BLIND_INDEX_FIELDS.some(field => fieldUpdates[field]);
+  let images = 0;
+
+  if (!dryRun && updatedFields.length > 0) {
+    // Fails if the card was edited since it was read, rather than overwriting the edit
+    await cardDoc.ref.update({
+      ...fieldUpdates,
+      updatedAt: FieldValue.serverTimestamp()
+    }, { lastUpdateTime: cardDoc.updateTime });
+  }
+
+  // Encrypted images are rewritten in place, so their paths in the card stay the same
+  for (const image of getCardImages(cardData).filter(candidate => candidate.encrypted)) {
+    const { rotated } = await rotateStoredImage(bucket, image.url, cardData.userId, { dryRun });
+    if (rotated) images += 1;
+  }
+
+  return { fields, images, indexed };
+};
+
+/**
+ * Re-encrypt every card, resuming from saved progress unless restart is set
+ * @param {{dryRun?: boolean, restart?: boolean, batchSize?: number}} [options]
+ * @returns {Promise<Object>} Final progress (status, counts and failures)
+ */
+const rotateKeys = async ({ dryRun = false, restart = false, batchSize = DEFAULT_BATCH_SIZE } = {}) => {
+  const target = isEnvelopeEncryptionEnabled() ? DATA_KEYS_COLLECTION : getActiveKey().keyId;
+  const db = getDb();
+  const bucket = getBucket();
+  const progressRef = db.collection(ROTATIONS_COLLECTION).doc(target);
+
+  const progressDoc = await progressRef.get();
+  const saved = progressDoc.exists && !restart ? progressDoc.data() : null;
+
+  if (saved?.status === 'completed') {
+    console.log(`Rotation to "${target}" already completed at ${saved.completedAt}. Use --restart to run it again.`);
+    return saved;
+  }
+
+  const progress = {
+    status: 'running',
+    target,
+    cursor: saved?.cursor || null,
+    processedCards: saved?.processedCards || 0,
+    rotatedFields: saved?.rotatedFields || 0,
+    rotatedImages: saved?.rotatedImages || 0,
+    indexedCards: saved?.indexedCards || 0,
+    failedCards: saved?.failedCards || 0,
+    failures: saved?.failures || [],
+    startedAt: saved?.startedAt || new Date().toISOString()
+  };
+
+  console.log(`${dryRun ? '[dry run] ' : ''}Re-encrypting cards under ${target === DATA_KEYS_COLLECTION ? 'per-user data keys' : `key "${target}"`}${progress.cursor ? `, resuming after card ${progress.cursor}` : ''}`);
+
+  for (;;) {
+    let query = db.collection('cards').orderBy(FieldPath.documentId()).limit(batchSize);
+    if (progress.cursor) {
+      query = query.startAfter(progress.cursor);
+    }
+    const snapshot = await query.get();
+    if (snapshot.empty) break;
+
+    for (const cardDoc of snapshot.docs) {
+      try {
+        const { fields, images, indexed } = await rotateCard(cardDoc, bucket, dryRun);
+        progress.rotatedFields += fields;
+        progress.rotatedImages += images;
+        if (indexed) progress.indexedCards += 1;
+      } catch (error) {
+        progress.failedCards += 1;
+        if (progress.failures.length < MAX_RECORDED_FAILURES) {
+          progress.failures.push({ cardId: cardDoc.id, error: error.message });
+        }
+        console.error(`  ✗ Card ${cardDoc.id}: ${error.message}`);
+      }
+      progress.processedCards += 1;
+      progress.cursor = cardDoc.id;
+    }
+
+    if (!dryRun) {
+      await progressRef.set({ ...progress, updatedAt: new Date().toISOString() });
+    }
+    console.log(`  ${progress.processedCards} cards processed · ${progress.rotatedFields} fields · ${progress.rotatedImages} images re-encrypted · ${progress.indexedCards} indexed · ${progress.failedCards} failed`);
+
+    if (snapshot.size < batchSize) break;
+  }
+
+  progress.status = progress.failedCards > 0 ? 'completed_with_failures' : 'completed';
+  if (!dryRun) {
+    await progressRef.set({ ...progress, completedAt: new Date().toISOString(), updatedAt: new Date().toISOString() });
+  }
+
+  console.log(`${dryRun ? '[dry run] ' : ''}Done: ${progress.processedCards} cards, ${progress.rotatedFields} fields and ${progress.rotatedImages} images ${dryRun ? 'to re-encrypt' : 're-encrypted'}, ${progress.indexedCards} cards ${dryRun ? 'to index' : 'indexed'}, ${progress.failedCards} failed`);
+  progress.failures.forEach(failure => console.log(`  ${failure.cardId}: ${failure.error}`));
+
+  return progress;
+};
+
+if (require.main === module) {
+  Promise.resolve()
+    .then(() => {
+      const options = parseArgs(process.argv.slice(2));
+      initializeStorage();
+      initializeKms();
+      return rotateKeys(options);
+    })
+    .then(progress => process.exit(progress.failedCards > 0 ? 1 : 0))
+    .catch(error => {
+      console.error('❌ Key rotation failed:', error.message);
+      process.exit(1);
+    });
+}
+
+module.exports = {
+  ROTATIONS_COLLECTION,
+  rotateKeys
+};
@@ -0,0 +1,71 @@
+/**
+ * Crypto-shred one user's encrypted card data
+ *
+ * Usage: npm run shred-user -- <uid> --confirm
+ *
+ * Deletes the user's wrapped data key (dataKeys/{uid}). Card fields and images
+ * encrypted under it can never be decrypted again, including copies in
+ * database backups. Data still under the shared keyring key (written before
+ * envelope encryption, or not yet migrated with `npm run rotate-keys`) is not
+ * affected, so the script reports how many of the user's cards still hold any.
+ */
+
+require('dotenv').config();
+const admin = require('firebase-admin');
+
+const serviceAccount = {
+  type: process.env.FIREBASE_TYPE,
+  project_id: process.env.FIREBASE_PROJECT_ID,
+  private_key_id: process.env.FIREBASE_PRIVATE_KEY_ID,
+  private_key: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+  client_email: process.env.FIREBASE_CLIENT_EMAIL,
+  client_id: process.env.FIREBASE_CLIENT_ID,
+  auth_uri: process.env.FIREBASE_AUTH_URI,
+  token_uri: process.env.FIREBASE_TOKEN_URI,
+  auth_provider_x509_cert_url: process.env.FIREBASE_AUTH_PROVIDER_CERT_URL,
+  client_x509_cert_url: process.env.FIREBASE_CLIENT_CERT_URL,
+  universe_domain: 'googleapis.com'
+};
+
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount),
+  storageBucket: process.env.FIREBASE_STORAGE_BUCKET
+});
+
+const { shredDataKey } = require('../utils/dataKeys');
+const { isDataKeyCiphertext } = require('../utils/encryption');
+
+const SENSITIVE_FLAGS = ['cardNumber', 'cvv', 'expiryDate', 'dateOfBirth', 'address', 'fatherName'];
+
+const run = async () => {
+  const [uid] = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+  if (!uid) {
+    throw new Error('Usage: npm run shred-user -- <uid> --confirm');
+  }
+  if (!process.argv.includes('--confirm')) {
+    throw new Error(`This permanently destroys the encrypted data of user ${uid}. Re-run with --confirm to proceed.`);
+  }
+
+  const shredded = await shredDataKey(uid);
+  console.log(shredded
+    ? `🔥 Deleted the data key of user ${uid}. Data encrypted under it is now unrecoverable.`
+    : `User ${uid} has no data key - nothing to shred.`);
+
+  // Fields under the shared keyring key are still readable by the server
+  const snapshot = await admin.firestore().collection('cards').where('userId', '==', uid).get();
+  const unshredded = snapshot.docs.filter(doc => {
+    const data = doc.data();
+    return SENSITIVE_FLAGS.some(field => data[`${field}_encrypted`] && !isDataKeyCiphertext(data[field]));
+  });
+
+  if (unshredded.length > 0) {
+    console.log(`⚠️  ${unshredded.length} of the user's cards still have fields under the shared keyring key. Delete those cards to remove them.`);
+  }
+};
+
+run()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Shred failed:', error.message);
+    process.exit(1);
+  });
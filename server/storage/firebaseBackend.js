@@ -0,0 +1,51 @@
+/**
+ * Firebase storage backend
+ * Cloud Firestore, Cloud Storage and Firebase Auth through firebase-admin,
+ * using the service account in the FIREBASE_* environment variables.
+ */
+
+const admin = require('firebase-admin');
+const logger = require('../utils/secureLogger');
+
+/**
+ * Initialize Firebase Admin from environment variables
+ * (instead of a service account JSON file, for security)
+ */
+function initialize() {
+  const serviceAccount = {
+    type: process.env.FIREBASE_TYPE,
+    project_id: process.env.FIREBASE_PROJECT_ID,
+    private_key_id: process.env.FIREBASE_PRIVATE_KEY_ID,
+    private_key: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'), // Handle escaped newlines
+    client_email: process.env.FIREBASE_CLIENT_EMAIL,
+    client_id: process.env.FIREBASE_CLIENT_ID,
+    auth_uri: process.env.FIREBASE_AUTH_URI,
+    token_uri: process.env.FIREBASE_TOKEN_URI,
+    auth_provider_x509_cert_url: process.env.FIREBASE_AUTH_PROVIDER_CERT_URL,
+    client_x509_cert_url: process.env.FIREBASE_CLIENT_CERT_URL,
+    universe_domain: 'googleapis.com'
+  };
+
+  try {
+    admin.initializeApp({
+      credential: admin.credential.cert(serviceAccount),
+      storageBucket: process.env.FIREBASE_STORAGE_BUCKET
+    });
+  } catch (error) {
+    throw new Error(`${error.message}. Please ensure all FIREBASE_* environment variables are set in .env file`);
+  }
+
+  logger.system('✅ Firebase Admin initialized successfully');
+  logger.info('Storage bucket configured');
+}
+
+module.exports = {
+  name: 'firebase',
+  initialize,
+  getDb: () => admin.firestore(),
+  getBucket: (bucketName = process.env.FIREBASE_STORAGE_BUCKET) => admin.storage().bucket(bucketName),
+  verifyIdToken: (token) => admin.auth().verifyIdToken(token),
+  FieldValue: admin.firestore.FieldValue,
+  FieldPath: admin.firestore.FieldPath,
+  Timestamp: admin.firestore.Timestamp,
+};
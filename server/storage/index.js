@@ -0,0 +1,57 @@
+/**
+ * Storage backends
+ *
+ * Routes, jobs and utils get their database, file bucket and ID-token
+ * verification from here rather than from firebase-admin directly, so the
+ * server can run without a Firebase project. A backend provides:
+ *   {
+ *     name: string,
+ *     initialize(): void,
+ *     getDb(): Firestore-compatible database,
+ *     getBucket(bucketName?): Cloud Storage-compatible bucket,
+ *     verifyIdToken(token): Promise<{ uid, email?, email_verified?, auth_time }>,
+ *     FieldValue, FieldPath, Timestamp  // types its database understands
+ *   }
+ *
+ * STORAGE_BACKEND selects it: 'firebase' (default) or 'memory' (in-memory
+ * database and local-filesystem bucket, for offline development and tests).
+ */
+
+const firebaseBackend = require('./firebaseBackend');
+const memoryBackend = require('./memoryBackend');
+
+const backends = {
+  [firebaseBackend.name]: firebaseBackend,
+  [memoryBackend.name]: memoryBackend,
+};
+
+/**
+ * Get the configured storage backend
+ * @returns {Object} Backend
+ */
+function getStorageBackend() {
+  const name = (process.env.STORAGE_BACKEND || firebaseBackend.name).toLowerCase();
+  const backend = backends[name];
+
+  if (!backend) {
+    throw new Error(`Unknown STORAGE_BACKEND "${name}". Use one of: ${Object.keys(backends).join(', ')}`);
+  }
+  return backend;
+}
+
+module.exports = {
+  getStorageBackend,
+  initializeStorage: () => getStorageBackend().initialize(),
+  getDb: () => getStorageBackend().getDb(),
+  getBucket: (bucketName) => getStorageBackend().getBucket(bucketName),
+  verifyIdToken: (token) => getStorageBackend().verifyIdToken(token),
+  get FieldValue() {
+    return getStorageBackend().FieldValue;
+  },
+  get FieldPath() {
+    return getStorageBackend().FieldPath;
+  },
+  get Timestamp() {
+    return getStorageBackend().Timestamp;
+  },
+};
@@ -0,0 +1,141 @@
+/**
+ * Local filesystem bucket
+ * A stand-in for a Cloud Storage bucket that keeps objects under a directory
+ * on this server: file contents in <root>/objects and their metadata in
+ * <root>/metadata. Implements the file operations the server uses (exists,
+ * download, save, getMetadata, delete and prefix listing).
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const notFound = (bucketName, name) => {
+  const error = new Error(`No such object: ${bucketName}/${name}`);
+  error.code = 404;
+  return error;
+};
+
+class LocalFile {
+  constructor(bucket, name) {
+    this.bucket = bucket;
+    this.name = name;
+  }
+
+  async exists() {
+    try {
+      await fs.promises.access(this.bucket._objectPath(this.name));
+      return [true];
+    } catch {
+      return [false];
+    }
+  }
+
+  async download() {
+    try {
+      return [await fs.promises.readFile(this.bucket._objectPath(this.name))];
+    } catch (error) {
+      throw error.code === 'ENOENT' ? notFound(this.bucket.name, this.name) : error;
+    }
+  }
+
+  /**
+   * Write the object, replacing any existing one
+   * @param {Buffer|string} data
+   * @param {Object} [options]
+   * @param {Object} [options.metadata] - { contentType, metadata: {custom key/values} }
+   */
+  async save(data, { metadata = {} } = {}) {
+    const objectPath = this.bucket._objectPath(this.name);
+    const metadataPath = this.bucket._metadataPath(this.name);
+    await fs.promises.mkdir(path.dirname(objectPath), { recursive: true });
+    await fs.promises.mkdir(path.dirname(metadataPath), { recursive: true });
+    await fs.promises.writeFile(objectPath, data);
+    await fs.promises.writeFile(metadataPath, JSON.stringify({
+      contentType: metadata.contentType || 'application/octet-stream',
+      metadata: metadata.metadata || {},
+      updated: new Date().toISOString()
+    }));
+  }
+
+  async getMetadata() {
+    try {
+      const { size } = await fs.promises.stat(this.bucket._objectPath(this.name));
+      const stored = await fs.promises.readFile(this.bucket._metadataPath(this.name), 'utf8')
+        .then(JSON.parse)
+        .catch(() => ({ contentType: 'application/octet-stream', metadata: {} }));
+      return [{ name: this.name, bucket: this.bucket.name, size: String(size), ...stored }];
+    } catch (error) {
+      throw error.code === 'ENOENT' ? notFound(this.bucket.name, this.name) : error;
+    }
+  }
+
+  async delete() {
+    try {
+      await fs.promises.unlink(this.bucket._objectPath(this.name));
+    } catch (error) {
+      throw error.code === 'ENOENT' ? notFound(this.bucket.name, this.name) : error;
+    }
+    await fs.promises.rm(this.bucket._metadataPath(this.name), { force: true });
+  }
+}
+
+class LocalBucket {
+  /**
+   * @param {string} rootDir - Directory holding the bucket
+   * @param {string} [name] - Bucket name reported to callers
+   */
+  constructor(rootDir, name = 'local') {
+    this.name = name;
+    this._objectsDir = path.resolve(rootDir, 'objects');
+    this._metadataDir = path.resolve(rootDir, 'metadata');
+  }
+
+  file(name) {
+    return new LocalFile(this, name);
+  }
+
+  /**
+   * List objects
+   * @param {Object} [options]
+   * @param {string} [options.prefix] - Only objects whose name starts with this
+   * @returns {Promise<[LocalFile[]]>}
+   */
+  async getFiles({ prefix = '' } = {}) {
+    const names = [];
+    const walk = async (dir) => {
+      const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        } else {
+          names.push(path.relative(this._objectsDir, entryPath).split(path.sep).join('/'));
+        }
+      }
+    };
+    await walk(this._objectsDir);
+
+    return [names.filter(name => name.startsWith(prefix)).sort().map(name => this.file(name))];
+  }
+
+  // Object names come from card image URLs, so they must never leave the bucket directory
+  _resolve(dir, name) {
+    const segments = String(name).split('/');
+    if (!name || /[\0\\]/.test(name) || segments.some(segment => segment === '' || segment === '.' || segment === '..')) {
+      throw new Error(`Invalid object name: ${name}`);
+    }
+    return path.join(dir, ...segments);
+  }
+
+  _objectPath(name) {
+    return this._resolve(this._objectsDir, name);
+  }
+
+  _metadataPath(name) {
+    return `${this._resolve(this._metadataDir, name)}.json`;
+  }
+}
+
+module.exports = {
+  LocalBucket,
+};
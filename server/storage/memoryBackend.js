@@ -0,0 +1,71 @@
+/**
+ * In-memory storage backend
+ * Runs the server with no Firebase project, for offline development and
+ * integration tests: an in-memory Firestore stand-in (emptied on restart), a
+ * bucket on the local filesystem and development ID tokens instead of
+ * Firebase Auth.
+ *
+ *   STORAGE_LOCAL_DIR - directory for stored files (default .storage)
+ *
+ * Any "Bearer dev:<uid>" or "Bearer dev:<uid>:<email>" token is accepted as
+ * that user, without a signature, so this backend refuses to start when
+ * NODE_ENV is production.
+ */
+
+const path = require('path');
+const logger = require('../utils/secureLogger');
+const { MemoryFirestore, FieldValue, FieldPath, Timestamp } = require('./memoryFirestore');
+const { LocalBucket } = require('./localBucket');
+
+const DEV_TOKEN_PATTERN = /^dev:([A-Za-z0-9_-]{1,128})(?::([^\s:]+@[^\s:]+))?$/;
+const DEFAULT_LOCAL_DIR = '.storage';
+
+const db = new MemoryFirestore();
+let bucket = null;
+
+function initialize() {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('The memory storage backend accepts unsigned tokens and cannot run in production');
+  }
+
+  const localDir = path.resolve(process.env.STORAGE_LOCAL_DIR || DEFAULT_LOCAL_DIR);
+  bucket = new LocalBucket(localDir);
+  logger.system(`🧪 In-memory storage backend: data is lost on restart, files are kept in ${localDir}`);
+}
+
+/**
+ * Accept a development token as the user it names
+ * Every token counts as a fresh sign-in (auth_time is now).
+ * @param {string} token - "dev:<uid>" or "dev:<uid>:<email>"
+ * @returns {Promise<{uid: string, email?: string, email_verified: boolean, auth_time: number}>}
+ */
+async function verifyIdToken(token) {
+  const match = DEV_TOKEN_PATTERN.exec(token);
+  if (!match) {
+    throw new Error('Expected a development token of the form dev:<uid> or dev:<uid>:<email>');
+  }
+
+  const [, uid, email] = match;
+  return { uid, ...(email && { email: email.toLowerCase() }), email_verified: !!email, auth_time: Math.floor(Date.now() / 1000) };
+}
+
+module.exports = {
+  name: 'memory',
+  initialize,
+  getDb: () => db,
+  // One local bucket stands in for every bucket name
+  getBucket: () => {
+    if (!bucket) {
+      throw new Error('Memory storage backend is not initialized');
+    }
+    return bucket;
+  },
+  verifyIdToken,
+  FieldValue,
+  FieldPath,
+  Timestamp,
+  /**
+   * Empty the database between tests (stored files are kept)
+   */
+  reset: () => db.clear(),
+};
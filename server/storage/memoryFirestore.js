@@ -0,0 +1,708 @@
+/**
+ * In-memory Firestore stand-in
+ * Implements the part of the Firestore Admin API this server uses (documents
+ * and subcollections, queries with cursors, batches, transactions and
+ * FieldValue transforms) closely enough for the routes to run unchanged.
+ * Every query scans its whole collection, so it is meant for development and
+ * tests, not for large data sets.
+ */
+
+const crypto = require('crypto');
+
+const AUTO_ID_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+const AUTO_ID_LENGTH = 20;
+const MAX_TRANSACTION_ATTEMPTS = 5;
+const MAX_DISJUNCTIONS = 30; // Values allowed in an 'in' or 'array-contains-any' filter
+
+// gRPC status codes, as set on errors thrown by the Firestore client
+const STATUS = {
+  NOT_FOUND: 5,
+  ALREADY_EXISTS: 6,
+  FAILED_PRECONDITION: 9,
+  ABORTED: 10,
+};
+
+const firestoreError = (code, name, message) => {
+  const error = new Error(`${code} ${name}: ${message}`);
+  error.code = code;
+  return error;
+};
+
+class Timestamp {
+  constructor(seconds, nanoseconds) {
+    // Same field names as the Firestore client, so JSON responses look the same
+    this._seconds = seconds;
+    this._nanoseconds = nanoseconds;
+  }
+
+  static now() {
+    return Timestamp.fromMillis(Date.now());
+  }
+
+  static fromDate(date) {
+    return Timestamp.fromMillis(date.getTime());
+  }
+
+  static fromMillis(milliseconds) {
+    const seconds = Math.floor(milliseconds / 1000);
+    return new Timestamp(seconds, Math.floor((milliseconds - seconds * 1000) * 1e6));
+  }
+
+  get seconds() {
+    return this._seconds;
+  }
+
+  get nanoseconds() {
+    return this._nanoseconds;
+  }
+
+  toMillis() {
+    return this._seconds * 1000 + Math.floor(this._nanoseconds / 1e6);
+  }
+
+  toDate() {
+    return new Date(this.toMillis());
+  }
+
+  isEqual(other) {
+    return other instanceof Timestamp && other._seconds === this._seconds && other._nanoseconds === this._nanoseconds;
+  }
+}
+
+class FieldValue {
+  constructor(kind, operand) {
+    this.kind = kind;
+    this.operand = operand;
+  }
+
+  static serverTimestamp() {
+    return new FieldValue('serverTimestamp');
+  }
+
+  static delete() {
+    return new FieldValue('delete');
+  }
+
+  static arrayUnion(...elements) {
+    return new FieldValue('arrayUnion', elements);
+  }
+
+  static arrayRemove(...elements) {
+    return new FieldValue('arrayRemove', elements);
+  }
+
+  static increment(amount) {
+    return new FieldValue('increment', amount);
+  }
+
+  isEqual(other) {
+    return other instanceof FieldValue && other.kind === this.kind && valuesEqual(other.operand, this.operand);
+  }
+}
+
+class FieldPath {
+  constructor(...segments) {
+    this.segments = segments;
+  }
+
+  static documentId() {
+    return DOCUMENT_ID;
+  }
+}
+
+const DOCUMENT_ID = new FieldPath('__name__');
+// Marks a field removed by FieldValue.delete() while a write is resolved
+const DELETED = Symbol('deleted');
+
+const isPlainObject = (value) => {
+  if (!value || typeof value !== 'object') return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+const toSegments = (field) => (field instanceof FieldPath ? field.segments : String(field).split('.'));
+
+const getPath = (data, segments) => {
+  let value = data;
+  for (const segment of segments) {
+    if (!isPlainObject(value)) return undefined;
+    value = value[segment];
+  }
+  return value;
+};
+
+const setPath = (data, segments, value) => {
+  let target = data;
+  segments.slice(0, -1).forEach((segment) => {
+    if (!isPlainObject(target[segment])) {
+      if (value === DELETED) return;
+      target[segment] = {};
+    }
+    target = target[segment];
+  });
+
+  const last = segments[segments.length - 1];
+  if (value === DELETED) {
+    if (isPlainObject(target)) delete target[last];
+  } else {
+    target[last] = value;
+  }
+};
+
+const cloneValue = (value) => {
+  if (Array.isArray(value)) return value.map(cloneValue);
+  if (Buffer.isBuffer(value)) return Buffer.from(value);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, cloneValue(entry)]));
+  }
+  return value; // Primitives and Timestamps (immutable)
+};
+
+// Firestore sort order across types
+const typeRank = (value) => {
+  if (value === null) return 0;
+  if (typeof value === 'boolean') return 1;
+  if (typeof value === 'number') return 2;
+  if (value instanceof Timestamp) return 3;
+  if (typeof value === 'string') return 4;
+  if (Buffer.isBuffer(value)) return 5;
+  if (value instanceof DocumentReference) return 6;
+  if (Array.isArray(value)) return 7;
+  return 8;
+};
+
+const isScalar = (value) => value === null || ['boolean', 'number', 'string'].includes(typeof value);
+
+const compareValues = (a, b) => {
+  const rankDifference = typeRank(a) - typeRank(b);
+  if (rankDifference !== 0) return rankDifference;
+
+  if (a instanceof Timestamp) return a.toMillis() - b.toMillis() || a.nanoseconds - b.nanoseconds;
+  if (isScalar(a)) return a < b ? -1 : a > b ? 1 : 0;
+  if (Buffer.isBuffer(a)) return Buffer.compare(a, b);
+  if (a instanceof DocumentReference) return compareValues(a.path, b.path);
+  if (Array.isArray(a)) {
+    for (let i = 0; i < Math.min(a.length, b.length); i += 1) {
+      const difference = compareValues(a[i], b[i]);
+      if (difference !== 0) return difference;
+    }
+    return a.length - b.length;
+  }
+  if (isPlainObject(a)) {
+    const aKeys = Object.keys(a).sort();
+    const bKeys = Object.keys(b).sort();
+    for (let i = 0; i < Math.min(aKeys.length, bKeys.length); i += 1) {
+      const difference = compareValues(aKeys[i], bKeys[i]) || compareValues(a[aKeys[i]], b[bKeys[i]]);
+      if (difference !== 0) return difference;
+    }
+    return aKeys.length - bKeys.length;
+  }
+  return 0;
+};
+
+const valuesEqual = (a, b) => a === b || (typeRank(a) === typeRank(b) && compareValues(a, b) === 0);
+
+/**
+ * Turn a value from a write into its stored form, applying FieldValue
+ * transforms against the field's current value
+ */
+const resolveValue = (value, current, now) => {
+  if (value === undefined) {
+    throw new Error('Cannot use "undefined" as a Firestore value');
+  }
+  if (value instanceof FieldValue) {
+    switch (value.kind) {
+      case 'serverTimestamp':
+        return now;
+      case 'delete':
+        return DELETED;
+      case 'increment':
+        return (typeof current === 'number' ? current : 0) + value.operand;
+      case 'arrayUnion': {
+        const result = Array.isArray(current) ? [...current] : [];
+        value.operand.forEach((element) => {
+          if (!result.some((existing) => valuesEqual(existing, element))) result.push(cloneValue(element));
+        });
+        return result;
+      }
+      case 'arrayRemove':
+        return (Array.isArray(current) ? current : []).filter((existing) => !value.operand.some((element) => valuesEqual(existing, element)));
+      default:
+        throw new Error(`Unsupported FieldValue: ${value.kind}`);
+    }
+  }
+  if (value instanceof Date) return Timestamp.fromDate(value);
+  if (Array.isArray(value)) return value.map((element) => resolveValue(element, undefined, now));
+  if (isPlainObject(value)) {
+    const result = {};
+    Object.entries(value).forEach(([key, entry]) => {
+      const resolved = resolveValue(entry, isPlainObject(current) ? current[key] : undefined, now);
+      if (resolved !== DELETED) result[key] = resolved;
+    });
+    return result;
+  }
+  return cloneValue(value);
+};
+
+// set(..., { merge: true }) merges nested maps instead of replacing them
+const mergeInto = (target, data, now) => {
+  Object.entries(data).forEach(([key, value]) => {
+    if (isPlainObject(value)) {
+      if (!isPlainObject(target[key])) target[key] = {};
+      mergeInto(target[key], value, now);
+    } else {
+      setPath(target, [key], resolveValue(value, target[key], now));
+    }
+  });
+};
+
+const autoId = () => {
+  const bytes = crypto.randomBytes(AUTO_ID_LENGTH);
+  return Array.from(bytes, (byte) => AUTO_ID_CHARS[byte % AUTO_ID_CHARS.length]).join('');
+};
+
+const parentPathOf = (path) => path.slice(0, path.lastIndexOf('/'));
+
+/**
+ * Split update() arguments into field writes and an optional precondition
+ * update(data, precondition?) or update(field, value, ...moreFieldsAndValues, precondition?)
+ */
+const parseUpdateArgs = (args) => {
+  if (isPlainObject(args[0])) {
+    return {
+      fields: Object.entries(args[0]).map(([field, value]) => [toSegments(field), value]),
+      precondition: args[1],
+    };
+  }
+
+  const fields = [];
+  for (let i = 0; i + 1 < args.length; i += 2) {
+    fields.push([toSegments(args[i]), args[i + 1]]);
+  }
+  return { fields, precondition: args.length % 2 === 1 ? args[args.length - 1] : undefined };
+};
+
+class DocumentSnapshot {
+  constructor(ref, record) {
+    this.ref = ref;
+    this.id = ref.id;
+    this.exists = !!record;
+    this.createTime = record ? record.createTime : undefined;
+    this.updateTime = record ? record.updateTime : undefined;
+    this.readTime = Timestamp.now();
+    this._record = record;
+  }
+
+  data() {
+    return this._record ? cloneValue(this._record.data) : undefined;
+  }
+
+  get(field) {
+    return this._record ? cloneValue(getPath(this._record.data, toSegments(field))) : undefined;
+  }
+}
+
+class QuerySnapshot {
+  constructor(docs) {
+    this.docs = docs;
+    this.size = docs.length;
+    this.empty = docs.length === 0;
+  }
+
+  forEach(callback) {
+    this.docs.forEach(callback);
+  }
+}
+
+class DocumentReference {
+  constructor(firestore, path) {
+    this.firestore = firestore;
+    this.path = path;
+    this.id = path.slice(path.lastIndexOf('/') + 1);
+  }
+
+  get parent() {
+    return new CollectionReference(this.firestore, parentPathOf(this.path));
+  }
+
+  collection(collectionPath) {
+    return new CollectionReference(this.firestore, `${this.path}/${collectionPath}`);
+  }
+
+  async get() {
+    return this.firestore._snapshot(this);
+  }
+
+  async create(data) {
+    return (await this.firestore._commit([{ type: 'create', ref: this, data }]))[0];
+  }
+
+  async set(data, options = {}) {
+    return (await this.firestore._commit([{ type: 'set', ref: this, data, merge: !!options.merge }]))[0];
+  }
+
+  async update(...args) {
+    return (await this.firestore._commit([{ type: 'update', ref: this, ...parseUpdateArgs(args) }]))[0];
+  }
+
+  async delete(precondition) {
+    return (await this.firestore._commit([{ type: 'delete', ref: this, precondition }]))[0];
+  }
+
+  isEqual(other) {
+    return other instanceof DocumentReference && other.path === this.path;
+  }
+}
+
+class Query {
+  constructor(firestore, collectionPath, options = {}) {
+    this.firestore = firestore;
+    this._collectionPath = collectionPath;
+    this._options = { filters: [], orders: [], limit: null, cursor: null, ...options };
+  }
+
+  _with(changes) {
+    return new Query(this.firestore, this._collectionPath, { ...this._options, ...changes });
+  }
+
+  where(field, op, value) {
+    // Same limit as Firestore, so code that would fail there fails here too
+    if (['in', 'array-contains-any'].includes(op) && (!Array.isArray(value) || value.length > MAX_DISJUNCTIONS)) {
+      throw new Error(`'${op}' filters support an array of up to ${MAX_DISJUNCTIONS} values`);
+    }
+    return this._with({ filters: [...this._options.filters, { segments: toSegments(field), op, value }] });
+  }
+
+  orderBy(field, direction = 'asc') {
+    return this._with({ orders: [...this._options.orders, { segments: toSegments(field), direction }] });
+  }
+
+  limit(limit) {
+    return this._with({ limit });
+  }
+
+  startAt(...values) {
+    return this._with({ cursor: { values, inclusive: true } });
+  }
+
+  startAfter(...values) {
+    return this._with({ cursor: { values, inclusive: false } });
+  }
+
+  async get() {
+    return new QuerySnapshot(this._run());
+  }
+
+  _run() {
+    const { filters, limit, cursor } = this._options;
+    const orders = this._orderings();
+    const fieldOf = (snapshot, segments) => (segments === DOCUMENT_ID.segments ? snapshot.id : getPath(snapshot._record.data, segments));
+
+    let docs = this.firestore._listCollection(this._collectionPath)
+      .filter((snapshot) => filters.every((filter) => matchesFilter(fieldOf(snapshot, filter.segments), filter)))
+      .filter((snapshot) => orders.every((order) => fieldOf(snapshot, order.segments) !== undefined));
+
+    const compareDocs = (a, b) => {
+      for (const order of orders) {
+        const difference = compareValues(fieldOf(a, order.segments), fieldOf(b, order.segments));
+        if (difference !== 0) return order.direction === 'desc' ? -difference : difference;
+      }
+      return 0;
+    };
+    docs.sort(compareDocs);
+
+    if (cursor) {
+      // A snapshot cursor stands for its values in every ordered field
+      const cursorValues = cursor.values[0] instanceof DocumentSnapshot
+        ? orders.map((order) => fieldOf(cursor.values[0], order.segments))
+        : cursor.values.map(toQueryValue);
+      docs = docs.filter((snapshot) => {
+        for (let i = 0; i < Math.min(cursorValues.length, orders.length); i += 1) {
+          const difference = compareValues(fieldOf(snapshot, orders[i].segments), cursorValues[i]);
+          if (difference !== 0) return orders[i].direction === 'desc' ? difference < 0 : difference > 0;
+        }
+        return cursor.inclusive;
+      });
+    }
+
+    return limit === null ? docs : docs.slice(0, limit);
+  }
+
+  // Explicit orderings, then (like Firestore) the inequality field, then the document ID
+  _orderings() {
+    const orders = [...this._options.orders];
+    const inequality = this._options.filters.find((filter) => ['<', '<=', '>', '>=', '!=', 'not-in'].includes(filter.op));
+    if (orders.length === 0 && inequality) {
+      orders.push({ segments: inequality.segments, direction: 'asc' });
+    }
+    if (!orders.some((order) => order.segments === DOCUMENT_ID.segments)) {
+      orders.push({ segments: DOCUMENT_ID.segments, direction: orders.length > 0 ? orders[orders.length - 1].direction : 'asc' });
+    }
+    return orders;
+  }
+}
+
+// Query values are compared the way they would be stored
+const toQueryValue = (value) => {
+  if (value instanceof DocumentReference) return value.id;
+  if (value instanceof Date) return Timestamp.fromDate(value);
+  return Array.isArray(value) ? value.map(toQueryValue) : value;
+};
+
+const matchesFilter = (fieldValue, { op, value }) => {
+  if (fieldValue === undefined) return false;
+  const target = toQueryValue(value);
+  const sameType = typeRank(fieldValue) === typeRank(target);
+
+  switch (op) {
+    case '==':
+      return valuesEqual(fieldValue, target);
+    case '!=':
+      return fieldValue !== null && !valuesEqual(fieldValue, target);
+    case '<':
+      return sameType && compareValues(fieldValue, target) < 0;
+    case '<=':
+      return sameType && compareValues(fieldValue, target) <= 0;
+    case '>':
+      return sameType && compareValues(fieldValue, target) > 0;
+    case '>=':
+      return sameType && compareValues(fieldValue, target) >= 0;
+    case 'in':
+      return target.some((candidate) => valuesEqual(fieldValue, candidate));
+    case 'not-in':
+      return fieldValue !== null && !target.some((candidate) => valuesEqual(fieldValue, candidate));
+    case 'array-contains':
+      return Array.isArray(fieldValue) && fieldValue.some((element) => valuesEqual(element, target));
+    case 'array-contains-any':
+      return Array.isArray(fieldValue) && target.some((candidate) => fieldValue.some((element) => valuesEqual(element, candidate)));
+    default:
+      throw new Error(`Unsupported query operator: ${op}`);
+  }
+};
+
+class CollectionReference extends Query {
+  constructor(firestore, path) {
+    super(firestore, path);
+    this.path = path;
+    this.id = path.slice(path.lastIndexOf('/') + 1);
+  }
+
+  get parent() {
+    return this.path.includes('/') ? new DocumentReference(this.firestore, parentPathOf(this.path)) : null;
+  }
+
+  doc(documentPath = autoId()) {
+    return new DocumentReference(this.firestore, `${this.path}/${documentPath}`);
+  }
+
+  async add(data) {
+    const ref = this.doc();
+    await ref.create(data);
+    return ref;
+  }
+}
+
+class WriteBatch {
+  constructor(firestore) {
+    this.firestore = firestore;
+    this._writes = [];
+  }
+
+  create(ref, data) {
+    this._writes.push({ type: 'create', ref, data });
+    return this;
+  }
+
+  set(ref, data, options = {}) {
+    this._writes.push({ type: 'set', ref, data, merge: !!options.merge });
+    return this;
+  }
+
+  update(ref, ...args) {
+    this._writes.push({ type: 'update', ref, ...parseUpdateArgs(args) });
+    return this;
+  }
+
+  delete(ref, precondition) {
+    this._writes.push({ type: 'delete', ref, precondition });
+    return this;
+  }
+
+  async commit() {
+    return this.firestore._commit(this._writes);
+  }
+}
+
+class Transaction extends WriteBatch {
+  constructor(firestore) {
+    super(firestore);
+    // Document path -> version read, checked again at commit
+    this._reads = new Map();
+  }
+
+  _track(snapshot) {
+    this._reads.set(snapshot.ref.path, snapshot._record ? snapshot._record.version : 0);
+    return snapshot;
+  }
+
+  async get(refOrQuery) {
+    if (refOrQuery instanceof DocumentReference) {
+      return this._track(this.firestore._snapshot(refOrQuery));
+    }
+    const snapshot = await refOrQuery.get();
+    snapshot.docs.forEach((doc) => this._track(doc));
+    return snapshot;
+  }
+
+  async getAll(...refs) {
+    return refs.map((ref) => this._track(this.firestore._snapshot(ref)));
+  }
+}
+
+class MemoryFirestore {
+  constructor() {
+    // Document path -> { data, version, createTime, updateTime }
+    this._documents = new Map();
+    this._version = 0;
+  }
+
+  collection(collectionPath) {
+    return new CollectionReference(this, collectionPath);
+  }
+
+  doc(documentPath) {
+    return new DocumentReference(this, documentPath);
+  }
+
+  batch() {
+    return new WriteBatch(this);
+  }
+
+  async getAll(...refs) {
+    return refs.map((ref) => this._snapshot(ref));
+  }
+
+  /**
+   * Run a transaction, retrying (like Firestore) if a document it read was
+   * written by someone else before it committed
+   */
+  async runTransaction(updateFunction) {
+    for (let attempt = 1; ; attempt += 1) {
+      const transaction = new Transaction(this);
+      const result = await updateFunction(transaction);
+      try {
+        this._commit(transaction._writes, transaction._reads);
+        return result;
+      } catch (error) {
+        if (error.code !== STATUS.ABORTED || attempt >= MAX_TRANSACTION_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  // Deletes a document or collection and everything nested under it
+  async recursiveDelete(ref) {
+    const prefix = `${ref.path}/`;
+    Array.from(this._documents.keys())
+      .filter((path) => path === ref.path || path.startsWith(prefix))
+      .forEach((path) => this._documents.delete(path));
+  }
+
+  /**
+   * Remove every document
+   */
+  clear() {
+    this._documents.clear();
+  }
+
+  _snapshot(ref) {
+    return new DocumentSnapshot(new DocumentReference(this, ref.path), this._documents.get(ref.path));
+  }
+
+  _listCollection(collectionPath) {
+    const snapshots = [];
+    this._documents.forEach((record, path) => {
+      if (parentPathOf(path) === collectionPath) {
+        snapshots.push(new DocumentSnapshot(new DocumentReference(this, path), record));
+      }
+    });
+    return snapshots;
+  }
+
+  /**
+   * Apply writes atomically: all are checked and resolved against a staged
+   * copy first, so a failing write leaves every document untouched
+   * @param {Object[]} writes
+   * @param {Map<string, number>} [reads] - Versions a transaction read
+   * @returns {Object[]} Write results
+   */
+  _commit(writes, reads = new Map()) {
+    reads.forEach((version, path) => {
+      const record = this._documents.get(path);
+      if ((record ? record.version : 0) !== version) {
+        throw firestoreError(STATUS.ABORTED, 'ABORTED', `Transaction lock timeout on ${path}`);
+      }
+    });
+
+    const now = Timestamp.now();
+    const staged = new Map();
+    const current = (path) => (staged.has(path) ? staged.get(path) : this._documents.get(path));
+
+    writes.forEach((write) => {
+      const { path } = write.ref;
+      const existing = current(path);
+
+      if (write.precondition?.lastUpdateTime && !(existing && existing.updateTime.isEqual(write.precondition.lastUpdateTime))) {
+        throw firestoreError(STATUS.FAILED_PRECONDITION, 'FAILED_PRECONDITION', `The document ${path} was modified`);
+      }
+
+      if (write.type === 'delete') {
+        staged.set(path, undefined);
+        return;
+      }
+
+      let data;
+      if (write.type === 'create') {
+        if (existing) {
+          throw firestoreError(STATUS.ALREADY_EXISTS, 'ALREADY_EXISTS', `Document already exists: ${path}`);
+        }
+        data = resolveValue(write.data, undefined, now);
+      } else if (write.type === 'set') {
+        data = write.merge ? cloneValue(existing ? existing.data : {}) : resolveValue(write.data, undefined, now);
+        if (write.merge) mergeInto(data, write.data, now);
+      } else {
+        if (!existing) {
+          throw firestoreError(STATUS.NOT_FOUND, 'NOT_FOUND', `No document to update: ${path}`);
+        }
+        data = cloneValue(existing.data);
+        write.fields.forEach(([segments, value]) => {
+          setPath(data, segments, resolveValue(value, getPath(data, segments), now));
+        });
+      }
+
+      this._version += 1;
+      staged.set(path, {
+        data,
+        version: this._version,
+        createTime: existing ? existing.createTime : now,
+        updateTime: now,
+      });
+    });
+
+    staged.forEach((record, path) => {
+      if (record) {
+        this._documents.set(path, record);
+      } else {
+        this._documents.delete(path);
+      }
+    });
+
+    return writes.map(() => ({ writeTime: now }));
+  }
+}
+
+module.exports = {
+  MemoryFirestore,
+  Timestamp,
+  FieldValue,
+  FieldPath,
+};
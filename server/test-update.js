@@ -43,7 +43,7 @@ async function testUpdate() {
   
   try {
     console.log('1. Encrypting data...');
-    const encrypted = encryptCardData(testData);
+    const encrypted = await encryptCardData(testData, 'test-user');
     console.log('✅ Encryption successful');
     
     console.log('2. Testing Firestore update...');
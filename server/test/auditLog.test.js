@@ -0,0 +1,100 @@
+const { test, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+
+process.env.STORAGE_BACKEND = 'memory';
+
+const { getStorageBackend, getDb } = require('../storage');
+const {
+  AUDIT_LOG_COLLECTION,
+  ENTRIES_COLLECTION,
+  hashAuditEntry,
+  recordAudit,
+  recordAuditEvents,
+  verifyAuditChain
+} = require('../utils/auditLog');
+
+const fakeRequest = (uid) => ({
+  user: { uid },
+  ip: '203.0.113.7',
+  get: () => 'Mozilla/5.0 (X11; Linux x86_64) Firefox/120.0'
+});
+
+const entriesRef = (uid) => getDb().collection(AUDIT_LOG_COLLECTION).doc(uid).collection(ENTRIES_COLLECTION);
+
+const recordSample = async (uid) => {
+  const req = fakeRequest(uid);
+  await recordAudit(req, 'card.create', { cardId: 'card-1' });
+  await recordAuditEvents(req, [
+    { action: 'card.update', cardId: 'card-1', details: { fields: ['bank'] } },
+    { action: 'card.delete', cardId: 'card-1' }
+  ]);
+  await recordAudit(req, 'share.link_create', { folderId: 'folder-1' });
+};
+
+beforeEach(() => {
+  getStorageBackend().reset();
+});
+
+test('entries form a chain that verifies', async () => {
+  await recordSample('alice');
+
+  const snapshot = await entriesRef('alice').orderBy('seq').get();
+  const entries = snapshot.docs.map(doc => doc.data());
+  assert.deepEqual(entries.map(entry => entry.seq), [1, 2, 3, 4]);
+  assert.equal(entries[0].prevHash, '0'.repeat(64));
+  assert.equal(entries[1].prevHash, entries[0].hash);
+  assert.equal(entries[0].ipHash === '203.0.113.7', false);
+
+  assert.deepEqual(await verifyAuditChain('alice'), { valid: true, checked: 4, brokenAt: null, reason: null });
+});
+
+test('an empty log verifies', async () => {
+  assert.deepEqual(await verifyAuditChain('nobody'), { valid: true, checked: 0, brokenAt: null, reason: null });
+});
+
+test('an edited entry breaks the chain at that entry', async () => {
+  await recordSample('alice');
+  await entriesRef('alice').doc('000000000002').update({ action: 'card.reveal_cvv' });
+
+  const result = await verifyAuditChain('alice');
+  assert.equal(result.valid, false);
+  assert.equal(result.brokenAt, 2);
+  assert.equal(result.reason, 'Entry was modified');
+});
+
+test('an edited entry with a recomputed hash breaks the link to the next entry', async () => {
+  await recordSample('alice');
+  const ref = entriesRef('alice').doc('000000000002');
+  const entry = { ...(await ref.get()).data(), action: 'card.reveal_cvv' };
+  await ref.set({ ...entry, hash: hashAuditEntry(entry) });
+
+  const result = await verifyAuditChain('alice');
+  assert.equal(result.brokenAt, 3);
+  assert.equal(result.reason, 'Entry does not link to the previous entry');
+});
+
+test('a deleted entry is reported as missing', async () => {
+  await recordSample('alice');
+  await entriesRef('alice').doc('000000000002').delete();
+
+  const result = await verifyAuditChain('alice');
+  assert.equal(result.brokenAt, 2);
+  assert.equal(result.reason, 'Entry missing or out of order');
+});
+
+test('entries removed from the end are reported as missing', async () => {
+  await recordSample('alice');
+  await entriesRef('alice').doc('000000000004').delete();
+
+  const result = await verifyAuditChain('alice');
+  assert.equal(result.valid, false);
+  assert.equal(result.reason, 'Latest entries are missing');
+});
+
+test('each user has a separate chain', async () => {
+  await recordSample('alice');
+  await recordAudit(fakeRequest('bob'), 'card.create', { cardId: 'card-9' });
+
+  assert.equal((await verifyAuditChain('bob')).checked, 1);
+  assert.equal((await verifyAuditChain('alice')).checked, 4);
+});
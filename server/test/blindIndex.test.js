@@ -0,0 +1,60 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+
+process.env.BLIND_INDEX_KEY = crypto.randomBytes(32).toString('base64');
+
+const {
+  normalizeCardNumber,
+  last4Index,
+  fingerprintIndex,
+  computeBlindIndexes,
+  stripBlindIndexes
+} = require('../utils/blindIndex');
+
+test('formatting does not change the indexes', () => {
+  const plain = computeBlindIndexes('4111111111111111', 'alice');
+
+  assert.deepEqual(computeBlindIndexes('4111 1111 1111 1111', 'alice'), plain);
+  assert.deepEqual(computeBlindIndexes('4111-1111-1111-1111', 'alice'), plain);
+  assert.equal(normalizeCardNumber('abcde 1234f'), 'ABCDE1234F');
+});
+
+test('a last-4 search term matches the stored last-4 index', () => {
+  const { cardNumberLast4Index } = computeBlindIndexes('4111 1111 1111 1234', 'alice');
+
+  assert.equal(last4Index('1234', 'alice'), cardNumberLast4Index);
+  assert.notEqual(last4Index('1235', 'alice'), cardNumberLast4Index);
+  assert.equal(last4Index('123', 'alice'), null);
+});
+
+test('a whole number matches the stored fingerprint', () => {
+  const { cardNumberFingerprint } = computeBlindIndexes('4111111111111234', 'alice');
+
+  assert.equal(fingerprintIndex('4111 1111 1111 1234', 'alice'), cardNumberFingerprint);
+  assert.notEqual(fingerprintIndex('4111111111111235', 'alice'), cardNumberFingerprint);
+  assert.equal(fingerprintIndex('1234567', 'alice'), null);
+});
+
+test('indexes differ between owners of the same number', () => {
+  const alice = computeBlindIndexes('4111111111111111', 'alice');
+  const bob = computeBlindIndexes('4111111111111111', 'bob');
+
+  assert.notEqual(alice.cardNumberLast4Index, bob.cardNumberLast4Index);
+  assert.notEqual(alice.cardNumberFingerprint, bob.cardNumberFingerprint);
+});
+
+test('empty and vault-encrypted numbers clear the indexes', () => {
+  const cleared = { cardNumberLast4Index: null, cardNumberFingerprint: null };
+
+  assert.deepEqual(computeBlindIndexes('', 'alice'), cleared);
+  assert.deepEqual(computeBlindIndexes('zk1:abc:def', 'alice'), cleared);
+  assert.throws(() => computeBlindIndexes('4111111111111111'), /owner is required/);
+});
+
+test('stripBlindIndexes removes only the index fields', () => {
+  const card = { bank: 'HDFC', ...computeBlindIndexes('4111111111111111', 'alice') };
+
+  assert.deepEqual(stripBlindIndexes(card), { bank: 'HDFC' });
+  assert.ok(card.cardNumberFingerprint);
+});
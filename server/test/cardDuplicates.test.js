@@ -0,0 +1,105 @@
+const { test, before, after, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+
+// Duplicates are found through the card number fingerprint
+process.env.BLIND_INDEX_KEY = crypto.randomBytes(32).toString('base64');
+
+const { startTestServer } = require('./helpers/testServer');
+
+let server;
+
+const VISA = '4111111111111111';
+const MASTERCARD = '5555555555554444';
+
+const createCard = (user, card, query = '') =>
+  server.request('POST', `/api/cards${query}`, { user, body: { type: 'credit', ...card } });
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+});
+
+test('creating a card whose number is already saved returns 409 with the existing card', async () => {
+  const first = await createCard('alice', { cardName: 'Travel', bank: 'HDFC', cardNumber: VISA, cvv: '123' });
+  assert.equal(first.status, 201);
+
+  const again = await createCard('alice', { cardName: 'Copy', cardNumber: '4111 1111 1111 1111' });
+  assert.equal(again.status, 409);
+  assert.equal(again.body.error, 'Duplicate card');
+  assert.deepEqual(again.body.duplicate, { id: first.body.id, type: 'credit', cardName: 'Travel', bank: 'HDFC' });
+
+  const kept = await createCard('alice', { cardName: 'Copy', cardNumber: VISA }, '?allowDuplicate=true');
+  assert.equal(kept.status, 201);
+
+  // Fingerprints are per user, so another user can save the same number
+  const bob = await createCard('bob', { cardName: 'Travel', cardNumber: VISA });
+  assert.equal(bob.status, 201);
+});
+
+test('batch creates reject numbers already saved or repeated earlier in the batch', async () => {
+  const existing = await createCard('alice', { cardName: 'Travel', cardNumber: VISA });
+
+  const items = [
+    { type: 'credit', cardName: 'Saved', cardNumber: VISA },
+    { type: 'credit', cardName: 'New', cardNumber: MASTERCARD },
+    { type: 'credit', cardName: 'Repeat', cardNumber: '5555-5555-5555-4444' },
+    { type: 'credit', cardName: 'No number' }
+  ];
+  const response = await server.request('POST', '/api/cards/batch', { user: 'alice', body: { action: 'create', items } });
+  assert.equal(response.status, 200);
+  assert.equal(response.body.succeeded, 2);
+
+  const [saved, created, repeat, noNumber] = response.body.results;
+  assert.equal(saved.error, 'Duplicate card');
+  assert.equal(saved.duplicateOf, existing.body.id);
+  assert.equal(created.success, true);
+  assert.equal(repeat.error, 'Duplicate card');
+  assert.equal(repeat.duplicateOf, created.id);
+  assert.equal(noNumber.success, true);
+
+  const allowed = await server.request('POST', '/api/cards/batch', {
+    user: 'alice',
+    body: { action: 'create', items: items.slice(0, 1), allowDuplicates: true }
+  });
+  assert.equal(allowed.body.succeeded, 1);
+});
+
+test('merging fills empty fields and combines tags without overwriting the existing card', async () => {
+  const existing = await createCard('alice', { cardName: 'Travel', bank: 'HDFC', cardNumber: VISA, tags: ['travel'] });
+  const cardId = existing.body.id;
+
+  const merge = await server.request('POST', `/api/cards/${cardId}/merge`, {
+    user: 'alice',
+    body: {
+      type: 'debit',
+      cardName: 'Captured',
+      cardNumber: VISA,
+      cardHolderName: 'Alice Example',
+      expiryDate: '12/29',
+      userId: 'bob',
+      tags: ['Work', 'travel']
+    }
+  });
+  assert.equal(merge.status, 200);
+  assert.equal(merge.body.type, 'credit');
+  assert.equal(merge.body.cardName, 'Travel');
+  assert.equal(merge.body.userId, 'alice');
+  assert.equal(merge.body.cardHolderName, 'Alice Example');
+  assert.equal(merge.body.expiryDate, '12/29');
+  assert.deepEqual(merge.body.tags, ['travel', 'work']);
+
+  const activity = await server.request('GET', '/api/activity', { user: 'alice' });
+  const entry = activity.body.entries.find(item => item.action === 'card.merge');
+  assert.deepEqual(entry.details.fields, ['cardHolderName', 'expiryDate', 'tags']);
+
+  const other = await server.request('POST', `/api/cards/${cardId}/merge`, { user: 'bob', body: { cvv: '999' } });
+  assert.equal(other.status, 403);
+});
@@ -0,0 +1,101 @@
+const { test, before, after, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+
+// Wide enough that a card expiring next month always counts as expiring soon
+process.env.EXPIRY_REMINDER_DAYS = '62';
+
+const { startTestServer } = require('./helpers/testServer');
+const { getDb, FieldValue } = require('../storage');
+const { runExpiryReminders } = require('../jobs/expiryReminders');
+const { backfillCardExpiry } = require('../scripts/backfillCardExpiry');
+
+let server;
+
+// MM/YY of next month, and the expiresAt the server stores for it
+const nextMonth = () => {
+  const now = new Date();
+  const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return {
+    expiryDate: `${String(month.getUTCMonth() + 1).padStart(2, '0')}/${String(month.getUTCFullYear()).slice(2)}`,
+    expiresAt: new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 0, 23, 59, 59)).toISOString()
+  };
+};
+
+const createCard = async (fields) => {
+  const response = await server.request('POST', '/api/cards', {
+    user: 'alice',
+    body: { type: 'credit', cardName: 'Travel', bank: 'HDFC', ...fields }
+  });
+  assert.equal(response.status, 201);
+  return response.body.id;
+};
+
+const storedCard = async (cardId) => (await getDb().collection('cards').doc(cardId).get()).data();
+
+const remindersFor = async (cardId) => (await getDb().collection('reminders').where('cardId', '==', cardId).get()).size;
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+});
+
+test('expiresAt comes only from a plaintext expiry, never from the client', async () => {
+  const { expiryDate, expiresAt } = nextMonth();
+
+  const plain = await createCard({ expiryDate, expiresAt: '2001-01-01T00:00:00.000Z' });
+  assert.equal((await storedCard(plain)).expiresAt, expiresAt);
+
+  const vault = await createCard({ expiryDate: 'zk1:ciphertext', clientEncrypted: true, expiresAt });
+  assert.equal((await storedCard(vault)).expiresAt, null);
+
+  const update = await server.request('PUT', `/api/cards/${plain}`, { user: 'alice', body: { expiresAt: '2001-01-01T00:00:00.000Z' } });
+  assert.equal(update.status, 200);
+  assert.equal((await storedCard(plain)).expiresAt, expiresAt);
+});
+
+test('deleting cards deletes their reminders', async () => {
+  const { expiryDate } = nextMonth();
+  const single = await createCard({ expiryDate });
+  const batched = await createCard({ expiryDate });
+  assert.equal(await runExpiryReminders(), 2);
+
+  await server.request('DELETE', `/api/cards/${single}`, { user: 'alice' });
+  assert.equal(await remindersFor(single), 0);
+  assert.equal(await remindersFor(batched), 1);
+
+  await server.request('POST', '/api/cards/batch', { user: 'alice', body: { action: 'delete', items: [{ id: batched }] } });
+  assert.equal(await remindersFor(batched), 0);
+});
+
+test('the backfill dates existing cards and clears vault cards', async () => {
+  const { expiryDate, expiresAt } = nextMonth();
+  const plain = await createCard({ expiryDate });
+  const vault = await createCard({ expiryDate: 'zk1:ciphertext', clientEncrypted: true });
+  const undated = await createCard({});
+
+  // As stored before expiresAt existed, and as vault cards once sent it
+  await getDb().collection('cards').doc(plain).update({ expiresAt: FieldValue.delete() });
+  await getDb().collection('cards').doc(vault).update({ expiresAt });
+
+  const dryRun = await backfillCardExpiry({ dryRun: true });
+  assert.equal(dryRun.updatedCards, 1);
+  assert.equal((await storedCard(plain)).expiresAt, undefined);
+
+  const progress = await backfillCardExpiry({ batchSize: 2 });
+  assert.deepEqual(
+    { processed: progress.processedCards, updated: progress.updatedCards, cleared: progress.clearedCards, failed: progress.failedCards },
+    { processed: 3, updated: 1, cleared: 1, failed: 0 }
+  );
+  assert.equal((await storedCard(plain)).expiresAt, expiresAt);
+  assert.equal((await storedCard(vault)).expiresAt, undefined);
+  assert.equal((await storedCard(undated)).expiresAt, undefined);
+
+  assert.equal((await backfillCardExpiry()).updatedCards, 0);
+});
@@ -0,0 +1,73 @@
+const { test, before, after, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startTestServer } = require('./helpers/testServer');
+const { getDb } = require('../storage');
+
+let server;
+
+const CARD = { type: 'credit', cardName: 'Travel', bank: 'HDFC' };
+
+const storedCard = async (cardId) => (await getDb().collection('cards').doc(cardId).get()).data();
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+});
+
+test('cards can only use images from their owner\'s upload folder', async () => {
+  const foreign = [{ side: 'front', url: 'cards/alice/1_front.jpg' }];
+
+  const create = await server.request('POST', '/api/cards', { user: 'bob', body: { ...CARD, images: foreign } });
+  assert.equal(create.status, 403);
+  const legacy = await server.request('POST', '/api/cards', { user: 'bob', body: { ...CARD, imageUrl: 'cards/alice/1_front.jpg' } });
+  assert.equal(legacy.status, 403);
+
+  const batch = await server.request('POST', '/api/cards/batch', {
+    user: 'bob',
+    body: { action: 'create', items: [{ ...CARD, images: foreign }, { ...CARD, images: [{ side: 'front', url: 'cards/bob/1_front.jpg' }] }] }
+  });
+  assert.deepEqual(batch.body.results.map(result => result.error || null), ['Unauthorized', null]);
+
+  const own = batch.body.results[1].id;
+  const update = await server.request('PUT', `/api/cards/${own}`, { user: 'bob', body: { images: foreign } });
+  assert.equal(update.status, 403);
+  assert.equal((await storedCard(own)).imageUrl, 'cards/bob/1_front.jpg');
+});
+
+test('the server decides which images are encrypted', async () => {
+  const created = await server.request('POST', '/api/cards', {
+    user: 'bob',
+    body: {
+      ...CARD,
+      imageEncrypted: true,
+      images: [{ side: 'front', url: 'cards/bob/1_front.jpg', encrypted: true }, { side: 'back', url: 'cards/bob/1_back.jpg.encrypted' }]
+    }
+  });
+  assert.equal(created.status, 201);
+
+  const card = await storedCard(created.body.id);
+  assert.deepEqual(card.images.map(image => image.encrypted), [false, true]);
+  assert.equal(card.imageEncrypted, false);
+
+  await server.request('PUT', `/api/cards/${created.body.id}`, { user: 'bob', body: { imageEncrypted: true } });
+  assert.equal((await storedCard(created.body.id)).imageEncrypted, false);
+});
+
+test('encrypted images outside the owner\'s folder are not decrypted', async () => {
+  const { id: cardId } = await getDb().collection('cards').add({
+    userId: 'bob',
+    type: 'credit',
+    images: [{ side: 'front', url: 'cards/alice/1_front.jpg.encrypted', encrypted: true }]
+  });
+
+  const image = await server.request('GET', `/api/cards/${cardId}/image`, { user: 'bob' });
+  assert.equal(image.status, 403);
+});
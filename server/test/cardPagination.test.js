@@ -0,0 +1,100 @@
+const { test, before, after, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startTestServer } = require('./helpers/testServer');
+const { getDb, Timestamp } = require('../storage');
+
+let server;
+
+// Matches MAX_SCAN_PER_REQUEST in routes/cards.js
+const MAX_SCAN_PER_REQUEST = 2000;
+
+/**
+ * Store cards directly, so their creation times can be chosen
+ * @param {Object[]} cards - Card fields, each with a createdAt Timestamp
+ * @returns {Promise<string[]>} Card IDs
+ */
+const seedCards = async (user, cards) => {
+  const db = getDb();
+  const batch = db.batch();
+  const ids = cards.map((card) => {
+    const ref = db.collection('cards').doc();
+    batch.set(ref, { userId: user, updatedAt: card.createdAt, ...card });
+    return ref.id;
+  });
+  await batch.commit();
+  return ids;
+};
+
+const listCards = (user, query) => server.request('GET', `/api/cards?${new URLSearchParams(query)}`, { user });
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+});
+
+test('pages through every card once, in order, until the cursor runs out', async () => {
+  const ids = await seedCards('alice', [1, 2, 3, 4, 5].map((second) => ({
+    type: 'credit',
+    createdAt: new Timestamp(second, 0)
+  })));
+  await seedCards('bob', [{ type: 'credit', createdAt: new Timestamp(3, 0) }]);
+
+  const seen = [];
+  let cursor = null;
+  do {
+    const page = await listCards('alice', { sort: 'createdAt', order: 'asc', limit: 2, ...(cursor && { cursor }) });
+    assert.equal(page.status, 200);
+    assert.ok(page.body.cards.length <= 2);
+    seen.push(...page.body.cards.map((card) => card.id));
+    cursor = page.body.nextCursor;
+  } while (cursor);
+
+  assert.deepEqual(seen, ids);
+});
+
+test('the cursor keeps nanosecond precision and is validated', async () => {
+  // Same second, so a cursor rounded to milliseconds or seconds would skip or repeat cards
+  const ids = await seedCards('alice', [1, 2, 3].map((nanoseconds) => ({
+    type: 'credit',
+    createdAt: new Timestamp(100, nanoseconds)
+  })));
+
+  const first = await listCards('alice', { sort: 'createdAt', order: 'asc', limit: 1 });
+  assert.deepEqual(first.body.cards.map((card) => card.id), [ids[0]]);
+  assert.deepEqual(JSON.parse(Buffer.from(first.body.nextCursor, 'base64url').toString('utf8')), { s: 100, n: 1, id: ids[0] });
+
+  const second = await listCards('alice', { sort: 'createdAt', order: 'asc', limit: 1, cursor: first.body.nextCursor });
+  assert.deepEqual(second.body.cards.map((card) => card.id), [ids[1]]);
+
+  const malformed = await listCards('alice', { cursor: 'not-a-cursor' });
+  assert.equal(malformed.status, 400);
+  const missingId = Buffer.from(JSON.stringify({ s: 100, n: 1 })).toString('base64url');
+  assert.equal((await listCards('alice', { cursor: missingId })).status, 400);
+});
+
+test('a filtered scan stops after MAX_SCAN_PER_REQUEST cards and resumes from the cursor', async () => {
+  const [debitId] = await seedCards('alice', [{ type: 'debit', createdAt: new Timestamp(0, 0) }]);
+  await seedCards('alice', Array.from({ length: MAX_SCAN_PER_REQUEST + 10 }, (_, i) => ({
+    type: 'credit',
+    createdAt: new Timestamp(i + 1, 0)
+  })));
+
+  // Newest first, so every scanned card is a non-matching credit card
+  const first = await listCards('alice', { type: 'debit', limit: 10 });
+  assert.equal(first.status, 200);
+  assert.deepEqual(first.body.cards, []);
+  assert.ok(first.body.nextCursor);
+  assert.equal(JSON.parse(Buffer.from(first.body.nextCursor, 'base64url').toString('utf8')).s, 11);
+
+  const second = await listCards('alice', { type: 'debit', limit: 10, cursor: first.body.nextCursor });
+  assert.deepEqual(second.body.cards.map((card) => card.id), [debitId]);
+  assert.equal(second.body.nextCursor, null);
+});
@@ -0,0 +1,70 @@
+const { test, before, after, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startTestServer } = require('./helpers/testServer');
+const { normalizeTag, normalizeTags, MAX_TAGS } = require('../utils/cardTags');
+
+let server;
+
+const createCard = async (user, cardName, tags) => {
+  const response = await server.request('POST', '/api/cards', { user, body: { type: 'other', cardName, tags } });
+  assert.equal(response.status, 201);
+  return response.body.id;
+};
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+});
+
+test('tags are trimmed, lowercased and deduplicated', () => {
+  assert.equal(normalizeTag('  Road   Trip '), 'road trip');
+  assert.equal(normalizeTag('Мама'), 'мама');
+  assert.equal(normalizeTag('-travel'), null);
+  assert.equal(normalizeTag('a'.repeat(31)), null);
+  assert.equal(normalizeTag(7), null);
+
+  assert.deepEqual(normalizeTags(['Work', 'work ', 'home_2']), ['work', 'home_2']);
+  assert.equal(normalizeTags(['ok', 'not ok!']), null);
+  assert.equal(normalizeTags('work'), null);
+  assert.equal(normalizeTags(Array.from({ length: MAX_TAGS + 1 }, (_, i) => `tag${i}`)), null);
+});
+
+test('the card list filters by tag and rejects invalid tags', async () => {
+  const travel = await createCard('alice', 'Passport', ['Travel', 'family']);
+  await createCard('alice', 'Gym', ['fitness']);
+  await createCard('bob', 'Passport', ['travel']);
+
+  const filtered = await server.request('GET', `/api/cards?tag=${encodeURIComponent(' TRAVEL ')}`, { user: 'alice' });
+  assert.equal(filtered.status, 200);
+  assert.deepEqual(filtered.body.cards.map(card => card.id), [travel]);
+  assert.deepEqual(filtered.body.cards[0].tags, ['travel', 'family']);
+
+  const invalid = await server.request('GET', '/api/cards?tag=%23travel', { user: 'alice' });
+  assert.equal(invalid.status, 400);
+
+  const badCard = await server.request('POST', '/api/cards', { user: 'alice', body: { type: 'other', cardName: 'Bad', tags: ['#1'] } });
+  assert.equal(badCard.status, 400);
+});
+
+test('the tags list returns each of the user\'s tags once, sorted', async () => {
+  const cardId = await createCard('alice', 'Passport', ['travel', 'family']);
+  await createCard('alice', 'Gym', ['fitness', 'family']);
+  await createCard('bob', 'Office', ['work']);
+
+  const list = await server.request('GET', '/api/cards/tags/list', { user: 'alice' });
+  assert.equal(list.status, 200);
+  assert.deepEqual(list.body, ['family', 'fitness', 'travel']);
+
+  const update = await server.request('PUT', `/api/cards/${cardId}`, { user: 'alice', body: { tags: [] } });
+  assert.equal(update.status, 200);
+  const updated = await server.request('GET', '/api/cards/tags/list', { user: 'alice' });
+  assert.deepEqual(updated.body, ['family', 'fitness']);
+});
@@ -0,0 +1,59 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  passesLuhn,
+  passesVerhoeff,
+  scoreExtraction,
+  validateDocumentFields
+} = require('../utils/cardValidation');
+
+const AADHAAR = '234123412346';
+
+// MM/YY a number of years from now
+const expiryIn = (years) => {
+  const now = new Date();
+  return `${String(now.getUTCMonth() + 1).padStart(2, '0')}/${String((now.getUTCFullYear() + years) % 100).padStart(2, '0')}`;
+};
+
+test('checksums accept valid numbers and reject a changed digit', () => {
+  assert.equal(passesLuhn('4111111111111111'), true);
+  assert.equal(passesLuhn('4111111111111112'), false);
+  assert.equal(passesVerhoeff(AADHAAR), true);
+  assert.equal(passesVerhoeff('234123412347'), false);
+});
+
+test('extraction scores use provider confidence, capped when a field fails validation', () => {
+  const { fieldConfidence, validation } = scoreExtraction(
+    { type: 'credit', cardNumber: '4111 1111 1111 1112', cvv: '12', bank: 'HDFC', cardName: 'Travel', expiryDate: expiryIn(2) },
+    { cardNumber: 0.95, cvv: 0.9, bank: 1.7, expiryDate: 'high' }
+  );
+
+  assert.deepEqual(fieldConfidence, { cardNumber: 0.3, cvv: 0.3, bank: 1, cardName: 0.6, expiryDate: 0.6 });
+  assert.deepEqual(validation.cardNumber, { valid: false, message: 'Card number fails the Luhn check' });
+  assert.deepEqual(validation.cvv, { valid: false, message: 'CVV must be 3 or 4 digits' });
+  assert.deepEqual(validation.expiryDate, { valid: true });
+  assert.equal(validation.cardHolderName, undefined);
+});
+
+test('expiry dates that are past or too far out are flagged', () => {
+  const { validation } = scoreExtraction({ type: 'credit', expiryDate: '01/20' });
+  assert.deepEqual(validation.expiryDate, { valid: true, message: 'Card has expired' });
+
+  assert.equal(scoreExtraction({ type: 'credit', expiryDate: expiryIn(25) }).validation.expiryDate.valid, false);
+  assert.equal(scoreExtraction({ type: 'credit', expiryDate: '13/27' }).validation.expiryDate.valid, false);
+});
+
+test('Aadhaar and PAN fields are validated on save', () => {
+  assert.equal(validateDocumentFields({ cardNumber: '2341 2341 2346', dateOfBirth: '1990-02-28', gender: 'Female' }, 'aadhar'), null);
+  assert.equal(validateDocumentFields({ cardNumber: '134123412346' }, 'aadhar'), 'Aadhaar number fails the checksum');
+  assert.equal(validateDocumentFields({ cardNumber: 'abcde1234f' }, 'pan'), null);
+  assert.equal(validateDocumentFields({ cardNumber: 'ABCD12345F' }, 'pan'), 'PAN must be 5 letters, 4 digits and a letter');
+  assert.equal(validateDocumentFields({ dateOfBirth: '1990-02-30' }, 'pan'), 'Date of birth must be a past date (YYYY-MM-DD)');
+  assert.match(validateDocumentFields({ gender: 'unknown' }, 'aadhar'), /^Gender must be one of/);
+});
+
+test('other card types and vault-encrypted values are not checked on save', () => {
+  assert.equal(validateDocumentFields({ cardNumber: '1234' }, 'credit'), null);
+  assert.equal(validateDocumentFields({ cardNumber: 'zk1:abc:def', gender: 'zk1:ghi:jkl' }, 'aadhar'), null);
+});
@@ -0,0 +1,125 @@
+const { test, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+
+const LEGACY_KEY = crypto.randomBytes(32).toString('base64');
+const NEW_KEY = crypto.randomBytes(32).toString('base64');
+
+process.env.STORAGE_BACKEND = 'memory';
+process.env.KMS_LOCAL_KEK = crypto.randomBytes(32).toString('base64');
+
+const { getStorageBackend } = require('../storage');
+const { shredDataKey } = require('../utils/dataKeys');
+const {
+  encrypt,
+  decrypt,
+  encryptCardData,
+  decryptCardData,
+  rotateCardData,
+  getCiphertextKeyId,
+  isDataKeyCiphertext
+} = require('../utils/encryption');
+
+// Ciphertext as written before key IDs existed: iv:authTag:ciphertext under ENCRYPTION_KEY
+const encryptLegacy = (plaintext) => {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-gcm', Buffer.from(LEGACY_KEY, 'base64'), iv);
+  const encrypted = cipher.update(plaintext, 'utf8', 'base64') + cipher.final('base64');
+  return `${iv.toString('base64')}:${cipher.getAuthTag().toString('base64')}:${encrypted}`;
+};
+
+// Data keys stay cached per uid after a reset, so each test that needs its own key uses its own user
+beforeEach(() => {
+  process.env.ENCRYPTION_KEY = LEGACY_KEY;
+  process.env.ENCRYPTION_KEYS = `k2:${NEW_KEY}`;
+  delete process.env.ENCRYPTION_ACTIVE_KEY_ID;
+  delete process.env.KMS_PROVIDER;
+  getStorageBackend().reset();
+});
+
+test('legacy ciphertext without a key ID decrypts with ENCRYPTION_KEY', () => {
+  const ciphertext = encryptLegacy('4111111111111111');
+
+  assert.equal(getCiphertextKeyId(ciphertext), 'legacy');
+  assert.equal(decrypt(ciphertext), '4111111111111111');
+});
+
+test('v2 ciphertext names the active keyring key and round-trips', () => {
+  const ciphertext = encrypt('4111111111111111');
+
+  assert.match(ciphertext, /^v2:k2:/);
+  assert.equal(decrypt(ciphertext), '4111111111111111');
+});
+
+test('v2 ciphertext still decrypts after the key stops being active', () => {
+  const ciphertext = encrypt('123');
+  process.env.ENCRYPTION_ACTIVE_KEY_ID = 'legacy';
+
+  assert.match(encrypt('123'), /^v2:legacy:/);
+  assert.equal(decrypt(ciphertext), '123');
+});
+
+test('tampered ciphertext fails authentication', () => {
+  const [version, keyId, iv, authTag, body] = encrypt('4111111111111111').split(':');
+  const flipped = Buffer.from(body, 'base64');
+  flipped[0] ^= 1;
+
+  assert.throws(() => decrypt([version, keyId, iv, authTag, flipped.toString('base64')].join(':')), /Decryption failed/);
+});
+
+test('v3 card data round-trips under the owner data key', async () => {
+  process.env.KMS_PROVIDER = 'local';
+  const card = { userId: 'alice', cardNumber: '4111111111111111', cvv: '123', bank: 'HDFC' };
+
+  const stored = await encryptCardData(card);
+  assert.ok(isDataKeyCiphertext(stored.cardNumber));
+  assert.equal(stored.cardNumber_encrypted, true);
+  assert.equal(stored.bank, 'HDFC');
+
+  const decrypted = await decryptCardData(stored);
+  assert.equal(decrypted.cardNumber, '4111111111111111');
+  assert.equal(decrypted.cvv, '123');
+  assert.equal(decrypted.cardNumber_encrypted, undefined);
+});
+
+test('v3 ciphertext is unreadable once the data key is shredded', async () => {
+  process.env.KMS_PROVIDER = 'local';
+  const stored = await encryptCardData({ userId: 'dave', cardNumber: '4111111111111111' });
+
+  assert.equal(await shredDataKey('dave'), true);
+  const decrypted = await decryptCardData(stored);
+  assert.equal(decrypted.cardNumber, null);
+});
+
+test('rotateCardData moves legacy and v2 fields to the owner data key', async () => {
+  process.env.ENCRYPTION_ACTIVE_KEY_ID = 'legacy';
+  const stored = {
+    userId: 'bob',
+    cardNumber: encryptLegacy('4111111111111111'),
+    cardNumber_encrypted: true,
+    cvv: encrypt('123'),
+    cvv_encrypted: true
+  };
+
+  process.env.KMS_PROVIDER = 'local';
+  const updates = await rotateCardData(stored);
+  assert.deepEqual(Object.keys(updates).sort(), ['cardNumber', 'cvv']);
+  assert.ok(isDataKeyCiphertext(updates.cardNumber));
+
+  const decrypted = await decryptCardData({ ...stored, ...updates });
+  assert.equal(decrypted.cardNumber, '4111111111111111');
+  assert.equal(decrypted.cvv, '123');
+
+  // Already under the target key: nothing left to rotate
+  assert.deepEqual(await rotateCardData({ ...stored, ...updates }), {});
+});
+
+test('rotateCardData moves v3 fields back to the keyring when envelope encryption is turned off', async () => {
+  process.env.KMS_PROVIDER = 'local';
+  const stored = await encryptCardData({ userId: 'carol', cardNumber: '4111111111111111' });
+
+  delete process.env.KMS_PROVIDER;
+  const updates = await rotateCardData(stored);
+  assert.match(updates.cardNumber, /^v2:k2:/);
+  assert.equal(decrypt(updates.cardNumber), '4111111111111111');
+});
@@ -0,0 +1,46 @@
+const { test, before, after, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+
+process.env.EXTRACTION_PROVIDER = 'tesseract';
+
+const { startTestServer } = require('./helpers/testServer');
+const { getDb } = require('../storage');
+const tesseractProvider = require('../extraction/tesseractProvider');
+
+let server;
+
+const IMAGE = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+
+before(async () => {
+  tesseractProvider.extract = async () => ({ type: 'credit', bank: 'HDFC', cardNumber: '4111111111111111', confidence: {} });
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+});
+
+test('extraction returns the fields for review without changing any card', async () => {
+  const upload = await server.request('POST', '/api/images?name=front.png', {
+    user: 'alice',
+    body: IMAGE,
+    headers: { 'Content-Type': 'image/png' }
+  });
+  const { id: cardId } = await getDb().collection('cards').add({ userId: 'bob', type: 'credit', bank: 'SBI' });
+
+  // Older clients also sent the card being re-extracted
+  const response = await server.request('POST', '/api/extract', {
+    user: 'alice',
+    body: { images: [{ side: 'front', url: upload.body.url }], cardId }
+  });
+  assert.equal(response.status, 200);
+  assert.equal(response.body.data.bank, 'HDFC');
+
+  const card = await getDb().collection('cards').doc(cardId).get();
+  assert.equal(card.data().bank, 'SBI');
+  assert.equal(card.data().extractionStatus, undefined);
+});
@@ -0,0 +1,94 @@
+/**
+ * Integration test server
+ * Runs the app on the in-memory storage backend and sends requests the way
+ * the browser client does: from an allowed Origin, with the CSRF cookie and
+ * header, and with development tokens ("dev:<uid>[:<email>]") for auth.
+ *
+ * Test files set any extra environment (e.g. BLIND_INDEX_KEY) before
+ * requiring this file, since routes read some settings when they load.
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+process.env.STORAGE_BACKEND = 'memory';
+process.env.STORAGE_LOCAL_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'vault-test-'));
+process.env.ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || crypto.randomBytes(32).toString('base64');
+
+const app = require('../../index');
+const { getStorageBackend } = require('../../storage');
+
+const ORIGIN = 'http://localhost:5173';
+
+/**
+ * Start the app on a free port
+ * @returns {Promise<Object>} request(), reset() and close()
+ */
+const startTestServer = async () => {
+  const server = await new Promise((resolve) => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const baseUrl = `http://127.0.0.1:${server.address().port}`;
+  let csrf = null;
+
+  const getCsrf = async () => {
+    if (!csrf) {
+      const response = await fetch(`${baseUrl}/api/csrf-token`, { headers: { Origin: ORIGIN } });
+      const { csrfToken } = await response.json();
+      csrf = { token: csrfToken, cookie: response.headers.get('set-cookie').split(';')[0] };
+    }
+    return csrf;
+  };
+
+  /**
+   * Send a request to the app
+   * @param {string} method - HTTP method
+   * @param {string} urlPath - Path under the server, e.g. /api/cards
+   * @param {Object} [options]
+   * @param {string} [options.user] - Signed-in user as "<uid>" or "<uid>:<email>"
+   * @param {Object|Buffer} [options.body] - JSON body, or a Buffer sent as-is (set its Content-Type in headers)
+   * @param {Object} [options.headers] - Extra headers
+   * @returns {Promise<{status: number, headers: Headers, body: *}>} body is parsed JSON, or a Buffer
+   */
+  const request = async (method, urlPath, { user, body, headers = {} } = {}) => {
+    const { token, cookie } = await getCsrf();
+    const isJsonBody = body !== undefined && !Buffer.isBuffer(body);
+    const response = await fetch(`${baseUrl}${urlPath}`, {
+      method,
+      redirect: 'manual',
+      headers: {
+        Origin: ORIGIN,
+        Cookie: cookie,
+        'X-CSRF-Token': token,
+        ...(user && { Authorization: `Bearer dev:${user}` }),
+        ...(isJsonBody && { 'Content-Type': 'application/json' }),
+        ...headers
+      },
+      body: isJsonBody ? JSON.stringify(body) : body
+    });
+
+    const isJson = (response.headers.get('content-type') || '').includes('application/json');
+    return {
+      status: response.status,
+      headers: response.headers,
+      body: isJson ? await response.json() : Buffer.from(await response.arrayBuffer())
+    };
+  };
+
+  return {
+    baseUrl,
+    request,
+    // Empties the database between tests
+    reset: () => getStorageBackend().reset(),
+    close: async () => {
+      await new Promise((resolve) => server.close(resolve));
+      fs.rmSync(process.env.STORAGE_LOCAL_DIR, { recursive: true, force: true });
+    }
+  };
+};
+
+module.exports = {
+  startTestServer
+};
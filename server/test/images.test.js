@@ -0,0 +1,125 @@
+const { test, before, after, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startTestServer } = require('./helpers/testServer');
+const { getDb, getBucket } = require('../storage');
+
+let server;
+
+const IMAGE = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+
+const uploadImage = async (user, name = 'front.png') => {
+  const response = await server.request('POST', `/api/images?name=${encodeURIComponent(name)}`, {
+    user,
+    body: IMAGE,
+    headers: { 'Content-Type': 'image/png' }
+  });
+  assert.equal(response.status, 201);
+  return response.body.url;
+};
+
+const createCard = async (user, url) => {
+  const response = await server.request('POST', '/api/cards', {
+    user,
+    body: { type: 'credit', cardName: 'Travel', bank: 'HDFC', images: [{ side: 'front', url }] }
+  });
+  assert.equal(response.status, 201);
+  return response.body.id;
+};
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+});
+
+test('uploaded images are stored in the user\'s folder and served to the card owner', async () => {
+  const url = await uploadImage('alice', '../my card?.png');
+  assert.match(url, /^cards\/alice\/\d+__my_card_\.png$/);
+
+  const cardId = await createCard('alice', url);
+  const image = await server.request('GET', `/api/cards/${cardId}/image`, { user: 'alice' });
+  assert.equal(image.status, 200);
+  assert.equal(image.headers.get('content-type'), 'image/png');
+  assert.deepEqual(image.body, IMAGE);
+
+  const notAnImage = await server.request('POST', '/api/images', { user: 'alice', body: { url } });
+  assert.equal(notAnImage.status, 400);
+});
+
+test('uploaded images can be encrypted and are then served decrypted', async () => {
+  const url = await uploadImage('alice');
+  const cardId = await createCard('alice', url);
+
+  const encrypt = await server.request('POST', `/api/cards/${cardId}/image/encrypt`, { user: 'alice', body: {} });
+  assert.equal(encrypt.status, 200);
+  assert.equal(encrypt.body.imageEncrypted, true);
+
+  const [plainExists] = await getBucket().file(url).exists();
+  assert.equal(plainExists, false);
+  const [stored] = await getBucket().file(`${url}.encrypted`).download();
+  assert.notDeepEqual(stored, IMAGE);
+
+  const image = await server.request('GET', `/api/cards/${cardId}/image`, { user: 'alice' });
+  assert.equal(image.status, 200);
+  assert.deepEqual(image.body, IMAGE);
+});
+
+test('another user\'s uploads can\'t be served, encrypted or deleted', async () => {
+  const url = await uploadImage('alice');
+
+  // Cards can't be given another user's image, so store one the way older servers allowed
+  const { id: cardId } = await getDb().collection('cards').add({
+    userId: 'bob',
+    type: 'credit',
+    images: [{ side: 'front', url, encrypted: false }],
+    imageUrl: url,
+    imageEncrypted: false
+  });
+
+  const image = await server.request('GET', `/api/cards/${cardId}/image`, { user: 'bob' });
+  assert.equal(image.status, 403);
+  const encrypt = await server.request('POST', `/api/cards/${cardId}/image/encrypt`, { user: 'bob', body: {} });
+  assert.equal(encrypt.status, 403);
+  const remove = await server.request('DELETE', `/api/images?path=${encodeURIComponent(url)}`, { user: 'bob' });
+  assert.equal(remove.status, 403);
+  const removeCard = await server.request('DELETE', `/api/cards/${cardId}`, { user: 'bob' });
+  assert.equal(removeCard.status, 200);
+
+  const [exists] = await getBucket().file(url).exists();
+  assert.equal(exists, true);
+});
+
+test('discarded uploads can be deleted by their owner', async () => {
+  const url = await uploadImage('alice');
+  const path = `/api/images?path=${encodeURIComponent(url)}`;
+
+  const remove = await server.request('DELETE', path, { user: 'alice' });
+  assert.equal(remove.status, 200);
+  const [exists] = await getBucket().file(url).exists();
+  assert.equal(exists, false);
+
+  const again = await server.request('DELETE', path, { user: 'alice' });
+  assert.equal(again.status, 404);
+});
+
+test('share links serve uploaded images through the server', async () => {
+  const cardId = await createCard('alice', await uploadImage('alice'));
+  const folder = await server.request('POST', '/api/sharefolders', { user: 'alice', body: { name: 'Trip' } });
+  await server.request('POST', `/api/sharefolders/${folder.body.id}/cards`, { user: 'alice', body: { cardId } });
+  const share = await server.request('POST', `/api/sharefolders/${folder.body.id}/share`, { user: 'alice', body: {} });
+
+  const view = await server.request('GET', `/api/sharefolders/public/${share.body.shareToken}`);
+  const imageUrl = new URL(view.body.cards[0].imageUrl);
+  assert.equal(imageUrl.pathname, `/api/sharefolders/public/${share.body.shareToken}/image/${cardId}`);
+
+  const image = await server.request('GET', `${imageUrl.pathname}${imageUrl.search}`);
+  assert.equal(image.status, 200);
+  assert.deepEqual(image.body, IMAGE);
+});
@@ -0,0 +1,41 @@
+const { test, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+
+process.env.STORAGE_BACKEND = 'memory';
+process.env.ENCRYPTION_KEY = crypto.randomBytes(32).toString('base64');
+process.env.KMS_LOCAL_KEK = crypto.randomBytes(32).toString('base64');
+
+const { getKmsProvider, initializeKms } = require('../kms');
+const { encryptCardData } = require('../utils/encryption');
+
+afterEach(() => {
+  delete process.env.KMS_PROVIDER;
+});
+
+test('no provider without KMS_PROVIDER', () => {
+  assert.equal(getKmsProvider(), null);
+  assert.doesNotThrow(() => initializeKms());
+});
+
+test('KMS_PROVIDER selects a known provider', () => {
+  process.env.KMS_PROVIDER = 'Local';
+  assert.equal(getKmsProvider().name, 'local');
+});
+
+test('an unknown KMS_PROVIDER fails startup instead of disabling per-user keys', async () => {
+  process.env.KMS_PROVIDER = 'lcoal';
+
+  assert.throws(() => initializeKms(), /Unknown KMS provider "lcoal"/);
+  // Without the startup check, writes fail rather than fall back to the shared key
+  await assert.rejects(encryptCardData({ userId: 'alice', cardNumber: '4111111111111111' }), /Unknown KMS provider/);
+});
+
+test('wrapped keys round-trip through the local provider', async () => {
+  const kms = getKmsProvider('local');
+  const key = crypto.randomBytes(32);
+
+  const wrapped = await kms.wrapKey(key);
+  assert.ok(!Buffer.from(wrapped.wrappedKey, 'base64').includes(key));
+  assert.deepEqual(await kms.unwrapKey(wrapped), key);
+});
@@ -0,0 +1,116 @@
+const { test, before, after, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+process.env.STORAGE_BACKEND = 'memory';
+process.env.STORAGE_LOCAL_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'vault-rotate-'));
+process.env.ENCRYPTION_KEYS = `k1:${crypto.randomBytes(32).toString('base64')},k2:${crypto.randomBytes(32).toString('base64')}`;
+delete process.env.KMS_PROVIDER;
+
+const { getStorageBackend, initializeStorage, getDb } = require('../storage');
+const { encryptCardData, decryptCardData, getCiphertextKeyId } = require('../utils/encryption');
+const { ROTATIONS_COLLECTION, rotateKeys } = require('../scripts/rotateEncryptionKeys');
+
+const CARD_IDS = ['card-a', 'card-b', 'card-c', 'card-d', 'card-e'];
+
+const storeCards = async () => {
+  process.env.ENCRYPTION_ACTIVE_KEY_ID = 'k1';
+  for (const id of CARD_IDS) {
+    await getDb().collection('cards').doc(id).set(await encryptCardData({ userId: 'alice', cardNumber: '4111111111111111', cvv: '123' }));
+  }
+  process.env.ENCRYPTION_ACTIVE_KEY_ID = 'k2';
+};
+
+const keyIdOf = async (id) => getCiphertextKeyId((await getDb().collection('cards').doc(id).get()).data().cardNumber);
+
+before(() => {
+  initializeStorage();
+});
+
+after(() => {
+  fs.rmSync(process.env.STORAGE_LOCAL_DIR, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  getStorageBackend().reset();
+  await storeCards();
+});
+
+test('re-encrypts every card under the active key and records completion', async () => {
+  const progress = await rotateKeys({ batchSize: 2 });
+
+  assert.equal(progress.status, 'completed');
+  assert.equal(progress.processedCards, CARD_IDS.length);
+  assert.equal(progress.rotatedFields, CARD_IDS.length * 2);
+  for (const id of CARD_IDS) {
+    assert.equal(await keyIdOf(id), 'k2');
+  }
+
+  const cardDoc = await getDb().collection('cards').doc('card-a').get();
+  assert.equal((await decryptCardData(cardDoc.data())).cvv, '123');
+
+  const saved = (await getDb().collection(ROTATIONS_COLLECTION).doc('k2').get()).data();
+  assert.equal(saved.status, 'completed');
+  assert.equal(saved.cursor, 'card-e');
+});
+
+test('resumes after the saved cursor of an interrupted run', async () => {
+  await getDb().collection(ROTATIONS_COLLECTION).doc('k2').set({
+    status: 'running',
+    target: 'k2',
+    cursor: 'card-b',
+    processedCards: 2,
+    rotatedFields: 4,
+    rotatedImages: 0,
+    indexedCards: 0,
+    failedCards: 0,
+    failures: [],
+    startedAt: '2026-01-01T00:00:00.000Z'
+  });
+
+  const progress = await rotateKeys({ batchSize: 2 });
+
+  assert.equal(progress.processedCards, CARD_IDS.length);
+  assert.equal(progress.rotatedFields, CARD_IDS.length * 2);
+  assert.equal(progress.startedAt, '2026-01-01T00:00:00.000Z');
+  // Cards before the cursor count as done and are not touched again
+  assert.equal(await keyIdOf('card-a'), 'k1');
+  assert.equal(await keyIdOf('card-b'), 'k1');
+  assert.equal(await keyIdOf('card-c'), 'k2');
+  assert.equal(await keyIdOf('card-e'), 'k2');
+});
+
+test('a completed rotation is not run again without restart', async () => {
+  await rotateKeys();
+  process.env.ENCRYPTION_ACTIVE_KEY_ID = 'k1';
+  await getDb().collection(ROTATIONS_COLLECTION).doc('k1').set({ status: 'completed', completedAt: '2026-01-01T00:00:00.000Z' });
+
+  await rotateKeys();
+  assert.equal(await keyIdOf('card-a'), 'k2');
+
+  const progress = await rotateKeys({ restart: true });
+  assert.equal(progress.status, 'completed');
+  assert.equal(await keyIdOf('card-a'), 'k1');
+});
+
+test('records failing cards and carries on', async () => {
+  await getDb().collection('cards').doc('card-c').update({ cvv: 'v2:gone:AAAA:AAAA:AAAA' });
+
+  const progress = await rotateKeys();
+
+  assert.equal(progress.status, 'completed_with_failures');
+  assert.equal(progress.failedCards, 1);
+  assert.equal(progress.failures[0].cardId, 'card-c');
+  assert.equal(await keyIdOf('card-d'), 'k2');
+});
+
+test('a dry run changes nothing', async () => {
+  const progress = await rotateKeys({ dryRun: true });
+
+  assert.equal(progress.rotatedFields, CARD_IDS.length * 2);
+  assert.equal(await keyIdOf('card-a'), 'k1');
+  assert.equal((await getDb().collection(ROTATIONS_COLLECTION).doc('k2').get()).exists, false);
+});
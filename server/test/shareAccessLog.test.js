@@ -0,0 +1,99 @@
+const { test, before, after, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+
+process.env.IP_HASH_SECRET = 'test-ip-hash-secret';
+
+const { startTestServer } = require('./helpers/testServer');
+const { getDb } = require('../storage');
+const { ACCESS_LOG_COLLECTION, hashIp, getUserAgentFamily } = require('../utils/shareAccessLog');
+
+let server;
+
+const IPHONE_SAFARI = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const VISITOR_IP = '203.0.113.7';
+
+/**
+ * Create a card in a folder and share the folder
+ * @returns {Promise<{folderId: string, cardId: string, shareToken: string}>}
+ */
+const shareCard = async (shareOptions = {}) => {
+  const card = await server.request('POST', '/api/cards', { user: 'alice', body: { type: 'other', cardName: 'Gym' } });
+  const folder = await server.request('POST', '/api/sharefolders', { user: 'alice', body: { name: 'Trip' } });
+  await server.request('POST', `/api/sharefolders/${folder.body.id}/cards`, { user: 'alice', body: { cardId: card.body.id } });
+
+  const share = await server.request('POST', `/api/sharefolders/${folder.body.id}/share`, { user: 'alice', body: shareOptions });
+  assert.equal(share.status, 200);
+  return { folderId: folder.body.id, cardId: card.body.id, shareToken: share.body.shareToken };
+};
+
+const visitorHeaders = { 'User-Agent': IPHONE_SAFARI, 'X-Forwarded-For': VISITOR_IP };
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+});
+
+test('user agents are reduced to their browser and OS family', () => {
+  assert.equal(getUserAgentFamily(IPHONE_SAFARI), 'Safari on iOS');
+  assert.equal(getUserAgentFamily('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36 Edg/120.0'), 'Edge on Windows');
+  assert.equal(getUserAgentFamily('Googlebot/2.1 (+http://www.google.com/bot.html)'), 'Bot');
+  assert.equal(getUserAgentFamily('curl/8.4.0'), 'Script');
+  assert.equal(getUserAgentFamily(undefined), 'Unknown');
+});
+
+test('IP hashes are stable, short and not the IP', () => {
+  assert.match(hashIp(VISITOR_IP), /^[0-9a-f]{16}$/);
+  assert.equal(hashIp(VISITOR_IP), hashIp(VISITOR_IP));
+  assert.notEqual(hashIp(VISITOR_IP), hashIp('203.0.113.8'));
+  assert.equal(hashIp(''), null);
+});
+
+test('public views are logged with a hashed IP and counted per link', async () => {
+  const { folderId, cardId, shareToken } = await shareCard();
+
+  for (let i = 0; i < 2; i++) {
+    const view = await server.request('GET', `/api/sharefolders/public/${shareToken}`, { headers: visitorHeaders });
+    assert.equal(view.status, 200);
+  }
+
+  const access = await server.request('GET', `/api/sharefolders/${folderId}/access`, { user: 'alice' });
+  assert.equal(access.status, 200);
+  assert.equal(access.body.events.length, 2);
+  const { id, accessedAt, ...event } = access.body.events[0];
+  assert.ok(id && accessedAt);
+  assert.deepEqual(event, { shareToken, type: 'view', cardIds: [cardId], ipHash: hashIp(VISITOR_IP), userAgent: 'Safari on iOS' });
+
+  const stored = await getDb().collection('shareFolders').doc(folderId).collection(ACCESS_LOG_COLLECTION).get();
+  assert.ok(stored.docs.every(doc => !JSON.stringify(doc.data()).includes(VISITOR_IP)));
+
+  const history = await server.request('GET', `/api/sharefolders/${folderId}/history`, { user: 'alice' });
+  const entry = history.body.history.find(item => item.shareToken === shareToken);
+  assert.equal(entry.views, 2);
+  assert.equal(entry.imageViews, 0);
+  assert.ok(entry.lastAccessedAt);
+
+  const other = await server.request('GET', `/api/sharefolders/${folderId}/access`, { user: 'bob' });
+  assert.equal(other.status, 403);
+});
+
+test('passcode attempts are logged without counting as views', async () => {
+  const { folderId, shareToken } = await shareCard({ passcode: '482913' });
+
+  const wrong = await server.request('POST', `/api/sharefolders/public/${shareToken}/unlock`, { body: { passcode: '000000' }, headers: visitorHeaders });
+  assert.equal(wrong.status, 401);
+  const right = await server.request('POST', `/api/sharefolders/public/${shareToken}/unlock`, { body: { passcode: '482913' }, headers: visitorHeaders });
+  assert.equal(right.status, 200);
+
+  const access = await server.request('GET', `/api/sharefolders/${folderId}/access`, { user: 'alice' });
+  assert.deepEqual(access.body.events.map(event => event.type).sort(), ['unlock', 'unlock_failed']);
+
+  const history = await server.request('GET', `/api/sharefolders/${folderId}/history`, { user: 'alice' });
+  assert.equal(history.body.history.find(item => item.shareToken === shareToken).views, 0);
+});
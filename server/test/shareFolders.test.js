@@ -0,0 +1,133 @@
+const { test, before, after, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startTestServer } = require('./helpers/testServer');
+
+let server;
+
+const createCards = async (user, count) => {
+  const items = Array.from({ length: count }, (_, i) => ({ type: 'credit', cardName: `Card ${i + 1}`, bank: 'HDFC' }));
+  const response = await server.request('POST', '/api/cards/batch', { user, body: { action: 'create', items } });
+  assert.equal(response.status, 200);
+  return response.body.results.map(result => result.id);
+};
+
+const createFolder = async (user) => {
+  const response = await server.request('POST', '/api/sharefolders', { user, body: { name: 'Family' } });
+  return response.body.id;
+};
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+});
+
+test('folders with more than 30 cards can be shared and viewed', async () => {
+  const cardIds = await createCards('alice', 45);
+  const folderId = await createFolder('alice');
+
+  const batch = await server.request('POST', `/api/sharefolders/${folderId}/cards/batch`, { user: 'alice', body: { add: cardIds } });
+  assert.equal(batch.body.succeeded, 45);
+
+  const share = await server.request('POST', `/api/sharefolders/${folderId}/share`, { user: 'alice', body: {} });
+  const view = await server.request('GET', `/api/sharefolders/public/${share.body.shareToken}`);
+  assert.equal(view.status, 200);
+  assert.equal(view.body.cards.length, 45);
+});
+
+test('concurrent batch updates keep each other\'s changes', async () => {
+  const cardIds = await createCards('alice', 24);
+  const folderId = await createFolder('alice');
+  await server.request('POST', `/api/sharefolders/${folderId}/cards/batch`, { user: 'alice', body: { add: cardIds.slice(0, 6) } });
+
+  // Six requests, each adding three cards and removing one of the first six
+  await Promise.all(Array.from({ length: 6 }, (_, i) => server.request('POST', `/api/sharefolders/${folderId}/cards/batch`, {
+    user: 'alice',
+    body: { add: cardIds.slice(6 + i * 3, 9 + i * 3), remove: [cardIds[i]] }
+  })));
+
+  const folders = await server.request('GET', '/api/sharefolders', { user: 'alice' });
+  const folder = folders.body.find(candidate => candidate.id === folderId);
+  assert.deepEqual([...folder.cardIds].sort(), cardIds.slice(6).sort());
+});
+
+test('batch adds report cards that are missing, not owned or already in the folder', async () => {
+  const [own] = await createCards('alice', 1);
+  const [other] = await createCards('bob', 1);
+  const folderId = await createFolder('alice');
+  await server.request('POST', `/api/sharefolders/${folderId}/cards/batch`, { user: 'alice', body: { add: [own] } });
+
+  const batch = await server.request('POST', `/api/sharefolders/${folderId}/cards/batch`, {
+    user: 'alice',
+    body: { add: [own, other, 'missing'] }
+  });
+  assert.deepEqual(batch.body.results.map(result => result.error), ['Card already in folder', 'Access denied to card', 'Card not found']);
+
+  const forbidden = await server.request('POST', `/api/sharefolders/${folderId}/cards/batch`, { user: 'bob', body: { add: [other] } });
+  assert.equal(forbidden.status, 403);
+});
+
+test('editors see only member fields and who added each card', async () => {
+  const [aliceCard] = await createCards('alice', 1);
+  const [bobCard] = await createCards('bob:bob@example.com', 1);
+  const folderId = await createFolder('alice');
+  await server.request('POST', `/api/sharefolders/${folderId}/members`, { user: 'alice', body: { email: 'bob@example.com', role: 'editor' } });
+  await server.request('POST', `/api/sharefolders/${folderId}/cards/batch`, { user: 'alice', body: { add: [aliceCard] } });
+  await server.request('POST', `/api/sharefolders/${folderId}/cards/batch`, { user: 'bob:bob@example.com', body: { add: [bobCard] } });
+  await server.request('POST', `/api/sharefolders/${folderId}/share`, { user: 'alice', body: { passcode: 'secret', maxViews: 5 } });
+
+  const folders = await server.request('GET', '/api/sharefolders', { user: 'bob:bob@example.com' });
+  const folder = folders.body.find(candidate => candidate.id === folderId);
+  assert.equal(folder.role, 'editor');
+  for (const field of ['shareToken', 'recipientEmails', 'viewCount', 'maxViews', 'redaction', 'passcodeProtected', 'isPublic']) {
+    assert.equal(folder[field], undefined, field);
+  }
+  assert.deepEqual(folder.cardOwners[aliceCard], { email: null });
+  assert.deepEqual(folder.cardOwners[bobCard], { uid: 'bob', email: 'bob@example.com' });
+});
+
+test('only the folder creator can make or manage owners', async () => {
+  const folderId = await createFolder('alice');
+  await server.request('POST', `/api/sharefolders/${folderId}/members`, { user: 'alice', body: { email: 'bob@example.com', role: 'owner' } });
+  await server.request('POST', `/api/sharefolders/${folderId}/members`, { user: 'alice', body: { email: 'carol@example.com', role: 'viewer' } });
+  const coOwner = 'bob:bob@example.com';
+
+  const add = await server.request('POST', `/api/sharefolders/${folderId}/members`, { user: coOwner, body: { email: 'dan@example.com', role: 'owner' } });
+  assert.equal(add.status, 403);
+  const promote = await server.request('PUT', `/api/sharefolders/${folderId}/members/carol@example.com`, { user: coOwner, body: { role: 'owner' } });
+  assert.equal(promote.status, 403);
+
+  const promoteEditor = await server.request('PUT', `/api/sharefolders/${folderId}/members/carol@example.com`, { user: coOwner, body: { role: 'editor' } });
+  assert.equal(promoteEditor.status, 200);
+
+  const promoteByCreator = await server.request('PUT', `/api/sharefolders/${folderId}/members/carol@example.com`, { user: 'alice', body: { role: 'owner' } });
+  assert.equal(promoteByCreator.status, 200);
+  const removeOwner = await server.request('DELETE', `/api/sharefolders/${folderId}/members/carol@example.com`, { user: coOwner });
+  assert.equal(removeOwner.status, 403);
+
+  // Co-owners can still leave
+  const leave = await server.request('DELETE', `/api/sharefolders/${folderId}/members/bob@example.com`, { user: coOwner });
+  assert.equal(leave.status, 200);
+});
+
+test('concurrent member adds keep each other\'s members', async () => {
+  const folderId = await createFolder('alice');
+  const emails = Array.from({ length: 5 }, (_, i) => `member${i}@example.com`);
+
+  await Promise.all(emails.map(email => server.request('POST', `/api/sharefolders/${folderId}/members`, {
+    user: 'alice',
+    body: { email, role: 'editor' }
+  })));
+
+  const folders = await server.request('GET', '/api/sharefolders', { user: 'alice' });
+  const folder = folders.body.find(candidate => candidate.id === folderId);
+  assert.deepEqual(folder.members.map(member => member.email).sort(), emails);
+  assert.ok(folder.members.every(member => member.role === 'editor'));
+});
@@ -0,0 +1,92 @@
+const { test, before, after, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startTestServer } = require('./helpers/testServer');
+const { getDb, Timestamp } = require('../storage');
+const { createAccessToken } = require('../utils/sharePasscode');
+
+let server;
+
+/**
+ * Create a card in a folder and share the folder
+ * @returns {Promise<{folderId: string, cardId: string, shareToken: string}>}
+ */
+const shareCard = async (shareOptions) => {
+  const card = await server.request('POST', '/api/cards', {
+    user: 'alice',
+    body: { type: 'credit', cardName: 'Travel', cardNumber: '4111 1111 1111 1111', bank: 'HDFC' }
+  });
+  const folder = await server.request('POST', '/api/sharefolders', { user: 'alice', body: { name: 'Trip' } });
+  await server.request('POST', `/api/sharefolders/${folder.body.id}/cards`, { user: 'alice', body: { cardId: card.body.id } });
+
+  const share = await server.request('POST', `/api/sharefolders/${folder.body.id}/share`, { user: 'alice', body: shareOptions });
+  assert.equal(share.status, 200);
+  return { folderId: folder.body.id, cardId: card.body.id, shareToken: share.body.shareToken };
+};
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+});
+
+test('a masked share shows only the last 4 digits', async () => {
+  const { shareToken } = await shareCard({ redaction: { cardNumber: 'mask' } });
+
+  const view = await server.request('GET', `/api/sharefolders/public/${shareToken}`);
+  assert.equal(view.status, 200);
+  assert.equal(view.body.cards[0].cardNumber, '**** **** **** 1111');
+});
+
+test('a view is counted only after the cards load', async () => {
+  const { folderId, shareToken } = await shareCard({ maxViews: 1 });
+
+  // Make loading the folder's cards fail once
+  const db = getDb();
+  const collection = db.collection;
+  db.collection = (name) => {
+    if (name === 'cards') throw new Error('Simulated outage');
+    return collection.call(db, name);
+  };
+  const failed = await server.request('GET', `/api/sharefolders/public/${shareToken}`);
+  db.collection = collection;
+
+  assert.equal(failed.status, 500);
+  assert.equal((await db.collection('shareFolders').doc(folderId).get()).data().viewCount, 0);
+
+  const view = await server.request('GET', `/api/sharefolders/public/${shareToken}`);
+  assert.equal(view.status, 200);
+  assert.equal(view.body.viewsRemaining, 0);
+
+  const again = await server.request('GET', `/api/sharefolders/public/${shareToken}`);
+  assert.equal(again.status, 410);
+  assert.equal(again.body.viewLimitReached, true);
+});
+
+test('images of a link revoked by its view limit stop loading after the grace period', async () => {
+  const { folderId, cardId, shareToken } = await shareCard({ maxViews: 1 });
+
+  assert.equal((await server.request('GET', `/api/sharefolders/public/${shareToken}`)).status, 200);
+
+  // The card has no image, so the view's image URLs are null; sign the same grant they would carry
+  const { accessSecret } = (await getDb().collection('shareFolders').doc(folderId).get()).data();
+  const { accessToken } = createAccessToken(shareToken, accessSecret);
+  const imagePath = `/api/sharefolders/public/${shareToken}/image/${cardId}?access=${encodeURIComponent(accessToken)}`;
+
+  // Within the grace period the link is still readable
+  const recent = await server.request('GET', imagePath);
+  assert.equal(recent.body.error, 'Card has no image');
+
+  await getDb().collection('shareFolders').doc(folderId).update({
+    viewLimitReachedAt: Timestamp.fromMillis(Date.now() - 10 * 60 * 1000)
+  });
+  const late = await server.request('GET', imagePath);
+  assert.equal(late.status, 404);
+  assert.equal(late.body.error, 'Share link not found or has been revoked');
+});
@@ -0,0 +1,39 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { hashPasscode, verifyPasscode, createAccessToken, verifyAccessToken } = require('../utils/sharePasscode');
+
+test('a passcode verifies against its salted hash only', async () => {
+  const stored = await hashPasscode('correct horse');
+
+  assert.match(stored, /^scrypt:[0-9a-f]{32}:[0-9a-f]{64}$/);
+  assert.notEqual(await hashPasscode('correct horse'), stored);
+  assert.equal(await verifyPasscode('correct horse', stored), true);
+  assert.equal(await verifyPasscode('correct horsf', stored), false);
+});
+
+test('malformed hashes and passcodes never verify', async () => {
+  assert.equal(await verifyPasscode('1234', null), false);
+  assert.equal(await verifyPasscode('1234', 'bcrypt:aa:bb'), false);
+  assert.equal(await verifyPasscode(1234, await hashPasscode('1234')), false);
+});
+
+test('access tokens are bound to the link and its secret', async () => {
+  const secret = await hashPasscode('1234');
+  const { accessToken, expiresAt } = createAccessToken('share-token', secret);
+
+  assert.ok(expiresAt > new Date());
+  assert.equal(verifyAccessToken(accessToken, 'share-token', secret), true);
+  assert.equal(verifyAccessToken(accessToken, 'other-token', secret), false);
+  // Regenerating the link with a new passcode changes the secret
+  assert.equal(verifyAccessToken(accessToken, 'share-token', await hashPasscode('1234')), false);
+});
+
+test('expired and forged access tokens are rejected', () => {
+  const { accessToken } = createAccessToken('share-token', 'secret');
+  const [, signature] = accessToken.split('.');
+
+  assert.equal(verifyAccessToken(`${Date.now() - 1000}.${signature}`, 'share-token', 'secret'), false);
+  assert.equal(verifyAccessToken(`${Date.now() + 60000}.${signature}`, 'share-token', 'secret'), false);
+  assert.equal(verifyAccessToken('', 'share-token', 'secret'), false);
+});
@@ -0,0 +1,112 @@
+const { test, before, after, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startTestServer } = require('./helpers/testServer');
+const { getStorageBackend } = require('../storage');
+
+let server;
+
+const ALICE = 'alice:alice@example.com';
+const BOB = 'bob:bob@example.com';
+const CAROL = 'carol:carol@example.com';
+
+/**
+ * Create a folder with one of alice's cards in it
+ * @returns {Promise<{folderId: string, cardId: string}>}
+ */
+const createSharedFolder = async () => {
+  const card = await server.request('POST', '/api/cards', {
+    user: ALICE,
+    body: { type: 'credit', cardName: 'Travel', cardNumber: '4111 1111 1111 1111', bank: 'HDFC' }
+  });
+  const folder = await server.request('POST', '/api/sharefolders', { user: ALICE, body: { name: 'Family', description: 'Shared cards' } });
+  await server.request('POST', `/api/sharefolders/${folder.body.id}/cards`, { user: ALICE, body: { cardId: card.body.id } });
+  return { folderId: folder.body.id, cardId: card.body.id };
+};
+
+const addRecipient = (folderId, email, user = ALICE) =>
+  server.request('POST', `/api/sharefolders/${folderId}/members`, { user, body: { email } });
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+});
+
+test('recipients see the folder under shared with me, and others don\'t', async () => {
+  const { folderId, cardId } = await createSharedFolder();
+
+  const add = await addRecipient(folderId, 'Bob@Example.com');
+  assert.equal(add.status, 200);
+  assert.deepEqual(add.body.members, [{ email: 'bob@example.com', role: 'viewer' }]);
+
+  const list = await server.request('GET', '/api/sharefolders/shared-with-me', { user: BOB });
+  assert.equal(list.status, 200);
+  assert.equal(list.body.length, 1);
+  assert.equal(list.body[0].id, folderId);
+  assert.equal(list.body[0].ownerEmail, 'alice@example.com');
+  assert.equal(list.body[0].role, 'viewer');
+  assert.equal(list.body[0].cardCount, 1);
+
+  const view = await server.request('GET', `/api/sharefolders/shared-with-me/${folderId}`, { user: BOB });
+  assert.equal(view.status, 200);
+  assert.equal(view.body.folder.name, 'Family');
+  assert.deepEqual(view.body.cards.map(card => card.id), [cardId]);
+  const otherImage = await server.request('GET', `/api/sharefolders/shared-with-me/${folderId}/image/not-in-folder`, { user: BOB });
+  assert.equal(otherImage.status, 403);
+
+  const carolList = await server.request('GET', '/api/sharefolders/shared-with-me', { user: CAROL });
+  assert.deepEqual(carolList.body, []);
+  const carolView = await server.request('GET', `/api/sharefolders/shared-with-me/${folderId}`, { user: CAROL });
+  assert.equal(carolView.status, 404);
+  const missing = await server.request('GET', '/api/sharefolders/shared-with-me/missing', { user: BOB });
+  assert.equal(missing.status, 404);
+});
+
+test('a recipient\'s email must be verified', async () => {
+  const { folderId } = await createSharedFolder();
+  await addRecipient(folderId, 'bob@example.com');
+
+  const backend = getStorageBackend();
+  const verifyIdToken = backend.verifyIdToken;
+  backend.verifyIdToken = async (token) => ({ ...await verifyIdToken(token), email_verified: false });
+  try {
+    const list = await server.request('GET', '/api/sharefolders/shared-with-me', { user: BOB });
+    assert.deepEqual(list.body, []);
+    const view = await server.request('GET', `/api/sharefolders/shared-with-me/${folderId}`, { user: BOB });
+    assert.equal(view.status, 403);
+    assert.equal(view.body.error, 'Email not verified');
+  } finally {
+    backend.verifyIdToken = verifyIdToken;
+  }
+});
+
+test('only owners add recipients, once each, and never themselves', async () => {
+  const { folderId } = await createSharedFolder();
+
+  assert.equal((await addRecipient(folderId, 'not-an-email')).status, 400);
+  assert.equal((await addRecipient(folderId, 'alice@example.com')).status, 400);
+  assert.equal((await addRecipient(folderId, 'bob@example.com')).status, 200);
+  assert.equal((await addRecipient(folderId, 'BOB@example.com')).status, 409);
+  assert.equal((await addRecipient(folderId, 'carol@example.com', BOB)).status, 403);
+  assert.equal((await addRecipient(folderId, 'carol@example.com', CAROL)).status, 403);
+});
+
+test('removing a recipient ends their access', async () => {
+  const { folderId } = await createSharedFolder();
+  await addRecipient(folderId, 'bob@example.com');
+
+  const remove = await server.request('DELETE', `/api/sharefolders/${folderId}/members/bob@example.com`, { user: ALICE });
+  assert.equal(remove.status, 200);
+
+  const list = await server.request('GET', '/api/sharefolders/shared-with-me', { user: BOB });
+  assert.deepEqual(list.body, []);
+  const view = await server.request('GET', `/api/sharefolders/shared-with-me/${folderId}`, { user: BOB });
+  assert.equal(view.status, 404);
+});
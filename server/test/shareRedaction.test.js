@@ -0,0 +1,32 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { DEFAULT_REDACTION, normalizeRedaction, redactField } = require('../utils/shareRedaction');
+
+const masked = normalizeRedaction({ cardNumber: 'mask' });
+
+test('masks card numbers stored with spaces or dashes', () => {
+  assert.equal(redactField('cardNumber', '4111 1111 1111 1111', 'credit', masked), '**** **** **** 1111');
+  assert.equal(redactField('cardNumber', '4111-1111-1111-1234', 'credit', masked), '**** **** **** 1234');
+  assert.equal(redactField('cardNumber', '4111111111111234', 'debit', masked), '**** **** **** 1234');
+});
+
+test('always masks Aadhaar numbers, including spaced ones', () => {
+  assert.equal(redactField('cardNumber', '1234 5678 9012', 'aadhar', DEFAULT_REDACTION), '**** **** 9012');
+});
+
+test('keeps letters when masking other ID numbers', () => {
+  assert.equal(redactField('cardNumber', 'MEM-000AB 12CD', 'other', masked), '**** **** 12CD');
+  assert.equal(redactField('cardNumber', 'A1-2', 'other', masked), '****');
+});
+
+test('masks PAN to its first 5 and last 2 characters', () => {
+  assert.equal(redactField('cardNumber', 'ABCDE1234F', 'pan', masked), 'ABCDE***4F');
+});
+
+test('omits values that cannot be masked or are set to omit', () => {
+  assert.equal(redactField('cardNumber', 'zk1:abc:def', 'credit', masked), null);
+  assert.equal(redactField('cardNumber', '12-3', 'credit', masked), '****');
+  assert.equal(redactField('cvv', '123', 'credit', normalizeRedaction({ cvv: 'omit' })), null);
+  assert.equal(redactField('cvv', '123', 'credit', DEFAULT_REDACTION), '123');
+});
@@ -0,0 +1,25 @@
+const { test, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const tesseract = require('../extraction/tesseractProvider');
+
+afterEach(() => {
+  delete process.env.TESSERACT_LANG_PATH;
+});
+
+test('available offline with the bundled language data', () => {
+  assert.equal(tesseract.isAvailable(), true);
+});
+
+test('unavailable when TESSERACT_LANG_PATH has no language data', () => {
+  const empty = fs.mkdtempSync(path.join(os.tmpdir(), 'tessdata-'));
+  process.env.TESSERACT_LANG_PATH = empty;
+  assert.equal(tesseract.isAvailable(), false);
+
+  fs.writeFileSync(path.join(empty, 'eng.traineddata'), '');
+  assert.equal(tesseract.isAvailable(), true);
+  fs.rmSync(empty, { recursive: true, force: true });
+});
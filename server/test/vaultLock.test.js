@@ -0,0 +1,58 @@
+const { test, before, after, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startTestServer } = require('./helpers/testServer');
+const { getStorageBackend } = require('../storage');
+
+let server;
+
+const LOCK = { salt: Buffer.alloc(16, 1).toString('base64'), iterations: 600000, verifier: 'zk1:verifier' };
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+});
+
+test('a lock passphrase is set once and returned to its owner only', async () => {
+  assert.deepEqual((await server.request('GET', '/api/vault/lock', { user: 'alice' })).body, { configured: false });
+
+  const saved = await server.request('PUT', '/api/vault/lock', { user: 'alice', body: LOCK });
+  assert.equal(saved.status, 201);
+  assert.deepEqual((await server.request('GET', '/api/vault/lock', { user: 'alice' })).body, { configured: true, ...LOCK });
+  assert.deepEqual((await server.request('GET', '/api/vault/lock', { user: 'bob' })).body, { configured: false });
+
+  // Replacing it would let anyone holding the session skip the lock screen
+  const replaced = await server.request('PUT', '/api/vault/lock', { user: 'alice', body: { ...LOCK, verifier: 'zk1:other' } });
+  assert.equal(replaced.status, 409);
+});
+
+test('a lock passphrase needs a vault-format verifier', async () => {
+  const response = await server.request('PUT', '/api/vault/lock', { user: 'alice', body: { ...LOCK, verifier: 'plaintext' } });
+  assert.equal(response.status, 400);
+});
+
+test('a forgotten lock passphrase can be reset after signing in again', async () => {
+  await server.request('PUT', '/api/vault/lock', { user: 'alice', body: LOCK });
+
+  // A token from a sign-in an hour ago
+  const backend = getStorageBackend();
+  const verifyIdToken = backend.verifyIdToken;
+  backend.verifyIdToken = async (token) => ({ ...await verifyIdToken(token), auth_time: Math.floor(Date.now() / 1000) - 3600 });
+  const stale = await server.request('DELETE', '/api/vault/lock', { user: 'alice' });
+  backend.verifyIdToken = verifyIdToken;
+  assert.equal(stale.status, 401);
+
+  const reset = await server.request('DELETE', '/api/vault/lock', { user: 'alice' });
+  assert.equal(reset.status, 200);
+  assert.deepEqual((await server.request('GET', '/api/vault/lock', { user: 'alice' })).body, { configured: false });
+
+  const replaced = await server.request('PUT', '/api/vault/lock', { user: 'alice', body: { ...LOCK, verifier: 'zk1:other' } });
+  assert.equal(replaced.status, 201);
+});
@@ -0,0 +1,161 @@
+/**
+ * Account activity (audit) log
+ * Each user's actions are appended to auditLogs/{uid}/entries as a hash chain:
+ * every entry stores the hash of the one before it, and auditLogs/{uid} keeps
+ * the latest sequence number and hash. Editing, deleting or reordering an entry
+ * breaks the chain, which verifyAuditChain reports. Entries are only ever
+ * created, never updated, and IPs are stored as keyed hashes only.
+ */
+
+const crypto = require('crypto');
+const { getDb } = require('../storage');
+const logger = require('./secureLogger');
+const { hashIp, getUserAgentFamily } = require('./shareAccessLog');
+
+const AUDIT_LOG_COLLECTION = 'auditLogs';
+const ENTRIES_COLLECTION = 'entries';
+const GENESIS_HASH = '0'.repeat(64); // prevHash of a user's first entry
+const VERIFY_BATCH_SIZE = 500;
+
+// Actions the browser reports itself, because they happen on already-loaded data
+const CLIENT_AUDIT_ACTIONS = ['card.reveal_cvv', 'card.reveal_number', 'card.copy'];
+
+/**
+ * JSON with object keys sorted, so hashes don't depend on Firestore's map order
+ */
+const canonicalJson = (value) => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value === undefined ? null : value);
+};
+
+/**
+ * Hash an entry together with the previous entry's hash
+ * @param {Object} entry - Entry fields, including prevHash (hash itself is ignored)
+ * @returns {string} SHA-256 hex
+ */
+const hashAuditEntry = (entry) => {
+  const { seq, action, cardId, folderId, details, ipHash, userAgent, createdAt, prevHash } = entry;
+  return crypto.createHash('sha256')
+    .update(canonicalJson({ seq, action, cardId, folderId, details, ipHash, userAgent, createdAt, prevHash }))
+    .digest('hex');
+};
+
+// Zero-padded so document IDs sort in sequence order
+const entryId = (seq) => String(seq).padStart(12, '0');
+
+const getLogRef = (uid) => getDb().collection(AUDIT_LOG_COLLECTION).doc(uid);
+
+/**
+ * Append several actions to the signed-in user's activity log in one transaction
+ * Failures are logged and swallowed so they never fail the actions themselves.
+ * @param {Object} req - Express request with req.user set by verifyAuth
+ * @param {Object[]} events - Entries to append, in order
+ * @param {string} events[].action - e.g. 'card.delete', 'share.link_create'
+ * @param {string} [events[].cardId] - Card acted on
+ * @param {string} [events[].folderId] - Share folder acted on
+ * @param {Object} [events[].details] - Extra non-sensitive context (never card data)
+ */
+const recordAuditEvents = async (req, events) => {
+  if (events.length === 0) return;
+
+  const db = getDb();
+  const logRef = getLogRef(req.user.uid);
+  const ipHash = hashIp(req.ip);
+  const userAgent = getUserAgentFamily(req.get('User-Agent'));
+
+  try {
+    await db.runTransaction(async (transaction) => {
+      const logDoc = await transaction.get(logRef);
+      let { lastSeq = 0, lastHash = GENESIS_HASH } = logDoc.exists ? logDoc.data() : {};
+      // Part of the hash, so an ISO string rather than a server timestamp
+      const createdAt = new Date().toISOString();
+
+      for (const { action, cardId = null, folderId = null, details = {} } of events) {
+        const entry = { seq: lastSeq + 1, action, cardId, folderId, details, ipHash, userAgent, createdAt, prevHash: lastHash };
+        entry.hash = hashAuditEntry(entry);
+
+        // create() fails if the entry already exists, so history is never overwritten
+        transaction.create(logRef.collection(ENTRIES_COLLECTION).doc(entryId(entry.seq)), entry);
+        lastSeq = entry.seq;
+        lastHash = entry.hash;
+      }
+
+      transaction.set(logRef, { lastSeq, lastHash, updatedAt: createdAt });
+    });
+  } catch (error) {
+    logger.error(`Failed to record ${events.length} audit entries (${events[0].action}):`, error.message);
+  }
+};
+
+/**
+ * Append one action to the signed-in user's activity log
+ * @param {Object} req - Express request with req.user set by verifyAuth
+ * @param {string} action - e.g. 'card.delete', 'share.link_create'
+ * @param {Object} [target] - cardId, folderId and details, as in recordAuditEvents
+ */
+const recordAudit = (req, action, target = {}) => recordAuditEvents(req, [{ action, ...target }]);
+
+/**
+ * Recompute a user's hash chain from the first entry
+ * @param {string} uid - User whose log to check
+ * @returns {Promise<{valid: boolean, checked: number, brokenAt: number|null, reason: string|null}>}
+ */
+const verifyAuditChain = async (uid) => {
+  const logRef = getLogRef(uid);
+  const logDoc = await logRef.get();
+  const { lastSeq = 0, lastHash = GENESIS_HASH } = logDoc.exists ? logDoc.data() : {};
+
+  let expectedSeq = 1;
+  let prevHash = GENESIS_HASH;
+  let lastDoc = null;
+
+  const broken = (seq, reason) => ({ valid: false, checked: expectedSeq - 1, brokenAt: seq, reason });
+
+  for (;;) {
+    let query = logRef.collection(ENTRIES_COLLECTION).orderBy('seq').limit(VERIFY_BATCH_SIZE);
+    if (lastDoc) {
+      query = query.startAfter(lastDoc);
+    }
+    const snapshot = await query.get();
+
+    for (const doc of snapshot.docs) {
+      const entry = doc.data();
+      if (entry.seq !== expectedSeq || doc.id !== entryId(entry.seq)) {
+        return broken(expectedSeq, 'Entry missing or out of order');
+      }
+      if (entry.prevHash !== prevHash) {
+        return broken(entry.seq, 'Entry does not link to the previous entry');
+      }
+      if (hashAuditEntry(entry) !== entry.hash) {
+        return broken(entry.seq, 'Entry was modified');
+      }
+      prevHash = entry.hash;
+      expectedSeq += 1;
+    }
+
+    if (snapshot.size < VERIFY_BATCH_SIZE) break;
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  // Catches entries removed from the end of the log
+  if (expectedSeq - 1 !== lastSeq || prevHash !== lastHash) {
+    return broken(expectedSeq, 'Latest entries are missing');
+  }
+
+  return { valid: true, checked: lastSeq, brokenAt: null, reason: null };
+};
+
+module.exports = {
+  AUDIT_LOG_COLLECTION,
+  ENTRIES_COLLECTION,
+  CLIENT_AUDIT_ACTIONS,
+  hashAuditEntry,
+  recordAudit,
+  recordAuditEvents,
+  verifyAuditChain
+};
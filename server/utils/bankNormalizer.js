@@ -127,9 +127,16 @@ function normalizeBankName(bankName) {
   return words.length > 0 ? words.join(' ') : null;
 }
 
+// Identity documents have a fixed issuing authority instead of a bank
+const DOCUMENT_ISSUERS = {
+  aadhar: 'UIDAI',
+  pan: 'Income Tax Dept.',
+};
+
 /**
  * Normalizes extracted card data
  * - Normalizes bank name
+ * - Uses the issuing authority as the bank for Aadhaar and PAN
  * - Sets type to "other" if no bank is found
  * @param {object} extractedData - The extracted card data
  * @returns {object} - Normalized extracted data
@@ -141,6 +148,11 @@ function normalizeExtractedData(extractedData) {
 
   const normalized = { ...extractedData };
 
+  if (DOCUMENT_ISSUERS[normalized.type]) {
+    normalized.bank = DOCUMENT_ISSUERS[normalized.type];
+    return normalized;
+  }
+
   // Normalize bank name
   if (normalized.bank) {
     const normalizedBank = normalizeBankName(normalized.bank);
@@ -162,6 +174,7 @@ function normalizeExtractedData(extractedData) {
 }
 
 module.exports = {
+  DOCUMENT_ISSUERS,
   normalizeBankName,
   normalizeExtractedData,
   bankNormalizations,
@@ -0,0 +1,145 @@
+/**
+ * Blind indexes for searching encrypted card numbers
+ *
+ * Card numbers are stored encrypted, so the server can't search them. Next to
+ * the ciphertext it stores keyed HMACs of the last 4 characters and of the
+ * whole number, which can be compared for equality without decrypting anything:
+ *
+ *   cardNumberLast4Index   - HMAC of the last 4 characters
+ *   cardNumberFingerprint  - HMAC of the whole number
+ *
+ *   BLIND_INDEX_KEY - 32-byte base64 HMAC key; without it no indexes are stored
+ *
+ * Each HMAC also covers the owner's uid, so the same number held by two users
+ * doesn't produce matching indexes. The key is separate from the encryption
+ * keyring because it can't be rotated the same way: changing it makes every
+ * stored index stale.
+ */
+
+const crypto = require('crypto');
+
+const KEY_LENGTH = 32;
+const LAST4_LENGTH = 4;
+// Shortest input treated as a whole number (anything shorter is too easy to guess)
+const MIN_FINGERPRINT_LENGTH = 8;
+// Client-side vault ciphertext prefix (see client/src/utils/vaultCrypto.ts); the server can't index it
+const VAULT_CIPHERTEXT_PREFIX = 'zk1:';
+
+const BLIND_INDEX_FIELDS = ['cardNumberLast4Index', 'cardNumberFingerprint'];
+
+let cachedKey;
+
+/**
+ * Get the HMAC key
+ * @returns {Buffer|null} null if BLIND_INDEX_KEY is not set
+ */
+function getBlindIndexKey() {
+  if (cachedKey === undefined) {
+    if (!process.env.BLIND_INDEX_KEY) {
+      cachedKey = null;
+    } else {
+      const key = Buffer.from(process.env.BLIND_INDEX_KEY.trim(), 'base64');
+      if (key.length !== KEY_LENGTH) {
+        throw new Error('BLIND_INDEX_KEY must be 32 bytes (256 bits). Generate with: node -e "console.log(crypto.randomBytes(32).toString(\'base64\'))"');
+      }
+      cachedKey = key;
+    }
+  }
+  return cachedKey;
+}
+
+/**
+ * Check whether card numbers get blind indexes
+ * @returns {boolean}
+ */
+function isBlindIndexEnabled() {
+  return !!getBlindIndexKey();
+}
+
+/**
+ * Reduce a card number to the characters that identify it
+ * "4111 1111-1111 1111" and "4111111111111111" normalize the same; PAN letters are uppercased
+ * @param {string} value
+ * @returns {string}
+ */
+function normalizeCardNumber(value) {
+  return String(value).toUpperCase().replace(/[^0-9A-Z]/g, '');
+}
+
+const hmac = (purpose, ownerId, value) =>
+  crypto.createHmac('sha256', getBlindIndexKey()).update(`${purpose}:${ownerId}:${value}`).digest('base64url');
+
+/**
+ * Blind index for a last-4 search term
+ * @param {string} last4 - Last 4 characters of a card number
+ * @param {string} ownerId - Card owner's uid
+ * @returns {string|null} null if blind indexes are off or the term isn't 4 characters
+ */
+function last4Index(last4, ownerId) {
+  const normalized = normalizeCardNumber(last4);
+  if (!isBlindIndexEnabled() || normalized.length !== LAST4_LENGTH) {
+    return null;
+  }
+  return hmac('last4', ownerId, normalized);
+}
+
+/**
+ * Blind index for a whole card number
+ * @param {string} cardNumber
+ * @param {string} ownerId - Card owner's uid
+ * @returns {string|null} null if blind indexes are off or the number is too short
+ */
+function fingerprintIndex(cardNumber, ownerId) {
+  const normalized = normalizeCardNumber(cardNumber);
+  if (!isBlindIndexEnabled() || normalized.length < MIN_FINGERPRINT_LENGTH) {
+    return null;
+  }
+  return hmac('fingerprint', ownerId, normalized);
+}
+
+/**
+ * Compute the blind index fields for a plaintext card number
+ * @param {string|null} cardNumber - Plaintext card number (empty to clear the indexes)
+ * @param {string} ownerId - Card owner's uid
+ * @returns {{cardNumberLast4Index: string|null, cardNumberFingerprint: string|null}|null}
+ *          null if blind indexes are off; fields are null when the number can't be indexed
+ */
+function computeBlindIndexes(cardNumber, ownerId) {
+  if (!isBlindIndexEnabled()) {
+    return null;
+  }
+  if (!ownerId) {
+    throw new Error('Card owner is required for blind indexes');
+  }
+
+  if (!cardNumber || typeof cardNumber !== 'string' || cardNumber.startsWith(VAULT_CIPHERTEXT_PREFIX)) {
+    return { cardNumberLast4Index: null, cardNumberFingerprint: null };
+  }
+
+  const normalized = normalizeCardNumber(cardNumber);
+  return {
+    cardNumberLast4Index: normalized.length >= LAST4_LENGTH ? last4Index(normalized.slice(-LAST4_LENGTH), ownerId) : null,
+    cardNumberFingerprint: fingerprintIndex(normalized, ownerId)
+  };
+}
+
+/**
+ * Remove blind index fields before card data leaves the server
+ * @param {Object} cardData
+ * @returns {Object} Copy without the index fields
+ */
+function stripBlindIndexes(cardData) {
+  const stripped = { ...cardData };
+  BLIND_INDEX_FIELDS.forEach(field => delete stripped[field]);
+  return stripped;
+}
+
+module.exports = {
+  BLIND_INDEX_FIELDS,
+  isBlindIndexEnabled,
+  normalizeCardNumber,
+  last4Index,
+  fingerprintIndex,
+  computeBlindIndexes,
+  stripBlindIndexes
+};
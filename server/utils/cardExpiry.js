@@ -0,0 +1,78 @@
+/**
+ * Card expiry utility
+ * Parses the free-form MM/YY expiry string into a real date so expired and
+ * soon-to-expire cards can be queried without decrypting expiryDate.
+ */
+
+// Days before expiry at which a card counts as "expiring soon"
+const EXPIRING_SOON_DAYS = parseInt(process.env.EXPIRY_REMINDER_DAYS, 10) || 30;
+
+/**
+ * Parse an expiry string (MM/YY, MM/YYYY, MMYY) into the last moment of that month
+ * Cards are valid through the end of the printed month
+ * @param {string} expiryDate - Expiry as entered or extracted
+ * @returns {Date|null} Expiry date (UTC) or null if it cannot be parsed
+ */
+function parseExpiryDate(expiryDate) {
+  if (!expiryDate || typeof expiryDate !== 'string') {
+    return null;
+  }
+
+  const match = expiryDate.trim().match(/^(\d{1,2})\s*[/.-]?\s*(\d{2}|\d{4})$/);
+  if (!match) {
+    return null;
+  }
+
+  const month = parseInt(match[1], 10);
+  let year = parseInt(match[2], 10);
+  if (month < 1 || month > 12) {
+    return null;
+  }
+  if (year < 100) {
+    year += 2000;
+  }
+
+  // Day 0 of the next month is the last day of this month
+  return new Date(Date.UTC(year, month, 0, 23, 59, 59));
+}
+
+/**
+ * Work out the expiresAt value to store alongside a card write
+ * It is always derived from a plaintext expiryDate, never taken from the
+ * client. Vault (client-encrypted) cards get none, since storing their expiry
+ * month in plaintext would leak a field the browser encrypts; the client
+ * reminds about those itself.
+ * @param {Object} data - Incoming card fields
+ * @returns {string|null|undefined} ISO date, null to clear, undefined to leave unchanged
+ */
+function resolveExpiresAt(data) {
+  if (data.expiryDate === undefined) {
+    return undefined;
+  }
+
+  const parsed = parseExpiryDate(data.expiryDate);
+  return parsed ? parsed.toISOString() : null;
+}
+
+/**
+ * Apply resolveExpiresAt to a card payload in place
+ * @param {Object} data - Card fields about to be written
+ * @returns {Object} The same object with expiresAt set, or removed when the
+ *          client sent one without a plaintext expiryDate
+ */
+function applyExpiresAt(data) {
+  const expiresAt = resolveExpiresAt(data);
+  if (expiresAt === undefined) {
+    delete data.expiresAt;
+  } else {
+    data.expiresAt = expiresAt;
+  }
+  return data;
+}
+
+module.exports = {
+  EXPIRING_SOON_DAYS,
+  parseExpiryDate,
+  resolveExpiresAt,
+  applyExpiresAt,
+};
@@ -0,0 +1,186 @@
+/**
+ * Card images utility
+ * A card can have a front and a back image. They are stored in the `images`
+ * array; `imageUrl`/`imageEncrypted` mirror the front image so older clients
+ * and cards created before multi-image support keep working.
+ */
+
+// Suffix of images encrypted by the server (see utils/imageEncryption.js)
+const ENCRYPTED_IMAGE_SUFFIX = '.encrypted';
+
+const CARD_IMAGE_SIDES = ['front', 'back'];
+
+/**
+ * Get the images of a card, falling back to the legacy single imageUrl
+ * @param {Object} cardData - Card document data
+ * @returns {Array<{side: string, url: string, encrypted: boolean}>}
+ */
+function getCardImages(cardData) {
+  if (Array.isArray(cardData.images) && cardData.images.length > 0) {
+    return cardData.images;
+  }
+  if (cardData.imageUrl) {
+    return [{ side: 'front', url: cardData.imageUrl, encrypted: !!cardData.imageEncrypted }];
+  }
+  return [];
+}
+
+/**
+ * Validate and clean an images array sent by a client
+ * Whether an image is encrypted is read from its storage path, never
+ * taken from the client.
+ * @param {*} images - Value of the `images` field in a request body
+ * @returns {Array|null} Cleaned images (one per side) or null if invalid
+ */
+function sanitizeCardImages(images) {
+  if (!Array.isArray(images) || images.length > CARD_IMAGE_SIDES.length) {
+    return null;
+  }
+
+  const seen = new Set();
+  const cleaned = [];
+  for (const image of images) {
+    if (!image || !CARD_IMAGE_SIDES.includes(image.side) || typeof image.url !== 'string' || !image.url) {
+      return null;
+    }
+    if (seen.has(image.side)) {
+      return null;
+    }
+    seen.add(image.side);
+    cleaned.push({ side: image.side, url: image.url, encrypted: isEncryptedImagePath(image.url) });
+  }
+
+  // Keep the front image first
+  return cleaned.sort((a, b) => CARD_IMAGE_SIDES.indexOf(a.side) - CARD_IMAGE_SIDES.indexOf(b.side));
+}
+
+/**
+ * Build the fields to store for a set of images, including the legacy
+ * imageUrl/imageEncrypted mirror of the front image
+ * @param {Array} images - Card images
+ * @returns {Object} Fields to merge into the card document
+ */
+function toImageFields(images) {
+  const front = images.find((image) => image.side === 'front') || images[0];
+  return {
+    images,
+    imageUrl: front ? front.url : null,
+    imageEncrypted: front ? !!front.encrypted : false,
+  };
+}
+
+/**
+ * Get the storage path of an image from a Firebase Storage download URL
+ * Paths (e.g. encrypted images) are returned unchanged
+ * @param {string} imageUrl - Download URL or storage path
+ * @returns {string} Storage path
+ */
+function getStoragePath(imageUrl) {
+  if (imageUrl.includes('firebasestorage.googleapis.com')) {
+    const urlParts = imageUrl.split('/o/');
+    if (urlParts.length > 1) {
+      return decodeURIComponent(urlParts[1].split('?')[0]);
+    }
+  }
+  return imageUrl;
+}
+
+/**
+ * Check whether an image is a bare storage path rather than a URL
+ * Images uploaded through POST /api/images and encrypted images are stored
+ * as paths in the storage backend's bucket. They have no public URL, so the
+ * server streams them.
+ * @param {string} imageUrl - Download URL or storage path
+ * @returns {boolean}
+ */
+function isStoragePath(imageUrl) {
+  return typeof imageUrl === 'string' && !/^[a-z][a-z0-9+.-]*:/i.test(imageUrl);
+}
+
+/**
+ * Check whether an image is in the storage bucket: a storage path, or a
+ * Firebase Storage download URL from clients that uploaded directly
+ * @param {string} imageUrl - Download URL or storage path
+ * @returns {boolean}
+ */
+function isStorageImage(imageUrl) {
+  return isStoragePath(imageUrl) || (typeof imageUrl === 'string' && imageUrl.includes('firebasestorage.googleapis.com'));
+}
+
+/**
+ * Check whether a storage path is inside a user's own upload folder
+ * @param {string} filePath - Storage path
+ * @param {string} uid - User ID
+ * @returns {boolean}
+ */
+function isOwnStoragePath(filePath, uid) {
+  return filePath.startsWith(`cards/${uid}/`) && !filePath.split('/').includes('..');
+}
+
+/**
+ * Download an unencrypted image from the storage bucket
+ * @param {Object} bucket - Storage bucket
+ * @param {string} filePath - Storage path
+ * @returns {Promise<{buffer: Buffer, contentType: string}>}
+ */
+async function downloadStoredImage(bucket, filePath) {
+  const file = bucket.file(filePath);
+  const [buffer] = await file.download();
+  const [metadata] = await file.getMetadata();
+  return { buffer, contentType: metadata.contentType || 'image/jpeg' };
+}
+
+/**
+ * Check whether an image is a file encrypted by the server
+ * (encryptStoredImage stores it next to the original with this suffix)
+ * @param {string} imageUrl - Download URL or storage path
+ * @returns {boolean}
+ */
+function isEncryptedImagePath(imageUrl) {
+  return isStoragePath(imageUrl) && imageUrl.endsWith(ENCRYPTED_IMAGE_SUFFIX);
+}
+
+/**
+ * Replace the image fields of a card write with checked ones
+ * `images` wins over the legacy `imageUrl`, which is read as the front image.
+ * Images in storage must be in the user's own upload folder, since the card's
+ * images are served, encrypted and deleted on its owner's behalf.
+ * @param {Object} data - Card fields from the request; its image fields are replaced
+ * @param {string} uid - Signed-in user
+ * @returns {{status: number, error: string, message: string}|null} Why the images were refused, or null
+ */
+function applyRequestImages(data, uid) {
+  const { images: requested, imageUrl } = data;
+  delete data.images;
+  delete data.imageUrl;
+  delete data.imageEncrypted;
+
+  if (requested === undefined && imageUrl === undefined) {
+    return null;
+  }
+
+  const images = sanitizeCardImages(requested !== undefined ? requested : [{ side: 'front', url: imageUrl }]);
+  if (!images) {
+    return { status: 400, error: 'Invalid images', message: `Each image needs a url and a unique side (${CARD_IMAGE_SIDES.join(', ')})` };
+  }
+  if (images.some((image) => isStorageImage(image.url) && !isOwnStoragePath(getStoragePath(image.url), uid))) {
+    return { status: 403, error: 'Unauthorized', message: 'Image does not belong to this user.' };
+  }
+
+  Object.assign(data, toImageFields(images));
+  return null;
+}
+
+module.exports = {
+  CARD_IMAGE_SIDES,
+  getCardImages,
+  sanitizeCardImages,
+  toImageFields,
+  getStoragePath,
+  isStoragePath,
+  isStorageImage,
+  isOwnStoragePath,
+  downloadStoredImage,
+  isEncryptedImagePath,
+  applyRequestImages,
+};
@@ -0,0 +1,61 @@
+/**
+ * Card tags utility
+ * Free-form labels such as "travel", "office" or "mom". They are stored in
+ * plaintext as a `tags` array, so cards can be filtered with an
+ * array-contains query.
+ */
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 30;
+// Letters and digits from any script, with inner spaces, hyphens and underscores
+const TAG_PATTERN = /^[\p{L}\p{N}](?:[\p{L}\p{N} _-]*[\p{L}\p{N}])?$/u;
+
+const TAG_RULES_MESSAGE = `Up to ${MAX_TAGS} tags of 1-${MAX_TAG_LENGTH} letters, digits, spaces, hyphens or underscores`;
+
+/**
+ * Normalize one tag: trimmed, lowercased, with runs of spaces collapsed
+ * @param {*} tag - Tag as entered
+ * @returns {string|null} Normalized tag or null if it is not valid
+ */
+function normalizeTag(tag) {
+  if (typeof tag !== 'string') {
+    return null;
+  }
+
+  const normalized = tag.trim().replace(/\s+/g, ' ').toLowerCase();
+  if (normalized.length > MAX_TAG_LENGTH || !TAG_PATTERN.test(normalized)) {
+    return null;
+  }
+  return normalized;
+}
+
+/**
+ * Validate and clean the tags sent by a client
+ * @param {*} tags - Value of the `tags` field in a request body
+ * @returns {string[]|null} Normalized tags without duplicates, or null if invalid
+ */
+function normalizeTags(tags) {
+  if (!Array.isArray(tags)) {
+    return null;
+  }
+
+  const normalized = [];
+  for (const tag of tags) {
+    const value = normalizeTag(tag);
+    if (!value) {
+      return null;
+    }
+    if (!normalized.includes(value)) {
+      normalized.push(value);
+    }
+  }
+
+  return normalized.length <= MAX_TAGS ? normalized : null;
+}
+
+module.exports = {
+  MAX_TAGS,
+  TAG_RULES_MESSAGE,
+  normalizeTag,
+  normalizeTags,
+};
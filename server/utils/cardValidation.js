@@ -0,0 +1,230 @@
+/**
+ * Card field validation utility
+ * Checks extracted values (Luhn, PAN format, Aadhaar Verhoeff checksum,
+ * expiry sanity) and combines the results with provider confidence.
+ * Also validates the document fields of Aadhaar and PAN cards on save.
+ */
+
+const { parseExpiryDate } = require('./cardExpiry');
+
+// Fields that get a confidence score and validation flag
+const SCORED_FIELDS = [
+  'cardNumber', 'cardHolderName', 'expiryDate', 'cvv', 'bank', 'cardName',
+  'dateOfBirth', 'gender', 'address', 'fatherName',
+];
+
+const GENDERS = ['male', 'female', 'transgender'];
+
+// Values encrypted in the browser (vault mode) cannot be checked here
+const VAULT_CIPHERTEXT_PREFIX = 'zk1:';
+
+// Used when a provider does not report confidence for a field
+const DEFAULT_CONFIDENCE = 0.6;
+
+// Confidence is capped at this value when validation fails
+const INVALID_CONFIDENCE_CAP = 0.3;
+
+// Expiry dates further out than this are almost certainly misread
+const MAX_EXPIRY_YEARS = 20;
+
+// Verhoeff tables (used by Aadhaar numbers)
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+function passesLuhn(digits) {
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = parseInt(digits[i], 10);
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+function passesVerhoeff(digits) {
+  let checksum = 0;
+  const reversed = digits.split('').reverse();
+  for (let i = 0; i < reversed.length; i++) {
+    checksum = VERHOEFF_D[checksum][VERHOEFF_P[i % 8][parseInt(reversed[i], 10)]];
+  }
+  return checksum === 0;
+}
+
+/**
+ * Validate a card/document number for the given card type
+ * @returns {{valid: boolean, message?: string}}
+ */
+function validateNumber(type, value) {
+  const compact = String(value).replace(/[\s-]/g, '');
+
+  if (type === 'credit' || type === 'debit') {
+    if (!/^\d{13,19}$/.test(compact) || !passesLuhn(compact)) {
+      return { valid: false, message: 'Card number fails the Luhn check' };
+    }
+  } else if (type === 'pan') {
+    if (!/^[A-Z]{5}\d{4}[A-Z]$/.test(compact.toUpperCase())) {
+      return { valid: false, message: 'PAN must be 5 letters, 4 digits and a letter' };
+    }
+  } else if (type === 'aadhar') {
+    if (!/^[2-9]\d{11}$/.test(compact) || !passesVerhoeff(compact)) {
+      return { valid: false, message: 'Aadhaar number fails the checksum' };
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate an MM/YY expiry date
+ * @returns {{valid: boolean, message?: string}}
+ */
+function validateExpiry(value) {
+  const expiry = parseExpiryDate(value);
+  if (!expiry) {
+    return { valid: false, message: 'Expiry must be a valid MM/YY date' };
+  }
+
+  const now = new Date();
+  const maxDate = new Date(Date.UTC(now.getUTCFullYear() + MAX_EXPIRY_YEARS, now.getUTCMonth(), 1));
+  if (expiry > maxDate) {
+    return { valid: false, message: 'Expiry date is too far in the future' };
+  }
+  if (expiry.getTime() < now.getTime()) {
+    return { valid: true, message: 'Card has expired' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate a CVV
+ * @returns {{valid: boolean, message?: string}}
+ */
+function validateCvv(value) {
+  if (!/^\d{3,4}$/.test(String(value))) {
+    return { valid: false, message: 'CVV must be 3 or 4 digits' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate a YYYY-MM-DD date of birth
+ * @returns {{valid: boolean, message?: string}}
+ */
+function validateDateOfBirth(value) {
+  const dob = /^\d{4}-\d{2}-\d{2}$/.test(String(value)) ? new Date(`${value}T00:00:00Z`) : null;
+  // Round-trip to reject dates such as 1990-02-30 that Date rolls over
+  if (!dob || isNaN(dob.getTime()) || dob.toISOString().slice(0, 10) !== value || dob.getTime() > Date.now()) {
+    return { valid: false, message: 'Date of birth must be a past date (YYYY-MM-DD)' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate a gender value
+ * @returns {{valid: boolean, message?: string}}
+ */
+function validateGender(value) {
+  if (!GENDERS.includes(String(value).toLowerCase())) {
+    return { valid: false, message: `Gender must be one of: ${GENDERS.join(', ')}` };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate a single field value for a card type
+ * @returns {{valid: boolean, message?: string}}
+ */
+function validateField(type, field, value) {
+  if (field === 'cardNumber') return validateNumber(type, value);
+  if (field === 'expiryDate') return validateExpiry(value);
+  if (field === 'cvv') return validateCvv(value);
+  if (field === 'dateOfBirth') return validateDateOfBirth(value);
+  if (field === 'gender') return validateGender(value);
+  return { valid: true };
+}
+
+/**
+ * Validate the document fields of an Aadhaar or PAN card before saving
+ * (number checksum/format, date of birth, gender). Other card types and
+ * vault-encrypted values are not checked.
+ * @param {Object} data - Card fields being saved
+ * @param {string} type - Card type (the stored type for partial updates)
+ * @returns {string|null} Error message, or null if valid
+ */
+function validateDocumentFields(data, type) {
+  if (type !== 'aadhar' && type !== 'pan') {
+    return null;
+  }
+
+  for (const field of ['cardNumber', 'dateOfBirth', 'gender']) {
+    const value = data[field];
+    if (!value || (typeof value === 'string' && value.startsWith(VAULT_CIPHERTEXT_PREFIX))) {
+      continue;
+    }
+    const result = validateField(type, field, value);
+    if (!result.valid) {
+      return result.message;
+    }
+  }
+  return null;
+}
+
+/**
+ * Score an extraction result
+ * @param {Object} data - Merged extraction fields
+ * @param {Object} confidence - Provider confidence per field (0-1)
+ * @returns {{fieldConfidence: Object, validation: Object}}
+ */
+function scoreExtraction(data, confidence = {}) {
+  const fieldConfidence = {};
+  const validation = {};
+
+  SCORED_FIELDS.forEach((field) => {
+    if (!data[field]) return;
+
+    const result = validateField(data.type, field, data[field]);
+
+    const reported = Number(confidence[field]);
+    let score = Number.isFinite(reported) ? Math.min(Math.max(reported, 0), 1) : DEFAULT_CONFIDENCE;
+    if (!result.valid) {
+      score = Math.min(score, INVALID_CONFIDENCE_CAP);
+    }
+
+    fieldConfidence[field] = Math.round(score * 100) / 100;
+    validation[field] = result;
+  });
+
+  return { fieldConfidence, validation };
+}
+
+module.exports = {
+  SCORED_FIELDS,
+  passesLuhn,
+  passesVerhoeff,
+  scoreExtraction,
+  validateDocumentFields,
+};
@@ -52,6 +52,7 @@ const csrfProtection = (req, res, next) => {
   if (
     req.path.startsWith('/auth') || // e.g. `/auth/verify`
     req.path.includes('/sharefolders/shared/') ||
+    req.path.startsWith('/sharefolders/public/') || // passcode unlock
     req.path === '/health' ||
     req.path === '/csrf-token'
   ) {
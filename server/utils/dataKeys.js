@@ -0,0 +1,135 @@
+/**
+ * Per-user data encryption keys (envelope encryption)
+ *
+ * When KMS_PROVIDER is set, each user's card fields and images are encrypted
+ * under their own random data key (DEK). Only the DEK wrapped by the KMS is
+ * stored, in dataKeys/{uid}. Deleting that document crypto-shreds everything
+ * encrypted under it, since the DEK can no longer be recovered.
+ *
+ * Unwrapped DEKs are cached in memory for a few minutes to avoid a KMS call
+ * per request; a shredded key can stay usable on other server instances until
+ * their cache entry expires.
+ */
+
+const crypto = require('crypto');
+const { getDb, FieldValue } = require('../storage');
+const { getKmsProvider } = require('../kms');
+
+const DATA_KEYS_COLLECTION = 'dataKeys';
+const DEK_LENGTH = 32; // AES-256
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const MAX_CACHED_KEYS = 1000;
+
+// uid -> { dataKey: {dekId, key} | null, expiresAt }
+const cache = new Map();
+
+/**
+ * Check whether new data is encrypted under per-user keys
+ * @returns {boolean}
+ * @throws {Error} If KMS_PROVIDER is set but can't be used
+ */
+function isEnvelopeEncryptionEnabled() {
+  return !!getKmsProvider();
+}
+
+const getDataKeyRef = (uid) => getDb().collection(DATA_KEYS_COLLECTION).doc(uid);
+
+function cacheDataKey(uid, dataKey) {
+  if (cache.size >= MAX_CACHED_KEYS) {
+    // Maps iterate in insertion order, so this drops the oldest entry
+    cache.delete(cache.keys().next().value);
+  }
+  cache.set(uid, { dataKey, expiresAt: Date.now() + CACHE_TTL_MS });
+  return dataKey;
+}
+
+/**
+ * Unwrap a stored data key document with the KMS that wrapped it
+ */
+async function unwrapDataKey(keyData) {
+  const kms = getKmsProvider(keyData.kms);
+  const key = await kms.unwrapKey({ kekId: keyData.kekId, wrappedKey: keyData.wrappedKey });
+  return { dekId: keyData.dekId, key };
+}
+
+/**
+ * Get a user's existing data key
+ * @param {string} uid - Key owner
+ * @returns {Promise<{dekId: string, key: Buffer}|null>} null if the user has none (or it was shredded)
+ */
+async function findDataKey(uid) {
+  const cached = cache.get(uid);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.dataKey;
+  }
+
+  const keyDoc = await getDataKeyRef(uid).get();
+  // Only found keys are cached, so a key created on another instance is picked up right away
+  return keyDoc.exists ? cacheDataKey(uid, await unwrapDataKey(keyDoc.data())) : null;
+}
+
+/**
+ * Get a user's data key, creating and wrapping one on first use
+ * @param {string} uid - Key owner
+ * @returns {Promise<{dekId: string, key: Buffer}>}
+ */
+async function getOrCreateDataKey(uid) {
+  const existing = await findDataKey(uid);
+  if (existing) {
+    return existing;
+  }
+
+  const kms = getKmsProvider();
+  if (!kms) {
+    throw new Error('No KMS provider configured. Set KMS_PROVIDER to create data keys.');
+  }
+
+  const key = crypto.randomBytes(DEK_LENGTH);
+  const { kekId, wrappedKey } = await kms.wrapKey(key);
+  // Identifies this DEK in ciphertext, so data from a shredded key is never tried against a new one
+  const dekId = crypto.randomBytes(6).toString('hex');
+
+  try {
+    // create() fails if another request made the user's key first
+    await getDataKeyRef(uid).create({
+      dekId,
+      kms: kms.name,
+      kekId,
+      wrappedKey,
+      createdAt: FieldValue.serverTimestamp()
+    });
+  } catch (error) {
+    const winner = await findDataKey(uid);
+    if (winner) return winner;
+    throw error;
+  }
+
+  return cacheDataKey(uid, { dekId, key });
+}
+
+/**
+ * Crypto-shred a user's data by deleting their wrapped data key
+ * Everything encrypted under it becomes permanently unreadable.
+ * @param {string} uid - Key owner
+ * @returns {Promise<boolean>} False if the user had no data key
+ */
+async function shredDataKey(uid) {
+  const keyRef = getDataKeyRef(uid);
+  const keyDoc = await keyRef.get();
+  cache.delete(uid);
+
+  if (!keyDoc.exists) {
+    return false;
+  }
+
+  await keyRef.delete();
+  return true;
+}
+
+module.exports = {
+  DATA_KEYS_COLLECTION,
+  isEnvelopeEncryptionEnabled,
+  findDataKey,
+  getOrCreateDataKey,
+  shredDataKey
+};
@@ -3,50 +3,81 @@
  * 
  * Uses AES-256-GCM for strong encryption
  * Each field gets a unique IV (Initialization Vector)
+ * Ciphertext names the key it was encrypted under: a keyring key (see keyring.js)
+ * or, with envelope encryption, the card owner's data key (see dataKeys.js)
+ * Card numbers also get blind indexes so they can be searched (see blindIndex.js)
  */
 
 const crypto = require('crypto');
+const { LEGACY_KEY_ID, getActiveKey, getDecryptKey } = require('./keyring');
+const { isEnvelopeEncryptionEnabled, findDataKey, getOrCreateDataKey } = require('./dataKeys');
+const { isBlindIndexEnabled, computeBlindIndexes, stripBlindIndexes } = require('./blindIndex');
 
 // Encryption configuration
 const ALGORITHM = 'aes-256-gcm';
 const IV_LENGTH = 16; // For AES, this is always 16
 const AUTH_TAG_LENGTH = 16;
 const SALT_LENGTH = 32;
+const ENVELOPE_VERSION = 'v2'; // Under a keyring key
+const DATA_KEY_ENVELOPE_VERSION = 'v3'; // Under the owner's data key
+
+// Card fields encrypted at rest (document fields hold Aadhaar/PAN personal data)
+const SENSITIVE_FIELDS = ['cardNumber', 'cvv', 'expiryDate', 'dateOfBirth', 'address', 'fatherName'];
 
 /**
- * Get encryption key from environment
- * In production, this should come from a secure key management service
+ * Split stored ciphertext into its parts
+ * Accepts v3:dekId:iv:authTag:ciphertext, v2:keyId:iv:authTag:ciphertext
+ * and the original iv:authTag:ciphertext
+ * @param {string} encryptedData - Stored ciphertext
+ * @returns {{keyId: string, isDataKey: boolean, iv: string, authTag: string, ciphertext: string}}
  */
-function getEncryptionKey() {
-  const key = process.env.ENCRYPTION_KEY;
-  
-  if (!key) {
-    throw new Error('ENCRYPTION_KEY not set in environment variables');
+function parseEnvelope(encryptedData) {
+  const parts = encryptedData.split(':');
+
+  if (parts.length === 5 && (parts[0] === ENVELOPE_VERSION || parts[0] === DATA_KEY_ENVELOPE_VERSION)) {
+    const [version, keyId, iv, authTag, ciphertext] = parts;
+    return { keyId, isDataKey: version === DATA_KEY_ENVELOPE_VERSION, iv, authTag, ciphertext };
   }
-  
-  // Convert base64 key to buffer
-  // Key should be 32 bytes for AES-256
-  const keyBuffer = Buffer.from(key, 'base64');
-  
-  if (keyBuffer.length !== 32) {
-    throw new Error('ENCRYPTION_KEY must be 32 bytes (256 bits). Generate with: node -e "console.log(crypto.randomBytes(32).toString(\'base64\'))"');
+  if (parts.length === 3) {
+    const [iv, authTag, ciphertext] = parts;
+    return { keyId: LEGACY_KEY_ID, isDataKey: false, iv, authTag, ciphertext };
   }
-  
-  return keyBuffer;
+
+  throw new Error('Invalid encrypted data format');
+}
+
+/**
+ * Get the ID of the key a value was encrypted under
+ * @param {string} encryptedData - Stored ciphertext
+ * @returns {string} Keyring key ID (LEGACY_KEY_ID for ciphertext without one) or data key ID
+ */
+function getCiphertextKeyId(encryptedData) {
+  return parseEnvelope(encryptedData).keyId;
+}
+
+/**
+ * Check whether a value is encrypted under a user's data key
+ * @param {string} encryptedData - Stored ciphertext
+ * @returns {boolean}
+ */
+function isDataKeyCiphertext(encryptedData) {
+  return typeof encryptedData === 'string' && encryptedData.startsWith(`${DATA_KEY_ENVELOPE_VERSION}:`);
 }
 
 /**
  * Encrypt sensitive data
  * @param {string} plaintext - Data to encrypt
- * @returns {string} Encrypted data in format: iv:authTag:ciphertext (all base64)
+ * @param {{dekId: string, key: Buffer}} [dataKey] - Owner's data key; the active keyring key if omitted
+ * @returns {string} Encrypted data in format: v3:dekId:... or v2:keyId:iv:authTag:ciphertext (iv, authTag and ciphertext base64)
  */
-function encrypt(plaintext) {
+function encrypt(plaintext, dataKey = null) {
   if (!plaintext || plaintext.trim() === '') {
     return null; // Don't encrypt empty values
   }
   
   try {
-    const key = getEncryptionKey();
+    const version = dataKey ? DATA_KEY_ENVELOPE_VERSION : ENVELOPE_VERSION;
+    const { keyId, key } = dataKey ? { keyId: dataKey.dekId, key: dataKey.key } : getActiveKey();
     
     // Generate random IV for this encryption
     const iv = crypto.randomBytes(IV_LENGTH);
@@ -61,8 +92,8 @@ function encrypt(plaintext) {
     // Get auth tag for GCM mode (ensures data integrity)
     const authTag = cipher.getAuthTag();
     
-    // Return: iv:authTag:ciphertext (all base64)
-    return `${iv.toString('base64')}:${authTag.toString('base64')}:${encrypted}`;
+    // Return: version:keyId:iv:authTag:ciphertext
+    return `${version}:${keyId}:${iv.toString('base64')}:${authTag.toString('base64')}:${encrypted}`;
   } catch (error) {
     throw new Error(`Encryption failed: ${error.message}`);
   }
@@ -70,26 +101,26 @@ function encrypt(plaintext) {
 
 /**
  * Decrypt sensitive data
- * @param {string} encryptedData - Encrypted data in format: iv:authTag:ciphertext
+ * @param {string} encryptedData - Encrypted data in any format accepted by parseEnvelope
+ * @param {{dekId: string, key: Buffer}} [dataKey] - Owner's data key, required for v3 ciphertext
  * @returns {string} Decrypted plaintext
  */
-function decrypt(encryptedData) {
+function decrypt(encryptedData, dataKey = null) {
   if (!encryptedData) {
     return null; // Return null for empty values
   }
   
   try {
-    const key = getEncryptionKey();
-    
-    // Split the encrypted data
-    const parts = encryptedData.split(':');
-    if (parts.length !== 3) {
-      throw new Error('Invalid encrypted data format');
+    // Split the encrypted data and pick the key it names
+    const envelope = parseEnvelope(encryptedData);
+    if (envelope.isDataKey && dataKey?.dekId !== envelope.keyId) {
+      throw new Error('The data key for this value is not available (it may have been shredded)');
     }
+    const key = envelope.isDataKey ? dataKey.key : getDecryptKey(envelope.keyId);
     
-    const iv = Buffer.from(parts[0], 'base64');
-    const authTag = Buffer.from(parts[1], 'base64');
-    const encrypted = parts[2];
+    const iv = Buffer.from(envelope.iv, 'base64');
+    const authTag = Buffer.from(envelope.authTag, 'base64');
+    const encrypted = envelope.ciphertext;
     
     // Create decipher
     const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
@@ -105,21 +136,35 @@ function decrypt(encryptedData) {
   }
 }
 
+/**
+ * Get the data key new ciphertext for a user should use
+ * @param {string} ownerId - Card owner's uid
+ * @returns {Promise<{dekId: string, key: Buffer}|null>} null when envelope encryption is off
+ */
+async function getEncryptionDataKey(ownerId) {
+  if (!isEnvelopeEncryptionEnabled()) {
+    return null;
+  }
+  if (!ownerId) {
+    throw new Error('Card owner is required for envelope encryption');
+  }
+  return getOrCreateDataKey(ownerId);
+}
+
 /**
  * Encrypt card data fields
  * @param {Object} cardData - Card data object
- * @returns {Object} Card data with encrypted sensitive fields
+ * @param {string} [ownerId] - Card owner's uid (defaults to cardData.userId)
+ * @returns {Promise<Object>} Card data with encrypted sensitive fields
  */
-function encryptCardData(cardData) {
+async function encryptCardData(cardData, ownerId = cardData.userId) {
   const encrypted = { ...cardData };
+  const dataKey = await getEncryptionDataKey(ownerId);
   
-  // Fields to encrypt
-  const sensitiveFields = ['cardNumber', 'cvv', 'expiryDate'];
-  
-  sensitiveFields.forEach(field => {
+  SENSITIVE_FIELDS.forEach(field => {
     if (cardData[field]) {
       try {
-        encrypted[field] = encrypt(cardData[field]);
+        encrypted[field] = encrypt(cardData[field], dataKey);
         encrypted[`${field}_encrypted`] = true; // Flag to indicate encryption
       } catch (error) {
         console.error(`Failed to encrypt ${field}:`, error.message);
@@ -128,6 +173,11 @@ function encryptCardData(cardData) {
       }
     }
   });
+
+  // Indexes follow cardNumber, including clearing them when it is cleared
+  if ('cardNumber' in cardData) {
+    Object.assign(encrypted, computeBlindIndexes(cardData.cardNumber, ownerId));
+  }
   
   return encrypted;
 }
@@ -135,18 +185,26 @@ function encryptCardData(cardData) {
 /**
  * Decrypt card data fields
  * @param {Object} cardData - Card data object with encrypted fields
- * @returns {Object} Card data with decrypted fields
+ * @param {string} [ownerId] - Card owner's uid (defaults to cardData.userId)
+ * @returns {Promise<Object>} Card data with decrypted fields
  */
-function decryptCardData(cardData) {
-  const decrypted = { ...cardData };
+async function decryptCardData(cardData, ownerId = cardData.userId) {
+  const decrypted = stripBlindIndexes(cardData);
+  const needsDataKey = SENSITIVE_FIELDS.some(field => cardData[`${field}_encrypted`] && isDataKeyCiphertext(cardData[field]));
+  let dataKey = null;
   
-  // Fields to decrypt
-  const sensitiveFields = ['cardNumber', 'cvv', 'expiryDate'];
+  if (needsDataKey && ownerId) {
+    try {
+      dataKey = await findDataKey(ownerId);
+    } catch (error) {
+      console.error('Failed to load data key:', error.message);
+    }
+  }
   
-  sensitiveFields.forEach(field => {
+  SENSITIVE_FIELDS.forEach(field => {
     if (cardData[field] && cardData[`${field}_encrypted`]) {
       try {
-        decrypted[field] = decrypt(cardData[field]);
+        decrypted[field] = decrypt(cardData[field], dataKey);
         delete decrypted[`${field}_encrypted`]; // Remove encryption flag
       } catch (error) {
         console.error(`Failed to decrypt ${field}:`, error.message);
@@ -158,6 +216,39 @@ function decryptCardData(cardData) {
   return decrypted;
 }
 
+/**
+ * Re-encrypt a card's encrypted fields that are not under the current key:
+ * the owner's data key with envelope encryption, otherwise the active keyring key
+ * Cards stored before blind indexes existed also get them added.
+ * @param {Object} cardData - Card document data as stored
+ * @param {string} [ownerId] - Card owner's uid (defaults to cardData.userId)
+ * @returns {Promise<Object>} Replacement values for the rotated fields and any new indexes (empty if none)
+ */
+async function rotateCardData(cardData, ownerId = cardData.userId) {
+  const dataKey = await getEncryptionDataKey(ownerId);
+  const targetKeyId = dataKey ? dataKey.dekId : getActiveKey().keyId;
+  const updates = {};
+
+  for (const field of SENSITIVE_FIELDS) {
+    if (!cardData[field] || !cardData[`${field}_encrypted`]) continue;
+
+    const envelope = parseEnvelope(cardData[field]);
+    if (envelope.isDataKey === !!dataKey && envelope.keyId === targetKeyId) continue;
+
+    // Moving off envelope encryption still needs the owner's data key to read the old value
+    const sourceKey = envelope.isDataKey ? (dataKey || await findDataKey(ownerId)) : null;
+    updates[field] = encrypt(decrypt(cardData[field], sourceKey), dataKey);
+  }
+
+  if (isBlindIndexEnabled() && cardData.cardNumber && cardData.cardNumber_encrypted && cardData.cardNumberFingerprint === undefined) {
+    const envelope = parseEnvelope(cardData.cardNumber);
+    const sourceKey = envelope.isDataKey ? (dataKey || await findDataKey(ownerId)) : null;
+    Object.assign(updates, computeBlindIndexes(decrypt(cardData.cardNumber, sourceKey), ownerId));
+  }
+
+  return updates;
+}
+
 /**
  * Generate a new encryption key (for setup)
  * @returns {string} Base64 encoded encryption key
@@ -167,28 +258,48 @@ function generateEncryptionKey() {
 }
 
 /**
- * Mask card number for display (show only last 4 digits)
+ * Mask card number for display (show only the last 4 characters)
+ * Spaces and dashes are dropped before masking; letters are kept, since
+ * document and membership numbers can contain them.
  * @param {string} cardNumber - Full card number
  * @returns {string} Masked card number (e.g., "**** **** **** 1234")
  */
 function maskCardNumber(cardNumber) {
-  if (!cardNumber || cardNumber.length < 4) {
+  const characters = (cardNumber || '').replace(/[\s-]/g, '');
+  if (characters.length < 4) {
     return '****';
   }
   
-  const last4 = cardNumber.slice(-4);
-  const masked = '*'.repeat(cardNumber.length - 4) + last4;
+  const last4 = characters.slice(-4);
+  const masked = '*'.repeat(characters.length - 4) + last4;
   
   // Format with spaces (every 4 digits)
   return masked.match(/.{1,4}/g).join(' ');
 }
 
+/**
+ * Mask PAN number for display (show first 5 and last 2 characters)
+ * @param {string} panNumber - Full PAN number
+ * @returns {string} Masked PAN (e.g., "ABCDE***4F")
+ */
+function maskPAN(panNumber) {
+  if (!panNumber || panNumber.length < 7) {
+    return panNumber;
+  }
+
+  return panNumber.slice(0, 5) + '*'.repeat(panNumber.length - 7) + panNumber.slice(-2);
+}
+
 module.exports = {
   encrypt,
   decrypt,
   encryptCardData,
   decryptCardData,
+  rotateCardData,
+  getCiphertextKeyId,
+  isDataKeyCiphertext,
   generateEncryptionKey,
-  maskCardNumber
+  maskCardNumber,
+  maskPAN
 };
 
@@ -0,0 +1,101 @@
+/**
+ * Share folder member roles
+ * A folder's creator (userId) is always an owner. Other members are listed by
+ * verified email in recipientEmails (which doubles as the "shared with me"
+ * query index), with their role in memberRoles. Members added before roles
+ * existed have no entry there and are viewers.
+ *
+ *   viewer - sees the folder and its cards
+ *   editor - viewer, plus adds their own cards and removes the cards they added
+ *   owner  - editor, plus removes any card and manages members and share links
+ *
+ * Only the creator can make someone an owner or change another owner's role.
+ */
+
+const FOLDER_ROLES = ['viewer', 'editor', 'owner'];
+
+/**
+ * Check a role name from a request
+ * @param {*} role - Value to check
+ * @returns {boolean} True if it is a known role
+ */
+const isValidFolderRole = (role) => FOLDER_ROLES.includes(role);
+
+/**
+ * Resolve the caller's role in a folder
+ * @param {Object} folderData - Share folder document data
+ * @param {Object} user - Decoded Firebase ID token (uid, email, email_verified)
+ * @returns {string|null} 'owner', 'editor', 'viewer', or null if not a member
+ */
+const getFolderRole = (folderData, user) => {
+  if (folderData.userId === user.uid) return 'owner';
+
+  const email = user.email_verified ? user.email?.toLowerCase() : null;
+  if (!email || !(folderData.recipientEmails || []).includes(email)) return null;
+
+  const role = (folderData.memberRoles || {})[email];
+  return isValidFolderRole(role) ? role : 'viewer';
+};
+
+/**
+ * Check whether a role grants at least the permissions of another
+ * @param {string|null} role - Caller's role
+ * @param {string} requiredRole - Minimum role needed
+ * @returns {boolean}
+ */
+const hasFolderRole = (role, requiredRole) =>
+  !!role && FOLDER_ROLES.indexOf(role) >= FOLDER_ROLES.indexOf(requiredRole);
+
+/**
+ * List a folder's members (excluding its creator) with their roles
+ * @param {Object} folderData - Share folder document data
+ * @returns {{email: string, role: string}[]}
+ */
+const getFolderMembers = (folderData) => {
+  const memberRoles = folderData.memberRoles || {};
+  return (folderData.recipientEmails || []).map(email => ({
+    email,
+    role: isValidFolderRole(memberRoles[email]) ? memberRoles[email] : 'viewer'
+  }));
+};
+
+/**
+ * Check whether the caller may manage a member with a role
+ * Owners manage editors and viewers; only the creator manages owners, so a
+ * co-owner can't promote others to owner or remove the other owners.
+ * @param {Object} folderData - Share folder document data
+ * @param {Object} user - Decoded Firebase ID token
+ * @param {string} memberRole - The member's current role, or the role being granted
+ * @returns {boolean}
+ */
+const canManageFolderMember = (folderData, user, memberRole) => {
+  if (!hasFolderRole(getFolderRole(folderData, user), 'owner')) return false;
+  return memberRole !== 'owner' || folderData.userId === user.uid;
+};
+
+/**
+ * Check whether the caller may take a card out of a folder
+ * Cards added before cardOwners was tracked belong to the folder's creator.
+ * @param {Object} folderData - Share folder document data
+ * @param {Object} user - Decoded Firebase ID token
+ * @param {string} cardId - Card to remove
+ * @returns {boolean}
+ */
+const canRemoveFolderCard = (folderData, user, cardId) => {
+  const role = getFolderRole(folderData, user);
+  if (role === 'owner') return true;
+  if (role !== 'editor') return false;
+
+  const addedBy = (folderData.cardOwners || {})[cardId]?.uid || folderData.userId;
+  return addedBy === user.uid;
+};
+
+module.exports = {
+  FOLDER_ROLES,
+  isValidFolderRole,
+  getFolderRole,
+  hasFolderRole,
+  getFolderMembers,
+  canManageFolderMember,
+  canRemoveFolderCard
+};
@@ -3,47 +3,103 @@
  * 
  * Encrypts and decrypts image files using AES-256-GCM
  * Images are encrypted after OCR extraction and stored encrypted in Firebase Storage
+ * Encrypted files name the key they were encrypted under: a keyring key (see keyring.js)
+ * or, with envelope encryption, the card owner's data key (see dataKeys.js)
  */
 
 const crypto = require('crypto');
 const logger = require('./secureLogger');
+const { LEGACY_KEY_ID, KEY_ID_PATTERN, hasEncryptionKeys, hasKey, getActiveKey, getDecryptKey } = require('./keyring');
+const { isEnvelopeEncryptionEnabled, findDataKey, getOrCreateDataKey } = require('./dataKeys');
 
 // Encryption configuration
 const ALGORITHM = 'aes-256-gcm';
 const IV_LENGTH = 16;
 const AUTH_TAG_LENGTH = 16;
+// Mark files that start with a key ID header; older files start directly with the IV
+const HEADER_MAGIC = Buffer.from('SAV2'); // Keyring key
+const DATA_KEY_HEADER_MAGIC = Buffer.from('SAV3'); // Owner's data key
 
 /**
- * Get encryption key from environment
+ * Split an encrypted image into its key ID and cipher parts
+ * Format: [SAV2 or SAV3][key ID length (1 byte)][key ID][IV][Auth Tag][Encrypted Data],
+ * or [IV][Auth Tag][Encrypted Data] for images encrypted before key IDs existed
+ * @param {Buffer} encryptedBuffer - Stored file contents
+ * @returns {{keyId: string, isDataKey: boolean, payload: Buffer, headerLength: number}}
  */
-function getEncryptionKey() {
-  const key = process.env.ENCRYPTION_KEY;
-  
-  if (!key) {
-    throw new Error('ENCRYPTION_KEY not set in environment variables');
+function parseImageEnvelope(encryptedBuffer) {
+  const magic = encryptedBuffer.subarray(0, HEADER_MAGIC.length);
+  const isDataKey = magic.equals(DATA_KEY_HEADER_MAGIC);
+
+  if (encryptedBuffer.length > HEADER_MAGIC.length && (isDataKey || magic.equals(HEADER_MAGIC))) {
+    const keyIdLength = encryptedBuffer[HEADER_MAGIC.length];
+    const keyIdStart = HEADER_MAGIC.length + 1;
+    const keyId = encryptedBuffer.subarray(keyIdStart, keyIdStart + keyIdLength).toString('ascii');
+    const headerLength = keyIdStart + keyIdLength;
+
+    if (KEY_ID_PATTERN.test(keyId) && encryptedBuffer.length >= headerLength + IV_LENGTH + AUTH_TAG_LENGTH) {
+      return { keyId, isDataKey, payload: encryptedBuffer.subarray(headerLength), headerLength };
+    }
   }
-  
-  const keyBuffer = Buffer.from(key, 'base64');
-  
-  if (keyBuffer.length !== 32) {
-    throw new Error('ENCRYPTION_KEY must be 32 bytes (256 bits)');
+
+  return { keyId: LEGACY_KEY_ID, isDataKey: false, payload: encryptedBuffer, headerLength: 0 };
+}
+
+/**
+ * Decrypt [IV][Auth Tag][Encrypted Data] with one key
+ */
+function decryptPayload(payload, key) {
+  const iv = payload.subarray(0, IV_LENGTH);
+  const authTag = payload.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
+  const encrypted = payload.subarray(IV_LENGTH + AUTH_TAG_LENGTH);
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([
+    decipher.update(encrypted),
+    decipher.final()
+  ]);
+}
+
+/**
+ * Get the ID of the key an encrypted image was encrypted under
+ * @param {Buffer} encryptedBuffer - Stored file contents
+ * @returns {string} Keyring key ID (LEGACY_KEY_ID for images without one) or data key ID
+ */
+function getImageKeyId(encryptedBuffer) {
+  return parseImageEnvelope(encryptedBuffer).keyId;
+}
+
+/**
+ * Get the data key new images for a user should use
+ * @param {string} ownerId - Card owner's uid
+ * @returns {Promise<{dekId: string, key: Buffer}|null>} null when envelope encryption is off
+ */
+async function getImageDataKey(ownerId) {
+  if (!isEnvelopeEncryptionEnabled()) {
+    return null;
   }
-  
-  return keyBuffer;
+  if (!ownerId) {
+    throw new Error('Card owner is required for envelope encryption');
+  }
+  return getOrCreateDataKey(ownerId);
 }
 
 /**
  * Encrypt image buffer
  * @param {Buffer} imageBuffer - Image data to encrypt
- * @returns {Buffer} Encrypted image buffer with prepended IV and auth tag
+ * @param {{dekId: string, key: Buffer}} [dataKey] - Owner's data key; the active keyring key if omitted
+ * @returns {Buffer} Encrypted image buffer with prepended key ID header, IV and auth tag
  */
-function encryptImageBuffer(imageBuffer) {
+function encryptImageBuffer(imageBuffer, dataKey = null) {
   if (!imageBuffer || imageBuffer.length === 0) {
     throw new Error('Image buffer is empty');
   }
   
   try {
-    const key = getEncryptionKey();
+    const magic = dataKey ? DATA_KEY_HEADER_MAGIC : HEADER_MAGIC;
+    const { keyId, key } = dataKey ? { keyId: dataKey.dekId, key: dataKey.key } : getActiveKey();
     
     // Generate random IV for this encryption
     const iv = crypto.randomBytes(IV_LENGTH);
@@ -60,9 +116,10 @@ function encryptImageBuffer(imageBuffer) {
     // Get auth tag for GCM mode
     const authTag = cipher.getAuthTag();
     
-    // Prepend IV and auth tag to encrypted data for storage
-    // Format: [IV (16 bytes)][Auth Tag (16 bytes)][Encrypted Data]
-    return Buffer.concat([iv, authTag, encrypted]);
+    // Prepend the key ID header, IV and auth tag to encrypted data for storage
+    // Format: [SAV2 or SAV3][key ID length][key ID][IV (16 bytes)][Auth Tag (16 bytes)][Encrypted Data]
+    const keyIdBuffer = Buffer.from(keyId, 'ascii');
+    return Buffer.concat([magic, Buffer.from([keyIdBuffer.length]), keyIdBuffer, iv, authTag, encrypted]);
   } catch (error) {
     throw new Error(`Image encryption failed: ${error.message}`);
   }
@@ -70,33 +127,30 @@ function encryptImageBuffer(imageBuffer) {
 
 /**
  * Decrypt image buffer
- * @param {Buffer} encryptedBuffer - Encrypted image buffer with IV and auth tag
+ * @param {Buffer} encryptedBuffer - Encrypted image buffer with key ID header, IV and auth tag
+ * @param {{dekId: string, key: Buffer}} [dataKey] - Owner's data key, required for SAV3 images
  * @returns {Buffer} Decrypted image buffer
  */
-function decryptImageBuffer(encryptedBuffer) {
+function decryptImageBuffer(encryptedBuffer, dataKey = null) {
   if (!encryptedBuffer || encryptedBuffer.length < (IV_LENGTH + AUTH_TAG_LENGTH)) {
     throw new Error('Invalid encrypted image buffer');
   }
   
   try {
-    const key = getEncryptionKey();
-    
-    // Extract IV, auth tag, and encrypted data
-    const iv = encryptedBuffer.slice(0, IV_LENGTH);
-    const authTag = encryptedBuffer.slice(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
-    const encrypted = encryptedBuffer.slice(IV_LENGTH + AUTH_TAG_LENGTH);
+    const { keyId, isDataKey, payload, headerLength } = parseImageEnvelope(encryptedBuffer);
     
-    // Create decipher
-    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-    decipher.setAuthTag(authTag);
-    
-    // Decrypt the image data
-    const decrypted = Buffer.concat([
-      decipher.update(encrypted),
-      decipher.final()
-    ]);
-    
-    return decrypted;
+    try {
+      if (isDataKey && dataKey?.dekId !== keyId) {
+        throw new Error('The data key for this image is not available (it may have been shredded)');
+      }
+      return decryptPayload(payload, isDataKey ? dataKey.key : getDecryptKey(keyId));
+    } catch (error) {
+      // A legacy IV can begin with the header bytes by chance; retry it as a legacy image
+      if (headerLength === 0 || !hasKey(LEGACY_KEY_ID)) {
+        throw error;
+      }
+      return decryptPayload(encryptedBuffer, getDecryptKey(LEGACY_KEY_ID));
+    }
   } catch (error) {
     throw new Error(`Image decryption failed: ${error.message}`);
   }
@@ -107,7 +161,7 @@ function decryptImageBuffer(encryptedBuffer) {
  * @returns {boolean}
  */
 function isEncryptionEnabled() {
-  return !!process.env.ENCRYPTION_KEY;
+  return hasEncryptionKeys() || isEnvelopeEncryptionEnabled();
 }
 
 /**
@@ -116,9 +170,10 @@ function isEncryptionEnabled() {
  * 
  * @param {Object} bucket - Firebase Storage bucket
  * @param {string} filePath - Path to the file in storage
+ * @param {string} ownerId - Card owner's uid, whose data key is used with envelope encryption
  * @returns {Promise<string>} Path to encrypted file
  */
-async function encryptStoredImage(bucket, filePath) {
+async function encryptStoredImage(bucket, filePath, ownerId) {
   try {
     const file = bucket.file(filePath);
     const [exists] = await file.exists();
@@ -131,7 +186,7 @@ async function encryptStoredImage(bucket, filePath) {
     const [buffer] = await file.download();
     
     // Encrypt the buffer
-    const encryptedBuffer = encryptImageBuffer(buffer);
+    const encryptedBuffer = encryptImageBuffer(buffer, await getImageDataKey(ownerId));
     
     // Create new filename with .encrypted extension
     const encryptedFilePath = `${filePath}.encrypted`;
@@ -143,7 +198,8 @@ async function encryptStoredImage(bucket, filePath) {
         contentType: 'application/octet-stream',
         metadata: {
           encrypted: 'true',
-          originalPath: filePath
+          originalPath: filePath,
+          keyId: getImageKeyId(encryptedBuffer)
         }
       }
     });
@@ -163,9 +219,10 @@ async function encryptStoredImage(bucket, filePath) {
  * 
  * @param {Object} bucket - Firebase Storage bucket
  * @param {string} encryptedFilePath - Path to encrypted file
+ * @param {string} ownerId - Card owner's uid, for images under their data key
  * @returns {Promise<Buffer>} Decrypted image buffer
  */
-async function getDecryptedImageBuffer(bucket, encryptedFilePath) {
+async function getDecryptedImageBuffer(bucket, encryptedFilePath, ownerId) {
   try {
     logger.info('Attempting to decrypt image from path:', encryptedFilePath);
     logger.debug('Bucket name:', bucket.name);
@@ -191,7 +248,8 @@ async function getDecryptedImageBuffer(bucket, encryptedFilePath) {
     
     // Decrypt and return
     logger.info('Decrypting image buffer...');
-    const decrypted = decryptImageBuffer(encryptedBuffer);
+    const dataKey = parseImageEnvelope(encryptedBuffer).isDataKey && ownerId ? await findDataKey(ownerId) : null;
+    const decrypted = decryptImageBuffer(encryptedBuffer, dataKey);
     logger.debug('Decryption successful, size:', decrypted.length, 'bytes');
     
     return decrypted;
@@ -202,11 +260,62 @@ async function getDecryptedImageBuffer(bucket, encryptedFilePath) {
   }
 }
 
+/**
+ * Re-encrypt a stored encrypted image under the current key, in place: the
+ * owner's data key with envelope encryption, otherwise the active keyring key
+ * Images already under that key are left untouched.
+ * @param {Object} bucket - Firebase Storage bucket
+ * @param {string} encryptedFilePath - Path to encrypted file
+ * @param {string} ownerId - Card owner's uid
+ * @param {Object} [options]
+ * @param {boolean} [options.dryRun] - Only report whether the image needs rotating
+ * @returns {Promise<{rotated: boolean, fromKeyId: string}>}
+ */
+async function rotateStoredImage(bucket, encryptedFilePath, ownerId, { dryRun = false } = {}) {
+  const file = bucket.file(encryptedFilePath);
+  const [exists] = await file.exists();
+
+  if (!exists) {
+    throw new Error(`Encrypted file not found: ${encryptedFilePath}`);
+  }
+
+  const [encryptedBuffer] = await file.download();
+  const { keyId: fromKeyId, isDataKey } = parseImageEnvelope(encryptedBuffer);
+  const dataKey = await getImageDataKey(ownerId);
+  const targetKeyId = dataKey ? dataKey.dekId : getActiveKey().keyId;
+  if (isDataKey === !!dataKey && fromKeyId === targetKeyId) {
+    return { rotated: false, fromKeyId };
+  }
+  if (dryRun) {
+    return { rotated: true, fromKeyId };
+  }
+
+  // Decrypt fully before overwriting, so a bad key never destroys the only copy
+  const sourceKey = isDataKey ? (dataKey || await findDataKey(ownerId)) : null;
+  const reencrypted = encryptImageBuffer(decryptImageBuffer(encryptedBuffer, sourceKey), dataKey);
+  const [metadata] = await file.getMetadata();
+
+  await file.save(reencrypted, {
+    metadata: {
+      contentType: 'application/octet-stream',
+      metadata: {
+        ...(metadata.metadata || {}),
+        encrypted: 'true',
+        keyId: getImageKeyId(reencrypted)
+      }
+    }
+  });
+
+  return { rotated: true, fromKeyId };
+}
+
 module.exports = {
   encryptImageBuffer,
   decryptImageBuffer,
   isEncryptionEnabled,
   encryptStoredImage,
-  getDecryptedImageBuffer
+  getDecryptedImageBuffer,
+  getImageKeyId,
+  rotateStoredImage
 };
 
@@ -0,0 +1,123 @@
+/**
+ * Encryption keyring
+ *
+ * Holds every key that may still be needed to decrypt stored data, and names
+ * the one new data is encrypted under, so keys can be rotated without making
+ * existing ciphertext unreadable.
+ *
+ *   ENCRYPTION_KEYS          - comma-separated "keyId:base64Key" pairs
+ *   ENCRYPTION_ACTIVE_KEY_ID - key used for new ciphertext (defaults to the last in ENCRYPTION_KEYS)
+ *   ENCRYPTION_KEY           - the original single key; registered as LEGACY_KEY_ID
+ *
+ * Ciphertext written before key IDs existed carries no ID and is decrypted
+ * with LEGACY_KEY_ID. Rotate by adding a key to ENCRYPTION_KEYS, making it
+ * active and running `npm run rotate-keys`; retire the old key once that
+ * reports no failures.
+ */
+
+const KEY_LENGTH = 32; // AES-256
+const LEGACY_KEY_ID = 'legacy';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+/**
+ * Decode and check one base64 key
+ * @param {string} keyId - Key ID, for error messages
+ * @param {string} value - Base64 key
+ * @returns {Buffer}
+ */
+function parseKey(keyId, value) {
+  const keyBuffer = Buffer.from(value.trim(), 'base64');
+
+  if (keyBuffer.length !== KEY_LENGTH) {
+    throw new Error(`Encryption key "${keyId}" must be 32 bytes (256 bits). Generate with: node -e "console.log(crypto.randomBytes(32).toString('base64'))"`);
+  }
+
+  return keyBuffer;
+}
+
+/**
+ * Read the keyring from the environment
+ * @returns {{keys: Map<string, Buffer>, activeKeyId: string|null}}
+ */
+function loadKeyring() {
+  const keys = new Map();
+
+  if (process.env.ENCRYPTION_KEY) {
+    keys.set(LEGACY_KEY_ID, parseKey(LEGACY_KEY_ID, process.env.ENCRYPTION_KEY));
+  }
+
+  (process.env.ENCRYPTION_KEYS || '').split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const separator = entry.indexOf(':');
+    const keyId = entry.slice(0, separator);
+    if (separator === -1 || !KEY_ID_PATTERN.test(keyId)) {
+      throw new Error('ENCRYPTION_KEYS entries must look like "keyId:base64Key" (key IDs: letters, digits, _ and -)');
+    }
+    if (keys.has(keyId) && keyId !== LEGACY_KEY_ID) {
+      throw new Error(`Encryption key "${keyId}" is listed twice in ENCRYPTION_KEYS`);
+    }
+    keys.set(keyId, parseKey(keyId, entry.slice(separator + 1)));
+  });
+
+  const keyIds = Array.from(keys.keys());
+  const activeKeyId = process.env.ENCRYPTION_ACTIVE_KEY_ID || keyIds[keyIds.length - 1] || null;
+  if (activeKeyId && !keys.has(activeKeyId)) {
+    throw new Error(`ENCRYPTION_ACTIVE_KEY_ID "${activeKeyId}" is not in the keyring`);
+  }
+
+  return { keys, activeKeyId };
+}
+
+/**
+ * Check whether any encryption key is configured
+ * @returns {boolean}
+ */
+function hasEncryptionKeys() {
+  return !!(process.env.ENCRYPTION_KEY || process.env.ENCRYPTION_KEYS);
+}
+
+/**
+ * Check whether the keyring holds a key
+ * @param {string} keyId - Key ID
+ * @returns {boolean}
+ */
+function hasKey(keyId) {
+  return loadKeyring().keys.has(keyId);
+}
+
+/**
+ * Get the key new data is encrypted under
+ * @returns {{keyId: string, key: Buffer}}
+ */
+function getActiveKey() {
+  const { keys, activeKeyId } = loadKeyring();
+
+  if (!activeKeyId) {
+    throw new Error('No encryption key configured. Set ENCRYPTION_KEYS (or ENCRYPTION_KEY).');
+  }
+
+  return { keyId: activeKeyId, key: keys.get(activeKeyId) };
+}
+
+/**
+ * Get a decrypt key by ID
+ * @param {string} keyId - Key ID from a ciphertext envelope (LEGACY_KEY_ID for unversioned data)
+ * @returns {Buffer}
+ */
+function getDecryptKey(keyId) {
+  const key = loadKeyring().keys.get(keyId);
+
+  if (!key) {
+    throw new Error(`Encryption key "${keyId}" is not in the keyring`);
+  }
+
+  return key;
+}
+
+module.exports = {
+  LEGACY_KEY_ID,
+  KEY_ID_PATTERN,
+  hasEncryptionKeys,
+  hasKey,
+  getActiveKey,
+  getDecryptKey
+};
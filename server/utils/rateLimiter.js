@@ -158,11 +158,42 @@ const cardOperationsLimiter = rateLimit({
   }
 });
 
+/**
+ * Rate limiter for share link passcode attempts
+ * Keyed by share token rather than IP, so guesses spread across many
+ * addresses still count against the same link
+ * Allows 10 attempts per 15 minutes per link
+ */
+const sharePasscodeLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // 10 attempts per 15 minutes
+  keyGenerator: (req) => `share:${req.params.token}`,
+  message: {
+    error: 'Too many passcode attempts',
+    message: 'Too many passcode attempts for this link. Please try again after 15 minutes.',
+    retryAfter: 900
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req, res) => {
+    logger.warn('Share passcode rate limit exceeded:', {
+      ip: req.ip,
+      path: req.path
+    });
+    res.status(429).json({
+      error: 'Too many passcode attempts',
+      message: 'Too many passcode attempts for this link. Please try again after 15 minutes.',
+      retryAfter: 900
+    });
+  }
+});
+
 module.exports = {
   generalLimiter,
   authLimiter,
   extractionLimiter,
   uploadLimiter,
-  cardOperationsLimiter
+  cardOperationsLimiter,
+  sharePasscodeLimiter
 };
 
@@ -0,0 +1,106 @@
+/**
+ * Share link access log
+ * Every public view, image fetch and passcode attempt is written to
+ * shareFolders/{id}/accessLog, and per-link counters are kept on the folder
+ * under accessStats.<shareToken>. Raw IPs are never stored - only a keyed hash,
+ * so repeat visitors can be told apart without identifying them.
+ */
+
+const crypto = require('crypto');
+const { FieldValue, FieldPath } = require('../storage');
+const logger = require('./secureLogger');
+
+const ACCESS_LOG_COLLECTION = 'accessLog';
+
+// Without a configured secret, hashes only stay comparable until the next restart
+const IP_HASH_SECRET = process.env.IP_HASH_SECRET || crypto.randomBytes(32).toString('hex');
+if (!process.env.IP_HASH_SECRET) {
+  logger.warn('IP_HASH_SECRET not set - share access IP hashes will change on restart');
+}
+
+// Checked in order; the first match names the browser family
+const BROWSER_FAMILIES = [
+  [/bot|crawler|spider|preview/i, 'Bot'],
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser/, 'Samsung Internet'],
+  [/Firefox|FxiOS/, 'Firefox'],
+  [/Chrome|CriOS/, 'Chrome'],
+  [/Safari/, 'Safari'],
+  [/curl|wget|python|axios|node-fetch/i, 'Script']
+];
+
+const OS_FAMILIES = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux']
+];
+
+/**
+ * Hash a client IP for the access log
+ * @param {string} ip - Client IP
+ * @returns {string|null} 16 hex characters
+ */
+const hashIp = (ip) => {
+  if (!ip) return null;
+  return crypto.createHmac('sha256', IP_HASH_SECRET).update(ip).digest('hex').slice(0, 16);
+};
+
+/**
+ * Reduce a user-agent string to its browser and OS family
+ * @param {string} userAgent - User-Agent header
+ * @returns {string} e.g. "Chrome on Android"
+ */
+const getUserAgentFamily = (userAgent) => {
+  if (!userAgent) return 'Unknown';
+
+  const browser = BROWSER_FAMILIES.find(([pattern]) => pattern.test(userAgent));
+  const os = OS_FAMILIES.find(([pattern]) => pattern.test(userAgent));
+  const browserName = browser ? browser[1] : 'Other';
+  return os ? `${browserName} on ${os[1]}` : browserName;
+};
+
+/**
+ * Record one public access to a share link
+ * Failures are logged and swallowed so they never break the public response.
+ * @param {FirebaseFirestore.DocumentReference} folderRef - Share folder
+ * @param {string} shareToken - Token used for the access
+ * @param {Object} req - Express request
+ * @param {Object} event
+ * @param {string} event.type - 'view', 'image', 'unlock' or 'unlock_failed'
+ * @param {string[]} [event.cardIds] - Cards returned or whose image was served
+ */
+const recordShareAccess = async (folderRef, shareToken, req, { type, cardIds = [] }) => {
+  try {
+    const timestampNow = FieldValue.serverTimestamp();
+
+    await folderRef.collection(ACCESS_LOG_COLLECTION).add({
+      shareToken,
+      type,
+      cardIds,
+      ipHash: hashIp(req.ip),
+      userAgent: getUserAgentFamily(req.get('User-Agent')),
+      accessedAt: timestampNow
+    });
+
+    if (type === 'view' || type === 'image') {
+      // Tokens may contain '-', so the counter path is built with FieldPath
+      await folderRef.update(
+        new FieldPath('accessStats', shareToken, type === 'view' ? 'views' : 'imageViews'), FieldValue.increment(1),
+        new FieldPath('accessStats', shareToken, 'lastAccessedAt'), timestampNow
+      );
+    }
+  } catch (error) {
+    logger.error('Failed to record share access:', error.message);
+  }
+};
+
+module.exports = {
+  ACCESS_LOG_COLLECTION,
+  hashIp,
+  getUserAgentFamily,
+  recordShareAccess
+};
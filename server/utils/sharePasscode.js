@@ -0,0 +1,93 @@
+/**
+ * Share link passcodes
+ * Passcodes are stored as salted scrypt hashes. Unlocking a link issues a
+ * short-lived access token signed with that hash, so it stops working as soon
+ * as the link is regenerated with a different passcode. View-limited links
+ * without a passcode sign the same tokens with a random per-link secret.
+ */
+
+const crypto = require('crypto');
+const { promisify } = require('util');
+
+const scrypt = promisify(crypto.scrypt);
+
+const SALT_LENGTH = 16; // bytes
+const KEY_LENGTH = 32; // bytes
+const ACCESS_TOKEN_TTL = 60 * 60 * 1000; // 1 hour
+const MAX_PASSCODE_ATTEMPTS = parseInt(process.env.SHARE_PASSCODE_MAX_ATTEMPTS, 10) || 5;
+
+/**
+ * Hash a passcode for storage
+ * @param {string} passcode - Plain passcode
+ * @returns {Promise<string>} "scrypt:<salt>:<hash>" (hex)
+ */
+async function hashPasscode(passcode) {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const key = await scrypt(passcode, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+/**
+ * Check a passcode against a stored hash
+ * @param {string} passcode - Passcode to check
+ * @param {string} storedHash - Value from hashPasscode
+ * @returns {Promise<boolean>} True if the passcode matches
+ */
+async function verifyPasscode(passcode, storedHash) {
+  const [scheme, saltHex, keyHex] = (storedHash || '').split(':');
+  if (scheme !== 'scrypt' || !saltHex || !keyHex || typeof passcode !== 'string') {
+    return false;
+  }
+
+  const expected = Buffer.from(keyHex, 'hex');
+  const key = await scrypt(passcode, Buffer.from(saltHex, 'hex'), expected.length);
+  return crypto.timingSafeEqual(key, expected);
+}
+
+const signAccess = (shareToken, expires, secret) =>
+  crypto.createHmac('sha256', secret).update(`${shareToken}.${expires}`).digest('base64url');
+
+/**
+ * Issue an access token after a successful unlock
+ * @param {string} shareToken - Share link token
+ * @param {string} secret - Stored passcode hash or per-link access secret
+ * @returns {{accessToken: string, expiresAt: Date}}
+ */
+function createAccessToken(shareToken, secret) {
+  const expires = Date.now() + ACCESS_TOKEN_TTL;
+  return {
+    accessToken: `${expires}.${signAccess(shareToken, expires, secret)}`,
+    expiresAt: new Date(expires)
+  };
+}
+
+/**
+ * Check an access token issued by createAccessToken
+ * @param {string} accessToken - Token sent by the viewer
+ * @param {string} shareToken - Share link token
+ * @param {string} secret - Secret the token was signed with
+ * @returns {boolean} True if the token is valid and not expired
+ */
+function verifyAccessToken(accessToken, shareToken, secret) {
+  if (!accessToken || typeof accessToken !== 'string' || !secret) {
+    return false;
+  }
+
+  const [expiresPart, signature] = accessToken.split('.');
+  const expires = parseInt(expiresPart, 10);
+  if (!signature || !expires || expires < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signAccess(shareToken, expires, secret));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+module.exports = {
+  MAX_PASSCODE_ATTEMPTS,
+  hashPasscode,
+  verifyPasscode,
+  createAccessToken,
+  verifyAccessToken
+};
@@ -0,0 +1,97 @@
+/**
+ * Per-link redaction policy for public shares
+ * Each field is revealed, masked (card number only) or omitted, and images
+ * can be withheld entirely. The policy is stored on the share history entry
+ * for the link's token.
+ */
+
+const { maskCardNumber, maskPAN } = require('./encryption');
+
+
+const FIELD_MODES = {
+  cardNumber: ['reveal', 'mask', 'omit'],
+  cardHolderName: ['reveal', 'omit'],
+  expiryDate: ['reveal', 'omit'],
+  cvv: ['reveal', 'omit']
+};
+
+// Links created before redaction policies existed shared everything
+const DEFAULT_REDACTION = {
+  cardNumber: 'reveal',
+  cardHolderName: 'reveal',
+  expiryDate: 'reveal',
+  cvv: 'reveal',
+  images: true
+};
+
+/**
+ * Check a redaction policy from a request body
+ * @param {Object} redaction - Partial policy
+ * @returns {boolean} True if every given field has a supported mode
+ */
+const isValidRedaction = (redaction) => {
+  if (!redaction || typeof redaction !== 'object' || Array.isArray(redaction)) {
+    return false;
+  }
+
+  return Object.entries(redaction).every(([key, value]) => {
+    if (key === 'images') return typeof value === 'boolean';
+    return FIELD_MODES[key] ? FIELD_MODES[key].includes(value) : false;
+  });
+};
+
+/**
+ * Fill in a partial policy with defaults
+ * @param {Object} [redaction] - Partial policy
+ * @returns {Object} Complete policy
+ */
+const normalizeRedaction = (redaction) => ({
+  ...DEFAULT_REDACTION,
+  ...(redaction || {})
+});
+
+/**
+ * Get the policy for a share token from the folder's share history
+ * @param {Object} folderData - Share folder document data
+ * @param {string} token - Share token
+ * @returns {Object} Complete policy
+ */
+const getShareRedaction = (folderData, token) => {
+  const entry = (folderData.shareHistory || []).find(item => item.shareToken === token);
+  return normalizeRedaction(entry?.redaction);
+};
+
+/**
+ * Apply a policy to one field value
+ * Vault ciphertext (zk1:) can't be masked, so it is omitted instead.
+ * Aadhaar numbers are always masked to the last 4 digits (UIDAI guidance).
+ * @param {string} field - Field name
+ * @param {string|null} value - Decrypted value
+ * @param {string} cardType - Card type
+ * @param {Object} redaction - Complete policy
+ * @returns {string|null} Value to share
+ */
+const redactField = (field, value, cardType, redaction) => {
+  if (!value) return null;
+
+  let mode = redaction[field] || 'reveal';
+  if (field === 'cardNumber' && cardType === 'aadhar' && mode === 'reveal') {
+    mode = 'mask';
+  }
+
+  if (mode === 'omit') return null;
+  if (mode === 'mask') {
+    if (value.startsWith('zk1:')) return null;
+    return cardType === 'pan' ? maskPAN(value) : maskCardNumber(value);
+  }
+  return value;
+};
+
+module.exports = {
+  FIELD_MODES,
+  DEFAULT_REDACTION,
+  isValidRedaction,
+  normalizeRedaction,
+  getShareRedaction,
+  redactField
+};
@@ -1,5 +1,7 @@
 const crypto = require('crypto');
 
+const MAX_VIEWS_LIMIT = 100; // Highest view limit a link can be given
+
 /**
  * Generate a secure random share token
  * Format: 32 characters (alphanumeric, URL-safe)
@@ -51,6 +53,17 @@ const calculateExpiry = (duration) => {
   return null;
 };
 
+/**
+ * Parse a view limit for a share link
+ * @param {number|string|null} maxViews - Opens allowed (e.g. 1 for a one-time link)
+ * @returns {number|null} - View limit or null for unlimited
+ */
+const parseMaxViews = (maxViews) => {
+  const views = parseInt(maxViews, 10);
+  if (isNaN(views) || views < 1) return null;
+  return Math.min(views, MAX_VIEWS_LIMIT);
+};
+
 /**
  * Check if share has expired
  */
@@ -73,6 +86,8 @@ module.exports = {
   generateShareToken,
   isValidShareToken,
   calculateExpiry,
+  parseMaxViews,
+  MAX_VIEWS_LIMIT,
   isExpired,
   formatExpiry
 };